@@ -0,0 +1,257 @@
+// A throwaway identity provider for trying SSO locally: OIDC and SAML, any user you type in.
+// Run with `npx tsx scripts/mock-idp.ts` and create the providers it prints. Never expose it.
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import { inflateRawSync } from 'zlib';
+import jwt from 'jsonwebtoken';
+import { SignedXml } from 'xml-crypto';
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 4000);
+const ISSUER = `http://localhost:${PORT}`;
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const KEY_ID = 'mock-idp';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+// Authorization codes waiting to be redeemed at the token endpoint
+const codes = new Map<string, {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  user: { email: string; name: string; groups: string[] };
+}>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function readBody(request: IncomingMessage): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => { body += chunk; });
+    request.on('end', () => resolve(new URLSearchParams(body)));
+    request.on('error', reject);
+  });
+}
+
+function send(response: ServerResponse, status: number, body: unknown, contentType = 'application/json') {
+  response.writeHead(status, { 'Content-Type': contentType });
+  response.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+// The sign-in form: whatever is entered becomes the signed-in user
+function userForm(action: string, hidden: Record<string, string>): string {
+  const fields = Object.entries(hidden)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('');
+
+  return `<!doctype html><html><body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+<h2>Mock identity provider</h2>
+<form method="post" action="${action}">${fields}
+<p><label>Email<br><input name="email" type="email" value="alice@example.com" required></label></p>
+<p><label>Name<br><input name="name" value="Alice Example"></label></p>
+<p><label>Groups (comma separated)<br><input name="groups" value="developers"></label></p>
+<p><button type="submit">Sign in</button></p>
+</form></body></html>`;
+}
+
+function formUser(form: URLSearchParams) {
+  return {
+    email: form.get('email') || 'alice@example.com',
+    name: form.get('name') || '',
+    groups: (form.get('groups') || '').split(',').map((group) => group.trim()).filter(Boolean),
+  };
+}
+
+function samlResponse(
+  request: { id: string; acsUrl: string; audience: string },
+  user: { email: string; name: string; groups: string[] }
+): string {
+  const now = new Date();
+  const later = new Date(now.getTime() + 5 * 60 * 1000).toISOString();
+  const assertionId = `_${randomBytes(16).toString('hex')}`;
+
+  const attribute = (name: string, values: string[]) =>
+    `<saml:Attribute Name="${name}">${values.map((value) => `<saml:AttributeValue>${escapeHtml(value)}</saml:AttributeValue>`).join('')}</saml:Attribute>`;
+
+  const assertion = `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="${assertionId}" Version="2.0" IssueInstant="${now.toISOString()}">`
+    + `<saml:Issuer>${ISSUER}</saml:Issuer>`
+    + `<saml:Subject><saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${escapeHtml(user.email)}</saml:NameID>`
+    + `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">`
+    + `<saml:SubjectConfirmationData InResponseTo="${request.id}" NotOnOrAfter="${later}" Recipient="${escapeHtml(request.acsUrl)}"/>`
+    + `</saml:SubjectConfirmation></saml:Subject>`
+    + `<saml:Conditions NotBefore="${now.toISOString()}" NotOnOrAfter="${later}">`
+    + `<saml:AudienceRestriction><saml:Audience>${escapeHtml(request.audience)}</saml:Audience></saml:AudienceRestriction></saml:Conditions>`
+    + `<saml:AuthnStatement AuthnInstant="${now.toISOString()}" SessionIndex="${assertionId}"><saml:AuthnContext>`
+    + `<saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef>`
+    + `</saml:AuthnContext></saml:AuthnStatement>`
+    + `<saml:AttributeStatement>${attribute('email', [user.email])}${attribute('displayName', [user.name])}${attribute('groups', user.groups)}</saml:AttributeStatement>`
+    + `</saml:Assertion>`;
+
+  const signature = new SignedXml({
+    privateKey: privateKeyPem,
+    canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+    signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+  });
+  signature.addReference({
+    xpath: `//*[@ID='${assertionId}']`,
+    digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+    transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', 'http://www.w3.org/2001/10/xml-exc-c14n#'],
+  });
+  signature.computeSignature(assertion, {
+    location: { reference: `//*[local-name()='Issuer']`, action: 'after' },
+  });
+
+  return `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion"`
+    + ` ID="_${randomBytes(16).toString('hex')}" Version="2.0" IssueInstant="${now.toISOString()}"`
+    + ` Destination="${escapeHtml(request.acsUrl)}" InResponseTo="${request.id}">`
+    + `<saml:Issuer>${ISSUER}</saml:Issuer>`
+    + `<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>`
+    + signature.getSignedXml()
+    + `</samlp:Response>`;
+}
+
+// Reads what the response has to echo back from a redirect-binding AuthnRequest
+function parseAuthnRequest(encoded: string) {
+  const xml = inflateRawSync(Buffer.from(encoded, 'base64')).toString();
+  const match = (pattern: RegExp) => xml.match(pattern)?.[1] ?? '';
+
+  return {
+    id: match(/\sID="([^"]+)"/),
+    acsUrl: match(/AssertionConsumerServiceURL="([^"]+)"/),
+    audience: match(/<(?:saml2?:)?Issuer[^>]*>([^<]+)</),
+  };
+}
+
+async function handle(request: IncomingMessage, response: ServerResponse) {
+  const url = new URL(request.url || '/', ISSUER);
+
+  switch (`${request.method} ${url.pathname}`) {
+    case 'GET /.well-known/openid-configuration':
+      return send(response, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+      });
+
+    case 'GET /jwks':
+      return send(response, 200, {
+        keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }],
+      });
+
+    case 'GET /authorize':
+      return send(response, 200, userForm('/authorize', Object.fromEntries(url.searchParams)), 'text/html');
+
+    case 'POST /authorize': {
+      const form = await readBody(request);
+      const code = randomBytes(16).toString('hex');
+      codes.set(code, {
+        clientId: form.get('client_id') || '',
+        redirectUri: form.get('redirect_uri') || '',
+        nonce: form.get('nonce') || undefined,
+        codeChallenge: form.get('code_challenge') || undefined,
+        user: formUser(form),
+      });
+
+      const redirect = new URL(form.get('redirect_uri') || APP_URL);
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', form.get('state') || '');
+      response.writeHead(302, { Location: redirect.toString() });
+      return response.end();
+    }
+
+    case 'POST /token': {
+      const form = await readBody(request);
+      const grant = codes.get(form.get('code') || '');
+      codes.delete(form.get('code') || '');
+
+      const verifier = form.get('code_verifier') || '';
+      const challengeMatches = !grant?.codeChallenge
+        || createHash('sha256').update(verifier).digest('base64url') === grant.codeChallenge;
+
+      if (!grant || grant.redirectUri !== form.get('redirect_uri') || !challengeMatches) {
+        return send(response, 400, { error: 'invalid_grant' });
+      }
+
+      const idToken = jwt.sign({
+        email: grant.user.email,
+        email_verified: true,
+        name: grant.user.name,
+        groups: grant.user.groups,
+        nonce: grant.nonce,
+      }, privateKeyPem, {
+        algorithm: 'RS256',
+        keyid: KEY_ID,
+        issuer: ISSUER,
+        audience: grant.clientId,
+        subject: createHash('sha256').update(grant.user.email).digest('hex').slice(0, 24),
+        expiresIn: '5m',
+      });
+
+      return send(response, 200, {
+        access_token: randomBytes(16).toString('hex'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken,
+      });
+    }
+
+    case 'GET /saml/sso':
+      return send(response, 200, userForm('/saml/sso', {
+        SAMLRequest: url.searchParams.get('SAMLRequest') || '',
+        RelayState: url.searchParams.get('RelayState') || '',
+      }), 'text/html');
+
+    case 'POST /saml/sso': {
+      const form = await readBody(request);
+      const authnRequest = parseAuthnRequest(form.get('SAMLRequest') || '');
+      const encoded = Buffer.from(samlResponse(authnRequest, formUser(form))).toString('base64');
+
+      // Posts the response to the app's assertion consumer service, as the POST binding does
+      return send(response, 200, `<!doctype html><html><body onload="document.forms[0].submit()">
+<form method="post" action="${escapeHtml(authnRequest.acsUrl)}">
+<input type="hidden" name="SAMLResponse" value="${encoded}">
+<input type="hidden" name="RelayState" value="${escapeHtml(form.get('RelayState') || '')}">
+<noscript><button type="submit">Continue</button></noscript>
+</form></body></html>`, 'text/html');
+    }
+
+    default:
+      return send(response, 404, { error: 'not_found' });
+  }
+}
+
+createServer((request, response) => {
+  handle(request, response).catch((error) => {
+    console.error(error);
+    send(response, 500, { error: 'server_error' });
+  });
+}).listen(PORT, () => {
+  console.log(`Mock identity provider on ${ISSUER}`);
+  console.log('\nCreate providers with POST /api/sso-providers (as a SUPER_ADMIN), for example:\n');
+  console.log(JSON.stringify({
+    name: 'Mock OIDC',
+    slug: 'mock-oidc',
+    protocol: 'OIDC',
+    issuer: ISSUER,
+    clientId: 'limahost',
+    roleMappings: { admins: 'ADMIN' },
+  }, null, 2));
+  console.log(JSON.stringify({
+    name: 'Mock SAML',
+    slug: 'mock-saml',
+    protocol: 'SAML',
+    entryPoint: `${ISSUER}/saml/sso`,
+    idpIssuer: ISSUER,
+    idpCertificate: publicKeyPem,
+  }, null, 2));
+  console.log('\nThe keys are generated on every start, so update idpCertificate after a restart.');
+});
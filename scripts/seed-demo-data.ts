@@ -1,5 +1,5 @@
 import { db } from '../src/lib/db';
-import { UserRole, BillingPlan, BillingCycle, AppStatus, DeploymentStatus, BackupStatus, SnapshotStatus } from '@prisma/client';
+import { UserRole, BillingPlan, BillingCycle, AppStatus, DeploymentStatus, BackupStatus, SnapshotStatus, AgentStatus } from '@prisma/client';
 import { hashPassword } from '../src/lib/auth';
 
 async function seedDemoData() {
@@ -72,6 +72,41 @@ async function seedDemoData() {
 
     console.log(`✅ Created billing info for ${billingInfo.length} users`);
 
+    // Create agents
+    const agents = await Promise.all([
+      db.agent.create({
+        data: {
+          id: 'agent-localhost',
+          name: 'Local Development Agent',
+          host: 'localhost',
+          ipAddress: '127.0.0.1',
+          status: AgentStatus.OFFLINE,
+          version: '1.0.0',
+          capabilities: JSON.stringify(['qemu', 'vz', 'containerd']),
+          location: 'local',
+        },
+      }),
+      db.agent.create({
+        data: {
+          name: 'Primary Agent',
+          host: 'server1.example.com',
+          ipAddress: '192.168.1.100',
+          status: AgentStatus.HEALTHY,
+          version: '1.0.0',
+          capabilities: JSON.stringify(['qemu', 'vz', 'containerd']),
+          location: 'us-east-1',
+          lastHeartbeat: new Date(),
+          totalVms: 4,
+          runningVms: 3,
+          cpuUsage: 45,
+          memoryUsage: 60,
+          diskUsage: 35,
+        },
+      }),
+    ]);
+
+    console.log(`✅ Created ${agents.length} agents`);
+
     // Create demo apps
     const apps = await Promise.all([
       db.app.create({
@@ -180,6 +215,7 @@ async function seedDemoData() {
         data: {
           appId: apps[0].id,
           status: DeploymentStatus.SUCCESS,
+          config: apps[0].config,
           version: 'v1.2.3',
           logs: 'Deployment completed successfully',
         },
@@ -188,6 +224,7 @@ async function seedDemoData() {
         data: {
           appId: apps[1].id,
           status: DeploymentStatus.SUCCESS,
+          config: apps[1].config,
           version: 'v2.1.0',
           logs: 'API deployment successful',
         },
@@ -196,6 +233,7 @@ async function seedDemoData() {
         data: {
           appId: apps[2].id,
           status: DeploymentStatus.SUCCESS,
+          config: apps[2].config,
           version: 'v15.0',
           logs: 'Database initialized and running',
         },
@@ -411,27 +449,30 @@ async function seedDemoData() {
 
     console.log(`✅ Created ${auditLogs.length} audit logs`);
 
-    // Create sessions
+    // Create sessions, so the device list has something in it; log in for a usable token
     const sessions = await Promise.all([
       db.session.create({
         data: {
           userId: users[0].id,
-          token: 'demo-token-admin',
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+          userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15',
+          ipAddress: '203.0.113.10',
+          expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
         },
       }),
       db.session.create({
         data: {
           userId: users[1].id,
-          token: 'demo-token-john',
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+          userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0',
+          ipAddress: '198.51.100.24',
+          expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
         },
       }),
       db.session.create({
         data: {
           userId: users[2].id,
-          token: 'demo-token-sarah',
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+          userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+          ipAddress: '192.0.2.57',
+          expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
         },
       }),
     ]);
@@ -443,10 +484,6 @@ async function seedDemoData() {
     console.log('Super Admin: admin@limahost.com / admin123');
     console.log('Regular User: john@example.com / john123');
     console.log('Admin User: sarah@techstart.com / sarah123');
-    console.log('\n🔑 Demo Tokens (for testing):');
-    console.log('Admin: demo-token-admin');
-    console.log('John: demo-token-john');
-    console.log('Sarah: demo-token-sarah');
 
   } catch (error) {
     console.error('❌ Error seeding demo data:', error);
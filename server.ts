@@ -1,5 +1,16 @@
 // server.ts - Next.js Standalone + Socket.IO
 import { setupSocket } from '@/lib/socket';
+import { setupAgentGateway } from '@/lib/agent-gateway';
+import { setupTerminal } from '@/lib/terminal';
+import { startUsageMetering } from '@/lib/metering';
+import { startInvoicing } from '@/lib/invoices';
+import { startDunning } from '@/lib/subscriptions';
+import { startBudgetEvaluator } from '@/lib/budgets';
+import { syncBuiltinRoles } from '@/lib/permissions';
+import { startSessionCleanup } from '@/lib/sessions';
+import { applyApiRateLimit, resolveClientAddress, startRateLimitCleanup } from '@/lib/rate-limit';
+import { sealAuditLogs } from '@/lib/audit-chain';
+import { startAuditLogArchiving } from '@/lib/audit-archive';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import next from 'next';
@@ -20,14 +31,37 @@ async function createCustomServer() {
     });
 
     await nextApp.prepare();
+
+    // Role bindings reference the built-in roles, so their rows must match src/lib/permissions.ts
+    await syncBuiltinRoles();
+
+    // Entries written before the hash chain existed join it ahead of anything new
+    const sealed = await sealAuditLogs();
+    if (sealed > 0) {
+      console.log(`> Added ${sealed} audit log entries to the hash chain`);
+    }
     const handle = nextApp.getRequestHandler();
 
     // Create HTTP server that will handle both Next.js and Socket.IO
-    const server = createServer((req, res) => {
+    const server = createServer(async (req, res) => {
       // Skip socket.io requests from Next.js handler
       if (req.url?.startsWith('/api/socketio')) {
         return;
       }
+
+      // Routes identify clients by x-forwarded-for, so replace whatever the client sent with the address we trust
+      const clientAddress = resolveClientAddress(req);
+      if (clientAddress) {
+        req.headers['x-forwarded-for'] = clientAddress;
+      } else {
+        delete req.headers['x-forwarded-for'];
+      }
+
+      // Every API request counts against its caller's quota before reaching a route
+      if (req.url?.startsWith('/api/') && !await applyApiRateLimit(req, res)) {
+        return;
+      }
+
       handle(req, res);
     });
 
@@ -42,10 +76,38 @@ async function createCustomServer() {
 
     setupSocket(io);
 
+    // Interactive VM terminals, relayed to agents through the gateway below
+    setupTerminal(io);
+
+    // Setup agent gateway (plain WebSocket, used by src/agent/agent.js)
+    setupAgentGateway(server);
+
+    // Sample usage gauges and keep the hourly and daily rollups current
+    startUsageMetering();
+
+    // Close finished billing periods into invoices and collect payment
+    startInvoicing();
+
+    // Retry failed payments and suspend accounts past the grace period
+    startDunning();
+
+    // Raise budget alerts and enforce hard caps
+    startBudgetEvaluator();
+
+    // Delete login sessions that can no longer be refreshed
+    startSessionCleanup();
+
+    // Forget rate limit windows that have ended
+    startRateLimitCleanup();
+
+    // Move audit log entries past retention into compressed archive files
+    startAuditLogArchiving();
+
     // Start the server
     server.listen(currentPort, hostname, () => {
       console.log(`> Ready on http://${hostname}:${currentPort}`);
       console.log(`> Socket.IO server running at ws://${hostname}:${currentPort}/api/socketio`);
+      console.log(`> Agent gateway running at ws://${hostname}:${currentPort}/agent`);
     });
 
   } catch (err) {
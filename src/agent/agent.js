@@ -17,7 +17,7 @@
 
 const fs = require('fs').promises;
 const path = require('path');
-const { spawn, exec } = require('child_process');
+const { spawn, exec, execFile } = require('child_process');
 const crypto = require('crypto');
 const https = require('https');
 const http = require('http');
@@ -26,6 +26,11 @@ const os = require('os');
 const pidusage = require('pidusage');
 const dockerode = require('dockerode');
 const yaml = require('js-yaml');
+const pty = require('node-pty');
+
+// Lima instance names, see getAppVmName() in src/lib/apps.ts
+const VM_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+const LIMACTL_TIMEOUT = 5 * 60 * 1000;
 
 class LimaAgent {
   constructor(config = {}) {
@@ -44,15 +49,39 @@ class LimaAgent {
       vmDataDir: config.vmDataDir || path.join(os.homedir(), '.lima'),
       maxConcurrentOperations: config.maxConcurrentOperations || 3,
       
-      // Security
+      // Security: binaries execute_command may run inside a VM, checked on
+      // every request regardless of what the control plane already allowed
       allowedCommands: config.allowedCommands || [
-        'limactl',
-        'docker',
         'nerdctl',
-        'ssh',
+        'docker',
+        'curl',
         'rsync',
-        'tar'
+        'tar',
+        'ls',
+        'cat',
+        'head',
+        'tail',
+        'grep',
+        'ps',
+        'df',
+        'du',
+        'free',
+        'uptime',
+        'systemctl',
+        'journalctl'
       ],
+      deniedCommandPatterns: config.deniedCommandPatterns || [
+        '^(sudo|su|doas)(\\s|$)',
+        '^rm\\s+(.*\\s)?-[A-Za-z]*[rR][A-Za-z]*\\s+(.*\\s)?/(\\s|$)',
+        '^(dd|mkfs(\\.\\w+)?|shutdown|reboot|poweroff|halt)(\\s|$)'
+      ],
+      // Roles the control plane may request root or another user for; SYSTEM is its own deployment pipeline
+      rootCommandRoles: config.rootCommandRoles || ['ADMIN', 'SUPER_ADMIN', 'SYSTEM'],
+      // Roles whose terminals log in as the default user, who has passwordless sudo; others get
+      // restrictedTerminalUser, an account without sudo created on first use
+      privilegedTerminalRoles: config.privilegedTerminalRoles || ['ADMIN', 'SUPER_ADMIN'],
+      restrictedTerminalUser: config.restrictedTerminalUser || 'limahost',
+      maxCommandTimeout: config.security?.maxCommandTimeout || 300000, // 5 minutes
       
       // Logging
       logLevel: config.logLevel || 'info',
@@ -64,6 +93,7 @@ class LimaAgent {
     // Initialize state
     this.vms = new Map();
     this.operations = new Map();
+    this.terminals = new Map();
     this.isRunning = false;
     this.lastHeartbeat = null;
     this.metrics = {
@@ -176,7 +206,7 @@ class LimaAgent {
     
     // Test connectivity to control plane
     try {
-      await this.makeControlPlaneRequest('/health', 'GET');
+      await this.makeControlPlaneRequest('/api/health', 'GET');
     } catch (error) {
       throw new Error(`Cannot connect to control plane: ${error.message}`);
     }
@@ -306,6 +336,8 @@ class LimaAgent {
     
     this.ws.on('close', () => {
       this.log('warn', 'WebSocket connection closed, attempting to reconnect...');
+      // Terminal sessions cannot be relayed without the control plane connection
+      this.closeAllTerminals();
       setTimeout(() => this.setupControlPlaneCommunication(), 5000);
     });
     
@@ -325,7 +357,7 @@ class LimaAgent {
         operations: Array.from(this.operations.values())
       };
       
-      await this.makeControlPlaneRequest('/agents/heartbeat', 'POST', heartbeat);
+      await this.makeControlPlaneRequest('/api/agents/heartbeat', 'POST', heartbeat);
       this.lastHeartbeat = new Date();
       
       this.log('debug', 'Heartbeat sent to control plane');
@@ -439,7 +471,7 @@ class LimaAgent {
   
   async notifyVmStatusChange(vmName, vmInfo) {
     try {
-      await this.makeControlPlaneRequest('/vms/status-change', 'POST', {
+      await this.makeControlPlaneRequest('/api/agents/vm-status', 'POST', {
         agentId: this.config.agentId,
         vmName,
         status: vmInfo.status,
@@ -481,13 +513,31 @@ class LimaAgent {
       case 'backup_vm':
         await this.handleBackupVm(message);
         break;
+      case 'scale_vm':
+        await this.handleScaleVm(message);
+        break;
+      case 'snapshot_vm':
+        await this.handleSnapshotVm(message);
+        break;
+      case 'terminal_open':
+        await this.handleTerminalOpen(message);
+        break;
+      case 'terminal_input':
+        this.handleTerminalInput(message);
+        break;
+      case 'terminal_resize':
+        this.handleTerminalResize(message);
+        break;
+      case 'terminal_close':
+        this.handleTerminalClose(message);
+        break;
       default:
         this.log('warn', 'Unknown message type', { type: message.type });
     }
   }
   
   async handleCreateVm(message) {
-    const { vmName, template, config, requestId } = message;
+    const { vmName, template, config, limaConfig, requestId } = message;
     
     try {
       this.log('info', 'Creating VM', { vmName, template });
@@ -498,7 +548,7 @@ class LimaAgent {
       }
       
       // Generate Lima YAML from template
-      const limaYaml = await this.generateLimaYaml(template, config);
+      const limaYaml = await this.generateLimaYaml(template, config, limaConfig);
       
       // Write YAML file
       const yamlPath = path.join(this.config.vmDataDir, `${vmName}.yaml`);
@@ -536,9 +586,14 @@ class LimaAgent {
     }
   }
   
-  async generateLimaYaml(template, config) {
-    // This is a simplified implementation
-    // In a real agent, you would have proper template management
+  async generateLimaYaml(template, config, limaConfig) {
+    // The control plane renders its lima-templates registry into a complete,
+    // validated Lima config with the instance name and resources filled in
+    if (limaConfig) {
+      return yaml.dump(limaConfig, { lineWidth: -1, noRefs: true });
+    }
+    
+    // Older control planes only send the template name and resources
     const baseTemplate = {
       name: config.name,
       arch: 'x86_64',
@@ -726,41 +781,119 @@ class LimaAgent {
   }
   
   async handleExecuteCommand(message) {
-    const { vmName, command, timeout = 30000, requestId } = message;
+    const { vmName, requestId } = message;
     
     try {
-      this.log('info', 'Executing command', { vmName, command });
-      
       if (!this.vms.has(vmName)) {
         throw new Error(`VM ${vmName} not found`);
       }
       
+      const { argv, runAs, environment, workingDirectory, timeout } = this.checkCommandPolicy(message);
+      const command = argv.join(' ');
+      
+      this.log('info', 'Executing command', { vmName, command, runAs, role: message.role });
+      
       const operationId = this.createOperation('execute_command', vmName, requestId);
       
-      const limactlCmd = `limactl shell ${vmName} -- ${command}`;
+      // No host shell is involved: limactl quotes each argument for the guest
+      const args = ['shell'];
+      if (workingDirectory) {
+        args.push('--workdir', workingDirectory);
+      }
+      args.push(vmName, '--');
+      if (runAs === 'root') {
+        args.push('sudo');
+      } else if (runAs !== 'default') {
+        args.push('sudo', '-u', runAs);
+      }
+      const envAssignments = Object.entries(environment).map(([name, value]) => `${name}=${value}`);
+      if (envAssignments.length > 0) {
+        args.push('env', ...envAssignments);
+      }
+      args.push(...argv);
       
-      const child = exec(limactlCmd, { timeout }, (error, stdout, stderr) => {
-        if (error) {
+      execFile('limactl', args, { timeout, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+        // Only a command that never ran or was cut short fails; a nonzero exit is a result like any other
+        if (error && (error.killed || typeof error.code === 'string')) {
           this.failOperation(operationId, error.message);
-          this.log('error', 'Command execution failed', { vmName, command, error: stderr });
+          this.log('error', 'Command execution failed', { vmName, command, error: error.message });
           return;
         }
         
+        const exitCode = error ? error.code ?? 1 : 0;
         this.completeOperation(operationId, {
           stdout,
           stderr,
-          exitCode: 0
+          exitCode
         });
         
-        this.log('info', 'Command executed successfully', { vmName, command });
+        this.log('info', 'Command executed', { vmName, command, exitCode });
       });
       
     } catch (error) {
-      this.log('error', 'Failed to handle execute command', { vmName, command, error: error.message });
+      this.log('error', 'Failed to handle execute command', { vmName, error: error.message });
       this.sendErrorResponse(requestId, error.message);
     }
   }
   
+  // Host-local command policy; rejections are prefixed so the control plane can audit them
+  checkCommandPolicy(message) {
+    const reject = (reason) => {
+      throw new Error(`Policy violation: ${reason}`);
+    };
+    
+    let argv = message.argv;
+    if (!Array.isArray(argv)) {
+      // Older control planes send a single command string
+      if (typeof message.command !== 'string' || !message.command.trim()) {
+        reject('no command given');
+      }
+      if (/[;&|`$<>(){}[\]\\'"*?~!#\n\r\0]/.test(message.command)) {
+        reject('shell metacharacters are not allowed');
+      }
+      argv = message.command.trim().split(/\s+/);
+    }
+    
+    if (argv.length === 0 || argv.some(arg => typeof arg !== 'string' || /[\n\r\0]/.test(arg))) {
+      reject('invalid command arguments');
+    }
+    
+    const binary = argv[0];
+    if (binary.includes('/') || !this.config.allowedCommands.includes(binary)) {
+      reject(`command ${binary} is not allowed on this host`);
+    }
+    
+    const command = argv.join(' ');
+    if (this.config.deniedCommandPatterns.some(pattern => new RegExp(pattern).test(command))) {
+      reject(`command ${binary} with these arguments is denied on this host`);
+    }
+    
+    const runAs = message.runAs || 'default';
+    if (runAs !== 'default' && !/^[a-z_][a-z0-9_-]{0,31}$/.test(runAs)) {
+      reject(`invalid user ${runAs}`);
+    }
+    if (runAs !== 'default' && !this.config.rootCommandRoles.includes(message.role)) {
+      reject(`running commands as ${runAs === 'root' ? 'root' : 'another user'} requires an administrator`);
+    }
+    
+    const environment = message.environment || {};
+    for (const [name, value] of Object.entries(environment)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || typeof value !== 'string' || /[\n\r\0]/.test(value)) {
+        reject(`invalid environment variable ${name}`);
+      }
+    }
+    
+    const workingDirectory = message.workingDirectory;
+    if (workingDirectory && !/^\/[A-Za-z0-9._\/-]*$/.test(workingDirectory)) {
+      reject('working directory must be an absolute path');
+    }
+    
+    const timeout = Math.min(parseInt(message.timeout) || 30000, this.config.maxCommandTimeout);
+    
+    return { argv, runAs, environment, workingDirectory, timeout };
+  }
+
+  
   async handleGetVmInfo(message) {
     const { vmName, requestId } = message;
     
@@ -837,6 +970,211 @@ class LimaAgent {
     }
   }
   
+  async handleScaleVm(message) {
+    const { vmName, cpus, memory, disk, requestId } = message;
+
+    try {
+      this.log('info', 'Scaling VM', { vmName, cpus, memory, disk });
+
+      if (typeof vmName !== 'string' || !VM_NAME_PATTERN.test(vmName)) {
+        throw new Error(`Invalid VM name: ${vmName}`);
+      }
+      if (!this.vms.has(vmName)) {
+        throw new Error(`VM ${vmName} not found`);
+      }
+
+      const resources = { cpus, memory, disk };
+      const editArgs = [];
+      for (const [name, value] of Object.entries(resources)) {
+        if (value === undefined || value === null) {
+          continue;
+        }
+        if (!Number.isInteger(Number(value)) || Number(value) < 1) {
+          throw new Error(`Invalid ${name}: ${value}`);
+        }
+        editArgs.push(`--${name}`, String(Number(value)));
+      }
+
+      const operationId = this.createOperation('scale_vm', vmName, requestId);
+
+      // Lima applies resource changes on the next boot, so stop, edit and start again
+      this.runLimactl(['stop', vmName])
+        .then(() => this.runLimactl(['edit', vmName, ...editArgs]))
+        .then(() => this.runLimactl(['start', vmName]))
+        .then(async () => {
+          try {
+            const vmInfo = await this.getVmInfo(vmName);
+            this.vms.set(vmName, vmInfo);
+            this.updateVmMetrics();
+
+            this.completeOperation(operationId, { vmInfo });
+            this.log('info', 'VM scaled successfully', { vmName });
+          } catch (loadError) {
+            this.failOperation(operationId, loadError.message);
+            this.log('error', 'Failed to load VM info after scale', { vmName, error: loadError.message });
+          }
+        }, (error) => {
+          this.failOperation(operationId, error.message);
+          this.log('error', 'Failed to scale VM', { vmName, error: error.message });
+        });
+
+    } catch (error) {
+      this.log('error', 'Failed to handle scale VM', { vmName, error: error.message });
+      this.sendErrorResponse(requestId, error.message);
+    }
+  }
+
+  async handleSnapshotVm(message) {
+    const { vmName, tag, requestId } = message;
+
+    try {
+      this.log('info', 'Creating VM snapshot', { vmName, tag });
+
+      if (!this.vms.has(vmName)) {
+        throw new Error(`VM ${vmName} not found`);
+      }
+
+      if (!/^[a-zA-Z0-9_.-]+$/.test(tag || '')) {
+        throw new Error(`Invalid snapshot tag: ${tag}`);
+      }
+
+      const operationId = this.createOperation('snapshot_vm', vmName, requestId);
+
+      const limactlCmd = `limactl snapshot create ${vmName} --tag ${tag}`;
+
+      exec(limactlCmd, async (error, stdout, stderr) => {
+        if (error) {
+          this.failOperation(operationId, error.message);
+          this.log('error', 'Failed to snapshot VM', { vmName, error: stderr });
+          return;
+        }
+
+        this.completeOperation(operationId, {
+          tag,
+          size: await this.getBackupSize(path.join(this.config.vmDataDir, vmName, 'diffdisk'))
+        });
+
+        this.log('info', 'VM snapshot created successfully', { vmName, tag });
+      });
+
+    } catch (error) {
+      this.log('error', 'Failed to handle snapshot VM', { vmName, error: error.message });
+      this.sendErrorResponse(requestId, error.message);
+    }
+  }
+
+  async handleTerminalOpen(message) {
+    const { sessionId, vmName, cols = 80, rows = 24, requestId } = message;
+
+    try {
+      this.log('info', 'Opening terminal session', { sessionId, vmName });
+
+      if (!this.vms.has(vmName)) {
+        throw new Error(`VM ${vmName} not found`);
+      }
+
+      if (this.terminals.has(sessionId)) {
+        throw new Error(`Terminal session ${sessionId} already exists`);
+      }
+
+      // Only the roles allowed root keep the default user, whatever the control plane asked for
+      const privileged = message.runAs === 'default' && this.config.privilegedTerminalRoles.includes(message.role);
+      const args = ['shell', vmName];
+      if (!privileged) {
+        await this.ensureRestrictedTerminalUser(vmName);
+        args.push('--', 'sudo', '-i', '-u', this.config.restrictedTerminalUser);
+      }
+
+      // Spawned without a shell, so vmName is never interpreted by the host
+      const term = pty.spawn('limactl', args, {
+        name: 'xterm-256color',
+        cols,
+        rows,
+        cwd: os.homedir(),
+        env: process.env
+      });
+
+      this.terminals.set(sessionId, term);
+
+      term.onData((data) => {
+        this.sendStreamMessage('terminal_output', { sessionId, data });
+      });
+
+      term.onExit(({ exitCode, signal }) => {
+        this.terminals.delete(sessionId);
+        this.sendStreamMessage('terminal_exit', { sessionId, exitCode, signal });
+        this.log('info', 'Terminal session ended', { sessionId, vmName, exitCode });
+      });
+
+      this.sendResponse(requestId, { sessionId, pid: term.pid });
+    } catch (error) {
+      this.log('error', 'Failed to open terminal session', { sessionId, vmName, error: error.message });
+      this.sendErrorResponse(requestId, error.message);
+    }
+  }
+
+  // No host shell is involved, so arguments reach limactl exactly as given
+  runLimactl(args, timeout = LIMACTL_TIMEOUT) {
+    return new Promise((resolve, reject) => {
+      execFile('limactl', args, { timeout }, (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`limactl ${args[0]} failed: ${stderr.trim() || error.message}`));
+          return;
+        }
+        resolve(stdout);
+      });
+    });
+  }
+
+  // useradd exits with 9 when the account already exists
+  ensureRestrictedTerminalUser(vmName) {
+    const user = this.config.restrictedTerminalUser;
+    const args = ['shell', vmName, '--', 'sudo', 'useradd', '--create-home', '--shell', '/bin/bash', user];
+
+    return new Promise((resolve, reject) => {
+      execFile('limactl', args, { timeout: 30000 }, (error, stdout, stderr) => {
+        if (error && error.code !== 9) {
+          reject(new Error(`Could not create terminal user ${user}: ${stderr || error.message}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  handleTerminalInput(message) {
+    const term = this.terminals.get(message.sessionId);
+    if (term && typeof message.data === 'string') {
+      term.write(message.data);
+    }
+  }
+
+  handleTerminalResize(message) {
+    const term = this.terminals.get(message.sessionId);
+    if (term && message.cols > 0 && message.rows > 0) {
+      term.resize(message.cols, message.rows);
+    }
+  }
+
+  handleTerminalClose(message) {
+    const term = this.terminals.get(message.sessionId);
+    if (term) {
+      term.kill();
+    }
+  }
+
+  closeAllTerminals() {
+    for (const term of this.terminals.values()) {
+      term.kill();
+    }
+  }
+
+  sendStreamMessage(type, data) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type, data }));
+    }
+  }
+
   async stopVmForBackup(vmName) {
     return new Promise((resolve, reject) => {
       exec(`limactl stop ${vmName}`, (error, stdout, stderr) => {
@@ -918,6 +1256,15 @@ class LimaAgent {
   }
   
   async sendOperationUpdate(operation) {
+    // Operations started over WebSocket are answered on the same channel,
+    // so the control plane can match the result to the waiting requestId
+    if (operation.requestId && this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({
+        type: 'operation_update',
+        data: operation
+      }));
+    }
+
     try {
       await this.makeControlPlaneRequest('/operations/update', 'POST', {
         agentId: this.config.agentId,
@@ -939,7 +1286,8 @@ class LimaAgent {
           'command_execution',
           'backup_restore',
           'metrics_collection',
-          'log_aggregation'
+          'log_aggregation',
+          'terminal'
         ],
         hostInfo: {
           hostname: os.hostname(),
@@ -1045,6 +1393,8 @@ class LimaAgent {
     if (this.metricsInterval) clearInterval(this.metricsInterval);
     if (this.vmMonitorInterval) clearInterval(this.vmMonitorInterval);
     
+    this.closeAllTerminals();
+
     // Close WebSocket
     if (this.ws) {
       this.ws.close();
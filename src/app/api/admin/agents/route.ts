@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/middleware'
+import { listAdminAgents } from '@/lib/admin'
+
+// Every agent with whether it is connected and how many apps it hosts
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authorize('agent:read')(request)
+    if (authError) {
+      return authError
+    }
+
+    const agents = await listAdminAgents()
+
+    return NextResponse.json({
+      success: true,
+      data: agents,
+      total: agents.length
+    })
+  } catch (error) {
+    console.error('Error fetching agents:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch agents' },
+      { status: 500 }
+    )
+  }
+}
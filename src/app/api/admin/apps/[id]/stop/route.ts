@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/middleware'
+import { getRequestMetadata } from '@/lib/audit'
+import { AdminError, adminErrorResponse, forceStopApp, serializeAdminApp } from '@/lib/admin'
+import { z } from 'zod'
+
+const stopAppSchema = z.object({
+  reason: z.string().max(500).optional()
+})
+
+// Stops the app for good: neither settling the account nor lifting a budget cap restarts it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authorize('app:scale')(request)
+    if (authError) {
+      return authError
+    }
+
+    const actor = (request as any).user
+    const body = stopAppSchema.parse(await request.json().catch(() => ({})))
+    const app = await forceStopApp(actor, params.id, body.reason, getRequestMetadata(request))
+
+    return NextResponse.json({
+      success: true,
+      data: serializeAdminApp(app),
+      message: 'App stopped'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof AdminError) {
+      return adminErrorResponse(error)
+    }
+
+    console.error('Error stopping app:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to stop app' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/middleware'
+import { getRequestMetadata } from '@/lib/audit'
+import { AdminError, adminErrorResponse, serializeAdminApp, transferApp } from '@/lib/admin'
+import { z } from 'zod'
+
+// Exactly one new owner: a user's personal account or an organization
+const transferAppSchema = z.union([
+  z.object({ userId: z.string().min(1), organizationId: z.undefined().optional() }),
+  z.object({ organizationId: z.string().min(1), userId: z.undefined().optional() })
+])
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authorize('app:transfer')(request)
+    if (authError) {
+      return authError
+    }
+
+    const actor = (request as any).user
+    const body = transferAppSchema.parse(await request.json())
+    const app = await transferApp(actor, params.id, body, getRequestMetadata(request))
+
+    return NextResponse.json({
+      success: true,
+      data: serializeAdminApp(app),
+      message: 'App transferred'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof AdminError) {
+      return adminErrorResponse(error)
+    }
+
+    console.error('Error transferring app:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to transfer app' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppStatus } from '@prisma/client'
+import { authorize } from '@/lib/middleware'
+import { searchApps } from '@/lib/admin'
+
+// Every app on the platform with its owner, whoever that is
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authorize('app:read')(request)
+    if (authError) {
+      return authError
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')))
+    const status = searchParams.get('status')
+
+    if (status && !Object.values(AppStatus).includes(status as AppStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown status: ${status}` },
+        { status: 400 }
+      )
+    }
+
+    const { apps, total } = await searchApps({
+      search: searchParams.get('search') || undefined,
+      status: (status as AppStatus) || undefined,
+      userId: searchParams.get('userId') || undefined,
+      limit,
+      offset: (page - 1) * limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: apps,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching apps:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch apps' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { getRequestMetadata } from '@/lib/audit'
+import { AdminError, adminErrorResponse, endImpersonation } from '@/lib/admin'
+
+// Ends the impersonation session making the request; the admin's own session carries on
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const session = authResult.session && await db.session.findUnique({ where: { id: authResult.session.id } })
+    if (!session) {
+      throw new AdminError('INVALID', 'This session is not an impersonation')
+    }
+
+    await endImpersonation(session, getRequestMetadata(request))
+
+    return NextResponse.json({
+      success: true,
+      message: 'Impersonation ended'
+    })
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return adminErrorResponse(error)
+    }
+
+    console.error('Error ending impersonation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to end impersonation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/middleware'
+import { getPlatformStats } from '@/lib/admin'
+
+// Platform-wide accounts, apps, agents, usage this billing period and revenue
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authorize('billing:read')(request)
+    if (authError) {
+      return authError
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getPlatformStats()
+    })
+  } catch (error) {
+    console.error('Error fetching platform stats:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch platform stats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize, AuthenticatedRequest } from '@/lib/middleware'
+import { getRequestMetadata } from '@/lib/audit'
+import { AdminError, adminErrorResponse, startImpersonation } from '@/lib/admin'
+
+/**
+ * Sign in as the user. The tokens returned belong to a session of its own,
+ * which ends within the hour and cannot change the user's credentials; the
+ * admin's session is untouched, so the console can switch back to it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authorize('user:impersonate')(request)
+    if (authError) {
+      return authError
+    }
+
+    const { user: actor, apiToken, impersonator } = request as AuthenticatedRequest
+    if (apiToken || impersonator) {
+      return NextResponse.json(
+        { success: false, error: 'Impersonation has to start from your own login session' },
+        { status: 403 }
+      )
+    }
+
+    const metadata = getRequestMetadata(request)
+    const result = await startImpersonation(actor!, params.id, metadata)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Now acting as ${result.user.email}`
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return adminErrorResponse(error)
+    }
+
+    console.error('Error starting impersonation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to start impersonation' },
+      { status: 500 }
+    )
+  }
+}
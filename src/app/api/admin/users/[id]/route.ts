@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserRole } from '@prisma/client'
+import { authorize } from '@/lib/middleware'
+import { getRequestMetadata } from '@/lib/audit'
+import { AdminError, adminErrorResponse, getAdminUser, serializeAdminUser, updateUserAsAdmin } from '@/lib/admin'
+import { z } from 'zod'
+
+const updateUserSchema = z.object({
+  isActive: z.boolean().optional(),
+  role: z.enum(UserRole).optional(),
+  unlock: z.boolean().optional()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authorize('user:manage')(request)
+    if (authError) {
+      return authError
+    }
+
+    const user = await getAdminUser(params.id)
+
+    return NextResponse.json({
+      success: true,
+      data: serializeAdminUser(user)
+    })
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return adminErrorResponse(error)
+    }
+
+    console.error('Error fetching user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch user' },
+      { status: 500 }
+    )
+  }
+}
+
+// Deactivate or reactivate the account, change its role, or lift its sign-in lock
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authorize('user:manage')(request)
+    if (authError) {
+      return authError
+    }
+
+    const actor = (request as any).user
+    const body = updateUserSchema.parse(await request.json())
+    const user = await updateUserAsAdmin(actor, params.id, body, getRequestMetadata(request))
+
+    return NextResponse.json({
+      success: true,
+      data: serializeAdminUser(user),
+      message: 'User updated successfully'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof AdminError) {
+      return adminErrorResponse(error)
+    }
+
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+}
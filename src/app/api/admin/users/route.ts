@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserRole } from '@prisma/client'
+import { authorize } from '@/lib/middleware'
+import { searchUsers } from '@/lib/admin'
+
+// Every account on the platform, newest first, optionally searched by email or name
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authorize('user:manage')(request)
+    if (authError) {
+      return authError
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')))
+    const role = searchParams.get('role')
+    const isActive = searchParams.get('isActive')
+
+    if (role && !Object.values(UserRole).includes(role as UserRole)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown role: ${role}` },
+        { status: 400 }
+      )
+    }
+
+    const { users, total } = await searchUsers({
+      search: searchParams.get('search') || undefined,
+      role: (role as UserRole) || undefined,
+      isActive: isActive === null ? undefined : isActive === 'true',
+      limit,
+      offset: (page - 1) * limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: users,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+}
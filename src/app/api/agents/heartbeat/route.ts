@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { extractTokenFromHeader } from '@/lib/auth'
+import { isValidAgentApiKey } from '@/lib/agent-gateway'
+import { recordHeartbeat } from '@/lib/agents'
+
+// Called by src/agent/agent.js sendHeartbeat() every heartbeatInterval
+export async function POST(request: NextRequest) {
+  try {
+    const apiKey = extractTokenFromHeader(request.headers.get('authorization') || undefined)
+    const agentId = request.headers.get('x-agent-id')
+
+    if (!isValidAgentApiKey(apiKey) || !agentId) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid agent credentials' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (body.agentId && body.agentId !== agentId) {
+      return NextResponse.json(
+        { success: false, error: 'Agent ID does not match X-Agent-ID header' },
+        { status: 400 }
+      )
+    }
+
+    const agent = await db.agent.findUnique({ where: { id: agentId } })
+
+    if (!agent) {
+      return NextResponse.json(
+        { success: false, error: 'Agent not registered' },
+        { status: 404 }
+      )
+    }
+
+    const updatedAgent = await recordHeartbeat({ ...body, agentId })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        agentId: updatedAgent.id,
+        status: updatedAgent.status,
+        lastHeartbeat: updatedAgent.lastHeartbeat
+      }
+    })
+  } catch (error) {
+    console.error('Error recording heartbeat:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to record heartbeat' },
+      { status: 500 }
+    )
+  }
+}
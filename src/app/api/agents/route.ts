@@ -1,89 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-// Mock agents data
-let agents = [
-  {
-    id: "agent-1",
-    name: "Primary Agent",
-    host: "server1.example.com",
-    ipAddress: "192.168.1.100",
-    status: "healthy",
-    version: "1.0.0",
-    lastHeartbeat: new Date().toISOString(),
-    totalVms: 4,
-    runningVms: 3,
-    cpuUsage: 45,
-    memoryUsage: 60,
-    diskUsage: 35,
-    capabilities: ["qemu", "vz", "containerd"],
-    location: "us-east-1",
-    createdAt: "2024-01-01"
-  },
-  {
-    id: "agent-2", 
-    name: "Secondary Agent",
-    host: "server2.example.com",
-    ipAddress: "192.168.1.101",
-    status: "healthy",
-    version: "1.0.0",
-    lastHeartbeat: new Date(Date.now() - 30000).toISOString(), // 30 seconds ago
-    totalVms: 2,
-    runningVms: 2,
-    cpuUsage: 25,
-    memoryUsage: 40,
-    diskUsage: 20,
-    capabilities: ["qemu", "containerd"],
-    location: "us-west-1",
-    createdAt: "2024-01-05"
-  },
-  {
-    id: "agent-3",
-    name: "Development Agent", 
-    host: "dev-server.example.com",
-    ipAddress: "192.168.1.102",
-    status: "unhealthy",
-    version: "0.9.0",
-    lastHeartbeat: new Date(Date.now() - 300000).toISOString(), // 5 minutes ago
-    totalVms: 1,
-    runningVms: 0,
-    cpuUsage: 0,
-    memoryUsage: 0,
-    diskUsage: 0,
-    capabilities: ["qemu"],
-    location: "us-east-1",
-    createdAt: "2024-01-10"
-  }
-]
+import { db } from '@/lib/db'
+import { authorize } from '@/lib/middleware'
+import { isAgentConnected } from '@/lib/agent-gateway'
+import { markStaleAgents, serializeAgent } from '@/lib/agents'
+import { AgentStatus } from '@prisma/client'
 
 export async function GET(request: NextRequest) {
   try {
+    const authError = await authorize('agent:read')(request)
+    if (authError) {
+      return authError
+    }
+
     const { searchParams } = new URL(request.url)
     const status = searchParams.get('status')
     const location = searchParams.get('location')
 
-    let filteredAgents = agents
+    await markStaleAgents()
+
+    let whereClause: any = {}
 
     // Filter by status if provided
     if (status) {
-      filteredAgents = filteredAgents.filter(agent => agent.status === status)
+      whereClause.status = status.toUpperCase()
     }
 
     // Filter by location if provided
     if (location) {
-      filteredAgents = filteredAgents.filter(agent => agent.location === location)
+      whereClause.location = location
     }
 
+    const [filteredAgents, agents] = await Promise.all([
+      db.agent.findMany({
+        where: whereClause,
+        orderBy: { createdAt: 'asc' }
+      }),
+      db.agent.findMany()
+    ])
+
     // Calculate overall health metrics
     const totalAgents = agents.length
-    const healthyAgents = agents.filter(a => a.status === "healthy").length
+    const healthyAgents = agents.filter(a => a.status === AgentStatus.HEALTHY).length
     const totalVms = agents.reduce((sum, agent) => sum + agent.totalVms, 0)
     const runningVms = agents.reduce((sum, agent) => sum + agent.runningVms, 0)
-    const avgCpuUsage = agents.reduce((sum, agent) => sum + agent.cpuUsage, 0) / totalAgents
-    const avgMemoryUsage = agents.reduce((sum, agent) => sum + agent.memoryUsage, 0) / totalAgents
+    const avgCpuUsage = totalAgents ? agents.reduce((sum, agent) => sum + agent.cpuUsage, 0) / totalAgents : 0
+    const avgMemoryUsage = totalAgents ? agents.reduce((sum, agent) => sum + agent.memoryUsage, 0) / totalAgents : 0
 
     return NextResponse.json({
       success: true,
-      data: filteredAgents,
+      data: filteredAgents.map(agent => serializeAgent(agent, isAgentConnected(agent.id))),
       metadata: {
         totalAgents,
         healthyAgents,
@@ -106,8 +71,13 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const authError = await authorize('agent:register')(request)
+    if (authError) {
+      return authError
+    }
+
     const body = await request.json()
-    
+
     // Validate required fields
     const requiredFields = ['name', 'host', 'ipAddress', 'capabilities']
     for (const field of requiredFields) {
@@ -119,48 +89,41 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Check if agent with same host or IP already exists
-    const existingAgent = agents.find(a => 
-      a.host === body.host || a.ipAddress === body.ipAddress
-    )
-    
+    // Check if agent with same id, host or IP already exists
+    const existingAgent = await db.agent.findFirst({
+      where: {
+        OR: [
+          ...(body.agentId ? [{ id: body.agentId }] : []),
+          { host: body.host },
+          { ipAddress: body.ipAddress }
+        ]
+      }
+    })
+
     if (existingAgent) {
       return NextResponse.json(
-        { success: false, error: 'Agent with this host or IP already exists' },
+        { success: false, error: 'Agent with this id, host or IP already exists' },
         { status: 409 }
       )
     }
 
-    // Create new agent
-    const newAgent = {
-      id: `agent-${Date.now()}`,
-      name: body.name,
-      host: body.host,
-      ipAddress: body.ipAddress,
-      status: "healthy",
-      version: body.version || "1.0.0",
-      lastHeartbeat: new Date().toISOString(),
-      totalVms: 0,
-      runningVms: 0,
-      cpuUsage: 0,
-      memoryUsage: 0,
-      diskUsage: 0,
-      capabilities: body.capabilities,
-      location: body.location || "unknown",
-      createdAt: new Date().toISOString().split('T')[0]
-    }
-
-    agents.push(newAgent)
-
-    // In a real implementation, this would:
-    // 1. Generate agent credentials/tokens
-    // 2. Send configuration to the agent
-    // 3. Establish secure communication channel
-    // 4. Register agent with load balancer if needed
+    // The id is what the agent sends as X-Agent-ID, so it may be chosen up front
+    const newAgent = await db.agent.create({
+      data: {
+        id: body.agentId,
+        name: body.name,
+        host: body.host,
+        ipAddress: body.ipAddress,
+        status: AgentStatus.OFFLINE,
+        version: body.version || '1.0.0',
+        capabilities: JSON.stringify(body.capabilities),
+        location: body.location || 'unknown'
+      }
+    })
 
     return NextResponse.json({
       success: true,
-      data: newAgent,
+      data: serializeAgent(newAgent),
       message: 'Agent registered successfully'
     }, { status: 201 })
   } catch (error) {
@@ -170,4 +133,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { extractTokenFromHeader } from '@/lib/auth'
+import { isValidAgentApiKey } from '@/lib/agent-gateway'
+import { setAppStatus } from '@/lib/apps'
+import { publishToApp } from '@/lib/socket'
+import { AppStatus } from '@prisma/client'
+
+// Lima instance status -> app status, applied only while no deployment is in flight
+const VM_STATUS_MAP: Record<string, AppStatus> = {
+  Running: AppStatus.RUNNING,
+  Stopped: AppStatus.STOPPED,
+  Broken: AppStatus.ERROR
+}
+
+// Called by src/agent/agent.js notifyVmStatusChange() when a VM changes state
+export async function POST(request: NextRequest) {
+  try {
+    const apiKey = extractTokenFromHeader(request.headers.get('authorization') || undefined)
+    const agentId = request.headers.get('x-agent-id')
+
+    if (!isValidAgentApiKey(apiKey) || !agentId) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid agent credentials' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.vmName || !body.status) {
+      return NextResponse.json(
+        { success: false, error: 'vmName and status are required' },
+        { status: 400 }
+      )
+    }
+
+    // App VMs are named app-<appId>, see getAppVmName()
+    const appId = String(body.vmName).replace(/^app-/, '')
+    const app = await db.app.findFirst({
+      where: { id: appId, agentId }
+    })
+
+    if (!app) {
+      return NextResponse.json(
+        { success: false, error: 'No app is hosted on this VM' },
+        { status: 404 }
+      )
+    }
+
+    publishToApp(app.id, 'vm:status', {
+      appId: app.id,
+      vmName: body.vmName,
+      status: body.status,
+      timestamp: body.timestamp || new Date().toISOString()
+    })
+
+    const appStatus = VM_STATUS_MAP[body.status]
+    const busy = app.status === AppStatus.DEPLOYING || app.status === AppStatus.CREATING || app.status === AppStatus.DELETING
+
+    if (appStatus && !busy && appStatus !== app.status) {
+      await setAppStatus(app.id, appStatus)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error recording VM status change:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to record VM status change' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,60 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { appEnvVarsSchema, getAccessibleApp, parseAppConfig } from '@/lib/apps'
+import { startDeployment } from '@/lib/deployments'
+import { assertAccountInGoodStanding, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
+import { AppStatus } from '@prisma/client'
+import { z } from 'zod'
 
-// Mock database - in a real app, this would be shared
-let apps = [
-  {
-    id: "1",
-    name: "Web App Production",
-    status: "running",
-    cpu: 2,
-    memory: 4,
-    disk: 20,
-    domain: "webapp.example.com",
-    template: "webapp-template",
-    createdAt: "2024-01-15",
-    ipAddress: "192.168.64.2",
-    dockerImage: "nginx:latest",
-    envVars: {
-      "NODE_ENV": "production",
-      "PORT": "8080",
-      "DATABASE_URL": "postgresql://user:pass@db:5432/app"
-    },
-    ports: [
-      { guest: 80, host: 8080, protocol: "http" },
-      { guest: 443, host: 8443, protocol: "https" }
-    ]
-  },
-  {
-    id: "2", 
-    name: "API Service",
-    status: "running",
-    cpu: 1,
-    memory: 2,
-    disk: 10,
-    domain: "api.example.com",
-    template: "api-template",
-    createdAt: "2024-01-10",
-    ipAddress: "192.168.64.3",
-    dockerImage: "node:18-alpine",
-    envVars: {
-      "NODE_ENV": "production",
-      "PORT": "3000",
-      "API_VERSION": "v1"
-    },
-    ports: [
-      { guest: 3000, host: 3000, protocol: "http" }
-    ]
-  }
-]
+const deploySchema = z.object({
+  dockerImage: z.string().regex(/^[a-zA-Z0-9][a-zA-Z0-9._\-\/:@]*$/, 'Invalid image reference').optional(),
+  envVars: appEnvVarsSchema.optional(),
+  version: z.string().min(1).max(64).optional()
+})
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const body = await request.json()
-    const app = apps.find(a => a.id === params.id)
-    
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = deploySchema.parse(await request.json().catch(() => ({})))
+    const app = await getAccessibleApp(params.id, user, 'app:deploy')
+
     if (!app) {
       return NextResponse.json(
         { success: false, error: 'App not found' },
@@ -62,44 +35,74 @@ export async function POST(
       )
     }
 
-    // Update app status to deploying
-    app.status = "deploying"
+    try {
+      await assertAccountInGoodStanding(app.userId)
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      throw error
+    }
+
+    const config = parseAppConfig(app)
+    if (body.dockerImage) {
+      config.dockerImage = body.dockerImage
+    }
+    if (body.envVars) {
+      config.envVars = { ...config.envVars, ...body.envVars }
+    }
 
-    // In a real implementation, this would:
-    // 1. Connect to the agent managing this VM
-    // 2. Execute deployment commands inside the VM:
-    //    - Pull the new Docker image
-    //    - Stop existing containers
-    //    - Start new containers with updated configuration
-    //    - Run health checks
-    // 3. Update the app status based on deployment result
+    // Claim the app in one conditional write so two concurrent requests cannot both start a deployment
+    const claimed = await db.app.updateMany({
+      where: { id: app.id, status: { not: AppStatus.DEPLOYING } },
+      data: { status: AppStatus.DEPLOYING, config: JSON.stringify(config) }
+    })
 
-    // Simulate deployment process
-    setTimeout(() => {
-      app.status = "running"
-      if (body.dockerImage) {
-        app.dockerImage = body.dockerImage
-      }
-      if (body.envVars) {
-        app.envVars = { ...app.envVars, ...body.envVars }
-      }
-    }, 5000) // Simulate 5 second deployment
+    if (claimed.count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'A deployment is already in progress' },
+        { status: 409 }
+      )
+    }
+
+    const updatedApp = { ...app, status: AppStatus.DEPLOYING, config: JSON.stringify(config) }
+    const deployment = await startDeployment(updatedApp, { version: body.version }).catch(async (error) => {
+      await db.app.update({ where: { id: app.id }, data: { status: app.status } })
+      throw error
+    })
+
+    await createAuditLog({
+      userId: user.id,
+      appId: app.id,
+      action: AuditActions.APP_DEPLOY,
+      resource: 'deployment',
+      resourceId: deployment.id,
+      details: `Deployed ${config.dockerImage} as ${deployment.version}`,
+      ...getRequestMetadata(request)
+    })
 
     return NextResponse.json({
       success: true,
       message: 'Deployment started successfully',
       data: {
-        appId: params.id,
-        status: "deploying",
-        estimatedDuration: 5000,
-        deploymentId: `deploy-${Date.now()}`
+        appId: app.id,
+        status: deployment.status,
+        deploymentId: deployment.id,
+        version: deployment.version
       }
-    })
+    }, { status: 202 })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     console.error('Error deploying app:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to deploy app' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { canAccessApp, getAccessibleApp, redactAppConfig } from '@/lib/apps'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const app = await getAccessibleApp(params.id, user, 'app:read')
+
+    if (!app) {
+      return NextResponse.json(
+        { success: false, error: 'App not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    const canConfigure = await canAccessApp(app, user, 'app:configure')
+    const [deployments, total] = await Promise.all([
+      db.deployment.findMany({
+        where: { appId: app.id },
+        include: {
+          steps: { orderBy: { position: 'asc' } }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      db.deployment.count({ where: { appId: app.id } })
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: deployments.map(deployment => ({
+        ...deployment,
+        config: deployment.config
+          ? canConfigure ? JSON.parse(deployment.config) : redactAppConfig(JSON.parse(deployment.config))
+          : null
+      })),
+      metadata: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching deployments:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch deployments' },
+      { status: 500 }
+    )
+  }
+}
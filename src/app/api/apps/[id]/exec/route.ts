@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { getRequestMetadata } from '@/lib/audit'
+import { canAccessApp, getAppVmName } from '@/lib/apps'
+import { isAgentConnected } from '@/lib/agent-gateway'
+import { serializeCommandExecution, startCommandExecution } from '@/lib/agents'
+import { z } from 'zod'
+
+const execSchema = z.object({
+  command: z.string().min(1).max(4096),
+  user: z.string().optional(),
+  timeout: z.number().int().positive().optional(),
+  workingDirectory: z.string().optional(),
+  environment: z.record(z.string(), z.string()).optional()
+})
+
+// Runs a one-off command in the app's VM, subject to the caller's command policy
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = execSchema.parse(await request.json())
+    const app = await db.app.findUnique({ where: { id: params.id } })
+
+    if (!app || !await canAccessApp(app, user, 'app:exec')) {
+      return NextResponse.json(
+        { success: false, error: 'App not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!app.agentId) {
+      return NextResponse.json(
+        { success: false, error: 'App has not been deployed yet' },
+        { status: 409 }
+      )
+    }
+
+    if (!isAgentConnected(app.agentId)) {
+      return NextResponse.json(
+        { success: false, error: 'Agent hosting this app is not connected' },
+        { status: 503 }
+      )
+    }
+
+    const { decision, execution } = await startCommandExecution({
+      agentId: app.agentId,
+      vmName: getAppVmName(app),
+      appId: app.id,
+      user,
+      metadata: getRequestMetadata(request)
+    }, body)
+
+    if (!execution) {
+      return NextResponse.json(
+        { success: false, error: 'Command rejected by policy', details: decision.reason },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Command execution started',
+      data: {
+        executionId: execution.id,
+        appId: app.id,
+        command: execution.command,
+        runAs: execution.runAs,
+        timeout: execution.timeout,
+        status: execution.status
+      }
+    }, { status: 202 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error executing command:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to execute command' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const app = await db.app.findUnique({ where: { id: params.id } })
+
+    if (!app || !await canAccessApp(app, user, 'app:exec')) {
+      return NextResponse.json(
+        { success: false, error: 'App not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const executionId = searchParams.get('executionId')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    const where: any = { vmName: getAppVmName(app) }
+    if (app.agentId) {
+      where.agentId = app.agentId
+    }
+    if (executionId) {
+      where.id = executionId
+    }
+
+    const [executions, total] = await Promise.all([
+      db.commandExecution.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      db.commandExecution.count({ where })
+    ])
+
+    const serialized = executions.map(serializeCommandExecution)
+
+    return NextResponse.json({
+      success: true,
+      data: executionId ? serialized[0] || null : serialized,
+      metadata: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching command history:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch command history' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { getAccessibleApp, parseAppConfig } from '@/lib/apps'
+import { assertAccountInGoodStanding, assertResourceLimits, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
+import { startDeployment } from '@/lib/deployments'
+import { AppStatus, DeploymentStatus } from '@prisma/client'
+import { z } from 'zod'
+
+const rollbackSchema = z.object({
+  deploymentId: z.string().min(1).optional(),
+  version: z.string().min(1).optional()
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = rollbackSchema.parse(await request.json().catch(() => ({})))
+    const app = await getAccessibleApp(params.id, user, 'app:deploy')
+
+    if (!app) {
+      return NextResponse.json(
+        { success: false, error: 'App not found' },
+        { status: 404 }
+      )
+    }
+
+    try {
+      await assertAccountInGoodStanding(app.userId)
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      throw error
+    }
+
+    if (app.status === AppStatus.DEPLOYING) {
+      return NextResponse.json(
+        { success: false, error: 'A deployment is already in progress' },
+        { status: 409 }
+      )
+    }
+
+    const successful = await db.deployment.findMany({
+      where: { appId: app.id, status: DeploymentStatus.SUCCESS },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    // The newest success keeps serving after a later deployment fails, unless that
+    // one already removed its container and left the app in ERROR
+    const live = app.status === AppStatus.ERROR ? undefined : successful[0]
+
+    // Without an explicit target, roll back to the newest deployment that is not
+    // what is live now, nor the deployment the live one itself redeployed
+    const target = body.deploymentId
+      ? successful.find(d => d.id === body.deploymentId)
+      : body.version
+        ? successful.find(d => d.version === body.version)
+        : successful.find(d => !live || (d.id !== live.id && d.id !== live.rollbackOfId))
+
+    if (!target) {
+      return NextResponse.json(
+        { success: false, error: 'No earlier successful deployment to roll back to' },
+        { status: 404 }
+      )
+    }
+
+    if (!target.config) {
+      return NextResponse.json(
+        { success: false, error: `Deployment ${target.version} has no recorded config and cannot be redeployed` },
+        { status: 409 }
+      )
+    }
+
+    // The plan may have shrunk since the target ran, so its resources are checked again
+    try {
+      await assertResourceLimits(app.userId, parseAppConfig({ config: target.config }))
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      throw error
+    }
+
+    const deployment = await startDeployment(app, { rollbackOf: target })
+
+    await createAuditLog({
+      userId: user.id,
+      appId: app.id,
+      action: AuditActions.APP_ROLLBACK,
+      resource: 'deployment',
+      resourceId: deployment.id,
+      details: `Rolled back to ${target.version} (deployment ${target.id})`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Rollback to ${target.version} started`,
+      data: {
+        appId: app.id,
+        status: deployment.status,
+        deploymentId: deployment.id,
+        version: deployment.version,
+        rollbackOfId: target.id
+      }
+    }, { status: 202 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error rolling back app:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to roll back app' },
+      { status: 500 }
+    )
+  }
+}
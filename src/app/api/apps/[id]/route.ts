@@ -1,69 +1,80 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { appEnvVarsSchema, canAccessApp, deleteAppVm, getAccessibleApp, parseAppConfig, redactAppConfig } from '@/lib/apps'
+import { isAgentConnected } from '@/lib/agent-gateway'
+import { assertPlanFeature, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
+import { AppStatus } from '@prisma/client'
+import { z } from 'zod'
 
-// Mock database - in a real app, this would be shared with the main apps route
-let apps = [
-  {
-    id: "1",
-    name: "Web App Production",
-    status: "running",
-    cpu: 2,
-    memory: 4,
-    disk: 20,
-    domain: "webapp.example.com",
-    template: "webapp-template",
-    createdAt: "2024-01-15",
-    ipAddress: "192.168.64.2",
-    dockerImage: "nginx:latest",
-    envVars: {
-      "NODE_ENV": "production",
-      "PORT": "8080",
-      "DATABASE_URL": "postgresql://user:pass@db:5432/app"
-    },
-    ports: [
-      { guest: 80, host: 8080, protocol: "http" },
-      { guest: 443, host: 8443, protocol: "https" }
-    ]
-  },
-  {
-    id: "2", 
-    name: "API Service",
-    status: "running",
-    cpu: 1,
-    memory: 2,
-    disk: 10,
-    domain: "api.example.com",
-    template: "api-template",
-    createdAt: "2024-01-10",
-    ipAddress: "192.168.64.3",
-    dockerImage: "node:18-alpine",
-    envVars: {
-      "NODE_ENV": "production",
-      "PORT": "3000",
-      "API_VERSION": "v1"
-    },
-    ports: [
-      { guest: 3000, host: 3000, protocol: "http" }
-    ]
-  }
-]
+// Resources, image and ports change through scale and deploy; env vars apply from the next deployment
+const updateAppSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  domain: z.string().min(1).nullable().optional(),
+  envVars: appEnvVarsSchema.optional()
+})
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const app = apps.find(a => a.id === params.id)
-    
-    if (!app) {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const accessible = await getAccessibleApp(params.id, user)
+
+    if (!accessible) {
       return NextResponse.json(
         { success: false, error: 'App not found' },
         { status: 404 }
       )
     }
 
+    const app = await db.app.findUniqueOrThrow({
+      where: { id: accessible.id },
+      include: {
+        deployments: {
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        },
+        _count: {
+          select: {
+            backups: true,
+            snapshots: true
+          }
+        }
+      }
+    })
+
+    const canConfigure = await canAccessApp(app, user, 'app:configure')
+    const config = parseAppConfig(app)
+
     return NextResponse.json({
       success: true,
-      data: app
+      data: {
+        id: app.id,
+        name: app.name,
+        description: app.description,
+        status: app.status,
+        environment: app.environment,
+        template: app.template,
+        domain: app.domain,
+        organizationId: app.organizationId,
+        createdAt: app.createdAt.toISOString().split('T')[0],
+        config: canConfigure ? config : redactAppConfig(config),
+        deployments: canConfigure ? app.deployments : app.deployments.map(deployment => ({
+          ...deployment,
+          config: deployment.config && JSON.stringify(redactAppConfig(JSON.parse(deployment.config)))
+        })),
+        backupsCount: app._count.backups,
+        snapshotsCount: app._count.snapshots
+      }
     })
   } catch (error) {
     console.error('Error fetching app:', error)
@@ -74,33 +85,58 @@ export async function GET(
   }
 }
 
+// Removes the VM from its agent, then the app with its deployments, backups and snapshots
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const appIndex = apps.findIndex(a => a.id === params.id)
-    
-    if (appIndex === -1) {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const app = await getAccessibleApp(params.id, user, 'app:delete')
+
+    if (!app) {
       return NextResponse.json(
         { success: false, error: 'App not found' },
         { status: 404 }
       )
     }
 
-    const deletedApp = apps[appIndex]
-    apps.splice(appIndex, 1)
+    if (app.status === AppStatus.DEPLOYING) {
+      return NextResponse.json(
+        { success: false, error: 'A deployment is in progress' },
+        { status: 409 }
+      )
+    }
+
+    // Deleting the app alone would leave its VM running with nothing to bill it
+    if (app.agentId && !isAgentConnected(app.agentId)) {
+      return NextResponse.json(
+        { success: false, error: 'The agent hosting this app is not connected' },
+        { status: 409 }
+      )
+    }
+
+    await deleteAppVm(app)
+    await db.app.delete({ where: { id: app.id } })
 
-    // In a real implementation, this would:
-    // 1. Stop the VM
-    // 2. Remove VM files
-    // 3. Clean up networking
-    // 4. Remove from load balancer
+    await createAuditLog({
+      userId: user.id,
+      appId: app.id,
+      action: AuditActions.APP_DELETE,
+      resource: 'app',
+      resourceId: app.id,
+      details: `Deleted app: ${app.name}`,
+      ...getRequestMetadata(request)
+    })
 
     return NextResponse.json({
       success: true,
-      message: 'App deleted successfully',
-      data: deletedApp
+      message: 'App deleted successfully'
     })
   } catch (error) {
     console.error('Error deleting app:', error)
@@ -116,39 +152,86 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const body = await request.json()
-    const appIndex = apps.findIndex(a => a.id === params.id)
-    
-    if (appIndex === -1) {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = updateAppSchema.parse(await request.json())
+    const app = await getAccessibleApp(params.id, user, 'app:configure')
+
+    if (!app) {
       return NextResponse.json(
         { success: false, error: 'App not found' },
         { status: 404 }
       )
     }
 
-    const app = apps[appIndex]
-    
-    // Update allowed fields
-    const allowedFields = ['name', 'domain', 'envVars']
-    for (const field of allowedFields) {
-      if (body[field] !== undefined) {
-        app[field] = body[field]
+    if (body.domain && body.domain !== app.domain) {
+      try {
+        await assertPlanFeature(app.userId, 'customDomains', 'Custom domains')
+      } catch (error) {
+        if (error instanceof PlanLimitError) {
+          return planLimitResponse(error)
+        }
+        throw error
       }
     }
 
-    // In a real implementation, this would update the VM configuration
-    // and potentially restart the VM if needed
+    const config = parseAppConfig(app)
+    if (body.envVars) {
+      config.envVars = body.envVars
+    }
+
+    const updated = await db.app.update({
+      where: { id: app.id },
+      data: {
+        name: body.name,
+        description: body.description,
+        domain: body.domain,
+        config: JSON.stringify(config)
+      }
+    })
+
+    await createAuditLog({
+      userId: user.id,
+      appId: app.id,
+      action: AuditActions.APP_UPDATE,
+      resource: 'app',
+      resourceId: app.id,
+      details: `Updated ${Object.keys(body).join(', ')} of app ${updated.name}`,
+      ...getRequestMetadata(request)
+    })
 
     return NextResponse.json({
       success: true,
-      data: app,
+      data: {
+        id: updated.id,
+        name: updated.name,
+        description: updated.description,
+        status: updated.status,
+        environment: updated.environment,
+        template: updated.template,
+        domain: updated.domain,
+        organizationId: updated.organizationId,
+        createdAt: updated.createdAt.toISOString().split('T')[0],
+        config
+      },
       message: 'App updated successfully'
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     console.error('Error updating app:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to update app' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
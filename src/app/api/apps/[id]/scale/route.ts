@@ -1,60 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { getAccessibleApp, parseAppConfig } from '@/lib/apps'
+import { startDeployment } from '@/lib/deployments'
+import { validateTemplateOverrides, getAppTemplateOverrides, TemplateError } from '@/lib/templates'
+import { resolveAppTemplate } from '@/lib/custom-templates'
+import { assertAccountInGoodStanding, assertResourceLimits, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
+import { AppStatus } from '@prisma/client'
+import { z } from 'zod'
 
-// Mock database - in a real app, this would be shared
-let apps = [
-  {
-    id: "1",
-    name: "Web App Production",
-    status: "running",
-    cpu: 2,
-    memory: 4,
-    disk: 20,
-    domain: "webapp.example.com",
-    template: "webapp-template",
-    createdAt: "2024-01-15",
-    ipAddress: "192.168.64.2",
-    dockerImage: "nginx:latest",
-    envVars: {
-      "NODE_ENV": "production",
-      "PORT": "8080",
-      "DATABASE_URL": "postgresql://user:pass@db:5432/app"
-    },
-    ports: [
-      { guest: 80, host: 8080, protocol: "http" },
-      { guest: 443, host: 8443, protocol: "https" }
-    ]
-  },
-  {
-    id: "2", 
-    name: "API Service",
-    status: "running",
-    cpu: 1,
-    memory: 2,
-    disk: 10,
-    domain: "api.example.com",
-    template: "api-template",
-    createdAt: "2024-01-10",
-    ipAddress: "192.168.64.3",
-    dockerImage: "node:18-alpine",
-    envVars: {
-      "NODE_ENV": "production",
-      "PORT": "3000",
-      "API_VERSION": "v1"
-    },
-    ports: [
-      { guest: 3000, host: 3000, protocol: "http" }
-    ]
-  }
-]
+const scaleSchema = z.object({
+  cpu: z.number().int().min(1).max(16).optional(),
+  memory: z.number().int().min(1).max(64).optional(),
+  disk: z.number().int().min(1).max(1000).optional()
+}).refine(
+  data => data.cpu !== undefined || data.memory !== undefined || data.disk !== undefined,
+  { message: 'At least one of cpu, memory, or disk must be specified' }
+)
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const body = await request.json()
-    const app = apps.find(a => a.id === params.id)
-    
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = scaleSchema.parse(await request.json())
+    const app = await getAccessibleApp(params.id, user, 'app:scale')
+
     if (!app) {
       return NextResponse.json(
         { success: false, error: 'App not found' },
@@ -62,53 +40,91 @@ export async function POST(
       )
     }
 
-    // Validate required fields
-    if (!body.cpu && !body.memory && !body.disk) {
+    const config = parseAppConfig(app)
+    const oldResources = { cpu: config.cpu, memory: config.memory, disk: config.disk }
+
+    if (body.disk !== undefined && body.disk < config.disk) {
       return NextResponse.json(
-        { success: false, error: 'At least one of cpu, memory, or disk must be specified' },
+        { success: false, error: 'Disk size cannot be reduced' },
         { status: 400 }
       )
     }
 
-    const oldResources = { cpu: app.cpu, memory: app.memory, disk: app.disk }
-    
-    // Update resources
-    if (body.cpu) app.cpu = body.cpu
-    if (body.memory) app.memory = body.memory
-    if (body.disk) app.disk = body.disk
+    config.cpu = body.cpu ?? config.cpu
+    config.memory = body.memory ?? config.memory
+    config.disk = body.disk ?? config.disk
+
+    try {
+      await assertAccountInGoodStanding(app.userId)
+      await assertResourceLimits(app.userId, config)
+      validateTemplateOverrides(await resolveAppTemplate(app), getAppTemplateOverrides(config))
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      if (error instanceof TemplateError) {
+        return NextResponse.json(
+          { success: false, error: error.message, details: error.details },
+          { status: 400 }
+        )
+      }
+      throw error
+    }
+
+    // Claim the app in one conditional write so two concurrent requests cannot both start a deployment
+    const claimed = await db.app.updateMany({
+      where: { id: app.id, status: { not: AppStatus.DEPLOYING } },
+      data: { status: AppStatus.DEPLOYING, config: JSON.stringify(config) }
+    })
 
-    // Update status to indicate scaling is in progress
-    app.status = "deploying" // In a real app, you might have a "scaling" status
+    if (claimed.count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'A deployment is already in progress' },
+        { status: 409 }
+      )
+    }
 
-    // In a real implementation, this would:
-    // 1. Generate new Lima YAML with updated resources
-    // 2. Stop the current VM
-    // 3. Create new VM with new configuration
-    // 4. Restore data from backup if needed
-    // 5. Deploy the application again
+    // Scaling restarts the VM with the new resources and redeploys the container
+    const updatedApp = { ...app, status: AppStatus.DEPLOYING, config: JSON.stringify(config) }
+    const deployment = await startDeployment(updatedApp, { resize: true }).catch(async (error) => {
+      await db.app.update({ where: { id: app.id }, data: { status: app.status } })
+      throw error
+    })
+    const newResources = { cpu: config.cpu, memory: config.memory, disk: config.disk }
 
-    // Simulate scaling process
-    setTimeout(() => {
-      app.status = "running"
-    }, 10000) // Simulate 10 second scaling process
+    await createAuditLog({
+      userId: user.id,
+      appId: app.id,
+      action: AuditActions.APP_SCALE,
+      resource: 'app',
+      resourceId: app.id,
+      details: `Scaled from ${JSON.stringify(oldResources)} to ${JSON.stringify(newResources)}`,
+      ...getRequestMetadata(request)
+    })
 
     return NextResponse.json({
       success: true,
       message: 'Scaling started successfully',
       data: {
-        appId: params.id,
+        appId: app.id,
         oldResources,
-        newResources: { cpu: app.cpu, memory: app.memory, disk: app.disk },
-        status: "scaling",
-        estimatedDuration: 10000,
-        scalingId: `scale-${Date.now()}`
+        newResources,
+        status: deployment.status,
+        deploymentId: deployment.id
       }
-    })
+    }, { status: 202 })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     console.error('Error scaling app:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to scale app' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -1,63 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { getAccessibleApp, getAppVmName } from '@/lib/apps'
+import { isAgentConnected, sendAgentRequest } from '@/lib/agent-gateway'
+import { assertPlanFeature, assertStorageLimit, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
+import { SnapshotStatus } from '@prisma/client'
+import { z } from 'zod'
 
-// Mock database - in a real app, this would be shared
-let apps = [
-  {
-    id: "1",
-    name: "Web App Production",
-    status: "running",
-    cpu: 2,
-    memory: 4,
-    disk: 20,
-    domain: "webapp.example.com",
-    template: "webapp-template",
-    createdAt: "2024-01-15",
-    ipAddress: "192.168.64.2",
-    dockerImage: "nginx:latest",
-    envVars: {
-      "NODE_ENV": "production",
-      "PORT": "8080",
-      "DATABASE_URL": "postgresql://user:pass@db:5432/app"
-    },
-    ports: [
-      { guest: 80, host: 8080, protocol: "http" },
-      { guest: 443, host: 8443, protocol: "https" }
-    ]
-  },
-  {
-    id: "2", 
-    name: "API Service",
-    status: "running",
-    cpu: 1,
-    memory: 2,
-    disk: 10,
-    domain: "api.example.com",
-    template: "api-template",
-    createdAt: "2024-01-10",
-    ipAddress: "192.168.64.3",
-    dockerImage: "node:18-alpine",
-    envVars: {
-      "NODE_ENV": "production",
-      "PORT": "3000",
-      "API_VERSION": "v1"
-    },
-    ports: [
-      { guest: 3000, host: 3000, protocol: "http" }
-    ]
-  }
-]
+const SNAPSHOT_TIMEOUT = 15 * 60 * 1000
 
-// Mock snapshots storage
-let snapshots = []
+const snapshotSchema = z.object({
+  description: z.string().min(1).max(200).optional()
+})
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const body = await request.json()
-    const app = apps.find(a => a.id === params.id)
-    
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = snapshotSchema.parse(await request.json().catch(() => ({})))
+    const app = await getAccessibleApp(params.id, user, 'backup:create')
+
     if (!app) {
       return NextResponse.json(
         { success: false, error: 'App not found' },
@@ -65,49 +35,88 @@ export async function POST(
       )
     }
 
-    // Create snapshot record
-    const snapshot = {
-      id: `snap-${Date.now()}`,
-      appId: params.id,
-      appName: app.name,
-      createdAt: new Date().toISOString(),
-      status: "creating",
-      size: 0, // Will be calculated
-      description: body.description || `Snapshot of ${app.name}`,
-      tags: body.tags || [],
-      automatic: body.automatic || false
+    if (!app.agentId) {
+      return NextResponse.json(
+        { success: false, error: 'App has not been deployed yet' },
+        { status: 409 }
+      )
+    }
+
+    if (!isAgentConnected(app.agentId)) {
+      return NextResponse.json(
+        { success: false, error: 'Agent hosting this app is not connected' },
+        { status: 503 }
+      )
     }
 
-    snapshots.push(snapshot)
-
-    // In a real implementation, this would:
-    // 1. Pause the VM or create live snapshot
-    // 2. Copy VM disk image to object storage (S3/MinIO)
-    // 3. Save VM configuration and metadata
-    // 4. Create database records for the snapshot
-    // 5. Update snapshot status and size
-
-    // Simulate snapshot creation process
-    setTimeout(() => {
-      const snapshotIndex = snapshots.findIndex(s => s.id === snapshot.id)
-      if (snapshotIndex !== -1) {
-        snapshots[snapshotIndex].status = "completed"
-        snapshots[snapshotIndex].size = Math.floor(Math.random() * 5000) + 1000 // Random size between 1-6GB
+    try {
+      await assertPlanFeature(app.userId, 'backups', 'Snapshots and backups')
+      await assertStorageLimit(app.userId)
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      throw error
+    }
+
+    const snapshot = await db.snapshot.create({
+      data: {
+        appId: app.id,
+        name: body.description || `Snapshot of ${app.name}`,
+        size: 0,
+        status: SnapshotStatus.CREATING
       }
-    }, 15000) // Simulate 15 second snapshot process
+    })
+
+    // The snapshot id doubles as the Lima snapshot tag
+    sendAgentRequest<{ tag: string; size: number }>(app.agentId, 'snapshot_vm', {
+      vmName: getAppVmName(app),
+      tag: snapshot.id
+    }, { timeout: SNAPSHOT_TIMEOUT })
+      .then((result) => db.snapshot.update({
+        where: { id: snapshot.id },
+        data: {
+          status: SnapshotStatus.COMPLETED,
+          size: result?.size ?? 0
+        }
+      }))
+      .catch((error) => {
+        console.error('Snapshot failed:', error)
+        return db.snapshot.update({
+          where: { id: snapshot.id },
+          data: { status: SnapshotStatus.FAILED }
+        })
+      })
+      .catch((error) => console.error('Failed to update snapshot:', error))
+
+    await createAuditLog({
+      userId: user.id,
+      appId: app.id,
+      action: AuditActions.SNAPSHOT_CREATE,
+      resource: 'snapshot',
+      resourceId: snapshot.id,
+      details: `Created snapshot: ${snapshot.name}`,
+      ...getRequestMetadata(request)
+    })
 
     return NextResponse.json({
       success: true,
       message: 'Snapshot creation started successfully',
       data: {
         snapshotId: snapshot.id,
-        appId: params.id,
-        status: "creating",
-        estimatedDuration: 15000,
-        description: snapshot.description
+        appId: app.id,
+        status: snapshot.status,
+        description: snapshot.name
       }
-    })
+    }, { status: 202 })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     console.error('Error creating snapshot:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to create snapshot' },
@@ -121,8 +130,14 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const app = apps.find(a => a.id === params.id)
-    
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const app = await getAccessibleApp(params.id, user, 'app:read')
+
     if (!app) {
       return NextResponse.json(
         { success: false, error: 'App not found' },
@@ -130,13 +145,15 @@ export async function GET(
       )
     }
 
-    // Get snapshots for this app
-    const appSnapshots = snapshots.filter(s => s.appId === params.id)
+    const snapshots = await db.snapshot.findMany({
+      where: { appId: app.id },
+      orderBy: { createdAt: 'desc' }
+    })
 
     return NextResponse.json({
       success: true,
-      data: appSnapshots,
-      total: appSnapshots.length
+      data: snapshots,
+      total: snapshots.length
     })
   } catch (error) {
     console.error('Error fetching snapshots:', error)
@@ -145,4 +162,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile } from 'fs/promises'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { canAccessApp } from '@/lib/apps'
+
+// Serves the asciicast v2 recording of a terminal session for playback (e.g. asciinema-player)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; sessionId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const session = await db.terminalSession.findFirst({
+      where: { id: params.sessionId, appId: params.id },
+      include: { app: true }
+    })
+
+    if (!session || !await canAccessApp(session.app, user, 'app:exec')) {
+      return NextResponse.json(
+        { success: false, error: 'Terminal session not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!session.recordingPath) {
+      return NextResponse.json(
+        { success: false, error: 'Terminal session was not recorded' },
+        { status: 404 }
+      )
+    }
+
+    const recording = await readFile(session.recordingPath)
+
+    return new NextResponse(recording, {
+      headers: {
+        'Content-Type': 'application/x-asciicast',
+        'Content-Disposition': `attachment; filename="${session.id}.cast"`
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching terminal recording:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch terminal recording' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { canAccessApp } from '@/lib/apps'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const app = await db.app.findUnique({ where: { id: params.id } })
+
+    if (!app || !await canAccessApp(app, user, 'app:exec')) {
+      return NextResponse.json(
+        { success: false, error: 'App not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    const [sessions, total] = await Promise.all([
+      db.terminalSession.findMany({
+        where: { appId: app.id },
+        include: {
+          user: {
+            select: { id: true, email: true, name: true }
+          }
+        },
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      db.terminalSession.count({ where: { appId: app.id } })
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: sessions.map(({ recordingPath, ...session }) => ({
+        ...session,
+        recorded: !!recordingPath
+      })),
+      metadata: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching terminal sessions:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch terminal sessions' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,24 +2,35 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { authenticate } from '@/lib/middleware'
 import { createAuditLog, AuditActions } from '@/lib/audit'
-import { AppStatus } from '@prisma/client'
+import { validateTemplateOverrides, getAppTemplateOverrides, TemplateError, LimaTemplate } from '@/lib/templates'
+import { getTemplateForUser } from '@/lib/custom-templates'
+import { assertAccountInGoodStanding, assertAppCountLimit, assertResourceLimits, assertPlanFeature, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
+import { getBillingAccountId } from '@/lib/organizations'
+import { appEnvVarsSchema, canAccessApp, redactAppConfig } from '@/lib/apps'
+import { AppEnvironment, AppStatus } from '@prisma/client'
 import { z } from 'zod'
 
 const createAppSchema = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
   domain: z.string().optional(),
+  // Hard-capped budgets stop non-production apps only
+  environment: z.enum(AppEnvironment).optional(),
   template: z.string().min(1),
   config: z.object({
     cpu: z.number().min(1).max(16),
     memory: z.number().min(1).max(64),
     disk: z.number().min(1).max(1000),
     dockerImage: z.string().min(1),
-    envVars: z.record(z.string()).optional(),
+    envVars: appEnvVarsSchema.optional(),
     ports: z.array(z.object({
       guest: z.number(),
       host: z.number(),
       protocol: z.string()
+    })).optional(),
+    provision: z.array(z.object({
+      mode: z.enum(['system', 'user']),
+      script: z.string().min(1)
     })).optional()
   })
 })
@@ -39,7 +50,16 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status')
     const search = searchParams.get('search')
 
-    let whereClause: any = { userId: user.id }
+    // Within an organization list its apps, otherwise the user's personal ones and those shared with them
+    const organization = authenticatedRequest.organization
+    let whereClause: any = organization
+      ? { organizationId: organization.id }
+      : {
+          OR: [
+            { userId: user.id, organizationId: null },
+            { roleBindings: { some: { userId: user.id } } }
+          ]
+        }
 
     // Filter by status if provided
     if (status && status !== 'all') {
@@ -49,10 +69,14 @@ export async function GET(request: NextRequest) {
     // Filter by search term if provided
     if (search) {
       const searchLower = search.toLowerCase()
-      whereClause.OR = [
-        { name: { contains: searchLower } },
-        { domain: { contains: searchLower } }
-      ]
+      whereClause = {
+        AND: [whereClause, {
+          OR: [
+            { name: { contains: searchLower } },
+            { domain: { contains: searchLower } }
+          ]
+        }]
+      }
     }
 
     const apps = await db.app.findMany({
@@ -73,18 +97,26 @@ export async function GET(request: NextRequest) {
     })
 
     // Transform the data to match the expected format
-    const transformedApps = apps.map(app => ({
-      id: app.id,
-      name: app.name,
-      description: app.description,
-      status: app.status,
-      template: app.template,
-      domain: app.domain,
-      createdAt: app.createdAt.toISOString().split('T')[0],
-      config: JSON.parse(app.config),
-      deployments: app.deployments,
-      backupsCount: app._count.backups,
-      snapshotsCount: app._count.snapshots
+    const transformedApps = await Promise.all(apps.map(async app => {
+      const canConfigure = await canAccessApp(app, user, 'app:configure')
+
+      return {
+        id: app.id,
+        name: app.name,
+        description: app.description,
+        status: app.status,
+        environment: app.environment,
+        template: app.template,
+        domain: app.domain,
+        createdAt: app.createdAt.toISOString().split('T')[0],
+        config: canConfigure ? JSON.parse(app.config) : redactAppConfig(JSON.parse(app.config)),
+        deployments: canConfigure ? app.deployments : app.deployments.map(deployment => ({
+          ...deployment,
+          config: deployment.config && JSON.stringify(redactAppConfig(JSON.parse(deployment.config)))
+        })),
+        backupsCount: app._count.backups,
+        snapshotsCount: app._count.snapshots
+      }
     }))
 
     return NextResponse.json({
@@ -110,38 +142,48 @@ export async function POST(request: NextRequest) {
 
     const authenticatedRequest = authResult as any
     const user = authenticatedRequest.user
+    const organization = authenticatedRequest.organization
+
+    // Organization apps are billed to, and limited by, its billing user's plan
+    const accountId = getBillingAccountId(authenticatedRequest, 'app:create')
+    if (!accountId) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
 
     const body = await request.json()
     const validatedData = createAppSchema.parse(body)
 
-    // Check user's current app count against their plan limits
-    const userAppsCount = await db.app.count({
-      where: { userId: user.id }
-    })
-
-    // Get user's billing info to check limits
-    const billingInfo = await db.billingInfo.findUnique({
-      where: { userId: user.id }
-    })
-
-    // Define plan limits (in a real app, this would come from a config or database)
-    const planLimits = {
-      FREE: 1,
-      BASIC: 3,
-      PRO: 10,
-      ENTERPRISE: Infinity
+    // The template must exist in the registry and the resources fit its ranges
+    let template: LimaTemplate
+    try {
+      template = await getTemplateForUser(validatedData.template, user)
+      validateTemplateOverrides(template, getAppTemplateOverrides(validatedData.config))
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return NextResponse.json(
+          { success: false, error: error.message, details: error.details },
+          { status: 400 }
+        )
+      }
+      throw error
     }
 
-    const userLimit = planLimits[billingInfo?.plan || 'FREE']
-
-    if (userAppsCount >= userLimit) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: `App limit reached. Your ${billingInfo?.plan || 'FREE'} plan allows ${userLimit} apps.` 
-        },
-        { status: 403 }
-      )
+    // The app count, VM size and a custom domain must all fit the user's plan
+    try {
+      await assertAccountInGoodStanding(accountId)
+      await assertAppCountLimit(accountId)
+      await assertResourceLimits(accountId, validatedData.config)
+      if (validatedData.domain) {
+        await assertPlanFeature(accountId, 'customDomains', 'Custom domains')
+      }
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      throw error
     }
 
     // Create new app
@@ -150,10 +192,13 @@ export async function POST(request: NextRequest) {
         name: validatedData.name,
         description: validatedData.description,
         domain: validatedData.domain,
+        environment: validatedData.environment,
         template: validatedData.template,
+        templateRevisionId: template.revisionId,
         status: AppStatus.CREATING,
         config: JSON.stringify(validatedData.config),
-        userId: user.id
+        userId: accountId,
+        organizationId: organization?.id
       },
       include: {
         deployments: true,
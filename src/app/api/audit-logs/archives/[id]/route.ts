@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readFile } from 'fs/promises';
+import { db } from '@/lib/db';
+import { authorize } from '@/lib/middleware';
+import { getAuditArchivePath } from '@/lib/audit-archive';
+
+// Downloads the gzipped NDJSON file of an archive
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authorize('audit:read')(request);
+    if (authError) {
+      return authError;
+    }
+
+    const archive = await db.auditLogArchive.findUnique({ where: { id: params.id } });
+    if (!archive) {
+      return NextResponse.json(
+        { error: 'Archive not found' },
+        { status: 404 }
+      );
+    }
+
+    let file: Buffer;
+    try {
+      file = await readFile(getAuditArchivePath(archive));
+    } catch {
+      return NextResponse.json(
+        { error: 'Archive file is missing' },
+        { status: 410 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${archive.fileName}"`,
+        'X-Checksum-SHA256': archive.checksum,
+      },
+    });
+  } catch (error) {
+    console.error('Download audit log archive error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { authorize } from '@/lib/middleware';
+import { getAuditLogRetentionDays, serializeAuditLogArchive } from '@/lib/audit-archive';
+
+// Archived runs of entries, oldest first
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authorize('audit:read')(request);
+    if (authError) {
+      return authError;
+    }
+
+    const archives = await db.auditLogArchive.findMany({ orderBy: { fromSequence: 'asc' } });
+
+    return NextResponse.json({
+      archives: archives.map(serializeAuditLogArchive),
+      retentionDays: getAuditLogRetentionDays(),
+    });
+  } catch (error) {
+    console.error('Get audit log archives error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
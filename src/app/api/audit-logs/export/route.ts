@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, AuthenticatedRequest } from '@/lib/middleware';
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit';
+import { AUDIT_EXPORT_CONTENT_TYPES, AUDIT_EXPORT_FORMATS, AuditExportFormat, streamAuditLogs } from '@/lib/audit-export';
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/audit-logs/export?format=csv|ndjson&startDate=&endDate=
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authorize('audit:read')(request);
+    if (authError) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'ndjson') as AuditExportFormat;
+    if (!AUDIT_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${AUDIT_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const startDate = parseDate(searchParams.get('startDate'));
+    const endDate = parseDate(searchParams.get('endDate'));
+    if (startDate === null || endDate === null) {
+      return NextResponse.json(
+        { error: 'startDate and endDate must be ISO 8601 dates' },
+        { status: 400 }
+      );
+    }
+    if (startDate && endDate && startDate >= endDate) {
+      return NextResponse.json(
+        { error: 'startDate must be before endDate' },
+        { status: 400 }
+      );
+    }
+
+    const user = (request as AuthenticatedRequest).user!;
+    const range = `${startDate?.toISOString() ?? 'the start'} to ${endDate?.toISOString() ?? 'now'}`;
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.AUDIT_LOG_EXPORT,
+      resource: 'audit_log',
+      details: `Exported entries from ${range} as ${format}`,
+      ...getRequestMetadata(request),
+    });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+    return new NextResponse(streamAuditLogs({ format, startDate, endDate }), {
+      headers: {
+        'Content-Type': AUDIT_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="audit-log-${stamp}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Export audit logs error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticate, authorize } from '@/lib/middleware';
+import { authenticate } from '@/lib/middleware';
 import { getAuditLogs } from '@/lib/audit';
-import { UserRole } from '@prisma/client';
+import { hasGlobalPermission } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication and authorization
-    const authError = await authorize(UserRole.USER)(request);
-    if (authError) {
-      return authError;
+    const authResult = await authenticate(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
     }
 
-    const authRequest = request as any;
-    const user = authRequest.user!;
+    const user = authResult.user!;
+    const canReadAll = await hasGlobalPermission(user, 'audit:read');
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
@@ -22,6 +21,8 @@ export async function GET(request: NextRequest) {
     const appId = searchParams.get('appId');
     const action = searchParams.get('action');
     const resource = searchParams.get('resource');
+    const apiTokenId = searchParams.get('apiTokenId');
+    const impersonatorId = searchParams.get('impersonatorId');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
 
@@ -31,18 +32,20 @@ export async function GET(request: NextRequest) {
       offset,
     };
 
-    // Regular users can only see their own logs
-    if (user.role === UserRole.USER) {
+    // Without audit:read users can only see their own logs
+    if (!canReadAll) {
       filters.userId = user.id;
     }
 
-    // Admins can filter by user or app
-    if (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN) {
+    // Those with it can filter by app
+    if (canReadAll) {
       if (appId) filters.appId = appId;
     }
 
     if (action) filters.action = action;
     if (resource) filters.resource = resource;
+    if (apiTokenId) filters.apiTokenId = apiTokenId;
+    if (impersonatorId) filters.impersonatorId = impersonatorId;
     if (startDate) filters.startDate = new Date(startDate);
     if (endDate) filters.endDate = new Date(endDate);
 
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { authorize, AuthenticatedRequest } from '@/lib/middleware';
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit';
+import { verifyAuditChain } from '@/lib/audit-chain';
+import { checkAuditLogArchive } from '@/lib/audit-archive';
+
+// Checks the whole hash chain, and that every archive file is still as it was written
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authorize('audit:read')(request);
+    if (authError) {
+      return authError;
+    }
+
+    const report = await verifyAuditChain();
+
+    const archives = await db.auditLogArchive.findMany({ orderBy: { fromSequence: 'asc' } });
+    const archiveFiles = await Promise.all(archives.map(async (archive) => ({
+      id: archive.id,
+      fileName: archive.fileName,
+      status: await checkAuditLogArchive(archive),
+    })));
+    const valid = report.valid && archiveFiles.every((file) => file.status === 'ok');
+
+    const user = (request as AuthenticatedRequest).user!;
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.AUDIT_LOG_VERIFY,
+      resource: 'audit_log',
+      details: valid
+        ? `Verified ${report.checked} entries up to ${report.lastSequence ?? 'none'} and ${archives.length} archives`
+        : `Verification failed with ${report.issues.length}${report.truncated ? '+' : ''} chain issues`
+          + ` and ${archiveFiles.filter((file) => file.status !== 'ok').length} bad archive files`,
+      ...getRequestMetadata(request),
+    });
+
+    return NextResponse.json({ ...report, valid, archiveFiles });
+  } catch (error) {
+    console.error('Verify audit logs error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { getRequestMetadata } from '@/lib/audit';
+import {
+  claimTwoFactorAttempt,
+  clearTwoFactorFailures,
+  enableTwoFactor,
+  recordTwoFactorFailure,
+  verifyTotp,
+} from '@/lib/two-factor';
+import { z } from 'zod';
+
+const enableSchema = z.object({
+  code: z.string().min(1).max(10),
+});
+
+// Confirms the authenticator app works, then turns 2FA on and returns the recovery codes once
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    if (authResult.apiToken) {
+      return NextResponse.json(
+        { error: 'API tokens cannot change two-factor authentication' },
+        { status: 403 }
+      );
+    }
+
+    const { code } = enableSchema.parse(await request.json());
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: authResult.user!.id },
+    });
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    if (!user.twoFactorSecret) {
+      return NextResponse.json(
+        { error: 'Start two-factor setup first' },
+        { status: 400 }
+      );
+    }
+
+    // Guessing the setup code is as good as knowing the secret, so it shares the lockout of every other 2FA check
+    if (!await claimTwoFactorAttempt(user.id)) {
+      return NextResponse.json(
+        { error: 'Too many wrong codes, try again later' },
+        { status: 429 }
+      );
+    }
+
+    const metadata = getRequestMetadata(request);
+
+    if (!await verifyTotp(user, code)) {
+      await recordTwoFactorFailure(user.id, 'enable', metadata);
+      return NextResponse.json(
+        { error: 'Invalid code' },
+        { status: 400 }
+      );
+    }
+
+    await clearTwoFactorFailures(user.id);
+    const recoveryCodes = await enableTwoFactor(user.id, metadata);
+
+    return NextResponse.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Enable two-factor error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
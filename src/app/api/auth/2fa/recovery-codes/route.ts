@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit';
+import { sendSecurityAlert } from '@/lib/account-emails';
+import { claimTwoFactorAttempt, clearTwoFactorFailures, generateRecoveryCodes, recordTwoFactorFailure, verifyTotp } from '@/lib/two-factor';
+import { z } from 'zod';
+
+const regenerateSchema = z.object({
+  code: z.string().min(1).max(10),
+});
+
+// Replaces every recovery code, used or not, with a new set
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    if (authResult.apiToken) {
+      return NextResponse.json(
+        { error: 'API tokens cannot change two-factor authentication' },
+        { status: 403 }
+      );
+    }
+
+    const { code } = regenerateSchema.parse(await request.json());
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: authResult.user!.id },
+    });
+
+    if (!user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 409 }
+      );
+    }
+
+    if (!await claimTwoFactorAttempt(user.id)) {
+      return NextResponse.json(
+        { error: 'Too many wrong codes, try again later' },
+        { status: 429 }
+      );
+    }
+
+    const metadata = getRequestMetadata(request);
+
+    if (!await verifyTotp(user, code)) {
+      await recordTwoFactorFailure(user.id, 'recovery codes', metadata);
+      return NextResponse.json(
+        { error: 'Invalid code' },
+        { status: 401 }
+      );
+    }
+
+    await clearTwoFactorFailures(user.id);
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.TWO_FACTOR_RECOVERY_CODES,
+      resource: 'user',
+      resourceId: user.id,
+      details: 'Generated new recovery codes',
+      ...metadata,
+    });
+
+    await sendSecurityAlert(user, 'New two-factor recovery codes were generated', metadata);
+
+    return NextResponse.json({
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Regenerate recovery codes error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
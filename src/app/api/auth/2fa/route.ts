@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { verifyPassword } from '@/lib/auth';
+import { getRequestMetadata } from '@/lib/audit';
+import {
+  claimTwoFactorAttempt,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  recordTwoFactorFailure,
+  verifySecondFactor,
+} from '@/lib/two-factor';
+import { z } from 'zod';
+
+const disableSchema = z.object({
+  password: z.string().min(1).optional(), // required unless the account signs in only through SSO
+  code: z.string().min(1).max(32), // an authenticator code or a recovery code
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: authResult.user!.id },
+    });
+
+    return NextResponse.json({
+      twoFactor: await getTwoFactorStatus(user),
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Turning 2FA off takes the password and a current code, so a stolen session alone cannot do it
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    if (authResult.apiToken) {
+      return NextResponse.json(
+        { error: 'API tokens cannot change two-factor authentication' },
+        { status: 403 }
+      );
+    }
+
+    const { password, code } = disableSchema.parse(await request.json());
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: authResult.user!.id },
+    });
+
+    if (!user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 409 }
+      );
+    }
+
+    if (await isTwoFactorRequired(user)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is required for your account' },
+        { status: 403 }
+      );
+    }
+
+    if (!await claimTwoFactorAttempt(user.id)) {
+      return NextResponse.json(
+        { error: 'Too many wrong codes, try again later' },
+        { status: 429 }
+      );
+    }
+
+    const metadata = getRequestMetadata(request);
+
+    const passwordValid = user.password ? !!password && await verifyPassword(password, user.password) : true;
+
+    if (!passwordValid || !await verifySecondFactor(user, code)) {
+      await recordTwoFactorFailure(user.id, 'disable', metadata);
+      return NextResponse.json(
+        { error: 'Invalid password or code' },
+        { status: 401 }
+      );
+    }
+
+    await disableTwoFactor(user.id, metadata);
+
+    return NextResponse.json({
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Disable two-factor error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { beginTwoFactorSetup } from '@/lib/two-factor';
+
+// Returns a new secret and its QR code; confirm a code from it at /api/auth/2fa/enable
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    if (authResult.apiToken) {
+      return NextResponse.json(
+        { error: 'API tokens cannot change two-factor authentication' },
+        { status: 403 }
+      );
+    }
+
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: authResult.user!.id },
+    });
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(await beginTwoFactorSetup(user));
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestMetadata } from '@/lib/audit';
+import { AccountEmailError, accountEmailErrorResponse, confirmEmailChange } from '@/lib/account-emails';
+import { z } from 'zod';
+
+const confirmEmailChangeSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Follows the link sent to the new address; works without being signed in
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = confirmEmailChangeSchema.parse(await request.json());
+
+    await confirmEmailChange(token, getRequestMetadata(request));
+
+    return NextResponse.json({
+      message: 'Email address changed',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AccountEmailError) {
+      return accountEmailErrorResponse(error);
+    }
+
+    console.error('Confirm email change error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
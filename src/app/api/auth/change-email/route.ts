@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { verifyPassword } from '@/lib/auth';
+import { AccountEmailError, accountEmailErrorResponse, requestEmailChange } from '@/lib/account-emails';
+import { z } from 'zod';
+
+const changeEmailSchema = z.object({
+  email: z.string().email(),
+  password: z.string().optional(), // required unless the account has no password (SSO)
+});
+
+// The address changes once the link sent to the new one is followed
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    if (authResult.apiToken) {
+      return NextResponse.json(
+        { error: 'API tokens cannot change the email address' },
+        { status: 403 }
+      );
+    }
+
+    const { email, password } = changeEmailSchema.parse(await request.json());
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: authResult.user!.id },
+    });
+
+    const passwordValid = user.password ? !!password && await verifyPassword(password, user.password) : true;
+    if (!passwordValid) {
+      return NextResponse.json(
+        { error: 'Invalid password' },
+        { status: 401 }
+      );
+    }
+
+    await requestEmailChange(user, email);
+
+    return NextResponse.json({
+      message: `Confirmation email sent to ${email}`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AccountEmailError) {
+      return accountEmailErrorResponse(error);
+    }
+
+    console.error('Change email error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyPassword, generateToken } from '@/lib/auth';
-import { createAuditLog, AuditActions } from '@/lib/audit';
+import { verifyPassword, generateTwoFactorChallenge } from '@/lib/auth';
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit';
+import { createSession } from '@/lib/sessions';
+import { isTwoFactorRequired } from '@/lib/two-factor';
+import { sendNewLoginAlert } from '@/lib/account-emails';
+import { assertLoginAllowed, clearFailedLogins, recordFailedLogin } from '@/lib/login-attempts';
+import { clientAddressKey, enforceRateLimit, LOGIN_RATE_LIMIT, RateLimitError, rateLimitErrorResponse } from '@/lib/rate-limit';
 import { z } from 'zod';
 
 const loginSchema = z.object({
@@ -11,6 +16,13 @@ const loginSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    // Limits guessing across accounts from one address; each account also backs off on its own below
+    await enforceRateLimit(
+      `login:${clientAddressKey(getRequestMetadata(request).ipAddress)}`,
+      LOGIN_RATE_LIMIT,
+      'Too many sign-in attempts from this address. Try again later.'
+    );
+
     const body = await request.json();
     const { email, password } = loginSchema.parse(body);
 
@@ -19,40 +31,39 @@ export async function POST(request: NextRequest) {
       where: { email },
     });
 
-    if (!user || !user.isActive) {
+    // Accounts created through SSO have no password to check
+    if (!user || !user.isActive || !user.password) {
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       );
     }
 
+    assertLoginAllowed(user);
+
     // Verify password
     const isValidPassword = await verifyPassword(password, user.password);
     if (!isValidPassword) {
+      await recordFailedLogin(user, getRequestMetadata(request));
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       );
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    await clearFailedLogins(user);
 
-    // Create session
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days from now
+    // With 2FA on, the password only earns a challenge, completed with a code at /api/auth/login/verify
+    if (user.twoFactorEnabled) {
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallenge(user.id),
+      });
+    }
 
-    await db.session.create({
-      data: {
-        userId: user.id,
-        token,
-        expiresAt,
-      },
-    });
+    // Start a session; the refresh token keeps it going after the access token expires
+    await sendNewLoginAlert(user, getRequestMetadata(request));
+    const tokens = await createSession(user, getRequestMetadata(request));
 
     // Log audit
     await createAuditLog({
@@ -71,10 +82,17 @@ export async function POST(request: NextRequest) {
         email: user.email,
         name: user.name,
         role: user.role,
+        emailVerified: user.emailVerified,
       },
-      token,
+      ...tokens,
+      // The session can only reach 2FA enrollment until this is done
+      twoFactorSetupRequired: await isTwoFactorRequired(user),
     });
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitErrorResponse(error);
+    }
+
     console.error('Login error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
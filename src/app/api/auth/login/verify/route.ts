@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyTwoFactorChallenge } from '@/lib/auth';
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit';
+import { createSession } from '@/lib/sessions';
+import { sendNewLoginAlert } from '@/lib/account-emails';
+import { claimTwoFactorAttempt, clearTwoFactorFailures, isTotpCode, recordTwoFactorFailure, verifySecondFactor } from '@/lib/two-factor';
+import { z } from 'zod';
+
+const verifySchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().min(1).max(32), // an authenticator code or a recovery code
+});
+
+// Second step of signing in with 2FA; the challenge comes from /api/auth/login
+export async function POST(request: NextRequest) {
+  try {
+    const { challengeToken, code } = verifySchema.parse(await request.json());
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign-in expired, please enter your password again' },
+        { status: 401 }
+      );
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Invalid credentials' },
+        { status: 401 }
+      );
+    }
+
+    if (!await claimTwoFactorAttempt(user.id)) {
+      return NextResponse.json(
+        { error: 'Too many wrong codes, try again later' },
+        { status: 429 }
+      );
+    }
+
+    const metadata = getRequestMetadata(request);
+
+    if (!await verifySecondFactor(user, code)) {
+      await recordTwoFactorFailure(user.id, 'sign-in', metadata);
+      return NextResponse.json(
+        { error: 'Invalid code' },
+        { status: 401 }
+      );
+    }
+
+    await clearTwoFactorFailures(user.id);
+    await sendNewLoginAlert(user, metadata);
+    const tokens = await createSession(user, metadata);
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.USER_LOGIN,
+      resource: 'user',
+      resourceId: user.id,
+      details: `User logged in with email: ${user.email} and ${isTotpCode(code) ? 'an authenticator code' : 'a recovery code'}`,
+      ...metadata,
+    });
+
+    return NextResponse.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        emailVerified: user.emailVerified,
+      },
+      ...tokens,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Two-factor login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
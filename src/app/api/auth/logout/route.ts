@@ -22,9 +22,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Delete session
-    await db.session.deleteMany({
-      where: { token },
+    // End the session, so neither this token nor its refresh token works again
+    await db.session.updateMany({
+      where: { id: payload.sessionId, userId: payload.userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'logout' },
     });
 
     // Log audit
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticate } from '@/lib/middleware';
 import { getUserBillingInfo, getUsageSummary } from '@/lib/billing';
+import { getGlobalPermissions } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,7 +24,13 @@ export async function GET(request: NextRequest) {
         id: user.id,
         email: user.email,
         role: user.role,
+        emailVerified: user.emailVerified,
       },
+      // The token authenticating this request, if it is not a login session
+      apiToken: authResult.apiToken ?? null,
+      // The admin acting as this user, if the session is an impersonation
+      impersonator: authResult.impersonator ?? null,
+      permissions: [...await getGlobalPermissions(user)],
       billing: billingInfo,
       usage: usageSummary,
     });
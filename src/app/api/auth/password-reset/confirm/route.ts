@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestMetadata } from '@/lib/audit';
+import { AccountEmailError, accountEmailErrorResponse, resetPassword } from '@/lib/account-emails';
+import { z } from 'zod';
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+// Every session ends; the user signs in again with the new password
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = resetPasswordSchema.parse(await request.json());
+
+    await resetPassword(token, password, getRequestMetadata(request));
+
+    return NextResponse.json({
+      message: 'Password changed, sign in with your new password',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AccountEmailError) {
+      return accountEmailErrorResponse(error);
+    }
+
+    console.error('Password reset error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
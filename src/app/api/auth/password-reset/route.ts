@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestPasswordReset } from '@/lib/account-emails';
+import { getRequestMetadata } from '@/lib/audit';
+import { clientAddressKey, enforceRateLimit, PASSWORD_RESET_RATE_LIMIT, RateLimitError, rateLimitErrorResponse } from '@/lib/rate-limit';
+import { z } from 'zod';
+
+const passwordResetSchema = z.object({
+  email: z.string().email(),
+});
+
+// Answers the same whether or not the address has an account
+export async function POST(request: NextRequest) {
+  try {
+    await enforceRateLimit(
+      `password-reset:${clientAddressKey(getRequestMetadata(request).ipAddress)}`,
+      PASSWORD_RESET_RATE_LIMIT,
+      'Too many reset requests from this address. Try again later.'
+    );
+
+    const { email } = passwordResetSchema.parse(await request.json());
+
+    await requestPasswordReset(email);
+
+    return NextResponse.json({
+      message: 'If an account uses this address, a reset link is on its way',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof RateLimitError) {
+      return rateLimitErrorResponse(error);
+    }
+
+    console.error('Password reset request error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestMetadata } from '@/lib/audit';
+import { refreshSession } from '@/lib/sessions';
+import { z } from 'zod';
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+// Refresh tokens are single-use: the response carries the one to send next time
+export async function POST(request: NextRequest) {
+  try {
+    const { refreshToken } = refreshSchema.parse(await request.json());
+
+    const tokens = await refreshSession(refreshToken, getRequestMetadata(request));
+    if (!tokens) {
+      return NextResponse.json(
+        { error: 'Invalid or expired refresh token' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(tokens);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Refresh session error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
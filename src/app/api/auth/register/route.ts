@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { hashPassword, generateToken } from '@/lib/auth';
-import { createAuditLog, AuditActions } from '@/lib/audit';
+import { hashPassword } from '@/lib/auth';
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit';
+import { createSession } from '@/lib/sessions';
+import { sendVerificationEmail } from '@/lib/account-emails';
+import { clientAddressKey, enforceRateLimit, RateLimitError, rateLimitErrorResponse, REGISTER_RATE_LIMIT } from '@/lib/rate-limit';
 import { UserRole } from '@prisma/client';
 import { z } from 'zod';
 
@@ -13,6 +16,12 @@ const registerSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    await enforceRateLimit(
+      `register:${clientAddressKey(getRequestMetadata(request).ipAddress)}`,
+      REGISTER_RATE_LIMIT,
+      'Too many accounts created from this address. Try again later.'
+    );
+
     const body = await request.json();
     const { email, password, name } = registerSchema.parse(body);
 
@@ -44,6 +53,7 @@ export async function POST(request: NextRequest) {
         email: true,
         name: true,
         role: true,
+        emailVerified: true,
         createdAt: true,
       },
     });
@@ -57,12 +67,11 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // The account stays read-only until the emailed link is followed
+    await sendVerificationEmail(user);
+
+    // Start a session, as logging in would
+    const tokens = await createSession(user, getRequestMetadata(request));
 
     // Log audit
     await createAuditLog({
@@ -77,9 +86,13 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       user,
-      token,
+      ...tokens,
     });
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitErrorResponse(error);
+    }
+
     console.error('Registration error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
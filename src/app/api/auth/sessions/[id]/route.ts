@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { getRequestMetadata } from '@/lib/audit';
+import { isSessionActive, revokeSession, serializeSession } from '@/lib/sessions';
+
+// Log out one device; revoking the current session works like logging out
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    if (authResult.apiToken) {
+      return NextResponse.json(
+        { error: 'API tokens cannot manage sessions' },
+        { status: 403 }
+      );
+    }
+
+    const session = await db.session.findFirst({
+      where: { id: params.id, userId: authResult.user!.id },
+    });
+
+    if (!session || !isSessionActive(session)) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = await revokeSession(session, getRequestMetadata(request));
+
+    return NextResponse.json({
+      session: serializeSession(revoked, authResult.session?.id),
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
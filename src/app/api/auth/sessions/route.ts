@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { getRequestMetadata } from '@/lib/audit';
+import { revokeAllSessions, serializeSession } from '@/lib/sessions';
+
+// Sessions are managed from a login session, so a leaked API token cannot sign the user out
+function rejectApiToken(authResult: { apiToken?: unknown }) {
+  return authResult.apiToken
+    ? NextResponse.json({ error: 'API tokens cannot manage sessions' }, { status: 403 })
+    : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const rejected = rejectApiToken(authResult);
+    if (rejected) {
+      return rejected;
+    }
+
+    const sessions = await db.session.findMany({
+      where: {
+        userId: authResult.user!.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => serializeSession(session, authResult.session?.id)),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Log out everywhere, this device included
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const rejected = rejectApiToken(authResult);
+    if (rejected) {
+      return rejected;
+    }
+
+    const revoked = await revokeAllSessions(authResult.user!.id, getRequestMetadata(request));
+
+    return NextResponse.json({
+      message: 'Logged out everywhere',
+      revoked,
+    });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
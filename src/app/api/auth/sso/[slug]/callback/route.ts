@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestMetadata } from '@/lib/audit';
+import {
+  completeSsoLogin,
+  findEnabledSsoProvider,
+  finishSsoLogin,
+  getBaseUrl,
+  provisionSsoUser,
+  SSO_STATE_COOKIE,
+  SsoError,
+} from '@/lib/sso';
+
+// The state cookie is good for one answer, whatever it was
+function clearStateCookie(response: NextResponse, slug: string): NextResponse {
+  response.cookies.delete({ name: SSO_STATE_COOKIE, path: `/api/auth/sso/${slug}/callback` });
+  return response;
+}
+
+/**
+ * Sign the user in and hand the result to the login page in the URL fragment,
+ * which browsers do not send to servers or put in Referer headers.
+ */
+async function handleCallback(
+  request: NextRequest,
+  slug: string,
+  response: { state: string | null; code?: string | null; samlResponse?: string | null },
+  status: number
+) {
+  const baseUrl = getBaseUrl(request);
+  const metadata = getRequestMetadata(request);
+
+  try {
+    const provider = await findEnabledSsoProvider(slug);
+    const profile = await completeSsoLogin(provider, baseUrl, response, request.cookies.get(SSO_STATE_COOKIE)?.value);
+    const user = await provisionSsoUser(provider, profile, metadata);
+    const result = await finishSsoLogin(provider, user, metadata);
+
+    return clearStateCookie(NextResponse.redirect(`${baseUrl}/login#${result.toString()}`, status), slug);
+  } catch (error) {
+    const message = error instanceof SsoError ? error.message : 'Sign-in failed';
+    if (!(error instanceof SsoError)) {
+      console.error('SSO callback error:', error);
+    }
+
+    return clearStateCookie(NextResponse.redirect(`${baseUrl}/login?ssoError=${encodeURIComponent(message)}`, status), slug);
+  }
+}
+
+// OIDC redirects back here with the authorization code
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const searchParams = request.nextUrl.searchParams;
+  const providerError = searchParams.get('error_description') || searchParams.get('error');
+
+  if (providerError) {
+    return clearStateCookie(
+      NextResponse.redirect(`${getBaseUrl(request)}/login?ssoError=${encodeURIComponent(providerError)}`),
+      params.slug
+    );
+  }
+
+  return handleCallback(request, params.slug, {
+    state: searchParams.get('state'),
+    code: searchParams.get('code'),
+  }, 307);
+}
+
+// SAML assertion consumer service; 303 so the browser follows with a GET
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const form = await request.formData();
+
+  return handleCallback(request, params.slug, {
+    state: form.get('RelayState')?.toString() ?? null,
+    samlResponse: form.get('SAMLResponse')?.toString() ?? null,
+  }, 303);
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SsoProtocol } from '@prisma/client';
+import { findEnabledSsoProvider, getBaseUrl, SsoError, ssoErrorResponse, ssoUrls } from '@/lib/sso';
+import { generateSamlMetadata } from '@/lib/sso-saml';
+
+// SAML service provider metadata, to register this app with the identity provider
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const provider = await findEnabledSsoProvider(params.slug);
+    if (provider.protocol !== SsoProtocol.SAML) {
+      throw new SsoError('NOT_FOUND', 'Metadata is only published for SAML providers');
+    }
+
+    const xml = generateSamlMetadata(provider, ssoUrls(provider, getBaseUrl(request)));
+
+    return new NextResponse(xml, {
+      headers: { 'Content-Type': 'application/samlmetadata+xml' },
+    });
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return ssoErrorResponse(error);
+    }
+
+    console.error('SAML metadata error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findEnabledSsoProvider,
+  getBaseUrl,
+  SSO_STATE_COOKIE,
+  SsoError,
+  ssoStateCookieOptions,
+  startSsoLogin,
+} from '@/lib/sso';
+
+// The login page links here; the browser is sent on to the identity provider
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const baseUrl = getBaseUrl(request);
+
+  try {
+    const provider = await findEnabledSsoProvider(params.slug);
+
+    const { url, state } = await startSsoLogin(provider, baseUrl);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(SSO_STATE_COOKIE, state, ssoStateCookieOptions(provider, baseUrl));
+    return response;
+  } catch (error) {
+    const message = error instanceof SsoError ? error.message : 'Could not reach the SSO provider';
+    if (!(error instanceof SsoError)) {
+      console.error('SSO start error:', error);
+    }
+
+    return NextResponse.redirect(`${baseUrl}/login?ssoError=${encodeURIComponent(message)}`);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { discoverSsoProviders } from '@/lib/sso';
+
+// Providers the login page offers for an email address, or the global ones without one
+export async function GET(request: NextRequest) {
+  try {
+    const email = request.nextUrl.searchParams.get('email') || undefined;
+
+    return NextResponse.json({ providers: await discoverSsoProviders(email) });
+  } catch (error) {
+    console.error('SSO discovery error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { getRequestMetadata } from '@/lib/audit';
+import { revokeApiToken, serializeApiToken } from '@/lib/api-tokens';
+
+// Revoked tokens are kept so the audit log can still name them
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    if (authResult.apiToken) {
+      return NextResponse.json(
+        { error: 'API tokens cannot manage API tokens' },
+        { status: 403 }
+      );
+    }
+
+    const token = await db.apiToken.findFirst({
+      where: { id: params.id, userId: authResult.user!.id },
+    });
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'API token not found' },
+        { status: 404 }
+      );
+    }
+
+    if (token.revokedAt) {
+      return NextResponse.json(
+        { error: 'API token is already revoked' },
+        { status: 409 }
+      );
+    }
+
+    const revoked = await revokeApiToken(token, getRequestMetadata(request));
+
+    return NextResponse.json({
+      token: serializeApiToken(revoked),
+    });
+  } catch (error) {
+    console.error('Revoke API token error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { getRequestMetadata } from '@/lib/audit';
+import { createApiToken, MAX_API_TOKENS_PER_USER, serializeApiToken } from '@/lib/api-tokens';
+import { PERMISSIONS } from '@/lib/permissions';
+import { z } from 'zod';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(PERMISSIONS)).min(1),
+  expiresInDays: z.number().int().min(1).max(3650).optional(), // omit for a token that does not expire
+  rateLimit: z.number().int().min(1).optional(), // requests per minute; the plan's limit still caps it
+});
+
+// Tokens are managed from a login session, so a leaked token cannot mint or revoke others
+function rejectApiToken(authResult: { apiToken?: unknown }) {
+  return authResult.apiToken
+    ? NextResponse.json({ error: 'API tokens cannot manage API tokens' }, { status: 403 })
+    : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const rejected = rejectApiToken(authResult);
+    if (rejected) {
+      return rejected;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeRevoked = searchParams.get('includeRevoked') === 'true';
+
+    const tokens = await db.apiToken.findMany({
+      where: {
+        userId: authResult.user!.id,
+        ...(includeRevoked ? {} : { revokedAt: null }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      tokens: tokens.map(serializeApiToken),
+    });
+  } catch (error) {
+    console.error('Get API tokens error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const rejected = rejectApiToken(authResult);
+    if (rejected) {
+      return rejected;
+    }
+
+    const user = authResult.user!;
+    const data = createTokenSchema.parse(await request.json());
+
+    if (await db.apiToken.count({ where: { userId: user.id, revokedAt: null } }) >= MAX_API_TOKENS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_API_TOKENS_PER_USER} active API tokens` },
+        { status: 409 }
+      );
+    }
+
+    const { token, secret } = await createApiToken(user.id, {
+      name: data.name,
+      scopes: data.scopes,
+      expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * DAY) : null,
+      rateLimit: data.rateLimit ?? null,
+    }, getRequestMetadata(request));
+
+    // The secret is shown once and cannot be retrieved again
+    return NextResponse.json(
+      { token: serializeApiToken(token), secret },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create API token error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
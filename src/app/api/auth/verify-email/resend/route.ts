@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { AccountEmailError, accountEmailErrorResponse, sendVerificationEmail } from '@/lib/account-emails';
+
+// Sends a new link; the previous one stops working
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: authResult.user!.id },
+    });
+
+    if (user.emailVerified) {
+      return NextResponse.json(
+        { error: 'Your email address is already verified' },
+        { status: 409 }
+      );
+    }
+
+    await sendVerificationEmail(user);
+
+    return NextResponse.json({
+      message: `Verification email sent to ${user.email}`,
+    });
+  } catch (error) {
+    if (error instanceof AccountEmailError) {
+      return accountEmailErrorResponse(error);
+    }
+
+    console.error('Resend verification email error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestMetadata } from '@/lib/audit';
+import { AccountEmailError, accountEmailErrorResponse, verifyEmail } from '@/lib/account-emails';
+import { z } from 'zod';
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Follows the link from the verification email; works without being signed in
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = verifyEmailSchema.parse(await request.json());
+
+    await verifyEmail(token, getRequestMetadata(request));
+
+    return NextResponse.json({
+      message: 'Email address verified',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AccountEmailError) {
+      return accountEmailErrorResponse(error);
+    }
+
+    console.error('Verify email error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { getAccessibleApp } from '@/lib/apps'
+import { Permission } from '@/lib/permissions'
 
 // Mock backups data - in a real app, this would be shared
 let backups = [
@@ -19,18 +22,41 @@ let backups = [
   }
 ]
 
+// Checked on the backup's app, so per-app role bindings apply; downloads hand out the same data a restore does
+const ACTION_PERMISSIONS = new Map<string, Permission>([
+  ['restore', 'backup:restore'],
+  ['verify', 'backup:create'],
+  ['download', 'backup:restore']
+])
+
+// A backup the user cannot reach through its app is reported as missing
+async function findAccessibleBackup(request: NextRequest, id: string, permission: Permission) {
+  const authResult = await authenticate(request)
+  if (authResult instanceof NextResponse) {
+    return authResult
+  }
+
+  const user = (authResult as any).user
+  const backup = backups.find(b => b.id === id)
+
+  if (!backup || !await getAccessibleApp(backup.appId, user, permission)) {
+    return NextResponse.json(
+      { success: false, error: 'Backup not found' },
+      { status: 404 }
+    )
+  }
+
+  return backup
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const backup = backups.find(b => b.id === params.id)
-    
-    if (!backup) {
-      return NextResponse.json(
-        { success: false, error: 'Backup not found' },
-        { status: 404 }
-      )
+    const backup = await findAccessibleBackup(request, params.id, 'app:read')
+    if (backup instanceof NextResponse) {
+      return backup
     }
 
     return NextResponse.json({
@@ -52,16 +78,20 @@ export async function POST(
 ) {
   try {
     const body = await request.json()
-    const backup = backups.find(b => b.id === params.id)
-    
-    if (!backup) {
+    const action = body.action
+    const permission = ACTION_PERMISSIONS.get(action)
+
+    if (!permission) {
       return NextResponse.json(
-        { success: false, error: 'Backup not found' },
-        { status: 404 }
+        { success: false, error: 'Invalid action' },
+        { status: 400 }
       )
     }
 
-    const action = body.action
+    const backup = await findAccessibleBackup(request, params.id, permission)
+    if (backup instanceof NextResponse) {
+      return backup
+    }
 
     switch (action) {
       case 'restore':
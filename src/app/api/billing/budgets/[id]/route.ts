@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { getBillingAccountId } from '@/lib/organizations';
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit';
+import { getBudgetStatus, serializeBudget } from '@/lib/budgets';
+import { z } from 'zod';
+
+// What a budget caps and whose it is are fixed; create a new budget to change them
+const updateBudgetSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  amount: z.number().positive().optional(),
+  hardCap: z.boolean().optional(),
+});
+
+async function findUserBudget(id: string, userId: string) {
+  return db.budget.findFirst({ where: { id, userId } });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const accountId = getBillingAccountId(authResult);
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const budget = await db.budget.findFirst({
+      where: { id: params.id, userId: accountId },
+      include: { alerts: { orderBy: { createdAt: 'desc' } } },
+    });
+
+    if (!budget) {
+      return NextResponse.json(
+        { error: 'Budget not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      budget: serializeBudget(budget, await getBudgetStatus(budget)),
+    });
+  } catch (error) {
+    console.error('Get budget error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = authResult.user!;
+    const accountId = getBillingAccountId(authResult, 'billing:manage');
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const data = updateBudgetSchema.parse(await request.json());
+    const existing = await findUserBudget(params.id, accountId);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Budget not found' },
+        { status: 404 }
+      );
+    }
+
+    // Apps stopped by the hard cap restart on the next evaluation if the budget no longer covers them
+    const budget = await db.budget.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    await createAuditLog({
+      userId: user.id,
+      appId: budget.appId ?? undefined,
+      action: AuditActions.BUDGET_UPDATE,
+      resource: 'budget',
+      resourceId: budget.id,
+      details: `Updated budget "${budget.name}": ${JSON.stringify(data)}`,
+      ...getRequestMetadata(request),
+    });
+
+    return NextResponse.json({
+      budget: serializeBudget(budget, await getBudgetStatus(budget)),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update budget error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = authResult.user!;
+    const accountId = getBillingAccountId(authResult, 'billing:manage');
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const budget = await findUserBudget(params.id, accountId);
+
+    if (!budget) {
+      return NextResponse.json(
+        { error: 'Budget not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.budget.delete({ where: { id: budget.id } });
+
+    await createAuditLog({
+      userId: user.id,
+      appId: budget.appId ?? undefined,
+      action: AuditActions.BUDGET_DELETE,
+      resource: 'budget',
+      resourceId: budget.id,
+      details: `Deleted budget "${budget.name}"`,
+      ...getRequestMetadata(request),
+    });
+
+    return NextResponse.json({
+      message: 'Budget deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete budget error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
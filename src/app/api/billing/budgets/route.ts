@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { db } from '@/lib/db';
+import { getBillingAccountId } from '@/lib/organizations';
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit';
+import {
+  BUDGET_THRESHOLDS,
+  BUDGET_USAGE_METRICS,
+  MAX_BUDGETS_PER_USER,
+  getBudgetStatus,
+  serializeBudget,
+} from '@/lib/budgets';
+import { BudgetKind } from '@prisma/client';
+import { z } from 'zod';
+
+const createBudgetSchema = z.object({
+  name: z.string().min(1).max(100),
+  kind: z.enum(BudgetKind),
+  metric: z.enum(BUDGET_USAGE_METRICS).optional(),
+  appId: z.string().optional(),
+  amount: z.number().positive(), // cents for SPEND budgets
+  hardCap: z.boolean().optional(),
+}).refine(
+  data => (data.kind === BudgetKind.USAGE) === (data.metric !== undefined),
+  { message: 'USAGE budgets need a metric and SPEND budgets take none', path: ['metric'] }
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const accountId = getBillingAccountId(authResult);
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const budgets = await db.budget.findMany({
+      where: { userId: accountId },
+      include: { alerts: { orderBy: { createdAt: 'desc' }, take: 10 } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const serialized = await Promise.all(
+      budgets.map(async budget => serializeBudget(budget, await getBudgetStatus(budget)))
+    );
+
+    return NextResponse.json({
+      budgets: serialized,
+      thresholds: BUDGET_THRESHOLDS,
+    });
+  } catch (error) {
+    console.error('Get budgets error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = authResult.user!;
+    const accountId = getBillingAccountId(authResult, 'billing:manage');
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const data = createBudgetSchema.parse(await request.json());
+
+    if (data.appId && !await db.app.findFirst({ where: { id: data.appId, userId: accountId }, select: { id: true } })) {
+      return NextResponse.json(
+        { error: 'App not found' },
+        { status: 404 }
+      );
+    }
+
+    if (await db.budget.count({ where: { userId: accountId } }) >= MAX_BUDGETS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_BUDGETS_PER_USER} budgets` },
+        { status: 409 }
+      );
+    }
+
+    const budget = await db.budget.create({
+      data: {
+        userId: accountId,
+        appId: data.appId,
+        name: data.name,
+        kind: data.kind,
+        metric: data.metric,
+        amount: data.amount,
+        hardCap: data.hardCap ?? false,
+      },
+    });
+
+    await createAuditLog({
+      userId: user.id,
+      appId: budget.appId ?? undefined,
+      action: AuditActions.BUDGET_CREATE,
+      resource: 'budget',
+      resourceId: budget.id,
+      details: `Created ${budget.kind} budget "${budget.name}" of ${budget.amount}${budget.hardCap ? ' with a hard cap' : ''}`,
+      ...getRequestMetadata(request),
+    });
+
+    return NextResponse.json(
+      { budget: serializeBudget(budget, await getBudgetStatus(budget)) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create budget error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { getAccessibleApp, parseAppConfig } from '@/lib/apps';
+import { getBillingAccountId } from '@/lib/organizations';
+import { estimateAppCost } from '@/lib/estimates';
+import { z } from 'zod';
+
+// Same bounds as POST /api/apps and POST /api/apps/[id]/scale
+const resourcesSchema = z.looseObject({
+  cpu: z.number().int().min(1).max(16).optional(),
+  memory: z.number().int().min(1).max(64).optional(),
+  disk: z.number().int().min(1).max(1000).optional(),
+});
+
+const estimateSchema = z.object({
+  // Present to price scaling an existing app; omitted resources keep their current value
+  appId: z.string().optional(),
+  config: resourcesSchema,
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = authResult.user!;
+    const { appId, config } = estimateSchema.parse(await request.json());
+
+    if (!appId) {
+      if (config.cpu === undefined || config.memory === undefined || config.disk === undefined) {
+        return NextResponse.json(
+          { error: 'cpu, memory and disk are required to estimate a new app' },
+          { status: 400 }
+        );
+      }
+
+      // New apps in an organization are billed to its billing user
+      const accountId = getBillingAccountId(authResult, 'app:create');
+      if (!accountId) {
+        return NextResponse.json(
+          { error: 'Insufficient permissions' },
+          { status: 403 }
+        );
+      }
+
+      const estimate = await estimateAppCost(accountId, { cpu: config.cpu, memory: config.memory, disk: config.disk });
+      return NextResponse.json({ estimate });
+    }
+
+    const app = await getAccessibleApp(appId, user, 'app:scale');
+
+    if (!app) {
+      return NextResponse.json(
+        { error: 'App not found' },
+        { status: 404 }
+      );
+    }
+
+    const current = parseAppConfig(app);
+    const estimate = await estimateAppCost(app.userId, {
+      cpu: config.cpu ?? current.cpu,
+      memory: config.memory ?? current.memory,
+      disk: config.disk ?? current.disk,
+    }, { app });
+
+    return NextResponse.json({ estimate });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Billing estimate error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
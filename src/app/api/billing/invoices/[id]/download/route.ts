@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { getBillingAccountId } from '@/lib/organizations';
+import { getInvoiceForUser, serializeInvoice } from '@/lib/invoices';
+import { renderInvoiceHtml, renderInvoicePdf } from '@/lib/invoice-documents';
+
+// GET /api/billing/invoices/[id]/download?format=pdf|html
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const format = new URL(request.url).searchParams.get('format') || 'pdf';
+    if (format !== 'pdf' && format !== 'html') {
+      return NextResponse.json(
+        { error: 'format must be pdf or html' },
+        { status: 400 }
+      );
+    }
+
+    const accountId = getBillingAccountId(authResult);
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const invoice = await getInvoiceForUser(params.id, { id: accountId, role: authResult.user!.role });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const serialized = serializeInvoice(invoice);
+
+    if (format === 'html') {
+      return new NextResponse(renderInvoiceHtml(serialized, invoice.user), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Content-Disposition': `inline; filename="${invoice.number}.html"`,
+        },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(renderInvoicePdf(serialized, invoice.user)), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${invoice.number}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Download invoice error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
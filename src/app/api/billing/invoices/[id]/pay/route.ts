@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { getBillingAccountId } from '@/lib/organizations';
+import { collectInvoicePayment, getInvoiceForUser, serializeInvoice } from '@/lib/invoices';
+import { settleAccount } from '@/lib/subscriptions';
+import { InvoiceStatus } from '@prisma/client';
+
+// Retry payment of an open invoice now, e.g. after updating the payment method
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const accountId = getBillingAccountId(authResult, 'billing:manage');
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const invoice = await getInvoiceForUser(params.id, { id: accountId, role: authResult.user!.role });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    if (invoice.status !== InvoiceStatus.OPEN) {
+      return NextResponse.json(
+        { error: `Invoice is ${invoice.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await collectInvoicePayment(invoice.id);
+
+    if (updated.status !== InvoiceStatus.PAID) {
+      return NextResponse.json(
+        { error: updated.paymentError || 'Payment failed', invoice: serializeInvoice(updated) },
+        { status: 402 }
+      );
+    }
+
+    await settleAccount(updated.userId, `Invoice ${updated.number} paid`);
+
+    return NextResponse.json({
+      invoice: serializeInvoice(updated),
+      message: 'Invoice paid successfully',
+    });
+  } catch (error) {
+    console.error('Pay invoice error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
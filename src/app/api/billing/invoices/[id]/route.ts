@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { getBillingAccountId } from '@/lib/organizations';
+import { getInvoiceForUser, serializeInvoice } from '@/lib/invoices';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const accountId = getBillingAccountId(authResult);
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const invoice = await getInvoiceForUser(params.id, { id: accountId, role: authResult.user!.role });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      invoice: serializeInvoice(invoice),
+    });
+  } catch (error) {
+    console.error('Get invoice error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/middleware';
+import { hasGlobalPermission } from '@/lib/permissions';
+import { getBillingAccountId } from '@/lib/organizations';
+import { db } from '@/lib/db';
+import { closeBillingPeriod, closeBillingPeriods, serializeInvoice } from '@/lib/invoices';
+import { getBillingPeriod } from '@/lib/metering';
+import { InvoiceStatus } from '@prisma/client';
+import { z } from 'zod';
+
+const closePeriodSchema = z.object({
+  userId: z.string().optional(),
+  periodStart: z.string().datetime().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = authResult.user!;
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = parseInt(searchParams.get('limit') || '12');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const accountId = getBillingAccountId(authResult);
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    // A global billing:read permission allows looking at another user's invoices
+    const userId = searchParams.get('userId') && await hasGlobalPermission(user, 'billing:read')
+      ? searchParams.get('userId')!
+      : accountId;
+
+    const where: any = { userId };
+    if (status && Object.values(InvoiceStatus).includes(status as InvoiceStatus)) {
+      where.status = status;
+    }
+
+    const [invoices, total] = await Promise.all([
+      db.invoice.findMany({
+        where,
+        include: { lineItems: true },
+        orderBy: { periodStart: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      db.invoice.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      invoices: invoices.map(serializeInvoice),
+      metadata: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    console.error('Get invoices error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Closes billing periods now instead of waiting for the hourly run; one user's period, or every due period
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request);
+
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = authResult.user!;
+
+    if (!await hasGlobalPermission(user, 'billing:manage')) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const body = closePeriodSchema.parse(await request.json().catch(() => ({})));
+
+    if (body.userId) {
+      const period = getBillingPeriod(body.periodStart ? new Date(body.periodStart) : undefined);
+      if (period.end > new Date()) {
+        return NextResponse.json(
+          { error: 'The billing period has not ended yet' },
+          { status: 400 }
+        );
+      }
+
+      const invoice = await closeBillingPeriod(body.userId, period);
+      return NextResponse.json({
+        invoices: invoice ? [serializeInvoice(invoice)] : [],
+      });
+    }
+
+    const invoices = await closeBillingPeriods();
+    return NextResponse.json({
+      invoices: invoices.map(serializeInvoice),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Close billing periods error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
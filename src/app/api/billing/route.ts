@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticate, authorize } from '@/lib/middleware';
-import { getUserBillingInfo, updateUserBillingInfo, checkUsageLimits, getMonthlyUsageReport } from '@/lib/billing';
-import { BillingPlan, BillingCycle, UserRole } from '@prisma/client';
+import { getUserBillingInfo, checkUsageLimits, getMonthlyUsageReport } from '@/lib/billing';
+import { applySubscriptionChange } from '@/lib/subscriptions';
+import { getBillingAccountId } from '@/lib/organizations';
+import { hasGlobalPermission } from '@/lib/permissions';
+import { db } from '@/lib/db';
+import { BillingPlan, BillingCycle } from '@prisma/client';
 import { z } from 'zod';
 
+// Customer ids come from the payment provider, so they cannot be set here
 const updateBillingSchema = z.object({
   plan: z.enum(['FREE', 'BASIC', 'PRO', 'ENTERPRISE']).optional(),
   billingCycle: z.enum(['MONTHLY', 'YEARLY']).optional(),
-  stripeCustomerId: z.string().optional(),
+  userId: z.string().optional(),
 });
 
 export async function GET(request: NextRequest) {
@@ -18,16 +23,24 @@ export async function GET(request: NextRequest) {
       return authResult;
     }
 
-    const user = authResult.user!;
+    // Within an organization this is its billing user's account
+    const accountId = getBillingAccountId(authResult);
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
 
     // Get billing info
-    const billingInfo = await getUserBillingInfo(user.id);
+    const billingInfo = await getUserBillingInfo(accountId);
     
     // Check usage limits
-    const usageCheck = await checkUsageLimits(user.id);
+    const usageCheck = await checkUsageLimits(accountId);
     
     // Get monthly usage report
-    const monthlyReport = await getMonthlyUsageReport(user.id);
+    const monthlyReport = await getMonthlyUsageReport(accountId);
 
     return NextResponse.json({
       billing: billingInfo,
@@ -53,8 +66,8 @@ export async function PUT(request: NextRequest) {
 
     const user = authResult.user!;
 
-    // Only admins can update billing plans
-    if (user.role !== UserRole.ADMIN && user.role !== UserRole.SUPER_ADMIN) {
+    // Changing plans directly bypasses the payment provider, so it is an operator action
+    if (!await hasGlobalPermission(user, 'billing:manage')) {
       return NextResponse.json(
         { error: 'Insufficient permissions' },
         { status: 403 }
@@ -62,17 +75,24 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { plan, billingCycle, stripeCustomerId } = updateBillingSchema.parse(body);
+    const { plan, billingCycle, userId } = updateBillingSchema.parse(body);
+
+    if (userId && !await db.user.findUnique({ where: { id: userId }, select: { id: true } })) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
 
-    // Update billing info
-    const updatedBilling = await updateUserBillingInfo(user.id, {
-      plan: plan as BillingPlan,
-      billingCycle: billingCycle as BillingCycle,
-      stripeCustomerId,
+    // Normally subscription changes arrive through /api/billing/webhooks; this is a manual override
+    const { billing, proration } = await applySubscriptionChange(userId ?? user.id, {
+      plan: plan as BillingPlan | undefined,
+      billingCycle: billingCycle as BillingCycle | undefined,
     });
 
     return NextResponse.json({
-      billing: updatedBilling,
+      billing,
+      proration,
       message: 'Billing information updated successfully',
     });
   } catch (error) {
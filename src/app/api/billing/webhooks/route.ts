@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentProvider, PaymentProviderError } from '@/lib/payments';
+import { handleBillingWebhook } from '@/lib/billing-webhooks';
+import { BillingEventStatus } from '@prisma/client';
+import { z } from 'zod';
+
+// Called by the payment provider, authenticated by its signature rather than a user token
+export async function POST(request: NextRequest) {
+  // The signature covers the exact bytes received, so the body is read as text
+  const payload = await request.text();
+  const provider = getPaymentProvider();
+
+  let event;
+  try {
+    event = provider.verifyWebhook(payload, request.headers);
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const result = await handleBillingWebhook(provider.name, event, payload);
+
+    // Another delivery is applying it; if that one fails, the provider's retry picks it up
+    if (result.status === BillingEventStatus.PROCESSING) {
+      return NextResponse.json(
+        { error: 'Event is being processed' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      received: true,
+      status: result.status,
+      duplicate: result.duplicate,
+    });
+  } catch (error) {
+    // Malformed objects will not get better on redelivery
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid event object', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error(`Billing webhook ${event.id} (${event.type}) failed:`, error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { canAccessApp } from '@/lib/apps'
+import { assertPlanFeature, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
 
 // Mock domains data
 let domains = [
@@ -82,6 +86,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
     const body = await request.json()
     
     // Validate required fields
@@ -95,6 +105,27 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const app = await db.app.findUnique({ where: { id: body.appId } })
+    if (!app || !await canAccessApp(app, user, 'app:configure')) {
+      return NextResponse.json(
+        { success: false, error: 'App not found' },
+        { status: 404 }
+      )
+    }
+
+    // Limits follow the plan of the app's owner
+    try {
+      await assertPlanFeature(app.userId, 'customDomains', 'Custom domains')
+      if (body.sslEnabled !== false) {
+        await assertPlanFeature(app.userId, 'ssl', 'SSL certificates')
+      }
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      throw error
+    }
+
     // Check if domain already exists
     const existingDomain = domains.find(d => d.domain === body.domain)
     if (existingDomain) {
@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { canAccessApp } from '@/lib/apps'
+import { assertPlanFeature, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
 
 // Mock certificates data
 let certificates = [
@@ -133,6 +137,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
     const body = await request.json()
     
     // Validate required fields
@@ -146,6 +156,24 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const app = await db.app.findFirst({ where: { domain: body.domain } })
+    if (!app || !await canAccessApp(app, user, 'app:configure')) {
+      return NextResponse.json(
+        { success: false, error: 'No app of yours serves this domain' },
+        { status: 404 }
+      )
+    }
+
+    // Limits follow the plan of the app's owner
+    try {
+      await assertPlanFeature(app.userId, 'ssl', 'SSL certificates')
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      throw error
+    }
+
     // Check if certificate already exists for this domain
     const existingCert = certificates.find(cert => 
       cert.dnsNames.some(name => body.dnsNames.includes(name)) || 
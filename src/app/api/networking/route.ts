@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { canAccessApp } from '@/lib/apps'
+import { assertPlanFeature, PlanLimitError, planLimitResponse } from '@/lib/plan-limits'
 
 // Mock networking data
 let networkConfigs = [
@@ -173,6 +177,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
     const body = await request.json()
     
     // Validate required fields
@@ -186,6 +196,27 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const app = await db.app.findUnique({ where: { id: body.appId } })
+    if (!app || !await canAccessApp(app, user, 'app:configure')) {
+      return NextResponse.json(
+        { success: false, error: 'App not found' },
+        { status: 404 }
+      )
+    }
+
+    // Limits follow the plan of the app's owner
+    try {
+      await assertPlanFeature(app.userId, 'customDomains', 'Custom domains')
+      if (body.sslEnabled !== false) {
+        await assertPlanFeature(app.userId, 'ssl', 'SSL certificates')
+      }
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return planLimitResponse(error)
+      }
+      throw error
+    }
+
     // Validate domain format
     const domainRegex = /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/
     if (!domainRegex.test(body.domain)) {
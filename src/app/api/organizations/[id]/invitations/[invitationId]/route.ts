@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { assertNotApiToken, organizationErrorResponse, OrganizationError, revokeInvitation } from '@/lib/organizations'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; invitationId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    assertNotApiToken(user)
+    await revokeInvitation(params.id, user.id, params.invitationId)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation revoked successfully'
+    })
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error revoking invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke invitation' },
+      { status: 500 }
+    )
+  }
+}
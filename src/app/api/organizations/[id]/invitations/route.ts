@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import {
+  assertNotApiToken,
+  createInvitation,
+  organizationErrorResponse,
+  OrganizationError,
+  requireOrgRole,
+  serializeInvitation
+} from '@/lib/organizations'
+import { OrgRole } from '@prisma/client'
+import { z } from 'zod'
+
+const createInvitationSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(OrgRole).optional()
+})
+
+// Pending invitations only; accepted ones show up as members
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    assertNotApiToken(user)
+    await requireOrgRole(params.id, user.id, OrgRole.ADMIN)
+
+    const invitations = await db.invitation.findMany({
+      where: { organizationId: params.id, acceptedAt: null },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: invitations.map(serializeInvitation),
+      total: invitations.length
+    })
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error fetching invitations:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch invitations' },
+      { status: 500 }
+    )
+  }
+}
+
+// The invitee is emailed the link; the token is also returned here, once, in case the mail does not arrive
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    assertNotApiToken(user)
+    const body = createInvitationSchema.parse(await request.json())
+    const { invitation, token, emailed } = await createInvitation(params.id, user.id, body.email, body.role ?? OrgRole.DEVELOPER)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...serializeInvitation(invitation),
+        token,
+        acceptUrl: `/dashboard?invitation=${token}`,
+        emailed
+      },
+      message: 'Invitation created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error creating invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create invitation' },
+      { status: 500 }
+    )
+  }
+}
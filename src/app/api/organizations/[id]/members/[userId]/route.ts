@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { assertNotApiToken, organizationErrorResponse, OrganizationError, removeMember, updateMemberRole } from '@/lib/organizations'
+import { OrgRole } from '@prisma/client'
+import { z } from 'zod'
+
+const updateMemberSchema = z.object({
+  role: z.enum(OrgRole)
+})
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    assertNotApiToken(user)
+    const { role } = updateMemberSchema.parse(await request.json())
+    const membership = await updateMemberRole(params.id, user.id, params.userId, role)
+
+    return NextResponse.json({
+      success: true,
+      data: { userId: membership.userId, role: membership.role },
+      message: 'Member updated successfully'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error updating member:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update member' },
+      { status: 500 }
+    )
+  }
+}
+
+// Members may remove themselves to leave the organization
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    assertNotApiToken(user)
+    await removeMember(params.id, user.id, params.userId)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member removed successfully'
+    })
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error removing member:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove member' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { organizationErrorResponse, OrganizationError, requireOrgRole, serializeMembership } from '@/lib/organizations'
+import { OrgRole } from '@prisma/client'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    await requireOrgRole(params.id, user.id, OrgRole.VIEWER)
+
+    const memberships = await db.membership.findMany({
+      where: { organizationId: params.id },
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: memberships.map(serializeMembership),
+      total: memberships.length
+    })
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error fetching members:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch members' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import {
+  assertNotApiToken,
+  deleteOrganization,
+  organizationErrorResponse,
+  OrganizationError,
+  requireOrgRole,
+  serializeOrganization,
+  transferBilling
+} from '@/lib/organizations'
+import { OrgRole } from '@prisma/client'
+import { z } from 'zod'
+
+const updateOrganizationSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  billingUserId: z.string().optional(), // must be an owner; moves the organization's apps to their account
+  requireTwoFactor: z.boolean().optional() // members without 2FA can only enroll until they set it up
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const role = await requireOrgRole(params.id, user.id, OrgRole.VIEWER)
+    const organization = await db.organization.findUniqueOrThrow({
+      where: { id: params.id },
+      include: { _count: { select: { memberships: true, apps: true } } }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: serializeOrganization(organization, role)
+    })
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error fetching organization:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch organization' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    assertNotApiToken(user)
+    const body = updateOrganizationSchema.parse(await request.json())
+    const role = await requireOrgRole(params.id, user.id, OrgRole.ADMIN)
+
+    if (body.name) {
+      await db.organization.update({
+        where: { id: params.id },
+        data: { name: body.name }
+      })
+
+      await createAuditLog({
+        userId: user.id,
+        action: AuditActions.ORG_UPDATE,
+        resource: 'organization',
+        resourceId: params.id,
+        details: `Renamed organization to ${body.name}`,
+        ...getRequestMetadata(request)
+      })
+    }
+
+    if (body.requireTwoFactor !== undefined) {
+      await db.organization.update({
+        where: { id: params.id },
+        data: { requireTwoFactor: body.requireTwoFactor }
+      })
+
+      await createAuditLog({
+        userId: user.id,
+        action: AuditActions.ORG_UPDATE,
+        resource: 'organization',
+        resourceId: params.id,
+        details: `${body.requireTwoFactor ? 'Required' : 'Stopped requiring'} two-factor authentication for members`,
+        ...getRequestMetadata(request)
+      })
+    }
+
+    if (body.billingUserId) {
+      await transferBilling(params.id, user.id, body.billingUserId)
+    }
+
+    const organization = await db.organization.findUniqueOrThrow({
+      where: { id: params.id },
+      include: { _count: { select: { memberships: true, apps: true } } }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: serializeOrganization(organization, role),
+      message: 'Organization updated successfully'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error updating organization:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update organization' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    assertNotApiToken(user)
+    await deleteOrganization(params.id, user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Organization deleted successfully'
+    })
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error deleting organization:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete organization' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { acceptInvitation, organizationErrorResponse, OrganizationError, serializeOrganization } from '@/lib/organizations'
+import { z } from 'zod'
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1)
+})
+
+// Only the account whose email the invitation was sent to may accept it
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const { token } = acceptInvitationSchema.parse(await request.json())
+    const { membership, organization } = await acceptInvitation(token, user)
+
+    return NextResponse.json({
+      success: true,
+      data: serializeOrganization(organization, membership.role),
+      message: `Joined ${organization.name}`
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof OrganizationError) {
+      return organizationErrorResponse(error)
+    }
+
+    console.error('Error accepting invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to accept invitation' },
+      { status: 500 }
+    )
+  }
+}
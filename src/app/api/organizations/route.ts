@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { createOrganization, listOrganizations, serializeOrganization } from '@/lib/organizations'
+import { OrgRole } from '@prisma/client'
+import { z } from 'zod'
+
+const createOrganizationSchema = z.object({
+  name: z.string().min(1).max(100)
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const organizations = await listOrganizations(user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: organizations,
+      total: organizations.length
+    })
+  } catch (error) {
+    console.error('Error fetching organizations:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch organizations' },
+      { status: 500 }
+    )
+  }
+}
+
+// The creator becomes the organization's owner and billing user
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const { name } = createOrganizationSchema.parse(await request.json())
+    const organization = await createOrganization(user.id, name)
+
+    return NextResponse.json({
+      success: true,
+      data: serializeOrganization(organization, OrgRole.OWNER),
+      message: 'Organization created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating organization:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create organization' },
+      { status: 500 }
+    )
+  }
+}
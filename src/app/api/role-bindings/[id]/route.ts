@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { deleteRoleBinding, permissionErrorResponse, PermissionError } from '@/lib/permissions'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    await deleteRoleBinding(user, params.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Role revoked successfully'
+    })
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return permissionErrorResponse(error)
+    }
+
+    console.error('Error deleting role binding:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke role' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { canAccessApp } from '@/lib/apps'
+import {
+  createRoleBinding,
+  hasGlobalPermission,
+  permissionErrorResponse,
+  PermissionError,
+  serializeRoleBinding
+} from '@/lib/permissions'
+import { z } from 'zod'
+
+const createBindingSchema = z.object({
+  roleId: z.string().min(1),
+  userId: z.string().optional(),
+  email: z.string().email().optional(),
+  appId: z.string().optional() // omit to bind globally
+}).refine(data => !!data.userId !== !!data.email, {
+  message: 'Give either userId or email',
+  path: ['userId']
+})
+
+// An app's bindings for those who manage its access, every binding for role managers, otherwise your own
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const { searchParams } = new URL(request.url)
+    const appId = searchParams.get('appId')
+    const userId = searchParams.get('userId')
+    const where: any = {}
+
+    if (appId) {
+      const app = await db.app.findUnique({ where: { id: appId } })
+      if (!app || !await canAccessApp(app, user, 'role:manage')) {
+        return NextResponse.json(
+          { success: false, error: 'App not found' },
+          { status: 404 }
+        )
+      }
+      where.appId = appId
+    } else if (!await hasGlobalPermission(user, 'role:manage')) {
+      where.userId = user.id
+    }
+
+    if (userId && !where.userId) {
+      where.userId = userId
+    }
+
+    const bindings = await db.roleBinding.findMany({
+      where,
+      include: { role: true, user: { select: { email: true } } },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: bindings.map(serializeRoleBinding),
+      total: bindings.length
+    })
+  } catch (error) {
+    console.error('Error fetching role bindings:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch role bindings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = createBindingSchema.parse(await request.json())
+
+    let userId = body.userId
+    if (body.email) {
+      const target = await db.user.findUnique({ where: { email: body.email }, select: { id: true } })
+      if (!target) {
+        return NextResponse.json(
+          { success: false, error: 'User not found' },
+          { status: 404 }
+        )
+      }
+      userId = target.id
+    }
+
+    const binding = await createRoleBinding(user, body.roleId, userId!, body.appId ?? null)
+
+    return NextResponse.json({
+      success: true,
+      data: serializeRoleBinding(binding),
+      message: 'Role granted successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof PermissionError) {
+      return permissionErrorResponse(error)
+    }
+
+    console.error('Error creating role binding:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to grant role' },
+      { status: 500 }
+    )
+  }
+}
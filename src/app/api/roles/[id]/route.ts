@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, authorize } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { PERMISSIONS, serializeRole } from '@/lib/permissions'
+import { z } from 'zod'
+
+// Changes apply to every existing binding of the role
+const updateRoleSchema = z.object({
+  description: z.string().max(200).nullable().optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1).optional()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const role = await db.role.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { bindings: true } } }
+    })
+
+    if (!role) {
+      return NextResponse.json(
+        { success: false, error: 'Role not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeRole(role)
+    })
+  } catch (error) {
+    console.error('Error fetching role:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch role' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authorize('role:manage')(request)
+    if (authError) {
+      return authError
+    }
+
+    const user = (request as any).user
+    const body = updateRoleSchema.parse(await request.json())
+    const existing = await db.role.findUnique({ where: { id: params.id } })
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Role not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.builtIn) {
+      return NextResponse.json(
+        { success: false, error: 'Built-in roles cannot be modified' },
+        { status: 403 }
+      )
+    }
+
+    const role = await db.role.update({
+      where: { id: existing.id },
+      data: {
+        description: body.description,
+        permissions: body.permissions ? JSON.stringify([...new Set(body.permissions)]) : undefined
+      }
+    })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.ROLE_UPDATE,
+      resource: 'role',
+      resourceId: role.id,
+      details: `Updated role ${role.name}: ${JSON.stringify(body)}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: serializeRole(role),
+      message: 'Role updated successfully'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating role:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update role' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authorize('role:manage')(request)
+    if (authError) {
+      return authError
+    }
+
+    const user = (request as any).user
+    const role = await db.role.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { bindings: true } } }
+    })
+
+    if (!role) {
+      return NextResponse.json(
+        { success: false, error: 'Role not found' },
+        { status: 404 }
+      )
+    }
+
+    if (role.builtIn) {
+      return NextResponse.json(
+        { success: false, error: 'Built-in roles cannot be deleted' },
+        { status: 403 }
+      )
+    }
+
+    if (role._count.bindings > 0) {
+      return NextResponse.json(
+        { success: false, error: `Role is still bound to ${role._count.bindings} user(s)` },
+        { status: 409 }
+      )
+    }
+
+    await db.role.delete({ where: { id: role.id } })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.ROLE_DELETE,
+      resource: 'role',
+      resourceId: role.id,
+      details: `Deleted role ${role.name}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Role deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting role:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete role' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, authorize } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { PERMISSIONS, serializeRole } from '@/lib/permissions'
+import { z } from 'zod'
+
+const createRoleSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]{1,49}$/, 'Use 2-50 lowercase letters, digits and dashes'),
+  description: z.string().max(200).optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1)
+})
+
+// Every role with its permissions, so users can see what a binding would grant
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const roles = await db.role.findMany({
+      include: { _count: { select: { bindings: true } } },
+      orderBy: [{ builtIn: 'desc' }, { name: 'asc' }]
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: roles.map(serializeRole),
+      permissions: PERMISSIONS,
+      total: roles.length
+    })
+  } catch (error) {
+    console.error('Error fetching roles:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch roles' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authorize('role:manage')(request)
+    if (authError) {
+      return authError
+    }
+
+    const user = (request as any).user
+    const body = createRoleSchema.parse(await request.json())
+
+    if (await db.role.findUnique({ where: { name: body.name } })) {
+      return NextResponse.json(
+        { success: false, error: `A role named ${body.name} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const role = await db.role.create({
+      data: {
+        name: body.name,
+        description: body.description,
+        permissions: JSON.stringify([...new Set(body.permissions)])
+      }
+    })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.ROLE_CREATE,
+      resource: 'role',
+      resourceId: role.id,
+      details: `Created role ${role.name} with ${body.permissions.join(', ')}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: serializeRole(role),
+      message: 'Role created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating role:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create role' },
+      { status: 500 }
+    )
+  }
+}
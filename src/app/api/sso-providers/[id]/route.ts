@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import {
+  assertValidSsoProviderConfig,
+  findManagedSsoProvider,
+  getBaseUrl,
+  parseVerifiedDomains,
+  serializeSsoProvider,
+  SsoError,
+  ssoErrorResponse
+} from '@/lib/sso'
+import { OrgRole, UserRole } from '@prisma/client'
+import { z } from 'zod'
+
+// The slug, protocol and owner stay fixed; secrets are kept unless new ones are sent
+const updateSsoProviderSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+  emailDomains: z.array(z.string().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, 'Use lowercase domain names')).optional(),
+  issuer: z.string().url().optional(),
+  clientId: z.string().min(1).optional(),
+  clientSecret: z.string().min(1).nullable().optional(),
+  scopes: z.string().max(200).nullable().optional(),
+  entryPoint: z.string().url().optional(),
+  idpIssuer: z.string().min(1).nullable().optional(),
+  idpCertificate: z.string().min(1).optional(),
+  groupsClaim: z.string().min(1).max(200).optional(),
+  roleMappings: z.record(z.string(), z.enum(UserRole)).optional(),
+  defaultRole: z.enum(UserRole).optional(),
+  memberRole: z.enum(OrgRole).optional()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const provider = await findManagedSsoProvider(params.id, (authResult as any).user)
+
+    return NextResponse.json({
+      success: true,
+      data: serializeSsoProvider(provider, getBaseUrl(request))
+    })
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return ssoErrorResponse(error)
+    }
+
+    console.error('Error fetching SSO provider:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch SSO provider' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = updateSsoProviderSchema.parse(await request.json())
+    const existing = await findManagedSsoProvider(params.id, user)
+
+    // Domains taken off the list have to be verified again if they come back
+    const data = {
+      ...body,
+      emailDomains: body.emailDomains && JSON.stringify([...new Set(body.emailDomains)]),
+      verifiedDomains: body.emailDomains && JSON.stringify(
+        parseVerifiedDomains(existing).filter((domain) => body.emailDomains!.includes(domain))
+      ),
+      roleMappings: body.roleMappings && JSON.stringify(body.roleMappings)
+    }
+    assertValidSsoProviderConfig({
+      ...existing,
+      ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined))
+    })
+
+    const provider = await db.ssoProvider.update({
+      where: { id: params.id },
+      data
+    })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.SSO_PROVIDER_UPDATE,
+      resource: 'sso_provider',
+      resourceId: provider.id,
+      details: `Updated ${Object.keys(body).join(', ')} of provider ${provider.name}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: serializeSsoProvider(provider, getBaseUrl(request)),
+      message: 'SSO provider updated successfully'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof SsoError) {
+      return ssoErrorResponse(error)
+    }
+
+    console.error('Error updating SSO provider:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update SSO provider' },
+      { status: 500 }
+    )
+  }
+}
+
+// Users keep their accounts, and any other provider or password they sign in with
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const provider = await findManagedSsoProvider(params.id, user)
+
+    await db.ssoProvider.delete({ where: { id: provider.id } })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.SSO_PROVIDER_DELETE,
+      resource: 'sso_provider',
+      resourceId: provider.id,
+      details: `Deleted ${provider.protocol} provider ${provider.name}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'SSO provider deleted successfully'
+    })
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return ssoErrorResponse(error)
+    }
+
+    console.error('Error deleting SSO provider:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete SSO provider' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import {
+  findManagedSsoProvider,
+  getBaseUrl,
+  serializeSsoProvider,
+  SsoError,
+  ssoErrorResponse,
+  verifySsoProviderDomains
+} from '@/lib/sso'
+
+// Check DNS for the TXT records of an organization provider's unverified domains
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const existing = await findManagedSsoProvider(params.id, user)
+    const { provider, unverified } = await verifySsoProviderDomains(existing)
+
+    if (provider.verifiedDomains !== existing.verifiedDomains) {
+      await createAuditLog({
+        userId: user.id,
+        action: AuditActions.SSO_PROVIDER_UPDATE,
+        resource: 'sso_provider',
+        resourceId: provider.id,
+        details: `Verified email domains of provider ${provider.name}, now ${provider.verifiedDomains}`,
+        ...getRequestMetadata(request)
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...serializeSsoProvider(provider, getBaseUrl(request)), unverifiedDomains: unverified },
+      message: unverified.length === 0
+        ? 'All email domains are verified'
+        : `No verification record found for ${unverified.join(', ')}`
+    })
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return ssoErrorResponse(error)
+    }
+
+    console.error('Error verifying SSO provider domains:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify SSO provider domains' },
+      { status: 500 }
+    )
+  }
+}
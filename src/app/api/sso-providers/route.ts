@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import {
+  assertCanManageSsoProviders,
+  assertValidSsoProviderConfig,
+  getBaseUrl,
+  serializeSsoProvider,
+  SsoError,
+  ssoErrorResponse
+} from '@/lib/sso'
+import { OrgRole, SsoProtocol, UserRole } from '@prisma/client'
+import { z } from 'zod'
+
+const createSsoProviderSchema = z.object({
+  name: z.string().min(1).max(100),
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]{1,49}$/, 'Use 2-50 lowercase letters, digits and dashes'),
+  protocol: z.enum(SsoProtocol),
+  organizationId: z.string().optional(), // omitted for a global provider
+  enabled: z.boolean().optional(),
+  emailDomains: z.array(z.string().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, 'Use lowercase domain names')).optional(),
+  issuer: z.string().url().optional(),
+  clientId: z.string().min(1).optional(),
+  clientSecret: z.string().min(1).optional(), // public clients rely on PKCE alone
+  scopes: z.string().max(200).optional(),
+  entryPoint: z.string().url().optional(),
+  idpIssuer: z.string().min(1).optional(),
+  idpCertificate: z.string().min(1).optional(),
+  groupsClaim: z.string().min(1).max(200).optional(),
+  roleMappings: z.record(z.string(), z.enum(UserRole)).optional(),
+  defaultRole: z.enum(UserRole).optional(),
+  memberRole: z.enum(OrgRole).optional()
+})
+
+// Global providers, or an organization's with ?organizationId=
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const organizationId = request.nextUrl.searchParams.get('organizationId')
+    await assertCanManageSsoProviders(user, organizationId)
+
+    const providers = await db.ssoProvider.findMany({
+      where: { organizationId },
+      orderBy: { name: 'asc' }
+    })
+    const baseUrl = getBaseUrl(request)
+
+    return NextResponse.json({
+      success: true,
+      data: providers.map((provider) => serializeSsoProvider(provider, baseUrl)),
+      total: providers.length
+    })
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return ssoErrorResponse(error)
+    }
+
+    console.error('Error fetching SSO providers:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch SSO providers' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = createSsoProviderSchema.parse(await request.json())
+    const organizationId = body.organizationId ?? null
+    await assertCanManageSsoProviders(user, organizationId)
+
+    const data = {
+      ...body,
+      organizationId,
+      emailDomains: JSON.stringify([...new Set(body.emailDomains ?? [])]),
+      roleMappings: JSON.stringify(body.roleMappings ?? {}),
+      defaultRole: body.defaultRole ?? UserRole.USER
+    }
+    assertValidSsoProviderConfig({
+      issuer: null,
+      clientId: null,
+      entryPoint: null,
+      idpCertificate: null,
+      ...data
+    })
+
+    if (await db.ssoProvider.findUnique({ where: { slug: body.slug } })) {
+      return NextResponse.json(
+        { success: false, error: `An SSO provider with slug ${body.slug} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const provider = await db.ssoProvider.create({ data })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.SSO_PROVIDER_CREATE,
+      resource: 'sso_provider',
+      resourceId: provider.id,
+      details: `Created ${provider.protocol} provider ${provider.name}${organizationId ? ` for organization ${organizationId}` : ''}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: serializeSsoProvider(provider, getBaseUrl(request)),
+      message: 'SSO provider created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof SsoError) {
+      return ssoErrorResponse(error)
+    }
+
+    console.error('Error creating SSO provider:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create SSO provider' },
+      { status: 500 }
+    )
+  }
+}
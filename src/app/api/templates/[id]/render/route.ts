@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { renderTemplate, toLimaYaml, TemplateError } from '@/lib/templates'
+import { getTemplateForUser } from '@/lib/custom-templates'
+import { z } from 'zod'
+
+const renderSchema = z.object({
+  name: z.string().min(1).default('preview'),
+  overrides: z.record(z.string(), z.unknown()).default({})
+})
+
+// Previews the Lima config an app created from this template would get
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = renderSchema.parse(await request.json().catch(() => ({})))
+    const template = await getTemplateForUser(params.id, user)
+    const config = renderTemplate(template, body.name, body.overrides)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        template: template.id,
+        version: template.version ?? null,
+        config,
+        yaml: toLimaYaml(config)
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: error.code === 'NOT_FOUND' ? 404 : 400 }
+      )
+    }
+
+    console.error('Error rendering template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to render template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { getCustomTemplateForUser, serializeTemplateRevision } from '@/lib/custom-templates'
+
+// Lists a custom template's revisions; ?version=N returns that revision with its YAML
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const custom = await getCustomTemplateForUser(params.id, user)
+
+    if (!custom) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const version = searchParams.get('version')
+
+    if (version) {
+      const revision = await db.templateRevision.findUnique({
+        where: { templateId_version: { templateId: custom.id, version: parseInt(version) } }
+      })
+
+      if (!revision) {
+        return NextResponse.json(
+          { success: false, error: 'Revision not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: serializeTemplateRevision(revision, true)
+      })
+    }
+
+    const revisions = await db.templateRevision.findMany({
+      where: { templateId: custom.id },
+      include: {
+        _count: { select: { apps: true } }
+      },
+      orderBy: { version: 'desc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: revisions.map(({ _count, ...revision }) => ({
+        ...serializeTemplateRevision(revision),
+        appsCount: _count.apps
+      })),
+      total: revisions.length
+    })
+  } catch (error) {
+    console.error('Error fetching template revisions:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch template revisions' },
+      { status: 500 }
+    )
+  }
+}
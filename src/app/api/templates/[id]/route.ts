@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { hasGlobalPermission } from '@/lib/permissions'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { getTemplate, serializeTemplate, TemplateError } from '@/lib/templates'
+import {
+  getTemplateForUser,
+  getCustomTemplateForUser,
+  canManageCustomTemplate,
+  validateCustomTemplate,
+  MAX_TEMPLATE_SIZE
+} from '@/lib/custom-templates'
+import { TemplateVisibility } from '@prisma/client'
+import { z } from 'zod'
+
+const updateTemplateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  visibility: z.enum(TemplateVisibility).optional(),
+  content: z.string().min(1).max(MAX_TEMPLATE_SIZE).optional() // creates a new revision
+})
+
+const isBuiltinTemplate = (id: string) => getTemplate(id).then(() => true, () => false)
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const template = await getTemplateForUser(params.id, user)
+
+    return NextResponse.json({
+      success: true,
+      data: serializeTemplate(template)
+    })
+  } catch (error) {
+    if (error instanceof TemplateError && error.code === 'NOT_FOUND') {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error fetching template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch template' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = updateTemplateSchema.parse(await request.json())
+    const isTemplateManager = await hasGlobalPermission(user, 'template:manage')
+
+    if (await isBuiltinTemplate(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Built-in templates cannot be modified' },
+        { status: 403 }
+      )
+    }
+
+    const custom = await getCustomTemplateForUser(params.id, user)
+    if (!custom) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await canManageCustomTemplate(custom, user)) {
+      return NextResponse.json(
+        { success: false, error: 'Only the owner or a template manager can modify this template' },
+        { status: 403 }
+      )
+    }
+
+    if (body.visibility === TemplateVisibility.SHARED && custom.visibility !== TemplateVisibility.SHARED && !isTemplateManager) {
+      return NextResponse.json(
+        { success: false, error: 'Sharing templates org-wide requires the template:manage permission' },
+        { status: 403 }
+      )
+    }
+
+    const name = body.name ?? custom.name
+    const description = body.description !== undefined ? body.description : custom.description
+    const content = body.content ?? custom.revisions[0].content
+    const { findings } = validateCustomTemplate(custom.slug, content, { name, description })
+
+    if (body.content !== undefined && findings.length > 0 && !isTemplateManager) {
+      return NextResponse.json(
+        { success: false, error: 'Template contains dangerous settings', details: findings },
+        { status: 400 }
+      )
+    }
+
+    // Revisions are immutable; apps keep building from the revision they pinned
+    const version = body.content !== undefined ? custom.latestVersion + 1 : custom.latestVersion
+    const updated = await db.customTemplate.update({
+      where: { id: custom.id },
+      data: {
+        name,
+        description,
+        visibility: body.visibility,
+        latestVersion: version,
+        revisions: body.content !== undefined ? {
+          create: {
+            version,
+            content: body.content,
+            findings: findings.length > 0 ? JSON.stringify(findings) : null,
+            createdById: user.id
+          }
+        } : undefined
+      }
+    })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.TEMPLATE_UPDATE,
+      resource: 'template',
+      resourceId: custom.id,
+      details: body.content !== undefined
+        ? `Published revision ${version} of template ${custom.slug}`
+        : `Updated template ${custom.slug}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template updated successfully',
+      data: serializeTemplate(await getTemplateForUser(updated.slug, user))
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update template' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+
+    if (await isBuiltinTemplate(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Built-in templates cannot be deleted' },
+        { status: 403 }
+      )
+    }
+
+    const custom = await getCustomTemplateForUser(params.id, user)
+    if (!custom) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await canManageCustomTemplate(custom, user)) {
+      return NextResponse.json(
+        { success: false, error: 'Only the owner or a template manager can delete this template' },
+        { status: 403 }
+      )
+    }
+
+    const pinnedApps = await db.app.count({
+      where: { templateRevision: { templateId: custom.id } }
+    })
+
+    if (pinnedApps > 0) {
+      return NextResponse.json(
+        { success: false, error: `Template is still used by ${pinnedApps} app(s)` },
+        { status: 409 }
+      )
+    }
+
+    await db.customTemplate.delete({ where: { id: custom.id } })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.TEMPLATE_DELETE,
+      resource: 'template',
+      resourceId: custom.id,
+      details: `Deleted template ${custom.slug}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/middleware'
+import { hasGlobalPermission } from '@/lib/permissions'
+import { createAuditLog, AuditActions, getRequestMetadata } from '@/lib/audit'
+import { serializeTemplate, TemplateError } from '@/lib/templates'
+import {
+  listTemplatesForUser,
+  validateCustomTemplate,
+  isTemplateSlugAvailable,
+  CUSTOM_TEMPLATE_SLUG_PATTERN,
+  MAX_TEMPLATE_SIZE
+} from '@/lib/custom-templates'
+import { TemplateVisibility } from '@prisma/client'
+import { z } from 'zod'
+
+const createTemplateSchema = z.object({
+  slug: z.string().regex(CUSTOM_TEMPLATE_SLUG_PATTERN, 'Slug must be 2-48 lowercase letters, digits or dashes'),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  visibility: z.enum(TemplateVisibility).default(TemplateVisibility.PRIVATE),
+  content: z.string().min(1).max(MAX_TEMPLATE_SIZE)
+})
+
+// Built-in templates plus the custom templates the user owns or that are shared
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const templates = await listTemplatesForUser(user)
+
+    return NextResponse.json({
+      success: true,
+      data: templates.map(serializeTemplate),
+      total: templates.length
+    })
+  } catch (error) {
+    console.error('Error fetching templates:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch templates' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const user = (authResult as any).user
+    const body = createTemplateSchema.parse(await request.json())
+    const isTemplateManager = await hasGlobalPermission(user, 'template:manage')
+
+    if (body.visibility === TemplateVisibility.SHARED && !isTemplateManager) {
+      return NextResponse.json(
+        { success: false, error: 'Sharing templates org-wide requires the template:manage permission' },
+        { status: 403 }
+      )
+    }
+
+    if (!await isTemplateSlugAvailable(body.slug)) {
+      return NextResponse.json(
+        { success: false, error: `Template slug ${body.slug} is already taken` },
+        { status: 409 }
+      )
+    }
+
+    const { template, findings } = validateCustomTemplate(body.slug, body.content, body)
+
+    // Template managers may keep flagged settings; everyone else has to remove them
+    if (findings.length > 0 && !isTemplateManager) {
+      return NextResponse.json(
+        { success: false, error: 'Template contains dangerous settings', details: findings },
+        { status: 400 }
+      )
+    }
+
+    const custom = await db.customTemplate.create({
+      data: {
+        slug: body.slug,
+        name: body.name,
+        description: body.description,
+        visibility: body.visibility,
+        ownerId: user.id,
+        revisions: {
+          create: {
+            version: 1,
+            content: body.content,
+            findings: findings.length > 0 ? JSON.stringify(findings) : null,
+            createdById: user.id
+          }
+        }
+      },
+      include: { revisions: true }
+    })
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.TEMPLATE_CREATE,
+      resource: 'template',
+      resourceId: custom.id,
+      details: `Created ${custom.visibility.toLowerCase()} template ${custom.slug}${findings.length > 0 ? ` with ${findings.length} flagged setting(s)` : ''}`,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template created successfully',
+      data: serializeTemplate({
+        ...template,
+        revisionId: custom.revisions[0].id,
+        version: 1,
+        ownerId: custom.ownerId,
+        visibility: custom.visibility
+      })
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate } from '@/lib/middleware'
+import { TemplateError } from '@/lib/templates'
+import { validateCustomTemplate, CUSTOM_TEMPLATE_SLUG_PATTERN, MAX_TEMPLATE_SIZE } from '@/lib/custom-templates'
+import { z } from 'zod'
+
+const validateSchema = z.object({
+  slug: z.string().regex(CUSTOM_TEMPLATE_SLUG_PATTERN).default('custom'),
+  name: z.string().min(1).max(100).default('Custom template'),
+  content: z.string().min(1).max(MAX_TEMPLATE_SIZE)
+})
+
+// Checks a template without saving it; schema errors and flagged settings are both reported
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if (authResult instanceof NextResponse) {
+      return authResult
+    }
+
+    const body = validateSchema.parse(await request.json())
+
+    try {
+      const { findings } = validateCustomTemplate(body.slug, body.content, body)
+
+      return NextResponse.json({
+        success: true,
+        data: { valid: true, errors: [], findings }
+      })
+    } catch (error) {
+      if (!(error instanceof TemplateError)) {
+        throw error
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { valid: false, errors: [{ message: error.message, details: error.details }], findings: [] }
+      })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error validating template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to validate template' },
+      { status: 500 }
+    )
+  }
+}
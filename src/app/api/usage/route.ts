@@ -1,14 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticate } from '@/lib/middleware';
 import { recordUsage, getUserUsage, getAppUsage, getUsageSummary } from '@/lib/billing';
+import { USAGE_METRICS, USAGE_METRIC_NAMES, UsageMetric, getUsageRollups, startOfPeriod } from '@/lib/metering';
+import { getBillingAccountId } from '@/lib/organizations';
+import { db } from '@/lib/db';
+import { UsageGranularity } from '@prisma/client';
 import { z } from 'zod';
 
+// Gauges are sampled by the control plane itself, so only counters are reported here
+const COUNTER_METRICS = USAGE_METRIC_NAMES.filter(metric => USAGE_METRICS[metric].kind === 'counter') as [UsageMetric, ...UsageMetric[]];
+
 const recordUsageSchema = z.object({
-  metric: z.string(),
-  value: z.number(),
-  unit: z.string(),
+  metric: z.enum(COUNTER_METRICS),
+  value: z.number().nonnegative(),
+  unit: z.string().optional(),
   appId: z.string().optional(),
-  recordedAt: z.string().optional(),
+  recordedAt: z.string().datetime().optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -19,25 +26,65 @@ export async function POST(request: NextRequest) {
       return authResult;
     }
 
-    const user = authResult.user!;
+    // Usage is recorded against the billing account, an organization's billing user
+    const accountId = getBillingAccountId(authResult, 'billing:manage');
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
 
     const body = await request.json();
     const { metric, value, unit, appId, recordedAt } = recordUsageSchema.parse(body);
+    const metricUnit = USAGE_METRICS[metric].unit;
+
+    if (unit && unit !== metricUnit) {
+      return NextResponse.json(
+        { error: `${metric} is measured in ${metricUnit}` },
+        { status: 400 }
+      );
+    }
+
+    // Hourly rollups are recomputed for the current and previous hour only
+    const timestamp = recordedAt ? new Date(recordedAt) : new Date();
+    const earliest = new Date(startOfPeriod(new Date(), UsageGranularity.HOURLY).getTime() - 60 * 60 * 1000);
+    if (timestamp < earliest || timestamp > new Date()) {
+      return NextResponse.json(
+        { error: 'recordedAt must fall within the current or previous hour' },
+        { status: 400 }
+      );
+    }
+
+    if (appId && !await db.app.findFirst({ where: { id: appId, userId: accountId }, select: { id: true } })) {
+      return NextResponse.json(
+        { error: 'App not found' },
+        { status: 404 }
+      );
+    }
 
     // Record usage
     await recordUsage({
-      userId: user.id,
+      userId: accountId,
       appId,
       metric,
       value,
-      unit,
-      recordedAt: recordedAt ? new Date(recordedAt) : undefined,
+      unit: metricUnit,
+      recordedAt: timestamp,
     });
 
     return NextResponse.json({
       message: 'Usage recorded successfully',
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
     console.error('Record usage error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -54,7 +101,14 @@ export async function GET(request: NextRequest) {
       return authResult;
     }
 
-    const user = authResult.user!;
+    const accountId = getBillingAccountId(authResult);
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
@@ -62,11 +116,12 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
     const summary = searchParams.get('summary') === 'true';
+    const granularity = searchParams.get('granularity');
 
     if (summary) {
       // Get usage summary
       const usageSummary = await getUsageSummary(
-        user.id,
+        accountId,
         startDate ? new Date(startDate) : undefined,
         endDate ? new Date(endDate) : undefined
       );
@@ -76,17 +131,31 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Hourly or daily rollups, which outlive the raw records
+    if (granularity === 'hourly' || granularity === 'daily') {
+      const end = endDate ? new Date(endDate) : new Date();
+      const start = startDate ? new Date(startDate) : new Date(end.getTime() - 24 * 60 * 60 * 1000);
+      const rollups = await getUsageRollups(accountId, start, end, {
+        appId: appId || undefined,
+        granularity: granularity === 'hourly' ? UsageGranularity.HOURLY : UsageGranularity.DAILY,
+      });
+
+      return NextResponse.json({
+        rollups,
+      });
+    }
+
     // Get detailed usage
     let usage;
     if (appId) {
-      usage = await getAppUsage(
+      usage = (await getAppUsage(
         appId,
         startDate ? new Date(startDate) : undefined,
         endDate ? new Date(endDate) : undefined
-      );
+      )).filter(record => record.userId === accountId);
     } else {
       usage = await getUserUsage(
-        user.id,
+        accountId,
         startDate ? new Date(startDate) : undefined,
         endDate ? new Date(endDate) : undefined
       );
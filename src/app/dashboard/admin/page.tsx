@@ -0,0 +1,12 @@
+"use client"
+
+import AuthWrapper from "@/components/auth-wrapper"
+import AdminView from "@/components/admin-view"
+
+export default function AdminPage() {
+  return (
+    <AuthWrapper>
+      <AdminView />
+    </AuthWrapper>
+  )
+}
@@ -0,0 +1,12 @@
+"use client"
+
+import AuthWrapper from "@/components/auth-wrapper"
+import BillingView from "@/components/billing-view"
+
+export default function BillingPage() {
+  return (
+    <AuthWrapper>
+      <BillingView />
+    </AuthWrapper>
+  )
+}
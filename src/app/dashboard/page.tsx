@@ -5,14 +5,18 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Sidebar, SidebarContent, SidebarFooter, SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarHeader, SidebarMenu, SidebarMenuButton, SidebarMenuItem, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
-import { Search, Plus, Settings, Users, Database, Activity, DollarSign, Shield, Terminal, Monitor, Server, Globe, MoreHorizontal, Loader2 } from "lucide-react"
+import { Search, Plus, Settings, Users, Database, Activity, DollarSign, Shield, Terminal, Monitor, Server, Globe, MoreHorizontal, Loader2, KeyRound, ShieldCheck } from "lucide-react"
 import CreateAppDialog from "@/components/create-app-dialog"
 import AppDetailView from "@/components/app-detail-view"
 import AuthWrapper from "@/components/auth-wrapper"
+import OrganizationSwitcher from "@/components/organization-switcher"
+import { organizationHeaders } from "@/lib/active-organization"
+import { clearSession } from "@/lib/auth-session"
 
 interface App {
   id: string
@@ -86,6 +90,8 @@ export default function Dashboard() {
   const [searchTerm, setSearchTerm] = useState("")
   const [statusFilter, setStatusFilter] = useState<string>("all")
   const [selectedApp, setSelectedApp] = useState<App | null>(null)
+  const [emailUnverified, setEmailUnverified] = useState(false)
+  const [isAdmin, setIsAdmin] = useState(false)
 
   const fetchApps = async () => {
     try {
@@ -113,7 +119,8 @@ export default function Dashboard() {
       console.log("Dashboard: Fetching apps from API...")
       const response = await fetch(`/api/apps?${params}`, {
         headers: {
-          "Authorization": `Bearer ${token}`
+          "Authorization": `Bearer ${token}`,
+          ...organizationHeaders()
         }
       })
 
@@ -145,6 +152,19 @@ export default function Dashboard() {
     fetchApps()
   }, [statusFilter, searchTerm])
 
+  // Read from the server, as the stored user predates any verification since sign-in
+  useEffect(() => {
+    fetch("/api/auth/me", {
+      headers: { "Authorization": `Bearer ${localStorage.getItem("limahost_token")}` }
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        setEmailUnverified(data?.user?.emailVerified === false)
+        setIsAdmin(data?.permissions?.includes("user:manage") ?? false)
+      })
+      .catch(() => {})
+  }, [])
+
   const handleAppClick = (app: App) => {
     setSelectedApp(app)
   }
@@ -166,17 +186,15 @@ export default function Dashboard() {
         })
       }
       
-      // Clear localStorage
-      localStorage.removeItem("limahost_token")
-      localStorage.removeItem("limahost_user")
+      // Clear stored tokens
+      clearSession()
       
       // Redirect to login page
       window.location.href = "/login"
     } catch (error) {
       console.error("Logout error:", error)
       // Still clear localStorage and redirect even if API call fails
-      localStorage.removeItem("limahost_token")
-      localStorage.removeItem("limahost_user")
+      clearSession()
       window.location.href = "/login"
     }
   }
@@ -203,6 +221,7 @@ export default function Dashboard() {
                 <Server className="h-6 w-6" />
                 <h1 className="font-bold text-lg">LimaHost</h1>
               </div>
+              <OrganizationSwitcher onChange={() => fetchApps()} />
             </SidebarHeader>
             <SidebarContent>
               <SidebarGroup>
@@ -247,9 +266,19 @@ export default function Dashboard() {
                       </SidebarMenuButton>
                     </SidebarMenuItem>
                     <SidebarMenuItem>
-                      <SidebarMenuButton>
-                        <DollarSign className="h-4 w-4" />
-                        <span>Billing</span>
+                      <SidebarMenuButton asChild>
+                        <a href="/dashboard/billing">
+                          <DollarSign className="h-4 w-4" />
+                          <span>Billing</span>
+                        </a>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                    <SidebarMenuItem>
+                      <SidebarMenuButton asChild>
+                        <a href="/dashboard/security">
+                          <KeyRound className="h-4 w-4" />
+                          <span>Security</span>
+                        </a>
                       </SidebarMenuButton>
                     </SidebarMenuItem>
                     <SidebarMenuItem>
@@ -264,6 +293,16 @@ export default function Dashboard() {
                         <span>Settings</span>
                       </SidebarMenuButton>
                     </SidebarMenuItem>
+                    {isAdmin && (
+                      <SidebarMenuItem>
+                        <SidebarMenuButton asChild>
+                          <a href="/dashboard/admin">
+                            <ShieldCheck className="h-4 w-4" />
+                            <span>Admin</span>
+                          </a>
+                        </SidebarMenuButton>
+                      </SidebarMenuItem>
+                    )}
                   </SidebarMenu>
                 </SidebarGroupContent>
               </SidebarGroup>
@@ -339,6 +378,15 @@ export default function Dashboard() {
             </header>
 
             <main className="flex-1 p-6 overflow-auto">
+              {emailUnverified && (
+                <Alert className="mb-6">
+                  <AlertDescription>
+                    Your account is read-only until you verify your email address. Follow the link we emailed you, or{" "}
+                    <a href="/dashboard/security" className="underline">send a new one</a>.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {loading && (
                 <div className="flex items-center justify-center h-64">
                   <Loader2 className="h-8 w-8 animate-spin" />
@@ -0,0 +1,12 @@
+"use client"
+
+import AuthWrapper from "@/components/auth-wrapper"
+import SecurityView from "@/components/security-view"
+
+export default function SecurityPage() {
+  return (
+    <AuthWrapper>
+      <SecurityView />
+    </AuthWrapper>
+  )
+}
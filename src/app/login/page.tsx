@@ -1,14 +1,25 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Server, Eye, EyeOff, Loader2 } from "lucide-react"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Server, Eye, EyeOff, KeyRound, Loader2, ShieldCheck } from "lucide-react"
 import Link from "next/link"
+import { storeSession } from "@/lib/auth-session"
+
+// As served by GET /api/auth/sso, see discoverSsoProviders() in src/lib/sso.ts
+interface SsoProviderOption {
+  name: string
+  slug: string
+  protocol: string
+  organization: string | null
+  loginUrl: string
+}
 
 export default function LoginPage() {
   const router = useRouter()
@@ -19,6 +30,37 @@ export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
+  // Set once the password is accepted for an account with 2FA; a code finishes signing in
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [code, setCode] = useState("")
+  const [recoveryMode, setRecoveryMode] = useState(false)
+  const [ssoMode, setSsoMode] = useState(false)
+  const [ssoProviders, setSsoProviders] = useState<SsoProviderOption[] | null>(null)
+
+  // SSO sign-in comes back here with its result in the fragment, or an error in the query
+  useEffect(() => {
+    const url = new URL(window.location.href)
+    const result = new URLSearchParams(url.hash.slice(1))
+    const ssoError = url.searchParams.get("ssoError")
+
+    if (!ssoError && !result.has("token") && !result.has("challengeToken")) {
+      return
+    }
+    window.history.replaceState(null, "", url.pathname)
+
+    if (ssoError) {
+      setError(ssoError)
+    } else if (result.has("challengeToken")) {
+      setChallengeToken(result.get("challengeToken"))
+    } else {
+      storeSession({
+        token: result.get("token")!,
+        refreshToken: result.get("refreshToken")!,
+        expiresIn: Number(result.get("expiresIn"))
+      }, JSON.parse(result.get("user")!))
+      router.push(result.get("twoFactorSetupRequired") === "true" ? "/dashboard/security" : "/dashboard")
+    }
+  }, [router])
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
@@ -45,14 +87,18 @@ export default function LoginPage() {
 
       if (response.ok) {
         console.log("Login successful, received data:", data)
-        // Store token in localStorage
-        localStorage.setItem("limahost_token", data.token)
-        localStorage.setItem("limahost_user", JSON.stringify(data.user))
+        if (data.twoFactorRequired) {
+          setChallengeToken(data.challengeToken)
+          return
+        }
+
+        // Store tokens in localStorage
+        storeSession(data, data.user)
         console.log("Login: Stored token and user in localStorage")
         
         // Redirect to dashboard
         console.log("Login: Redirecting to dashboard...")
-        router.push("/dashboard")
+        router.push(data.twoFactorSetupRequired ? "/dashboard/security" : "/dashboard")
       } else {
         console.log("Login failed:", data.error)
         setError(data.error || "Login failed")
@@ -64,6 +110,70 @@ export default function LoginPage() {
     }
   }
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/auth/login/verify", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        storeSession(data, data.user)
+        router.push("/dashboard")
+      } else {
+        setError(data.error || "Verification failed")
+        setCode("")
+      }
+    } catch (err) {
+      setError("Network error. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleBackToPassword = () => {
+    setChallengeToken(null)
+    setCode("")
+    setRecoveryMode(false)
+    setSsoMode(false)
+    setSsoProviders(null)
+    setError("")
+  }
+
+  const handleFindSsoProviders = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch(`/api/auth/sso?email=${encodeURIComponent(formData.email)}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Could not look up SSO providers")
+      } else if (data.providers.length === 0) {
+        setError("No SSO provider is set up for this email address")
+      } else if (data.providers.length === 1) {
+        window.location.href = data.providers[0].loginUrl
+      } else {
+        setSsoProviders(data.providers)
+      }
+    } catch (err) {
+      setError("Network error. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleDemoLogin = async (userType: string) => {
     const demoUsers = {
       admin: { email: "admin@limahost.com", password: "admin123" },
@@ -93,14 +203,18 @@ export default function LoginPage() {
 
         if (response.ok) {
         console.log("Demo login successful, received data:", data)
-        // Store token in localStorage
-        localStorage.setItem("limahost_token", data.token)
-        localStorage.setItem("limahost_user", JSON.stringify(data.user))
+        if (data.twoFactorRequired) {
+          setChallengeToken(data.challengeToken)
+          return
+        }
+
+        // Store tokens in localStorage
+        storeSession(data, data.user)
         console.log("Demo login: Stored token and user in localStorage")
         
         // Redirect to dashboard
         console.log("Demo login: Redirecting to dashboard...")
-        router.push("/dashboard")
+        router.push(data.twoFactorSetupRequired ? "/dashboard/security" : "/dashboard")
       } else {
         console.log("Demo login failed:", data.error)
         setError(data.error || "Login failed")
@@ -140,121 +254,260 @@ export default function LoginPage() {
               </Alert>
             )}
 
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  name="email"
-                  type="email"
-                  placeholder="Enter your email"
-                  value={formData.email}
-                  onChange={handleChange}
-                  required
-                  disabled={isLoading}
-                />
-              </div>
+            {challengeToken ? (
+              <form onSubmit={handleVerify} className="space-y-4">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <ShieldCheck className="h-4 w-4 text-blue-600" />
+                  {recoveryMode
+                    ? "Enter one of your recovery codes."
+                    : "Enter the 6-digit code from your authenticator app."}
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <div className="relative">
-                  <Input
-                    id="password"
-                    name="password"
-                    type={showPassword ? "text" : "password"}
-                    placeholder="Enter your password"
-                    value={formData.password}
-                    onChange={handleChange}
-                    required
-                    disabled={isLoading}
-                  />
+                {recoveryMode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="recoveryCode">Recovery code</Label>
+                    <Input
+                      id="recoveryCode"
+                      placeholder="xxxxx-xxxxx"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      autoComplete="off"
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={code} onChange={setCode} disabled={isLoading} autoFocus>
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map(index => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading || !code}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    "Verify"
+                  )}
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  <Button type="button" variant="link" className="px-0" onClick={handleBackToPassword}>
+                    Back
+                  </Button>
                   <Button
                     type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                    onClick={() => setShowPassword(!showPassword)}
-                    disabled={isLoading}
+                    variant="link"
+                    className="px-0"
+                    onClick={() => {
+                      setRecoveryMode(!recoveryMode)
+                      setCode("")
+                    }}
                   >
-                    {showPassword ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
+                    {recoveryMode ? "Use authenticator app" : "Use a recovery code"}
                   </Button>
                 </div>
-              </div>
-
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Signing in...
-                  </>
+              </form>
+            ) : ssoMode ? (
+              <div className="space-y-4">
+                {ssoProviders ? (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">Choose where to sign in:</p>
+                    {ssoProviders.map(provider => (
+                      <Button key={provider.slug} variant="outline" className="w-full justify-start" asChild>
+                        <a href={provider.loginUrl}>
+                          <KeyRound className="mr-2 h-4 w-4" />
+                          {provider.name}
+                          {provider.organization && (
+                            <span className="ml-auto text-xs text-muted-foreground">{provider.organization}</span>
+                          )}
+                        </a>
+                      </Button>
+                    ))}
+                  </div>
                 ) : (
-                  "Sign In"
+                  <form onSubmit={handleFindSsoProviders} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="ssoEmail">Work email</Label>
+                      <Input
+                        id="ssoEmail"
+                        name="email"
+                        type="email"
+                        placeholder="Enter your work email"
+                        value={formData.email}
+                        onChange={handleChange}
+                        required
+                        disabled={isLoading}
+                      />
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Looking up...
+                        </>
+                      ) : (
+                        "Continue"
+                      )}
+                    </Button>
+                  </form>
                 )}
-              </Button>
-            </form>
 
-            <div className="relative">
-              <div className="absolute inset-0 flex items-center">
-                <span className="w-full border-t" />
-              </div>
-              <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-background px-2 text-muted-foreground">
-                  Or continue with demo
-                </span>
+                <Button type="button" variant="link" className="px-0 text-sm" onClick={handleBackToPassword}>
+                  Back
+                </Button>
               </div>
-            </div>
+            ) : (
+              <>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      name="email"
+                      type="email"
+                      placeholder="Enter your email"
+                      value={formData.email}
+                      onChange={handleChange}
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
 
-            <div className="space-y-2">
-              <p className="text-sm text-center text-gray-600 mb-3">
-                Quick access with demo accounts:
-              </p>
-              <div className="grid grid-cols-1 gap-2">
-                <Button
-                  variant="outline"
-                  className="w-full justify-start"
-                  onClick={() => handleDemoLogin("admin")}
-                  disabled={isLoading}
-                >
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                    <span>Admin: admin@limahost.com</span>
-                    {isLoading && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="password">Password</Label>
+                      <Link href="/forgot-password" className="text-sm text-blue-600 hover:underline">
+                        Forgot password?
+                      </Link>
+                    </div>
+                    <div className="relative">
+                      <Input
+                        id="password"
+                        name="password"
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Enter your password"
+                        value={formData.password}
+                        onChange={handleChange}
+                        required
+                        disabled={isLoading}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                        disabled={isLoading}
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
                   </div>
-                </Button>
+
+                  <Button 
+                    type="submit" 
+                    className="w-full" 
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Signing in...
+                      </>
+                    ) : (
+                      "Sign In"
+                    )}
+                  </Button>
+                </form>
+
                 <Button
+                  type="button"
                   variant="outline"
-                  className="w-full justify-start"
-                  onClick={() => handleDemoLogin("user")}
+                  className="w-full"
+                  onClick={() => {
+                    setSsoMode(true)
+                    setError("")
+                  }}
                   disabled={isLoading}
                 >
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                    <span>User: john@example.com</span>
-                    {isLoading && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
-                  </div>
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Sign in with SSO
                 </Button>
-                <Button
-                  variant="outline"
-                  className="w-full justify-start"
-                  onClick={() => handleDemoLogin("sarah")}
-                  disabled={isLoading}
-                >
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                    <span>Sarah: sarah@techstart.com</span>
-                    {isLoading && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
+
+                <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <span className="w-full border-t" />
                   </div>
-                </Button>
-              </div>
-            </div>
+                  <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-background px-2 text-muted-foreground">
+                      Or continue with demo
+                    </span>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm text-center text-gray-600 mb-3">
+                    Quick access with demo accounts:
+                  </p>
+                  <div className="grid grid-cols-1 gap-2">
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start"
+                      onClick={() => handleDemoLogin("admin")}
+                      disabled={isLoading}
+                    >
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-red-500 rounded-full"></div>
+                        <span>Admin: admin@limahost.com</span>
+                        {isLoading && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
+                      </div>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start"
+                      onClick={() => handleDemoLogin("user")}
+                      disabled={isLoading}
+                    >
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                        <span>User: john@example.com</span>
+                        {isLoading && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
+                      </div>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start"
+                      onClick={() => handleDemoLogin("sarah")}
+                      disabled={isLoading}
+                    >
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                        <span>Sarah: sarah@techstart.com</span>
+                        {isLoading && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
+                      </div>
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
 
             <div className="text-center text-sm text-gray-600">
               Don't have an account?{" "}
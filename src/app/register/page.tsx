@@ -70,7 +70,7 @@ export default function RegisterPage() {
       const data = await response.json()
 
       if (response.ok) {
-        setSuccess("Registration successful! Please sign in.")
+        setSuccess("Registration successful! Check your inbox for a link to verify your email address, then sign in.")
         setTimeout(() => {
           router.push("/login")
         }, 2000)
@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Server, Loader2 } from "lucide-react"
+import Link from "next/link"
+
+// Lands here from both the verification and the email change links; `change=1` marks the latter
+export default function VerifyEmailPage() {
+  const [status, setStatus] = useState<"pending" | "done" | "failed">("pending")
+  const [message, setMessage] = useState("")
+  const [isChange, setIsChange] = useState(false)
+  const submitted = useRef(false)
+
+  useEffect(() => {
+    // Links work once, so a second run of the effect in development must not spend it again
+    if (submitted.current) {
+      return
+    }
+    submitted.current = true
+
+    const params = new URLSearchParams(window.location.search)
+    const token = params.get("token")
+    const change = params.get("change") === "1"
+    setIsChange(change)
+
+    if (!token) {
+      setStatus("failed")
+      setMessage("This link is missing its token. Use the link from the email as it is.")
+      return
+    }
+
+    fetch(change ? "/api/auth/change-email/confirm" : "/api/auth/verify-email", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ token }),
+    })
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Verification failed")
+        }
+        setStatus("done")
+      })
+      .catch(err => {
+        setStatus("failed")
+        setMessage(err instanceof Error ? err.message : "Verification failed")
+      })
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center gap-2 mb-4">
+            <Server className="h-8 w-8 text-blue-600" />
+            <span className="text-2xl font-bold text-gray-900">LimaHost</span>
+          </div>
+        </div>
+
+        <Card className="shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">
+              {isChange ? "Confirm Email Change" : "Verify Email"}
+            </CardTitle>
+            <CardDescription className="text-center">
+              {isChange ? "Moving your account to its new address" : "Confirming the address of your account"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {status === "pending" && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            )}
+
+            {status === "done" && (
+              <Alert className="border-green-200 bg-green-50">
+                <AlertDescription className="text-green-800">
+                  {isChange
+                    ? "Your email address was changed. Sign in with the new one from now on."
+                    : "Your email address is verified, and your account is no longer read-only."}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {status === "failed" && (
+              <Alert variant="destructive">
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button className="w-full" asChild>
+              <Link href="/dashboard">Go to dashboard</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,535 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ArrowLeft, Eye, Loader2, Search, Square, ArrowRightLeft } from "lucide-react"
+import { startImpersonating } from "@/lib/auth-session"
+
+// As served by GET /api/admin/users, see serializeAdminUser() in src/lib/admin.ts
+interface AdminUser {
+  id: string
+  email: string
+  name: string | null
+  role: "USER" | "ADMIN" | "SUPER_ADMIN"
+  isActive: boolean
+  emailVerified: boolean
+  twoFactorEnabled: boolean
+  lockedUntil: string | null
+  plan: string
+  subscriptionStatus: string
+  appCount: number
+  organizationCount: number
+  createdAt: string
+}
+
+// As served by GET /api/admin/apps, see serializeAdminApp() in src/lib/admin.ts
+interface AdminApp {
+  id: string
+  name: string
+  status: string
+  environment: string
+  template: string
+  domain: string | null
+  owner: { id: string; email: string }
+  organization: { id: string; name: string } | null
+  agent: { id: string; name: string } | null
+  suspended: boolean
+  budgetCapped: boolean
+  createdAt: string
+}
+
+interface AdminAgent {
+  id: string
+  name: string
+  host: string
+  lastHeartbeat: string | null
+  connected: boolean
+  appCount: number
+  runningAppCount: number
+}
+
+// As served by GET /api/admin/stats, see getPlatformStats() in src/lib/admin.ts
+interface PlatformStats {
+  users: { total: number; active: number; newThisPeriod: number; byRole: Record<string, number> }
+  apps: { total: number; byStatus: Record<string, number> }
+  agents: { total: number; connected: number }
+  usage: Record<string, { unit: string; total: number; peak: number }>
+  revenue: {
+    currency: string
+    monthlyRecurringRevenue: number
+    accountsByPlan: Record<string, number>
+    thisPeriod: number
+    byMonth: { month: string; amount: number }[]
+    outstanding: number
+    openInvoices: number
+  }
+}
+
+const formatCents = (cents: number, currency = "usd") =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(cents / 100)
+
+export default function AdminView() {
+  const [stats, setStats] = useState<PlatformStats | null>(null)
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [apps, setApps] = useState<AdminApp[]>([])
+  const [agents, setAgents] = useState<AdminAgent[]>([])
+  const [userSearch, setUserSearch] = useState("")
+  const [appSearch, setAppSearch] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+  const [transferring, setTransferring] = useState<AdminApp | null>(null)
+  const [transferTarget, setTransferTarget] = useState({ kind: "userId", id: "" })
+
+  const request = useCallback(async (url: string, init?: RequestInit) => {
+    const token = localStorage.getItem("limahost_token")
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`
+      }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Request failed")
+    }
+    return data
+  }, [])
+
+  const loadUsers = useCallback(async () => {
+    const data = await request(`/api/admin/users?${new URLSearchParams({ search: userSearch, limit: "50" })}`)
+    setUsers(data.data)
+  }, [request, userSearch])
+
+  const loadApps = useCallback(async () => {
+    const data = await request(`/api/admin/apps?${new URLSearchParams({ search: appSearch, limit: "50" })}`)
+    setApps(data.data)
+  }, [request, appSearch])
+
+  // Each section needs its own permission, so one that is refused leaves the others working
+  useEffect(() => {
+    Promise.allSettled([
+      request("/api/admin/stats").then(data => setStats(data.data)),
+      request("/api/admin/agents").then(data => setAgents(data.data))
+    ]).finally(() => setLoading(false))
+  }, [request])
+
+  useEffect(() => {
+    loadUsers().catch(err => setError(err instanceof Error ? err.message : "Failed to load users"))
+  }, [loadUsers])
+
+  useEffect(() => {
+    loadApps().catch(err => setError(err instanceof Error ? err.message : "Failed to load apps"))
+  }, [loadApps])
+
+  const run = async (key: string, action: () => Promise<string | void>) => {
+    setBusy(key)
+    setError("")
+    setNotice("")
+    try {
+      const message = await action()
+      if (message) {
+        setNotice(message)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const updateUser = (user: AdminUser, changes: Partial<{ isActive: boolean; role: string; unlock: boolean }>) =>
+    run(`user:${user.id}`, async () => {
+      const data = await request(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        body: JSON.stringify(changes)
+      })
+      setUsers(prev => prev.map(item => item.id === user.id ? data.data : item))
+      return `Updated ${user.email}`
+    })
+
+  const impersonate = (user: AdminUser) =>
+    run(`user:${user.id}`, async () => {
+      const data = await request(`/api/admin/users/${user.id}/impersonate`, { method: "POST" })
+      const admin = JSON.parse(localStorage.getItem("limahost_user") || "{}")
+      const { user: target, ...tokens } = data.data
+      startImpersonating(tokens, target, { email: admin.email })
+      window.location.href = "/dashboard"
+    })
+
+  const stopApp = (app: AdminApp) =>
+    run(`app:${app.id}`, async () => {
+      const data = await request(`/api/admin/apps/${app.id}/stop`, { method: "POST", body: "{}" })
+      setApps(prev => prev.map(item => item.id === app.id ? data.data : item))
+      return `Stopped ${app.name}`
+    })
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!transferring) {
+      return
+    }
+    const app = transferring
+    await run(`app:${app.id}`, async () => {
+      const data = await request(`/api/admin/apps/${app.id}/transfer`, {
+        method: "POST",
+        body: JSON.stringify({ [transferTarget.kind]: transferTarget.id.trim() })
+      })
+      setApps(prev => prev.map(item => item.id === app.id ? data.data : item))
+      setTransferring(null)
+      setTransferTarget({ kind: "userId", id: "" })
+      return `Transferred ${app.name}`
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="flex h-14 items-center px-6 gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Apps
+            </a>
+          </Button>
+          <h1 className="text-xl font-semibold">Admin</h1>
+        </div>
+      </header>
+
+      <main className="p-6 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="text-green-800">{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs defaultValue="overview">
+          <TabsList>
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="apps">Apps</TabsTrigger>
+            <TabsTrigger value="agents">Agents</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview" className="space-y-6">
+            {stats ? (
+              <>
+                <div className="grid gap-4 md:grid-cols-4">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Users</CardDescription>
+                      <CardTitle className="text-2xl">{stats.users.total}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm text-muted-foreground">
+                      {stats.users.active} active, {stats.users.newThisPeriod} new this month
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Apps</CardDescription>
+                      <CardTitle className="text-2xl">{stats.apps.total}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm text-muted-foreground">
+                      {stats.apps.byStatus.RUNNING ?? 0} running
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Agents</CardDescription>
+                      <CardTitle className="text-2xl">{stats.agents.total}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm text-muted-foreground">
+                      {stats.agents.connected} connected
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Monthly recurring revenue</CardDescription>
+                      <CardTitle className="text-2xl">
+                        {formatCents(stats.revenue.monthlyRecurringRevenue, stats.revenue.currency)}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm text-muted-foreground">
+                      {formatCents(stats.revenue.thisPeriod, stats.revenue.currency)} collected this month
+                    </CardContent>
+                  </Card>
+                </div>
+
+                <div className="grid gap-6 lg:grid-cols-2">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Revenue</CardTitle>
+                      <CardDescription>
+                        Paid invoices by month; {stats.revenue.openInvoices} open invoices
+                        owe {formatCents(stats.revenue.outstanding, stats.revenue.currency)}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-1 text-sm">
+                      {stats.revenue.byMonth.map(({ month, amount }) => (
+                        <div key={month} className="flex justify-between">
+                          <span>{month}</span>
+                          <span>{formatCents(amount, stats.revenue.currency)}</span>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Usage this month</CardTitle>
+                      <CardDescription>Across every account</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-1 text-sm">
+                      {Object.entries(stats.usage).map(([metric, aggregate]) => (
+                        <div key={metric} className="flex justify-between">
+                          <span>{metric}</span>
+                          <span>
+                            {aggregate.total.toLocaleString(undefined, { maximumFractionDigits: 1 })} ({aggregate.unit}
+                            {metric === "bandwidth_gb" ? "" : "-hours"}), peak {aggregate.peak.toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
+                      <div className="pt-3 flex flex-wrap gap-2">
+                        {Object.entries(stats.revenue.accountsByPlan).map(([plan, count]) => (
+                          <Badge key={plan} variant="secondary">{plan}: {count}</Badge>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Platform stats need the billing:read permission.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="users" className="space-y-4">
+            <div className="relative max-w-sm">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by email or name"
+                value={userSearch}
+                onChange={(e) => setUserSearch(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Apps</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <div className="font-medium">{user.email}</div>
+                      <div className="text-xs text-muted-foreground">{user.name}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => updateUser(user, { role })}
+                        disabled={busy === `user:${user.id}`}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="USER">User</SelectItem>
+                          <SelectItem value="ADMIN">Admin</SelectItem>
+                          <SelectItem value="SUPER_ADMIN">Super admin</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{user.plan}</TableCell>
+                    <TableCell>{user.appCount}</TableCell>
+                    <TableCell className="space-x-1">
+                      <Badge variant={user.isActive ? "secondary" : "destructive"}>
+                        {user.isActive ? "Active" : "Deactivated"}
+                      </Badge>
+                      {!user.emailVerified && <Badge variant="outline">Unverified</Badge>}
+                      {user.lockedUntil && <Badge variant="outline">Locked</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {user.lockedUntil && (
+                        <Button size="sm" variant="outline" onClick={() => updateUser(user, { unlock: true })} disabled={busy !== null}>
+                          Unlock
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateUser(user, { isActive: !user.isActive })}
+                        disabled={busy !== null}
+                      >
+                        {user.isActive ? "Deactivate" : "Activate"}
+                      </Button>
+                      {user.role === "USER" && user.isActive && (
+                        <Button size="sm" variant="outline" onClick={() => impersonate(user)} disabled={busy !== null}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          Impersonate
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="apps" className="space-y-4">
+            <div className="relative max-w-sm">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or domain"
+                value={appSearch}
+                onChange={(e) => setAppSearch(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>App</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apps.map(app => (
+                  <TableRow key={app.id}>
+                    <TableCell>
+                      <div className="font-medium">{app.name}</div>
+                      <div className="text-xs text-muted-foreground">{app.domain || app.template}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{app.owner.email}</div>
+                      {app.organization && (
+                        <div className="text-xs text-muted-foreground">{app.organization.name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{app.agent?.name ?? "None"}</TableCell>
+                    <TableCell className="space-x-1">
+                      <Badge variant="secondary">{app.status}</Badge>
+                      {app.suspended && <Badge variant="destructive">Suspended</Badge>}
+                      {app.budgetCapped && <Badge variant="outline">Budget cap</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {app.status !== "STOPPED" && (
+                        <Button size="sm" variant="outline" onClick={() => stopApp(app)} disabled={busy !== null}>
+                          <Square className="h-4 w-4 mr-1" />
+                          Stop
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => setTransferring(app)} disabled={busy !== null}>
+                        <ArrowRightLeft className="h-4 w-4 mr-1" />
+                        Transfer
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="agents">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Host</TableHead>
+                  <TableHead>Apps</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {agents.map(agent => (
+                  <TableRow key={agent.id}>
+                    <TableCell className="font-medium">{agent.name}</TableCell>
+                    <TableCell>{agent.host}</TableCell>
+                    <TableCell>{agent.runningAppCount} running of {agent.appCount}</TableCell>
+                    <TableCell>
+                      <Badge variant={agent.connected ? "secondary" : "outline"}>
+                        {agent.connected ? "Connected" : "Offline"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <Dialog open={transferring !== null} onOpenChange={(open) => !open && setTransferring(null)}>
+        <DialogContent>
+          <form onSubmit={handleTransfer} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Transfer {transferring?.name}</DialogTitle>
+              <DialogDescription>
+                Its budgets are deleted; usage so far stays with the current owner.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label>New owner</Label>
+              <Select
+                value={transferTarget.kind}
+                onValueChange={(kind) => setTransferTarget(prev => ({ ...prev, kind }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="userId">User ID</SelectItem>
+                  <SelectItem value="organizationId">Organization ID</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={transferTarget.id}
+                onChange={(e) => setTransferTarget(prev => ({ ...prev, id: e.target.value }))}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={busy !== null}>
+                {busy !== null && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Transfer
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,15 +1,18 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import VmTerminal from "@/components/vm-terminal"
+import CostEstimate from "@/components/cost-estimate"
+import { useAppStream, StreamLogEntry } from "@/hooks/use-app-stream"
+import { organizationHeaders } from "@/lib/active-organization"
 import { 
   ArrowLeft, 
   Play, 
@@ -28,7 +31,8 @@ import {
   Globe,
   Clock,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Loader2
 } from "lucide-react"
 
 interface AppDetail {
@@ -56,12 +60,7 @@ interface MetricData {
   networkOut: number
 }
 
-interface LogEntry {
-  timestamp: string
-  level: "info" | "warn" | "error" | "debug"
-  message: string
-  source: string
-}
+type LogEntry = StreamLogEntry
 
 const mockAppDetail: AppDetail = {
   id: "1",
@@ -94,16 +93,15 @@ const mockMetrics: MetricData[] = [
   { timestamp: "10:20", cpu: 40, memory: 72, disk: 47, networkIn: 2304, networkOut: 3328 }
 ]
 
-const mockLogs: LogEntry[] = [
-  { timestamp: "10:20:15", level: "info", message: "Starting nginx server...", source: "nginx" },
-  { timestamp: "10:20:16", level: "info", message: "nginx started successfully", source: "nginx" },
-  { timestamp: "10:20:17", level: "info", message: "Health check passed", source: "healthcheck" },
-  { timestamp: "10:20:20", level: "info", message: "New connection from 192.168.1.100", source: "nginx" },
-  { timestamp: "10:20:21", level: "warn", message: "High memory usage detected: 85%", source: "monitor" },
-  { timestamp: "10:20:25", level: "info", message: "Request processed: GET /api/users", source: "app" },
-  { timestamp: "10:20:26", level: "error", message: "Database connection timeout", source: "app" },
-  { timestamp: "10:20:30", level: "info", message: "Database connection restored", source: "app" }
-]
+// Choices offered for scaling; disk can only grow, see POST /api/apps/[id]/scale
+const scaleOptions = {
+  cpu: [1, 2, 4, 8, 16],
+  memory: [1, 2, 4, 8, 16, 32, 64],
+  disk: [10, 20, 50, 100, 200, 500, 1000]
+}
+
+const withCurrent = (options: number[], current: number) =>
+  Array.from(new Set([...options, current])).sort((a, b) => a - b)
 
 interface AppDetailViewProps {
   app: AppDetail
@@ -112,16 +110,37 @@ interface AppDetailViewProps {
 
 export default function AppDetailView({ app, onBack }: AppDetailViewProps) {
   const [metrics] = useState<MetricData[]>(mockMetrics)
-  const [logs] = useState<LogEntry[]>(mockLogs)
-  const [terminalInput, setTerminalInput] = useState("")
-  const [terminalOutput, setTerminalOutput] = useState<string[]>([
-    "Welcome to Lima VM Terminal",
-    "Connected to app-1 (192.168.64.2)",
-    "Type 'help' for available commands",
-    ""
-  ])
-  const [isTerminalFocused, setIsTerminalFocused] = useState(false)
-  const terminalEndRef = useRef<HTMLDivElement>(null)
+  const { entries: logs, status: liveStatus, connected } = useAppStream(app.id)
+  const status = (liveStatus?.toLowerCase() as AppDetail["status"] | undefined) || app.status
+  const [scale, setScale] = useState({ cpu: app.cpu, memory: app.memory, disk: app.disk })
+  const [scaling, setScaling] = useState(false)
+  const [scaleMessage, setScaleMessage] = useState("")
+  const scaleChanged = scale.cpu !== app.cpu || scale.memory !== app.memory || scale.disk !== app.disk
+
+  const handleScale = async () => {
+    const token = localStorage.getItem("limahost_token")
+    if (!token) return
+
+    setScaling(true)
+    setScaleMessage("")
+    try {
+      const response = await fetch(`/api/apps/${app.id}/scale`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+          ...organizationHeaders()
+        },
+        body: JSON.stringify(scale)
+      })
+      const data = await response.json()
+      setScaleMessage(data.success ? "Scaling started; the VM restarts with the new resources" : data.error || "Failed to scale app")
+    } catch {
+      setScaleMessage("Failed to scale app")
+    } finally {
+      setScaling(false)
+    }
+  }
 
   const getStatusColor = (status: AppDetail["status"]) => {
     switch (status) {
@@ -153,48 +172,8 @@ export default function AppDetailView({ app, onBack }: AppDetailViewProps) {
     }
   }
 
-  const handleTerminalInput = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && terminalInput.trim()) {
-      const command = terminalInput.trim()
-      const newOutput = [...terminalOutput, `$ ${command}`]
-      
-      // Simulate command response
-      setTimeout(() => {
-        let response = ""
-        switch (command.toLowerCase()) {
-          case "help":
-            response = "Available commands:\n  help     - Show this help\n  status   - Show app status\n  logs     - Show recent logs\n  restart  - Restart the app\n  exit     - Exit terminal"
-            break
-          case "status":
-            response = `App Status: ${app.status}\nCPU: ${app.cpu} cores\nMemory: ${app.memory} GB\nDisk: ${app.disk} GB\nUptime: 5 days, 2 hours`
-            break
-          case "logs":
-            response = "Recent logs:\n[INFO] App is running normally\n[INFO] Health check passed\n[WARN] High memory usage detected"
-            break
-          case "restart":
-            response = "Restarting application...\nApplication restarted successfully"
-            break
-          case "exit":
-            response = "Goodbye!"
-            break
-          default:
-            response = `Command not found: ${command}. Type 'help' for available commands.`
-        }
-        
-        setTerminalOutput(prev => [...prev, ...response.split("\n"), ""])
-        setTerminalInput("")
-      }, 500)
-      
-      setTerminalOutput(newOutput)
-      setTerminalInput("")
-    }
-  }
-
-  useEffect(() => {
-    if (terminalEndRef.current) {
-      terminalEndRef.current.scrollIntoView({ behavior: "smooth" })
-    }
-  }, [terminalOutput])
+  const formatTime = (timestamp: string) =>
+    timestamp ? new Date(timestamp).toLocaleTimeString() : ""
 
   return (
     <div className="flex h-screen bg-background">
@@ -209,18 +188,18 @@ export default function AppDetailView({ app, onBack }: AppDetailViewProps) {
             <div className="flex-1">
               <div className="flex items-center gap-3">
                 <h1 className="text-xl font-semibold">{app.name}</h1>
-                <Badge variant="secondary" className={`${getStatusColor(app.status)} text-white`}>
-                  {getStatusText(app.status)}
+                <Badge variant="secondary" className={`${getStatusColor(status)} text-white`}>
+                  {getStatusText(status)}
                 </Badge>
               </div>
               <p className="text-sm text-muted-foreground">{app.domain} • {app.ipAddress}</p>
             </div>
             <div className="flex items-center gap-2">
-              <Button size="sm" variant="outline" disabled={app.status === "running"}>
+              <Button size="sm" variant="outline" disabled={status === "running"}>
                 <Play className="h-4 w-4 mr-2" />
                 Start
               </Button>
-              <Button size="sm" variant="outline" disabled={app.status !== "running"}>
+              <Button size="sm" variant="outline" disabled={status !== "running"}>
                 <Pause className="h-4 w-4 mr-2" />
                 Stop
               </Button>
@@ -314,6 +293,59 @@ export default function AppDetailView({ app, onBack }: AppDetailViewProps) {
                 </CardContent>
               </Card>
 
+              {/* Scale */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Cpu className="h-5 w-5" />
+                    Scale Resources
+                  </CardTitle>
+                  <CardDescription>See what a new size costs before applying it</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-2">
+                    {(["cpu", "memory", "disk"] as const).map(field => (
+                      <div key={field} className="space-y-1">
+                        <Label className="text-muted-foreground">
+                          {field === "cpu" ? "vCPU" : field === "memory" ? "Memory" : "Disk"}
+                        </Label>
+                        <Select
+                          value={scale[field].toString()}
+                          onValueChange={(value) => setScale(prev => ({ ...prev, [field]: parseInt(value) }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {withCurrent(scaleOptions[field], app[field])
+                              .filter(value => field !== "disk" || value >= app.disk)
+                              .map(value => (
+                                <SelectItem key={value} value={value.toString()}>
+                                  {value}{field === "cpu" ? "" : " GB"}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+
+                  {scaleChanged && <CostEstimate appId={app.id} resources={scale} />}
+
+                  {scaleMessage && <p className="text-sm text-muted-foreground">{scaleMessage}</p>}
+
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    disabled={!scaleChanged || scaling || status === "deploying"}
+                    onClick={handleScale}
+                  >
+                    {scaling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Scale
+                  </Button>
+                </CardContent>
+              </Card>
+
               {/* Environment Variables */}
               <Card>
                 <CardHeader>
@@ -350,15 +382,20 @@ export default function AppDetailView({ app, onBack }: AppDetailViewProps) {
                         <Clock className="h-5 w-5" />
                         Application Logs
                       </CardTitle>
-                      <CardDescription>Real-time logs from your application</CardDescription>
+                      <CardDescription>
+                        Real-time deployment and VM logs from your application {connected ? "" : "(connecting...)"}
+                      </CardDescription>
                     </CardHeader>
                     <CardContent>
                       <ScrollArea className="h-96 w-full border rounded-md p-4">
                         <div className="space-y-1 font-mono text-sm">
+                          {logs.length === 0 && (
+                            <p className="text-muted-foreground">No logs yet. Deploy the app to see its output here.</p>
+                          )}
                           {logs.map((log, index) => (
                             <div key={index} className="flex items-start gap-2">
                               <span className="text-muted-foreground text-xs min-w-[70px]">
-                                {log.timestamp}
+                                {formatTime(log.timestamp)}
                               </span>
                               <span className={`min-w-[20px] ${getLogLevelColor(log.level)}`}>
                                 [{log.level.toUpperCase()}]
@@ -464,34 +501,12 @@ export default function AppDetailView({ app, onBack }: AppDetailViewProps) {
                         <Terminal className="h-5 w-5" />
                         VM Terminal
                       </CardTitle>
-                      <CardDescription>Direct terminal access to your Lima VM</CardDescription>
+                      <CardDescription>Interactive shell in your Lima VM</CardDescription>
                     </CardHeader>
                     <CardContent>
-                      <div 
-                        className="h-96 w-full bg-black text-green-400 font-mono text-sm p-4 rounded-md overflow-hidden flex flex-col"
-                        onClick={() => setIsTerminalFocused(true)}
-                      >
-                        <ScrollArea className="flex-1 mb-2">
-                          <div className="space-y-1">
-                            {terminalOutput.map((line, index) => (
-                              <div key={index}>{line}</div>
-                            ))}
-                            <div ref={terminalEndRef} />
-                          </div>
-                        </ScrollArea>
-                        <div className="flex items-center gap-2">
-                          <span>$</span>
-                          <Input
-                            value={terminalInput}
-                            onChange={(e) => setTerminalInput(e.target.value)}
-                            onKeyDown={handleTerminalInput}
-                            className="flex-1 bg-transparent border-none text-green-400 focus-visible:ring-0"
-                            placeholder={isTerminalFocused ? "" : "Click to focus..."}
-                          />
-                        </div>
-                      </div>
+                      <VmTerminal appId={app.id} />
                       <p className="text-xs text-muted-foreground mt-2">
-                        Type 'help' for available commands. Press Enter to execute.
+                        Sessions are audited and close automatically after 15 minutes without input.
                       </p>
                     </CardContent>
                   </Card>
@@ -3,18 +3,31 @@
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { Loader2 } from "lucide-react"
+import { accessTokenExpiresAt, clearSession, getImpersonation, refreshAccessToken, REFRESH_MARGIN_MS, stopImpersonating } from "@/lib/auth-session"
+import ImpersonationBanner from "@/components/impersonation-banner"
 
 interface AuthWrapperProps {
   children: React.ReactNode
 }
 
+// An impersonation that has run out hands the dashboard back to the admin's own session
+function endSession(): boolean {
+  if (getImpersonation()) {
+    stopImpersonating()
+    window.location.href = "/dashboard/admin"
+    return true
+  }
+  clearSession()
+  return false
+}
+
 export default function AuthWrapper({ children }: AuthWrapperProps) {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(true)
   const [isAuthenticated, setIsAuthenticated] = useState(false)
 
   useEffect(() => {
-    const checkAuth = () => {
+    const checkAuth = async () => {
       console.log("AuthWrapper: Checking authentication...")
       const token = localStorage.getItem("limahost_token")
       const user = localStorage.getItem("limahost_user")
@@ -35,8 +48,17 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
         console.log("AuthWrapper: User info parsed:", userInfo)
         
         if (userInfo && userInfo.email) {
-          console.log("AuthWrapper: User has email, setting isAuthenticated to true")
-          setIsAuthenticated(true)
+          // Access tokens are short-lived; one that has lapsed is renewed before rendering
+          if (accessTokenExpiresAt() - REFRESH_MARGIN_MS <= Date.now() && !await refreshAccessToken()) {
+            console.log("AuthWrapper: Session has ended, setting isAuthenticated to false")
+            if (endSession()) {
+              return
+            }
+            setIsAuthenticated(false)
+          } else {
+            console.log("AuthWrapper: User has email, setting isAuthenticated to true")
+            setIsAuthenticated(true)
+          }
         } else {
           console.log("AuthWrapper: User info invalid, setting isAuthenticated to false")
           setIsAuthenticated(false)
@@ -52,6 +74,41 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
     checkAuth()
   }, [])
 
+  // Keep the access token fresh while the dashboard is open
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const schedule = () => {
+      clearTimeout(timer)
+      const delay = Math.max(accessTokenExpiresAt() - REFRESH_MARGIN_MS - Date.now(), 0)
+      timer = setTimeout(async () => {
+        if (await refreshAccessToken()) {
+          schedule()
+        } else if (!endSession()) {
+          setIsAuthenticated(false)
+        }
+      }, delay)
+    }
+
+    // Background tabs throttle timers, so catch up when the tab is shown again
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        schedule()
+      }
+    }
+
+    schedule()
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    return () => {
+      clearTimeout(timer)
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+    }
+  }, [isAuthenticated])
+
   useEffect(() => {
     console.log("AuthWrapper: Effect triggered - isLoading:", isLoading, "isAuthenticated:", isAuthenticated)
     if (!isLoading && !isAuthenticated) {
@@ -77,5 +134,10 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
   }
 
   console.log("AuthWrapper: Authenticated, rendering children")
-  return <>{children}</>
+  return (
+    <>
+      <ImpersonationBanner />
+      {children}
+    </>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,374 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowLeft, Bell, DollarSign, FileText, Loader2, Plus, Trash2 } from "lucide-react"
+import { organizationHeaders } from "@/lib/active-organization"
+
+// As served by GET /api/billing/budgets, see serializeBudget() in src/lib/budgets.ts
+interface Budget {
+  id: string
+  name: string
+  kind: "SPEND" | "USAGE"
+  metric: string | null
+  appId: string | null
+  amount: number
+  hardCap: boolean
+  status: { periodStart: string; value: number; percent: number; exceeded: boolean } | null
+  alerts: { threshold: number; value: number; amount: number; periodStart: string; createdAt: string }[]
+}
+
+interface Invoice {
+  id: string
+  number: string
+  status: string
+  total: number
+  currency: string
+  periodStart: string
+}
+
+interface AppOption {
+  id: string
+  name: string
+  environment: string
+}
+
+const usageMetrics: Record<string, string> = {
+  bandwidth_gb: "Bandwidth (GB)",
+  storage_gb: "Snapshot and backup storage (GB-hours)",
+  cpu_cores: "vCPU (core-hours)",
+  memory_gb: "Memory (GB-hours)",
+  disk_gb: "VM disk (GB-hours)"
+}
+
+const formatCents = (cents: number, currency = "usd") =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(cents / 100)
+
+const formatBudgetValue = (budget: Budget, value: number) =>
+  budget.kind === "SPEND" ? formatCents(value) : `${value.toLocaleString()} ${budget.metric === "bandwidth_gb" ? "GB" : "unit-hours"}`
+
+const emptyForm = {
+  name: "",
+  kind: "SPEND" as Budget["kind"],
+  metric: "bandwidth_gb",
+  appId: "all",
+  amount: "",
+  hardCap: false
+}
+
+export default function BillingView() {
+  const [plan, setPlan] = useState<{ plan: string; billingCycle: string } | null>(null)
+  const [budgets, setBudgets] = useState<Budget[]>([])
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [apps, setApps] = useState<AppOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [form, setForm] = useState(emptyForm)
+
+  const request = useCallback(async (url: string, init?: RequestInit) => {
+    const token = localStorage.getItem("limahost_token")
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+        ...organizationHeaders()
+      }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Request failed")
+    }
+    return data
+  }, [])
+
+  const load = useCallback(async () => {
+    try {
+      setError("")
+      const [billing, budgetData, invoiceData, appData] = await Promise.all([
+        request("/api/billing"),
+        request("/api/billing/budgets"),
+        request("/api/billing/invoices?limit=6"),
+        request("/api/apps")
+      ])
+      setPlan(billing.billing)
+      setBudgets(budgetData.budgets)
+      setInvoices(invoiceData.invoices)
+      setApps(appData.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load billing")
+    } finally {
+      setLoading(false)
+    }
+  }, [request])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError("")
+
+    try {
+      const amount = parseFloat(form.amount)
+      await request("/api/billing/budgets", {
+        method: "POST",
+        body: JSON.stringify({
+          name: form.name,
+          kind: form.kind,
+          metric: form.kind === "USAGE" ? form.metric : undefined,
+          appId: form.appId === "all" ? undefined : form.appId,
+          // Spend budgets are entered in dollars and stored in cents
+          amount: form.kind === "SPEND" ? Math.round(amount * 100) : amount,
+          hardCap: form.hardCap
+        })
+      })
+      setForm(emptyForm)
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create budget")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (budget: Budget) => {
+    try {
+      await request(`/api/billing/budgets/${budget.id}`, { method: "DELETE" })
+      setBudgets(prev => prev.filter(item => item.id !== budget.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete budget")
+    }
+  }
+
+  const appName = (appId: string | null) =>
+    appId ? apps.find(app => app.id === appId)?.name || "Deleted app" : "All apps"
+
+  const recentAlerts = budgets
+    .flatMap(budget => budget.alerts.map(alert => ({ ...alert, budget })))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, 10)
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="flex h-14 items-center px-6 gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Apps
+            </a>
+          </Button>
+          <h1 className="text-xl font-semibold">Billing</h1>
+          {plan && (
+            <Badge variant="secondary">
+              {plan.plan} plan, {plan.billingCycle.toLowerCase()}
+            </Badge>
+          )}
+        </div>
+      </header>
+
+      <main className="p-6 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <DollarSign className="h-5 w-5" />
+                  Budgets
+                </CardTitle>
+                <CardDescription>
+                  Monthly caps on spend or usage. You are alerted at 50%, 80% and 100%; a hard cap stops non-production apps until the next billing period.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {budgets.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No budgets yet.</p>
+                )}
+                {budgets.map(budget => (
+                  <div key={budget.id} className="space-y-2 rounded-md border p-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="font-medium">{budget.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {budget.kind === "SPEND" ? "Spend" : usageMetrics[budget.metric || ""] || budget.metric} • {appName(budget.appId)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {budget.hardCap && <Badge variant="outline">Hard cap</Badge>}
+                        {budget.status?.exceeded && <Badge variant="destructive">Exceeded</Badge>}
+                        <Button size="icon" variant="ghost" onClick={() => handleDelete(budget)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {budget.status && (
+                      <>
+                        <Progress value={Math.min(100, budget.status.percent)} />
+                        <p className="text-sm text-muted-foreground">
+                          {formatBudgetValue(budget, budget.status.value)} of {formatBudgetValue(budget, budget.amount)} ({budget.status.percent}%) this month
+                        </p>
+                      </>
+                    )}
+                  </div>
+                ))}
+
+                <form onSubmit={handleCreate} className="grid gap-4 rounded-md border p-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="budget-name">Name</Label>
+                    <Input
+                      id="budget-name"
+                      value={form.name}
+                      onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="Staging spend"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Applies to</Label>
+                    <Select value={form.appId} onValueChange={(value) => setForm(prev => ({ ...prev, appId: value }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All apps</SelectItem>
+                        {apps.map(app => (
+                          <SelectItem key={app.id} value={app.id}>{app.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Cap on</Label>
+                    <Select value={form.kind} onValueChange={(value) => setForm(prev => ({ ...prev, kind: value as Budget["kind"] }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="SPEND">Spend</SelectItem>
+                        <SelectItem value="USAGE">Usage</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {form.kind === "USAGE" && (
+                    <div className="space-y-2">
+                      <Label>Metric</Label>
+                      <Select value={form.metric} onValueChange={(value) => setForm(prev => ({ ...prev, metric: value }))}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(usageMetrics).map(([metric, label]) => (
+                            <SelectItem key={metric} value={metric}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="budget-amount">{form.kind === "SPEND" ? "Monthly amount ($)" : "Monthly amount"}</Label>
+                    <Input
+                      id="budget-amount"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={form.amount}
+                      onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 md:col-span-2">
+                    <Switch
+                      id="budget-hard-cap"
+                      checked={form.hardCap}
+                      onCheckedChange={(checked) => setForm(prev => ({ ...prev, hardCap: checked }))}
+                    />
+                    <Label htmlFor="budget-hard-cap">Hard cap: stop non-production apps once it is used up</Label>
+                  </div>
+                  <div className="md:col-span-2">
+                    <Button type="submit" disabled={saving || !form.name || !form.amount}>
+                      {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                      Add Budget
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="h-5 w-5" />
+                  Budget Alerts
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {recentAlerts.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No alerts this period.</p>
+                )}
+                {recentAlerts.map(alert => (
+                  <div key={`${alert.budget.id}-${alert.periodStart}-${alert.threshold}`} className="text-sm">
+                    <span className="font-medium">{alert.budget.name}</span> reached {alert.threshold}%
+                    <span className="block text-xs text-muted-foreground">
+                      {formatBudgetValue(alert.budget, alert.value)} of {formatBudgetValue(alert.budget, alert.amount)} • {new Date(alert.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5" />
+                  Recent Invoices
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {invoices.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No invoices yet.</p>
+                )}
+                {invoices.map(invoice => (
+                  <div key={invoice.id} className="flex items-center justify-between text-sm">
+                    <span>{invoice.number}</span>
+                    <span className="flex items-center gap-2">
+                      {formatCents(invoice.total, invoice.currency)}
+                      <Badge variant={invoice.status === "PAID" ? "secondary" : "outline"}>{invoice.status}</Badge>
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, Receipt } from "lucide-react"
+import { organizationHeaders } from "@/lib/active-organization"
+
+interface EstimateLine {
+  resource: "cpu_cores" | "memory_gb" | "disk_gb"
+  unit: string
+  current: number
+  proposed: number
+  included: number
+  usedByOtherApps: number
+  billable: number
+  unitAmount: number
+  amount: number
+}
+
+// As served by POST /api/billing/estimate, see estimateAppCost() in src/lib/estimates.ts
+interface Estimate {
+  plan: string
+  billingCycle: string
+  currency: string
+  lines: EstimateLine[]
+  monthly: { planFee: number; before: number; after: number; delta: number }
+  remainingThisPeriod: number
+  planLimit: { code: string; message: string; details: { upgrade: { plan: string; url: string } | null } } | null
+}
+
+const resourceLabels: Record<EstimateLine["resource"], string> = {
+  cpu_cores: "vCPU",
+  memory_gb: "Memory",
+  disk_gb: "Disk"
+}
+
+const formatCents = (cents: number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(cents / 100)
+
+const formatDelta = (cents: number, currency: string) =>
+  `${cents > 0 ? "+" : cents < 0 ? "-" : ""}${formatCents(Math.abs(cents), currency)}`
+
+interface CostEstimateProps {
+  resources: { cpu: number; memory: number; disk: number }
+  // Set to price scaling an existing app instead of creating a new one
+  appId?: string
+}
+
+export default function CostEstimate({ resources, appId }: CostEstimateProps) {
+  const [estimate, setEstimate] = useState<Estimate | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const { cpu, memory, disk } = resources
+
+  useEffect(() => {
+    const token = localStorage.getItem("limahost_token")
+    if (!token) return
+
+    setLoading(true)
+    const timer = setTimeout(() => {
+      fetch("/api/billing/estimate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+          ...organizationHeaders()
+        },
+        body: JSON.stringify({ appId, config: { cpu, memory, disk } })
+      })
+        .then(response => response.json())
+        .then(data => {
+          if (data.estimate) {
+            setEstimate(data.estimate)
+            setError("")
+          } else {
+            setError(data.error || "Failed to estimate cost")
+          }
+        })
+        .catch(() => setError("Failed to estimate cost"))
+        .finally(() => setLoading(false))
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [appId, cpu, memory, disk])
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>
+  }
+
+  if (!estimate) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Estimating cost...
+      </div>
+    )
+  }
+
+  const { currency, monthly } = estimate
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 font-medium">
+          <Receipt className="h-4 w-4" />
+          Estimated cost
+          {loading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        </div>
+        <span className="text-lg font-semibold">
+          {formatDelta(monthly.delta, currency)}/month
+        </span>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        {estimate.lines.map(line => (
+          <div key={line.resource} className="flex items-center justify-between">
+            <span className="text-muted-foreground">
+              {resourceLabels[line.resource]}: {appId ? `${line.current} → ` : ""}{line.proposed} {line.unit}
+              {line.included === -1
+                ? " (included)"
+                : line.billable === 0
+                  ? ` (within the ${line.included} ${line.unit} your plan includes)`
+                  : ` (${line.billable > 0 ? "+" : ""}${line.billable} ${line.unit} beyond your plan at ${formatCents(line.unitAmount, currency)} each)`}
+            </span>
+            <span>{formatDelta(line.amount, currency)}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {estimate.plan} plan ({estimate.billingCycle.toLowerCase()}): {formatCents(monthly.before, currency)}/month now,{" "}
+        {formatCents(monthly.after, currency)}/month after this change, including the {formatCents(monthly.planFee, currency)} plan fee.
+        {monthly.delta !== 0 && ` About ${formatDelta(estimate.remainingThisPeriod, currency)} on this month's invoice.`}
+        {" "}Compute is billed only while apps run.
+      </p>
+
+      {estimate.planLimit && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {estimate.planLimit.message}
+            {estimate.planLimit.details.upgrade && (
+              <> — <a className="underline" href={estimate.planLimit.details.upgrade.url}>upgrade to {estimate.planLimit.details.upgrade.plan}</a></>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
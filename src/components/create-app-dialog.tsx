@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
@@ -11,71 +11,57 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import CostEstimate from "@/components/cost-estimate"
 import { Plus, Server, Globe, Database, Code, Settings, Loader2 } from "lucide-react"
+import { organizationHeaders } from "@/lib/active-organization"
 
+interface TemplatePort {
+  guest: number
+  host: number
+  protocol: string
+}
+
+interface ResourceRange {
+  min: number
+  max: number
+}
+
+// As served by GET /api/templates, see serializeTemplate() in src/lib/templates.ts
 interface Template {
   id: string
   name: string
   description: string
-  icon: React.ReactNode
-  defaultCpu: number
-  defaultMemory: number
-  defaultDisk: number
   category: string
   features: string[]
-  defaultDockerImage: string
+  defaults: {
+    cpu: number
+    memory: number
+    disk: number
+    dockerImage: string
+    ports: TemplatePort[]
+  }
+  ranges: {
+    cpu: ResourceRange
+    memory: ResourceRange
+    disk: ResourceRange
+  }
+}
+
+const categoryIcons: Record<string, React.ReactNode> = {
+  Web: <Globe className="h-5 w-5" />,
+  API: <Code className="h-5 w-5" />,
+  Database: <Database className="h-5 w-5" />,
+  Development: <Settings className="h-5 w-5" />
 }
 
-const templates: Template[] = [
-  {
-    id: "webapp",
-    name: "Web Application",
-    description: "Perfect for modern web applications with Node.js, Python, or other runtimes",
-    icon: <Globe className="h-5 w-5" />,
-    defaultCpu: 2,
-    defaultMemory: 4,
-    defaultDisk: 20,
-    category: "Web",
-    features: ["Nginx", "Container Runtime", "Port 80/443", "SSL Ready"],
-    defaultDockerImage: "nginx:latest"
-  },
-  {
-    id: "api",
-    name: "API Service",
-    description: "Optimized for REST APIs and microservices",
-    icon: <Code className="h-5 w-5" />,
-    defaultCpu: 1,
-    defaultMemory: 2,
-    defaultDisk: 10,
-    category: "API",
-    features: ["Container Runtime", "Port 8080", "Health Checks", "Metrics"],
-    defaultDockerImage: "node:18-alpine"
-  },
-  {
-    id: "database",
-    name: "Database Server",
-    description: "For PostgreSQL, MySQL, MongoDB and other databases",
-    icon: <Database className="h-5 w-5" />,
-    defaultCpu: 4,
-    defaultMemory: 8,
-    defaultDisk: 50,
-    category: "Database",
-    features: ["Persistent Storage", "Backup Ready", "Port 5432", "Monitoring"],
-    defaultDockerImage: "postgres:15"
-  },
-  {
-    id: "dev",
-    name: "Development Environment",
-    description: "Complete development setup with common tools",
-    icon: <Settings className="h-5 w-5" />,
-    defaultCpu: 1,
-    defaultMemory: 2,
-    defaultDisk: 15,
-    category: "Development",
-    features: ["VS Code Server", "Git", "Node.js", "Python", "Docker"],
-    defaultDockerImage: "ubuntu:22.04"
+// Powers of two within the template's range, plus its bounds and the current value
+const rangeOptions = (range: ResourceRange, current: number) => {
+  const values = new Set([range.min, range.max, current])
+  for (let value = 1; value <= range.max; value *= 2) {
+    if (value >= range.min) values.add(value)
   }
-]
+  return Array.from(values).sort((a, b) => a - b)
+}
 
 interface CreateAppDialogProps {
   children: React.ReactNode
@@ -84,29 +70,94 @@ interface CreateAppDialogProps {
 
 export default function CreateAppDialog({ children, onAppCreated }: CreateAppDialogProps) {
   const [open, setOpen] = useState(false)
+  const [templates, setTemplates] = useState<Template[]>([])
+  const [templatesLoading, setTemplatesLoading] = useState(false)
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null)
+  const [preview, setPreview] = useState("")
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     domain: "",
+    environment: "PRODUCTION",
     cpu: 1,
     memory: 1,
     disk: 10,
     dockerImage: "",
     envVars: "",
+    provisionScript: "",
     sshKey: ""
   })
 
+  useEffect(() => {
+    if (!open || templates.length > 0) return
+
+    const token = localStorage.getItem("limahost_token")
+    if (!token) return
+
+    setTemplatesLoading(true)
+    fetch("/api/templates", {
+      headers: { "Authorization": `Bearer ${token}` }
+    })
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setTemplates(data.data)
+        } else {
+          setError(data.error || "Failed to load templates")
+        }
+      })
+      .catch(() => setError("Failed to load templates"))
+      .finally(() => setTemplatesLoading(false))
+  }, [open, templates.length])
+
+  // Render the Lima config server-side so the preview matches what the VM gets
+  useEffect(() => {
+    const token = localStorage.getItem("limahost_token")
+    if (!selectedTemplate || !token) {
+      setPreview("")
+      return
+    }
+
+    const timer = setTimeout(() => {
+      fetch(`/api/templates/${selectedTemplate.id}/render`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          name: "app-preview",
+          overrides: {
+            cpus: formData.cpu,
+            memory: formData.memory,
+            disk: formData.disk,
+            provision: formData.provisionScript.trim()
+              ? [{ mode: "system", script: formData.provisionScript }]
+              : undefined
+          }
+        })
+      })
+        .then(response => response.json())
+        .then(data => setPreview(data.success ? data.data.yaml : `# ${data.error || "Failed to render template"}`))
+        .catch(() => setPreview("# Failed to render template"))
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [selectedTemplate, formData.cpu, formData.memory, formData.disk, formData.provisionScript])
+
+  const resourceOptions = (field: "cpu" | "memory" | "disk") =>
+    selectedTemplate ? rangeOptions(selectedTemplate.ranges[field], formData[field]) : [formData[field]]
+
   const handleTemplateSelect = (template: Template) => {
     setSelectedTemplate(template)
     setFormData(prev => ({
       ...prev,
-      cpu: template.defaultCpu,
-      memory: template.defaultMemory,
-      disk: template.defaultDisk,
-      dockerImage: template.defaultDockerImage
+      cpu: template.defaults.cpu,
+      memory: template.defaults.memory,
+      disk: template.defaults.disk,
+      dockerImage: template.defaults.dockerImage
     }))
   }
 
@@ -149,6 +200,7 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
         name: formData.name,
         description: formData.description || undefined,
         domain: formData.domain || undefined,
+        environment: formData.environment,
         template: selectedTemplate.id,
         config: {
           cpu: formData.cpu,
@@ -156,17 +208,10 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
           disk: formData.disk,
           dockerImage: formData.dockerImage,
           envVars: Object.keys(envVars).length > 0 ? envVars : undefined,
-          ports: selectedTemplate.id === "webapp" ? [
-            { guest: 80, host: 8080, protocol: "http" },
-            { guest: 443, host: 8443, protocol: "https" }
-          ] : selectedTemplate.id === "api" ? [
-            { guest: 3000, host: 3000, protocol: "http" }
-          ] : selectedTemplate.id === "database" ? [
-            { guest: 5432, host: 5432, protocol: "tcp" }
-          ] : selectedTemplate.id === "dev" ? [
-            { guest: 22, host: 2222, protocol: "ssh" },
-            { guest: 8080, host: 8081, protocol: "http" }
-          ] : []
+          ports: selectedTemplate.defaults.ports,
+          provision: formData.provisionScript.trim()
+            ? [{ mode: "system", script: formData.provisionScript }]
+            : undefined
         }
       }
 
@@ -174,7 +219,8 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`
+          "Authorization": `Bearer ${token}`,
+          ...organizationHeaders()
         },
         body: JSON.stringify(appData)
       })
@@ -190,11 +236,13 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
           name: "",
           description: "",
           domain: "",
+          environment: "PRODUCTION",
           cpu: 1,
           memory: 1,
           disk: 10,
           dockerImage: "",
           envVars: "",
+          provisionScript: "",
           sshKey: ""
         })
         setSelectedTemplate(null)
@@ -209,8 +257,6 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
     }
   }
 
-  const categories = Array.from(new Set(templates.map(t => t.category)))
-
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -242,6 +288,12 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
             <TabsContent value="template" className="space-y-4">
               <div className="space-y-4">
                 <Label className="text-base font-medium">Choose a Template</Label>
+                {templatesLoading && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading templates...
+                  </div>
+                )}
                 <div className="grid gap-4 md:grid-cols-2">
                   {templates.map((template) => (
                     <Card 
@@ -255,7 +307,7 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
                     >
                       <CardHeader className="pb-3">
                         <div className="flex items-center gap-2">
-                          {template.icon}
+                          {categoryIcons[template.category] || <Server className="h-5 w-5" />}
                           <CardTitle className="text-lg">{template.name}</CardTitle>
                         </div>
                         <CardDescription>{template.description}</CardDescription>
@@ -269,7 +321,7 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
                           ))}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          Default: {template.defaultCpu} vCPU, {template.defaultMemory}GB RAM, {template.defaultDisk}GB Disk
+                          Default: {template.defaults.cpu} vCPU, {template.defaults.memory}GB RAM, {template.defaults.disk}GB Disk
                         </div>
                       </CardContent>
                     </Card>
@@ -301,14 +353,32 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="domain">Domain Name (Optional)</Label>
-                <Input
-                  id="domain"
-                  value={formData.domain}
-                  onChange={(e) => setFormData(prev => ({ ...prev, domain: e.target.value }))}
-                  placeholder="app.example.com"
-                />
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="domain">Domain Name (Optional)</Label>
+                  <Input
+                    id="domain"
+                    value={formData.domain}
+                    onChange={(e) => setFormData(prev => ({ ...prev, domain: e.target.value }))}
+                    placeholder="app.example.com"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="environment">Environment</Label>
+                  <Select value={formData.environment} onValueChange={(value) => setFormData(prev => ({ ...prev, environment: value }))}>
+                    <SelectTrigger id="environment">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="PRODUCTION">Production</SelectItem>
+                      <SelectItem value="STAGING">Staging</SelectItem>
+                      <SelectItem value="DEVELOPMENT">Development</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Budgets with a hard cap stop non-production apps
+                  </p>
+                </div>
               </div>
 
               <div className="grid gap-4 md:grid-cols-3">
@@ -319,11 +389,9 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="1">1 vCPU</SelectItem>
-                      <SelectItem value="2">2 vCPU</SelectItem>
-                      <SelectItem value="4">4 vCPU</SelectItem>
-                      <SelectItem value="8">8 vCPU</SelectItem>
-                      <SelectItem value="16">16 vCPU</SelectItem>
+                      {resourceOptions("cpu").map(value => (
+                        <SelectItem key={value} value={value.toString()}>{value} vCPU</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -334,12 +402,9 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="1">1 GB</SelectItem>
-                      <SelectItem value="2">2 GB</SelectItem>
-                      <SelectItem value="4">4 GB</SelectItem>
-                      <SelectItem value="8">8 GB</SelectItem>
-                      <SelectItem value="16">16 GB</SelectItem>
-                      <SelectItem value="32">32 GB</SelectItem>
+                      {resourceOptions("memory").map(value => (
+                        <SelectItem key={value} value={value.toString()}>{value} GB</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -350,15 +415,15 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="10">10 GB</SelectItem>
-                      <SelectItem value="20">20 GB</SelectItem>
-                      <SelectItem value="50">50 GB</SelectItem>
-                      <SelectItem value="100">100 GB</SelectItem>
-                      <SelectItem value="200">200 GB</SelectItem>
+                      {resourceOptions("disk").map(value => (
+                        <SelectItem key={value} value={value.toString()}>{value} GB</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
+
+              <CostEstimate resources={{ cpu: formData.cpu, memory: formData.memory, disk: formData.disk }} />
             </TabsContent>
 
             <TabsContent value="deployment" className="space-y-4">
@@ -392,6 +457,21 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
             </TabsContent>
 
             <TabsContent value="advanced" className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="provisionScript">Provision Script (Optional)</Label>
+                <Textarea
+                  id="provisionScript"
+                  value={formData.provisionScript}
+                  onChange={(e) => setFormData(prev => ({ ...prev, provisionScript: e.target.value }))}
+                  placeholder="#!/bin/bash&#10;apt-get install -y htop"
+                  rows={4}
+                  className="font-mono text-sm"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Runs as root after the template&apos;s own provisioning when the VM is first created
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="sshKey">SSH Public Key (Optional)</Label>
                 <Textarea
@@ -421,25 +501,8 @@ export default function CreateAppDialog({ children, onAppCreated }: CreateAppDia
                       <p><strong>Features:</strong> {selectedTemplate.features.join(", ")}</p>
                       <div className="mt-3 p-3 bg-muted rounded-md">
                         <p className="font-medium mb-1">Lima YAML Configuration Preview:</p>
-                        <pre className="text-xs overflow-x-auto">
-{`name: ${formData.name || "app"}
-arch: "x86_64"
-cpus: ${formData.cpu}
-memory: "${formData.memory}GiB"
-disk: "${formData.disk}GiB"
-containerd:
-  user: true
-  system: false
-provision:
-  - mode: system
-    script: |
-      #!/bin/bash
-      apt-get update
-      apt-get install -y containerd curl
-      systemctl enable --now containerd
-ports:
-  - guest: 80
-    host: 0`}
+                        <pre className="text-xs overflow-auto max-h-64">
+                          {preview || "Rendering..."}
                         </pre>
                       </div>
                     </div>
@@ -0,0 +1,62 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Eye, Loader2 } from "lucide-react"
+import { getImpersonation, stopImpersonating } from "@/lib/auth-session"
+
+// Shown on every dashboard page while an admin is acting as another user
+export default function ImpersonationBanner() {
+  const [impersonator, setImpersonator] = useState<string | null>(null)
+  const [email, setEmail] = useState("")
+  const [stopping, setStopping] = useState(false)
+
+  useEffect(() => {
+    const impersonation = getImpersonation()
+    if (!impersonation) {
+      return
+    }
+    setImpersonator(impersonation.email)
+
+    try {
+      setEmail(JSON.parse(localStorage.getItem("limahost_user") || "{}").email || "")
+    } catch {
+      setEmail("")
+    }
+  }, [])
+
+  const handleStop = async () => {
+    setStopping(true)
+    try {
+      await fetch("/api/admin/impersonation", {
+        method: "DELETE",
+        headers: {
+          "Authorization": `Bearer ${localStorage.getItem("limahost_token")}`
+        }
+      })
+    } catch (error) {
+      console.error("Failed to end impersonation:", error)
+    }
+
+    // The session ends within the hour anyway, so switch back even if ending it failed
+    stopImpersonating()
+    window.location.href = "/dashboard/admin"
+  }
+
+  if (!impersonator) {
+    return null
+  }
+
+  return (
+    <div className="sticky top-0 z-50 flex items-center justify-center gap-3 bg-amber-500 px-4 py-2 text-sm text-amber-950">
+      <Eye className="h-4 w-4" />
+      <span>
+        Viewing as <strong>{email}</strong>. Everything you do is recorded under your account, {impersonator}.
+      </span>
+      <Button size="sm" variant="secondary" onClick={handleStop} disabled={stopping}>
+        {stopping && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Stop impersonating
+      </Button>
+    </div>
+  )
+}
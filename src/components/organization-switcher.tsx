@@ -0,0 +1,111 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getActiveOrganizationId, setActiveOrganizationId } from "@/lib/active-organization"
+
+interface Organization {
+  id: string
+  name: string
+  role: "OWNER" | "ADMIN" | "DEVELOPER" | "VIEWER"
+}
+
+const PERSONAL = "personal"
+
+interface OrganizationSwitcherProps {
+  // Called after the active organization changed, null for the personal account
+  onChange: (organizationId: string | null) => void
+}
+
+export default function OrganizationSwitcher({ onChange }: OrganizationSwitcherProps) {
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [active, setActive] = useState<string>(PERSONAL)
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  const load = useCallback(async () => {
+    const token = localStorage.getItem("limahost_token")
+    if (!token) return []
+
+    const response = await fetch("/api/organizations", {
+      headers: { "Authorization": `Bearer ${token}` }
+    })
+    const data = await response.json()
+    const list: Organization[] = data.success ? data.data : []
+    setOrganizations(list)
+    return list
+  }, [])
+
+  const select = useCallback((organizationId: string | null) => {
+    setActiveOrganizationId(organizationId)
+    setActive(organizationId ?? PERSONAL)
+    onChangeRef.current(organizationId)
+  }, [])
+
+  useEffect(() => {
+    const init = async () => {
+      // Invitation links point at /dashboard?invitation=<token>
+      const params = new URLSearchParams(window.location.search)
+      const invitation = params.get("invitation")
+      let joined: string | null = null
+
+      if (invitation) {
+        const token = localStorage.getItem("limahost_token")
+        const response = await fetch("/api/organizations/invitations/accept", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${token}`
+          },
+          body: JSON.stringify({ token: invitation })
+        })
+        const data = await response.json()
+        if (data.success) {
+          joined = data.data.id
+        } else {
+          console.error("Failed to accept invitation:", data.error)
+        }
+        params.delete("invitation")
+        window.history.replaceState(null, "", `${window.location.pathname}${params.size ? `?${params}` : ""}`)
+      }
+
+      const list = await load()
+      const stored = joined ?? getActiveOrganizationId()
+
+      // Forget an organization the user has since left
+      if (stored && list.some(organization => organization.id === stored)) {
+        if (stored !== getActiveOrganizationId()) {
+          select(stored)
+        } else {
+          setActive(stored)
+        }
+      } else if (stored) {
+        select(null)
+      }
+    }
+
+    init().catch((error) => {
+      console.error("Failed to load organizations:", error)
+    })
+  }, [load, select])
+
+  if (organizations.length === 0) {
+    return null
+  }
+
+  return (
+    <Select value={active} onValueChange={(value) => select(value === PERSONAL ? null : value)}>
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PERSONAL}>Personal</SelectItem>
+        {organizations.map((organization) => (
+          <SelectItem key={organization.id} value={organization.id}>
+            {organization.name} ({organization.role.toLowerCase()})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,362 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { ArrowLeft, KeyRound, Loader2, Mail, ShieldCheck } from "lucide-react"
+
+// As served by GET /api/auth/2fa, see getTwoFactorStatus() in src/lib/two-factor.ts
+interface TwoFactorStatus {
+  enabled: boolean
+  hasPassword: boolean
+  enabledAt: string | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+// As served by GET /api/auth/me
+interface Account {
+  email: string
+  emailVerified: boolean
+}
+
+interface Enrollment {
+  secret: string
+  otpauthUrl: string
+  qrCode: string // data: URL of a PNG
+}
+
+function CodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map(index => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
+
+export default function SecurityView() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [account, setAccount] = useState<Account | null>(null)
+  const [newEmail, setNewEmail] = useState("")
+  const [emailPassword, setEmailPassword] = useState("")
+  const [notice, setNotice] = useState("")
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+  const [password, setPassword] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const request = useCallback(async (url: string, init?: RequestInit) => {
+    const token = localStorage.getItem("limahost_token")
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`
+      }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Request failed")
+    }
+    return data
+  }, [])
+
+  const load = useCallback(async () => {
+    try {
+      setError("")
+      const [data, me] = await Promise.all([request("/api/auth/2fa"), request("/api/auth/me")])
+      setStatus(data.twoFactor)
+      setAccount(me.user)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load security settings")
+    } finally {
+      setLoading(false)
+    }
+  }, [request])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // Wraps each action so they share the saving flag, error display and code reset
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true)
+    setError("")
+    setNotice("")
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback)
+    } finally {
+      setCode("")
+      setSaving(false)
+    }
+  }
+
+  const handleStartSetup = () => run(async () => {
+    setRecoveryCodes(null)
+    setEnrollment(await request("/api/auth/2fa/setup", { method: "POST" }))
+  }, "Failed to start setup")
+
+  const handleEnable = () => run(async () => {
+    const data = await request("/api/auth/2fa/enable", {
+      method: "POST",
+      body: JSON.stringify({ code })
+    })
+    setEnrollment(null)
+    setRecoveryCodes(data.recoveryCodes)
+    await load()
+  }, "Failed to enable two-factor authentication")
+
+  const handleRegenerate = () => run(async () => {
+    const data = await request("/api/auth/2fa/recovery-codes", {
+      method: "POST",
+      body: JSON.stringify({ code })
+    })
+    setRecoveryCodes(data.recoveryCodes)
+    await load()
+  }, "Failed to generate recovery codes")
+
+  const handleDisable = () => run(async () => {
+    await request("/api/auth/2fa", {
+      method: "DELETE",
+      body: JSON.stringify({ password, code })
+    })
+    setPassword("")
+    setRecoveryCodes(null)
+    await load()
+  }, "Failed to disable two-factor authentication")
+
+  const handleResendVerification = () => run(async () => {
+    const data = await request("/api/auth/verify-email/resend", { method: "POST" })
+    setNotice(data.message)
+  }, "Failed to send the verification email")
+
+  const handleChangeEmail = () => run(async () => {
+    const data = await request("/api/auth/change-email", {
+      method: "POST",
+      body: JSON.stringify({ email: newEmail, password: emailPassword || undefined })
+    })
+    setNewEmail("")
+    setEmailPassword("")
+    setNotice(`${data.message}. Your address changes once you follow the link in it.`)
+  }, "Failed to change the email address")
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="flex h-14 items-center px-6 gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Apps
+            </a>
+          </Button>
+          <h1 className="text-xl font-semibold">Security</h1>
+        </div>
+      </header>
+
+      <main className="p-6 space-y-6 max-w-2xl">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {status?.required && !status.enabled && (
+          <Alert>
+            <AlertDescription>
+              Your account must use two-factor authentication. Set it up below to continue to the dashboard.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {account && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="h-5 w-5" />
+                Email address
+                {account.emailVerified
+                  ? <Badge>Verified</Badge>
+                  : <Badge variant="secondary">Unverified</Badge>}
+              </CardTitle>
+              <CardDescription>
+                {account.email}. Sign-in alerts, password resets and invitations are sent here.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!account.emailVerified && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Your account is read-only until you follow the link in the verification email.
+                  </p>
+                  <Button variant="outline" onClick={handleResendVerification} disabled={saving}>
+                    Send a new verification email
+                  </Button>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="newEmail">New email address</Label>
+                <Input
+                  id="newEmail"
+                  type="email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+
+              {status?.hasPassword && (
+                <div className="space-y-2">
+                  <Label htmlFor="emailPassword">Password</Label>
+                  <Input
+                    id="emailPassword"
+                    type="password"
+                    value={emailPassword}
+                    onChange={(e) => setEmailPassword(e.target.value)}
+                    disabled={saving}
+                  />
+                </div>
+              )}
+
+              <Button
+                onClick={handleChangeEmail}
+                disabled={saving || !newEmail || (status?.hasPassword && !emailPassword)}
+              >
+                Change email address
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Two-factor authentication
+              {status?.enabled
+                ? <Badge>On</Badge>
+                : <Badge variant="secondary">Off</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Signing in asks for a code from an authenticator app as well as your password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!status?.enabled && !enrollment && (
+              <Button onClick={handleStartSetup} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Set up two-factor authentication
+              </Button>
+            )}
+
+            {enrollment && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Scan the QR code with your authenticator app, or enter the key by hand, then type the code it shows.
+                </p>
+                <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-48 w-48 rounded-md border" />
+                <p className="text-xs font-mono break-all">{enrollment.secret}</p>
+                <div className="flex items-center gap-4">
+                  <CodeInput value={code} onChange={setCode} disabled={saving} />
+                  <Button onClick={handleEnable} disabled={saving || code.length < 6}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Turn on
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {recoveryCodes && (
+              <Alert>
+                <KeyRound className="h-4 w-4" />
+                <AlertDescription className="space-y-2">
+                  <p>
+                    Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator; they are not shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+                    {recoveryCodes.map(recoveryCode => (
+                      <span key={recoveryCode}>{recoveryCode}</span>
+                    ))}
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {status?.enabled && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  On since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : "enrollment"}. {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+                </p>
+
+                <div className="space-y-2">
+                  <Label>Authenticator code</Label>
+                  <CodeInput value={code} onChange={setCode} disabled={saving} />
+                </div>
+
+                {status.hasPassword && (
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password (to turn off)</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      disabled={saving || status.required}
+                    />
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleRegenerate} disabled={saving || code.length < 6}>
+                    New recovery codes
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={handleDisable}
+                    disabled={saving || status.required || (status.hasPassword && !password) || code.length < 6}
+                  >
+                    Turn off
+                  </Button>
+                </div>
+                {status.required && (
+                  <p className="text-xs text-muted-foreground">
+                    Two-factor authentication is required for your account and cannot be turned off.
+                  </p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { io, Socket } from "socket.io-client"
+import type { Terminal } from "@xterm/xterm"
+import "@xterm/xterm/css/xterm.css"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Play, Square } from "lucide-react"
+
+type TerminalState = "idle" | "connecting" | "open" | "closed"
+
+interface VmTerminalProps {
+  appId: string
+}
+
+const CLOSE_REASONS: Record<string, string> = {
+  client_closed: "disconnected",
+  idle_timeout: "closed after being idle",
+  exited: "shell exited",
+  agent_disconnected: "agent disconnected"
+}
+
+export default function VmTerminal({ appId }: VmTerminalProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const cleanupRef = useRef<(() => void) | null>(null)
+  const termRef = useRef<Terminal | null>(null)
+  const [state, setState] = useState<TerminalState>("idle")
+  const [error, setError] = useState("")
+  const [record, setRecord] = useState(false)
+
+  const disconnect = () => {
+    cleanupRef.current?.()
+    cleanupRef.current = null
+  }
+
+  const disposeTerminal = () => {
+    termRef.current?.dispose()
+    termRef.current = null
+  }
+
+  const connect = async () => {
+    const token = localStorage.getItem("limahost_token")
+    if (!token || !containerRef.current) {
+      setError("No authentication token found")
+      return
+    }
+
+    disconnect()
+    disposeTerminal()
+    setError("")
+    setState("connecting")
+
+    // xterm touches window on import, so it is only loaded in the browser
+    const [{ Terminal }, { FitAddon }] = await Promise.all([
+      import("@xterm/xterm"),
+      import("@xterm/addon-fit")
+    ])
+
+    const term: Terminal = new Terminal({
+      cursorBlink: true,
+      fontSize: 13,
+      theme: { background: "#000000" }
+    })
+    const fitAddon = new FitAddon()
+    term.loadAddon(fitAddon)
+    term.open(containerRef.current)
+    termRef.current = term
+    fitAddon.fit()
+
+    const socket: Socket = io("/terminal", {
+      path: "/api/socketio",
+      // Read on every (re)connect, as the access token is renewed while connected
+      auth: (cb) => cb({ token: localStorage.getItem("limahost_token") })
+    })
+
+    socket.on("connect", () => {
+      socket.emit(
+        "terminal:open",
+        { appId, cols: term.cols, rows: term.rows, record },
+        (response: { success: boolean; error?: string }) => {
+          if (response.success) {
+            setState("open")
+            term.focus()
+          } else {
+            setError(response.error || "Failed to open terminal")
+            setState("closed")
+            socket.disconnect()
+          }
+        }
+      )
+    })
+
+    socket.on("connect_error", (err) => {
+      setError(err.message)
+      setState("closed")
+      socket.disconnect()
+    })
+
+    socket.on("terminal:output", (data: string) => {
+      term.write(data)
+    })
+
+    socket.on("terminal:exit", (event: { reason: string }) => {
+      term.writeln(`\r\n[Session ${CLOSE_REASONS[event.reason] || "closed"}]`)
+      setState("closed")
+      socket.disconnect()
+    })
+
+    const input = term.onData(data => socket.emit("terminal:input", data))
+    const resize = term.onResize(({ cols, rows }) => socket.emit("terminal:resize", { cols, rows }))
+    const observer = new ResizeObserver(() => fitAddon.fit())
+    observer.observe(containerRef.current)
+
+    cleanupRef.current = () => {
+      observer.disconnect()
+      input.dispose()
+      resize.dispose()
+      if (socket.connected) {
+        socket.emit("terminal:close")
+      }
+      socket.disconnect()
+      setState("closed")
+    }
+  }
+
+  useEffect(() => {
+    return () => {
+      disconnect()
+      disposeTerminal()
+    }
+  }, [appId])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="record-terminal"
+            checked={record}
+            onCheckedChange={setRecord}
+            disabled={state === "connecting" || state === "open"}
+          />
+          <Label htmlFor="record-terminal" className="text-sm">Record session</Label>
+        </div>
+        {state === "open" || state === "connecting" ? (
+          <Button size="sm" variant="outline" onClick={disconnect}>
+            <Square className="h-4 w-4 mr-2" />
+            Disconnect
+          </Button>
+        ) : (
+          <Button size="sm" onClick={connect}>
+            <Play className="h-4 w-4 mr-2" />
+            {state === "closed" ? "Reconnect" : "Connect"}
+          </Button>
+        )}
+      </div>
+      <div className="relative h-96 w-full bg-black rounded-md overflow-hidden p-2">
+        <div ref={containerRef} className="h-full w-full" />
+        {state === "idle" && (
+          <p className="absolute top-2 left-2 text-green-400 font-mono text-sm">
+            Connect to open a shell in this app&apos;s VM.
+          </p>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+import * as React from "react"
+import { io } from "socket.io-client"
+
+const MAX_ENTRIES = 500
+
+export interface StreamLogEntry {
+  timestamp: string
+  level: "info" | "warn" | "error" | "debug"
+  message: string
+  source: string
+}
+
+interface DeploymentStepRecord {
+  type: string
+  logs: string | null
+}
+
+interface DeploymentRecord {
+  version: string
+  logs: string | null
+  steps: DeploymentStepRecord[]
+}
+
+const stepSource = (type: string | null) => type ? type.toLowerCase().replace(/_/g, "-") : "deployment"
+
+const levelFor = (message: string, status?: string): StreamLogEntry["level"] => {
+  if (status === "FAILED" || status === "ROLLED_BACK" || /^Error:|failed/i.test(message)) {
+    return "error"
+  }
+  return "info"
+}
+
+// Stored logs are "[ISO timestamp] message" lines, see appendLine() in src/lib/deployments.ts
+const parseLogLines = (logs: string | null, source: string): StreamLogEntry[] =>
+  (logs || "").split("\n").filter(Boolean).map(line => {
+    const match = line.match(/^\[([^\]]+)\] (.*)$/)
+    const message = match ? match[2] : line
+    return {
+      timestamp: match ? match[1] : "",
+      level: levelFor(message),
+      message,
+      source
+    }
+  })
+
+/**
+ * Subscribes to the `app:<id>` Socket.IO room and collects deployment and VM
+ * events, seeded with the logs of the latest deployment.
+ */
+export function useAppStream(appId: string) {
+  const [entries, setEntries] = React.useState<StreamLogEntry[]>([])
+  const [status, setStatus] = React.useState<string | null>(null)
+  const [connected, setConnected] = React.useState(false)
+
+  React.useEffect(() => {
+    const token = localStorage.getItem("limahost_token")
+    if (!token) {
+      return
+    }
+
+    const append = (entry: StreamLogEntry) => {
+      setEntries(prev => [...prev, entry].slice(-MAX_ENTRIES))
+    }
+
+    setEntries([])
+
+    fetch(`/api/apps/${appId}/deployments?limit=1`, {
+      headers: { "Authorization": `Bearer ${token}` }
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(result => {
+        const latest: DeploymentRecord | undefined = result?.data?.[0]
+        if (!latest) {
+          return
+        }
+
+        const history = [
+          ...parseLogLines(latest.logs, "deployment"),
+          ...latest.steps.flatMap(step => parseLogLines(step.logs, stepSource(step.type)))
+        ].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+        // Live events may already have arrived while history was loading
+        setEntries(prev => [...history, ...prev].slice(-MAX_ENTRIES))
+      })
+      .catch(error => console.error("Failed to load deployment logs:", error))
+
+    const socket = io("/apps", {
+      path: "/api/socketio",
+      // Read on every (re)connect, as the access token is renewed while connected
+      auth: (cb) => cb({ token: localStorage.getItem("limahost_token") })
+    })
+
+    socket.on("connect", () => {
+      setConnected(true)
+      socket.emit("subscribe", { room: `app:${appId}` })
+    })
+
+    socket.on("disconnect", () => {
+      setConnected(false)
+    })
+
+    socket.on("deployment:log", (event: { type: string | null; message: string; timestamp: string }) => {
+      append({
+        timestamp: event.timestamp,
+        level: levelFor(event.message),
+        message: event.message,
+        source: stepSource(event.type)
+      })
+    })
+
+    socket.on("deployment:step", (event: { type: string; status: string; timestamp: string }) => {
+      append({
+        timestamp: event.timestamp,
+        level: levelFor("", event.status),
+        message: `Step ${stepSource(event.type)} ${event.status.toLowerCase()}`,
+        source: "pipeline"
+      })
+    })
+
+    socket.on("deployment:status", (event: { version: string; status: string; timestamp: string }) => {
+      append({
+        timestamp: event.timestamp,
+        level: levelFor("", event.status),
+        message: `Deployment ${event.version} ${event.status.toLowerCase().replace("_", " ")}`,
+        source: "pipeline"
+      })
+    })
+
+    socket.on("vm:status", (event: { vmName: string; status: string; timestamp: string }) => {
+      append({
+        timestamp: event.timestamp,
+        level: event.status === "Broken" ? "error" : "info",
+        message: `VM ${event.vmName} is ${event.status}`,
+        source: "vm"
+      })
+    })
+
+    socket.on("app:status", (event: { status: string }) => {
+      setStatus(event.status)
+    })
+
+    return () => {
+      socket.disconnect()
+    }
+  }, [appId])
+
+  return { entries, status, connected }
+}
@@ -0,0 +1,310 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import { EmailToken, EmailTokenPurpose, User } from '@prisma/client';
+import { db } from './db';
+import { hashPassword } from './auth';
+import { createAuditLog, AuditActions } from './audit';
+import { describeDevice } from './sessions';
+import { appUrl, sendMail } from './mail';
+import {
+  emailChangedTemplate,
+  emailChangeRequestedTemplate,
+  emailChangeTemplate,
+  newLoginTemplate,
+  passwordResetTemplate,
+  securityChangeTemplate,
+  verifyEmailTemplate,
+} from './mail-templates';
+
+const HOUR = 60 * 60 * 1000;
+
+const VERIFY_EMAIL_TTL_HOURS = 48;
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_CHANGE_TTL_HOURS = 24;
+
+// A new link of the same kind is not sent more often than this
+const RESEND_INTERVAL = 60 * 1000;
+
+// Accounts this new have not signed in anywhere before, so their first login is not news
+const NEW_ACCOUNT_GRACE = 10 * 60 * 1000;
+
+// What an unverified account may still change: its own sign-in, security and email settings
+const UNVERIFIED_PATHS = ['/api/auth'];
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+type Metadata = { ipAddress?: string; userAgent?: string };
+
+export type AccountEmailErrorCode = 'INVALID_TOKEN' | 'CONFLICT' | 'FORBIDDEN' | 'TOO_SOON';
+
+export class AccountEmailError extends Error {
+  constructor(public code: AccountEmailErrorCode, message: string) {
+    super(message);
+    this.name = 'AccountEmailError';
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'CONFLICT': return 409;
+      case 'FORBIDDEN': return 403;
+      case 'TOO_SOON': return 429;
+      default: return 400;
+    }
+  }
+}
+
+export function accountEmailErrorResponse(error: AccountEmailError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+// Unverified accounts are read-only outside their own account settings
+export function isAllowedWhileUnverified(method: string, pathname: string): boolean {
+  return SAFE_METHODS.includes(method)
+    || UNVERIFIED_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+function hashEmailToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Replace the user's pending token for the purpose with a new one, returned
+ * once and stored hashed. Null when one was sent within RESEND_INTERVAL.
+ */
+async function issueEmailToken(userId: string, purpose: EmailTokenPurpose, email: string, ttl: number): Promise<string | null> {
+  const recent = await db.emailToken.findFirst({
+    where: { userId, purpose, usedAt: null, createdAt: { gte: new Date(Date.now() - RESEND_INTERVAL) } },
+  });
+  if (recent) {
+    return null;
+  }
+
+  const token = randomBytes(32).toString('base64url');
+
+  await db.$transaction([
+    db.emailToken.deleteMany({ where: { userId, purpose, usedAt: null } }),
+    db.emailToken.create({
+      data: { userId, purpose, email, tokenHash: hashEmailToken(token), expiresAt: new Date(Date.now() + ttl) },
+    }),
+  ]);
+
+  return token;
+}
+
+// Marks the token used; a link works once, even when two requests race for it
+async function consumeEmailToken(token: string, purpose: EmailTokenPurpose): Promise<EmailToken> {
+  const record = await db.emailToken.findUnique({ where: { tokenHash: hashEmailToken(token) } });
+
+  if (!record || record.purpose !== purpose || record.expiresAt <= new Date()) {
+    throw new AccountEmailError('INVALID_TOKEN', 'This link is invalid or has expired');
+  }
+
+  const { count } = await db.emailToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new AccountEmailError('INVALID_TOKEN', 'This link has already been used');
+  }
+
+  return record;
+}
+
+export async function sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'name'>) {
+  const token = await issueEmailToken(user.id, EmailTokenPurpose.VERIFY_EMAIL, user.email, VERIFY_EMAIL_TTL_HOURS * HOUR);
+  if (!token) {
+    throw new AccountEmailError('TOO_SOON', 'A verification email was just sent; check your inbox');
+  }
+
+  await sendMail({
+    to: user.email,
+    ...verifyEmailTemplate({
+      name: user.name,
+      url: appUrl(`/verify-email?token=${token}`),
+      expiresInHours: VERIFY_EMAIL_TTL_HOURS,
+    }),
+  });
+}
+
+export async function verifyEmail(token: string, metadata: Metadata = {}) {
+  const record = await consumeEmailToken(token, EmailTokenPurpose.VERIFY_EMAIL);
+  const user = await db.user.findUniqueOrThrow({ where: { id: record.userId } });
+
+  // The link vouches for the address it was sent to, not for one set since
+  if (user.email !== record.email) {
+    throw new AccountEmailError('INVALID_TOKEN', 'This link was sent to an address the account no longer uses');
+  }
+
+  await db.user.update({ where: { id: user.id }, data: { emailVerified: true } });
+
+  await createAuditLog({
+    userId: user.id,
+    action: AuditActions.USER_EMAIL_VERIFY,
+    resource: 'user',
+    resourceId: user.id,
+    details: `Verified email address ${user.email}`,
+    ...metadata,
+  });
+}
+
+/**
+ * Email a reset link if the address belongs to an active account. Callers
+ * answer the same either way, so addresses cannot be probed.
+ */
+export async function requestPasswordReset(email: string) {
+  const user = await db.user.findUnique({ where: { email } });
+  if (!user || !user.isActive) {
+    return;
+  }
+
+  const token = await issueEmailToken(user.id, EmailTokenPurpose.PASSWORD_RESET, user.email, PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+  if (!token) {
+    return;
+  }
+
+  await sendMail({
+    to: user.email,
+    ...passwordResetTemplate({
+      url: appUrl(`/reset-password?token=${token}`),
+      expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+    }),
+  });
+}
+
+/**
+ * Set a new password from a reset link and end every session, since the old
+ * password may be what someone else used to sign in. Following the link also
+ * proves the address, so it counts as verified.
+ */
+export async function resetPassword(token: string, password: string, metadata: Metadata = {}) {
+  const record = await consumeEmailToken(token, EmailTokenPurpose.PASSWORD_RESET);
+  const user = await db.user.findUniqueOrThrow({ where: { id: record.userId } });
+
+  if (!user.isActive || user.email !== record.email) {
+    throw new AccountEmailError('INVALID_TOKEN', 'This link is invalid or has expired');
+  }
+
+  await db.user.update({
+    where: { id: user.id },
+    // Also the way back into an account locked by failed sign-ins
+    data: {
+      password: await hashPassword(password),
+      emailVerified: true,
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+    },
+  });
+
+  const { count } = await db.session.updateMany({
+    where: { userId: user.id, revokedAt: null, expiresAt: { gt: new Date() } },
+    data: { revokedAt: new Date(), revokedReason: 'password_reset' },
+  });
+
+  await createAuditLog({
+    userId: user.id,
+    action: AuditActions.USER_PASSWORD_RESET,
+    resource: 'user',
+    resourceId: user.id,
+    details: `Reset password by email and ended ${count} session${count === 1 ? '' : 's'}`,
+    ...metadata,
+  });
+
+  await sendSecurityAlert(user, 'Your password was changed', metadata);
+}
+
+/**
+ * Send a confirmation link to the new address; the email changes once it is
+ * followed. The current address is told, in case someone else asked.
+ */
+export async function requestEmailChange(user: Pick<User, 'id' | 'email'>, newEmail: string) {
+  if (newEmail === user.email) {
+    throw new AccountEmailError('CONFLICT', 'This is already your email address');
+  }
+  if (await db.user.findUnique({ where: { email: newEmail } })) {
+    throw new AccountEmailError('CONFLICT', 'This email address is in use by another account');
+  }
+
+  const token = await issueEmailToken(user.id, EmailTokenPurpose.EMAIL_CHANGE, newEmail, EMAIL_CHANGE_TTL_HOURS * HOUR);
+  if (!token) {
+    throw new AccountEmailError('TOO_SOON', 'A confirmation email was just sent; check your inbox');
+  }
+
+  await sendMail({
+    to: newEmail,
+    ...emailChangeTemplate({
+      newEmail,
+      url: appUrl(`/verify-email?token=${token}&change=1`),
+      expiresInHours: EMAIL_CHANGE_TTL_HOURS,
+    }),
+  });
+  await sendMail({ to: user.email, ...emailChangeRequestedTemplate({ newEmail }) });
+}
+
+export async function confirmEmailChange(token: string, metadata: Metadata = {}) {
+  const record = await consumeEmailToken(token, EmailTokenPurpose.EMAIL_CHANGE);
+  const user = await db.user.findUniqueOrThrow({ where: { id: record.userId } });
+
+  // Someone may have registered the address while the link was in the inbox
+  if (await db.user.findUnique({ where: { email: record.email } })) {
+    throw new AccountEmailError('CONFLICT', 'This email address is in use by another account');
+  }
+
+  await db.user.update({
+    where: { id: user.id },
+    data: { email: record.email, emailVerified: true },
+  });
+
+  await createAuditLog({
+    userId: user.id,
+    action: AuditActions.USER_EMAIL_CHANGE,
+    resource: 'user',
+    resourceId: user.id,
+    details: `Changed email address from ${user.email} to ${record.email}`,
+    ...metadata,
+  });
+
+  await sendMail({ to: user.email, ...emailChangedTemplate({ newEmail: record.email }) });
+}
+
+/**
+ * Tell the user about a sign-in from a device none of their sessions used.
+ * Call before the new session is created.
+ */
+export async function sendNewLoginAlert(user: Pick<User, 'id' | 'email' | 'createdAt'>, metadata: Metadata = {}) {
+  const [knownDevice, sessions] = await Promise.all([
+    db.session.count({ where: { userId: user.id, userAgent: metadata.userAgent ?? null } }),
+    db.session.count({ where: { userId: user.id } }),
+  ]);
+
+  if (knownDevice > 0 || (sessions === 0 && user.createdAt.getTime() > Date.now() - NEW_ACCOUNT_GRACE)) {
+    return;
+  }
+
+  await sendMail({
+    to: user.email,
+    ...newLoginTemplate({
+      device: describeDevice(metadata.userAgent ?? null),
+      ipAddress: metadata.ipAddress,
+      at: new Date(),
+      url: appUrl('/dashboard/security'),
+    }),
+  });
+}
+
+// For changes to how the account signs in, such as its password or 2FA
+export async function sendSecurityAlert(user: Pick<User, 'email'>, change: string, metadata: Metadata = {}) {
+  await sendMail({
+    to: user.email,
+    ...securityChangeTemplate({
+      change,
+      device: metadata.userAgent ? describeDevice(metadata.userAgent) : undefined,
+      ipAddress: metadata.ipAddress,
+      at: new Date(),
+      url: appUrl('/dashboard/security'),
+    }),
+  });
+}
@@ -0,0 +1,23 @@
+// Shared by the API and the dashboard, so nothing server-only may be imported here
+
+// Requests carrying this header act inside the organization instead of the user's personal account
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+const STORAGE_KEY = 'limahost_organization';
+
+export function getActiveOrganizationId(): string | null {
+  return typeof window === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+}
+
+export function setActiveOrganizationId(organizationId: string | null) {
+  if (organizationId) {
+    localStorage.setItem(STORAGE_KEY, organizationId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function organizationHeaders(): Record<string, string> {
+  const organizationId = getActiveOrganizationId();
+  return organizationId ? { [ORGANIZATION_HEADER]: organizationId } : {};
+}
@@ -0,0 +1,504 @@
+import { NextResponse } from 'next/server';
+import { AppStatus, BillingPlan, InvoiceStatus, Prisma, Session, SubscriptionStatus, UserRole } from '@prisma/client';
+import { db } from './db';
+import { createAuditLog, AuditActions } from './audit';
+import { hasGlobalPermission, Permission } from './permissions';
+import { createSession } from './sessions';
+import { setAppStatus, setAppVmPower } from './apps';
+import { isAgentConnected } from './agent-gateway';
+import { serializeAgent } from './agents';
+import { getPlanMonthlyFee } from './billing';
+import { getBillingPeriod, getUsageAggregates } from './metering';
+
+// Months of paid invoices in the revenue history
+const REVENUE_HISTORY_MONTHS = 12;
+
+type Actor = { id: string; role: UserRole; scopes?: Permission[] };
+type Metadata = { ipAddress?: string; userAgent?: string; apiTokenId?: string; impersonatorId?: string };
+
+export type AdminErrorCode = 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'INVALID';
+
+export class AdminError extends Error {
+  constructor(public code: AdminErrorCode, message: string) {
+    super(message);
+    this.name = 'AdminError';
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND': return 404;
+      case 'FORBIDDEN': return 403;
+      case 'CONFLICT': return 409;
+      default: return 400;
+    }
+  }
+}
+
+export function adminErrorResponse(error: AdminError) {
+  return NextResponse.json(
+    { success: false, error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+const adminUserInclude = {
+  billingInfo: { select: { plan: true, subscriptionStatus: true } },
+  _count: { select: { apps: true, memberships: true } },
+} satisfies Prisma.UserInclude;
+
+type AdminUser = Prisma.UserGetPayload<{ include: typeof adminUserInclude }>;
+
+export function serializeAdminUser(user: AdminUser) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    isActive: user.isActive,
+    emailVerified: user.emailVerified,
+    twoFactorEnabled: user.twoFactorEnabled,
+    hasPassword: user.password !== null,
+    lockedUntil: user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil.toISOString() : null,
+    plan: user.billingInfo?.plan ?? BillingPlan.FREE,
+    subscriptionStatus: user.billingInfo?.subscriptionStatus ?? SubscriptionStatus.ACTIVE,
+    appCount: user._count.apps,
+    organizationCount: user._count.memberships,
+    createdAt: user.createdAt.toISOString(),
+  };
+}
+
+export async function searchUsers(filters: {
+  search?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  limit: number;
+  offset: number;
+}) {
+  const where: Prisma.UserWhereInput = {
+    ...(filters.search ? { OR: [{ email: { contains: filters.search } }, { name: { contains: filters.search } }] } : {}),
+    ...(filters.role ? { role: filters.role } : {}),
+    ...(filters.isActive !== undefined ? { isActive: filters.isActive } : {}),
+  };
+
+  const [users, total] = await Promise.all([
+    db.user.findMany({
+      where,
+      include: adminUserInclude,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit,
+      skip: filters.offset,
+    }),
+    db.user.count({ where }),
+  ]);
+
+  return { users: users.map(serializeAdminUser), total };
+}
+
+export async function getAdminUser(userId: string) {
+  const user = await db.user.findUnique({ where: { id: userId }, include: adminUserInclude });
+  if (!user) {
+    throw new AdminError('NOT_FOUND', 'User not found');
+  }
+  return user;
+}
+
+/**
+ * Deactivate or reactivate an account, change its role or lift a sign-in
+ * lock. Account roles grant permissions, so changing them also takes
+ * role:manage, and only super admins may change super admins. Nobody changes
+ * their own account here, so an admin cannot lock themselves out.
+ */
+export async function updateUserAsAdmin(
+  actor: Actor,
+  userId: string,
+  changes: { isActive?: boolean; role?: UserRole; unlock?: boolean },
+  metadata: Metadata = {}
+) {
+  const user = await getAdminUser(userId);
+
+  if (user.id === actor.id) {
+    throw new AdminError('FORBIDDEN', 'You cannot change your own account from the admin console');
+  }
+  if (user.role === UserRole.SUPER_ADMIN && actor.role !== UserRole.SUPER_ADMIN) {
+    throw new AdminError('FORBIDDEN', 'Only super admins can change super admin accounts');
+  }
+
+  const roleChanged = changes.role !== undefined && changes.role !== user.role;
+  if (roleChanged && !await hasGlobalPermission(actor, 'role:manage')) {
+    throw new AdminError('FORBIDDEN', 'Changing account roles requires the role:manage permission');
+  }
+  if (changes.role === UserRole.SUPER_ADMIN && actor.role !== UserRole.SUPER_ADMIN) {
+    throw new AdminError('FORBIDDEN', 'Only super admins can make other super admins');
+  }
+
+  const described: string[] = [];
+  const data: Prisma.UserUpdateInput = {};
+
+  if (changes.isActive !== undefined && changes.isActive !== user.isActive) {
+    data.isActive = changes.isActive;
+    described.push(changes.isActive ? 'reactivated' : 'deactivated');
+  }
+  if (roleChanged) {
+    data.role = changes.role;
+    described.push(`changed role from ${user.role} to ${changes.role}`);
+  }
+  if (changes.unlock && (user.lockedUntil || user.failedLoginAttempts > 0)) {
+    Object.assign(data, { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+    described.push('lifted the sign-in lock');
+  }
+
+  if (described.length === 0) {
+    return user;
+  }
+
+  const updated = await db.user.update({ where: { id: user.id }, data, include: adminUserInclude });
+
+  // Deactivated users are turned away at their next request; ending their sessions makes that final
+  if (data.isActive === false) {
+    await db.session.updateMany({
+      where: { userId: user.id, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'deactivated' },
+    });
+  }
+
+  await createAuditLog({
+    userId: actor.id,
+    action: AuditActions.ADMIN_USER_UPDATE,
+    resource: 'user',
+    resourceId: user.id,
+    details: `${user.email}: ${described.join(', ')}`,
+    ...metadata,
+  });
+
+  return updated;
+}
+
+/**
+ * Open a short session as the user for support. Only ordinary accounts can be
+ * impersonated, so it never gains the admin permissions they lack. Starting
+ * is audited for the admin and for the user, and what the admin does as the
+ * user carries their impersonatorId.
+ */
+export async function startImpersonation(actor: Actor, userId: string, metadata: Metadata = {}) {
+  const user = await getAdminUser(userId);
+
+  if (user.id === actor.id) {
+    throw new AdminError('INVALID', 'You cannot impersonate yourself');
+  }
+  if (!user.isActive) {
+    throw new AdminError('CONFLICT', 'Deactivated accounts cannot be impersonated');
+  }
+  if (user.role !== UserRole.USER) {
+    throw new AdminError('FORBIDDEN', 'Admin accounts cannot be impersonated');
+  }
+
+  const tokens = await createSession(user, metadata, { impersonatorId: actor.id });
+
+  await createAuditLog({
+    userId: actor.id,
+    action: AuditActions.ADMIN_IMPERSONATE_START,
+    resource: 'user',
+    resourceId: user.id,
+    details: `Started impersonating ${user.email}`,
+    ...metadata,
+  });
+  await createAuditLog({
+    userId: user.id,
+    action: AuditActions.ADMIN_IMPERSONATE_START,
+    resource: 'user',
+    resourceId: user.id,
+    details: 'An admin started acting as this account',
+    ...metadata,
+    impersonatorId: actor.id,
+  });
+
+  return {
+    user: { id: user.id, email: user.email, name: user.name, role: user.role, emailVerified: user.emailVerified },
+    ...tokens,
+  };
+}
+
+export async function endImpersonation(session: Session, metadata: Metadata = {}) {
+  if (!session.impersonatorId) {
+    throw new AdminError('INVALID', 'This session is not an impersonation');
+  }
+
+  await db.session.update({
+    where: { id: session.id },
+    data: { revokedAt: new Date(), revokedReason: 'impersonation_ended' },
+  });
+
+  const user = await db.user.findUnique({ where: { id: session.userId }, select: { email: true } });
+
+  await createAuditLog({
+    userId: session.impersonatorId,
+    action: AuditActions.ADMIN_IMPERSONATE_END,
+    resource: 'user',
+    resourceId: session.userId,
+    details: `Stopped impersonating ${user?.email ?? session.userId}`,
+    ...metadata,
+    impersonatorId: undefined,
+  });
+}
+
+const adminAppInclude = {
+  user: { select: { id: true, email: true } },
+  organization: { select: { id: true, name: true } },
+  agent: { select: { id: true, name: true } },
+} satisfies Prisma.AppInclude;
+
+type AdminApp = Prisma.AppGetPayload<{ include: typeof adminAppInclude }>;
+
+export function serializeAdminApp(app: AdminApp) {
+  return {
+    id: app.id,
+    name: app.name,
+    status: app.status,
+    environment: app.environment,
+    template: app.template,
+    domain: app.domain,
+    owner: app.user,
+    organization: app.organization,
+    agent: app.agent,
+    suspended: app.suspendedAt !== null,
+    budgetCapped: app.budgetCappedAt !== null,
+    createdAt: app.createdAt.toISOString(),
+  };
+}
+
+export async function searchApps(filters: {
+  search?: string;
+  status?: AppStatus;
+  userId?: string;
+  limit: number;
+  offset: number;
+}) {
+  const where: Prisma.AppWhereInput = {
+    ...(filters.search ? { OR: [{ name: { contains: filters.search } }, { domain: { contains: filters.search } }] } : {}),
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.userId ? { userId: filters.userId } : {}),
+  };
+
+  const [apps, total] = await Promise.all([
+    db.app.findMany({
+      where,
+      include: adminAppInclude,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit,
+      skip: filters.offset,
+    }),
+    db.app.count({ where }),
+  ]);
+
+  return { apps: apps.map(serializeAdminApp), total };
+}
+
+async function getAdminApp(appId: string) {
+  const app = await db.app.findUnique({ where: { id: appId }, include: adminAppInclude });
+  if (!app) {
+    throw new AdminError('NOT_FOUND', 'App not found');
+  }
+  return app;
+}
+
+/**
+ * Stop an app whatever its owner's permissions. Dunning and budget caps only
+ * restart apps they stopped, so their marks are cleared: the app stays
+ * stopped until someone starts it.
+ */
+export async function forceStopApp(actor: Actor, appId: string, reason: string | undefined, metadata: Metadata = {}) {
+  const app = await getAdminApp(appId);
+
+  if (app.status === AppStatus.STOPPED) {
+    throw new AdminError('CONFLICT', 'The app is already stopped');
+  }
+
+  await setAppVmPower(app, 'stop_vm');
+  await db.app.update({ where: { id: app.id }, data: { suspendedAt: null, budgetCappedAt: null } });
+  await setAppStatus(app.id, AppStatus.STOPPED);
+
+  await createAuditLog({
+    userId: actor.id,
+    appId: app.id,
+    action: AuditActions.ADMIN_APP_STOP,
+    resource: 'app',
+    resourceId: app.id,
+    details: `Force-stopped ${app.name} of ${app.user.email}${reason ? `: ${reason}` : ''}`,
+    ...metadata,
+  });
+
+  return getAdminApp(app.id);
+}
+
+/**
+ * Move an app to another user's personal account, or to an organization,
+ * which bills its billing user. Its budgets belonged to the old billing
+ * account, so they are deleted; past usage stays with that account.
+ */
+export async function transferApp(
+  actor: Actor,
+  appId: string,
+  target: { userId?: string; organizationId?: string },
+  metadata: Metadata = {}
+) {
+  const app = await getAdminApp(appId);
+
+  let owner: { userId: string; organizationId: string | null; label: string };
+  if (target.organizationId) {
+    const organization = await db.organization.findUnique({
+      where: { id: target.organizationId },
+      select: { id: true, name: true, billingUserId: true },
+    });
+    if (!organization) {
+      throw new AdminError('NOT_FOUND', 'Organization not found');
+    }
+    owner = { userId: organization.billingUserId, organizationId: organization.id, label: `organization ${organization.name}` };
+  } else if (target.userId) {
+    const user = await db.user.findUnique({ where: { id: target.userId }, select: { id: true, email: true, isActive: true } });
+    if (!user) {
+      throw new AdminError('NOT_FOUND', 'User not found');
+    }
+    if (!user.isActive) {
+      throw new AdminError('CONFLICT', 'Apps cannot be moved to a deactivated account');
+    }
+    owner = { userId: user.id, organizationId: null, label: user.email };
+  } else {
+    throw new AdminError('INVALID', 'Name a userId or an organizationId to move the app to');
+  }
+
+  if (owner.userId === app.userId && owner.organizationId === app.organizationId) {
+    throw new AdminError('CONFLICT', `The app already belongs to ${owner.label}`);
+  }
+
+  await db.$transaction([
+    db.budget.deleteMany({ where: { appId: app.id } }),
+    db.app.update({
+      where: { id: app.id },
+      data: { userId: owner.userId, organizationId: owner.organizationId },
+    }),
+  ]);
+
+  const from = app.organization ? `organization ${app.organization.name}` : app.user.email;
+
+  await createAuditLog({
+    userId: actor.id,
+    appId: app.id,
+    action: AuditActions.ADMIN_APP_TRANSFER,
+    resource: 'app',
+    resourceId: app.id,
+    details: `Moved ${app.name} from ${from} to ${owner.label}`,
+    ...metadata,
+  });
+
+  return getAdminApp(app.id);
+}
+
+// Every agent with the apps placed on it
+export async function listAdminAgents() {
+  const [agents, placements] = await Promise.all([
+    db.agent.findMany({ orderBy: { createdAt: 'asc' } }),
+    db.app.groupBy({ by: ['agentId', 'status'], where: { agentId: { not: null } }, _count: { _all: true } }),
+  ]);
+
+  return agents.map((agent) => {
+    const apps = placements.filter((placement) => placement.agentId === agent.id);
+    return {
+      ...serializeAgent(agent, isAgentConnected(agent.id)),
+      appCount: apps.reduce((sum, placement) => sum + placement._count._all, 0),
+      runningAppCount: apps
+        .filter((placement) => placement.status === AppStatus.RUNNING)
+        .reduce((sum, placement) => sum + placement._count._all, 0),
+    };
+  });
+}
+
+function countBy<T extends string>(rows: { _count: { _all: number } }[], key: (row: any) => T): Partial<Record<T, number>> {
+  return Object.fromEntries(rows.map((row) => [key(row), row._count._all])) as Partial<Record<T, number>>;
+}
+
+/**
+ * Platform totals for the admin console: accounts, apps, agents, this billing
+ * period's usage, and revenue. Monthly recurring revenue is what active paid
+ * subscriptions are worth per month; usage charges are only in invoices.
+ */
+export async function getPlatformStats(now = new Date()) {
+  const period = getBillingPeriod(now);
+  const historyStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (REVENUE_HISTORY_MONTHS - 1), 1));
+
+  const [
+    usersByRole,
+    activeUsers,
+    newUsers,
+    appsByStatus,
+    agents,
+    subscriptions,
+    paidInvoices,
+    openInvoices,
+    usage,
+  ] = await Promise.all([
+    db.user.groupBy({ by: ['role'], _count: { _all: true } }),
+    db.user.count({ where: { isActive: true } }),
+    db.user.count({ where: { createdAt: { gte: period.start } } }),
+    db.app.groupBy({ by: ['status'], _count: { _all: true } }),
+    db.agent.findMany({ select: { id: true } }),
+    db.billingInfo.findMany({
+      where: { subscriptionStatus: { in: [SubscriptionStatus.ACTIVE, SubscriptionStatus.PAST_DUE] } },
+      select: { plan: true, billingCycle: true },
+    }),
+    db.invoice.findMany({
+      where: { status: InvoiceStatus.PAID, paidAt: { gte: historyStart } },
+      select: { amountPaid: true, paidAt: true },
+    }),
+    db.invoice.aggregate({
+      where: { status: InvoiceStatus.OPEN },
+      _sum: { total: true, amountPaid: true },
+      _count: { _all: true },
+    }),
+    getUsageAggregates(null, period.start, now),
+  ]);
+
+  const accountsByPlan: Partial<Record<BillingPlan, number>> = {};
+  let monthlyRecurringRevenue = 0;
+  for (const subscription of subscriptions) {
+    accountsByPlan[subscription.plan] = (accountsByPlan[subscription.plan] ?? 0) + 1;
+    monthlyRecurringRevenue += getPlanMonthlyFee(subscription.plan, subscription.billingCycle);
+  }
+
+  const revenueByMonth = new Map<string, number>();
+  for (let month = 0; month < REVENUE_HISTORY_MONTHS; month++) {
+    const start = new Date(Date.UTC(historyStart.getUTCFullYear(), historyStart.getUTCMonth() + month, 1));
+    revenueByMonth.set(start.toISOString().slice(0, 7), 0);
+  }
+  for (const invoice of paidInvoices) {
+    const month = invoice.paidAt!.toISOString().slice(0, 7);
+    revenueByMonth.set(month, (revenueByMonth.get(month) ?? 0) + invoice.amountPaid);
+  }
+
+  return {
+    period: { start: period.start.toISOString(), end: period.end.toISOString() },
+    users: {
+      total: usersByRole.reduce((sum, row) => sum + row._count._all, 0),
+      active: activeUsers,
+      newThisPeriod: newUsers,
+      byRole: countBy<UserRole>(usersByRole, (row) => row.role),
+    },
+    apps: {
+      total: appsByStatus.reduce((sum, row) => sum + row._count._all, 0),
+      byStatus: countBy<AppStatus>(appsByStatus, (row) => row.status),
+    },
+    agents: {
+      total: agents.length,
+      connected: agents.filter((agent) => isAgentConnected(agent.id)).length,
+    },
+    usage,
+    revenue: {
+      currency: 'usd',
+      monthlyRecurringRevenue, // cents
+      accountsByPlan,
+      thisPeriod: revenueByMonth.get(period.start.toISOString().slice(0, 7)) ?? 0,
+      byMonth: [...revenueByMonth].map(([month, amount]) => ({ month, amount })),
+      outstanding: (openInvoices._sum.total ?? 0) - (openInvoices._sum.amountPaid ?? 0),
+      openInvoices: openInvoices._count._all,
+    },
+  };
+}
@@ -0,0 +1,364 @@
+import { IncomingMessage, Server as HttpServer } from 'http';
+import { Duplex } from 'stream';
+import { EventEmitter } from 'events';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { extractTokenFromHeader } from './auth';
+import { db } from './db';
+import { recordAgentInfo, markAgentOffline } from './agents';
+
+export const AGENT_GATEWAY_PATH = '/agent';
+export const DEFAULT_REQUEST_TIMEOUT = 30000; // 30 seconds
+
+const AGENT_API_KEY = process.env.AGENT_API_KEY || process.env.CONTROL_PLANE_API_KEY;
+const PING_INTERVAL = 30000;
+
+// Message types understood by LimaAgent.handleControlPlaneMessage()
+export type AgentCommandType =
+  | 'create_vm'
+  | 'start_vm'
+  | 'stop_vm'
+  | 'restart_vm'
+  | 'delete_vm'
+  | 'execute_command'
+  | 'get_vm_info'
+  | 'list_vms'
+  | 'backup_vm'
+  | 'scale_vm'
+  | 'snapshot_vm'
+  | 'terminal_open'
+  | 'terminal_input'
+  | 'terminal_resize'
+  | 'terminal_close';
+
+// Unsolicited messages the agent streams back, plus the gateway's own disconnect notice
+export interface AgentStreamEvents {
+  terminal_output: { sessionId: string; data: string };
+  terminal_exit: { sessionId: string; exitCode: number | null; signal?: number | null };
+  disconnected: Record<string, never>;
+}
+
+export interface AgentInfo {
+  agentId: string;
+  agentName: string;
+  version: string;
+  capabilities: string[];
+  hostInfo?: {
+    hostname: string;
+    platform: string;
+    arch: string;
+    totalMemory: number;
+    cpuCount: number;
+  };
+  config?: Record<string, any>;
+}
+
+export interface AgentOperation {
+  id: string;
+  type: AgentCommandType;
+  vmName: string;
+  requestId?: string;
+  status: 'running' | 'completed' | 'failed';
+  startTime: string;
+  endTime: string | null;
+  result: any;
+  error: string | null;
+}
+
+export interface ConnectedAgent {
+  agentId: string;
+  socket: WebSocket;
+  info: AgentInfo | null;
+  remoteAddress?: string;
+  connectedAt: Date;
+  lastSeen: Date;
+  isAlive: boolean;
+}
+
+interface PendingRequest {
+  agentId: string;
+  type: AgentCommandType;
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export type AgentGatewayErrorCode = 'AGENT_NOT_CONNECTED' | 'TIMEOUT' | 'AGENT_ERROR' | 'DISCONNECTED';
+
+export class AgentGatewayError extends Error {
+  constructor(public code: AgentGatewayErrorCode, message: string) {
+    super(message);
+    this.name = 'AgentGatewayError';
+  }
+}
+
+// The custom server and the Next.js route bundles load this module separately,
+// so the registry lives on globalThis to be shared between them (see db.ts).
+const globalForAgents = globalThis as unknown as {
+  agentRegistry: Map<string, ConnectedAgent> | undefined;
+  agentPendingRequests: Map<string, PendingRequest> | undefined;
+  agentEvents: EventEmitter | undefined;
+};
+
+const agents = globalForAgents.agentRegistry ?? new Map<string, ConnectedAgent>();
+const pendingRequests = globalForAgents.agentPendingRequests ?? new Map<string, PendingRequest>();
+const agentEvents = globalForAgents.agentEvents ?? new EventEmitter().setMaxListeners(0);
+
+globalForAgents.agentRegistry = agents;
+globalForAgents.agentPendingRequests = pendingRequests;
+globalForAgents.agentEvents = agentEvents;
+
+export function getConnectedAgents(): ConnectedAgent[] {
+  return Array.from(agents.values());
+}
+
+export function getConnectedAgent(agentId: string): ConnectedAgent | undefined {
+  return agents.get(agentId);
+}
+
+export function isAgentConnected(agentId: string): boolean {
+  const agent = agents.get(agentId);
+  return !!agent && agent.socket.readyState === WebSocket.OPEN;
+}
+
+/**
+ * Send a command to a connected agent and wait for the reply carrying the same requestId.
+ * Resolves with the response payload, rejects with an AgentGatewayError.
+ */
+export function sendAgentRequest<T = any>(
+  agentId: string,
+  type: AgentCommandType,
+  payload: Record<string, any> = {},
+  options: { timeout?: number } = {}
+): Promise<T> {
+  const agent = agents.get(agentId);
+
+  if (!agent || agent.socket.readyState !== WebSocket.OPEN) {
+    return Promise.reject(new AgentGatewayError('AGENT_NOT_CONNECTED', `Agent ${agentId} is not connected`));
+  }
+
+  const requestId = randomUUID();
+  const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingRequests.delete(requestId);
+      reject(new AgentGatewayError('TIMEOUT', `Agent ${agentId} did not answer ${type} within ${timeout}ms`));
+    }, timeout);
+
+    pendingRequests.set(requestId, { agentId, type, resolve, reject, timer });
+
+    agent.socket.send(JSON.stringify({ ...payload, type, requestId }), (error) => {
+      if (error) {
+        settleRequest(requestId, new AgentGatewayError('DISCONNECTED', `Failed to send ${type} to agent ${agentId}: ${error.message}`));
+      }
+    });
+  });
+}
+
+/**
+ * Send a message that expects no reply, e.g. terminal input. Returns false if the agent is not connected.
+ */
+export function sendAgentMessage(agentId: string, type: AgentCommandType, payload: Record<string, any> = {}): boolean {
+  const agent = agents.get(agentId);
+
+  if (!agent || agent.socket.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+
+  agent.socket.send(JSON.stringify({ ...payload, type }));
+  return true;
+}
+
+/**
+ * Listen for streamed messages of one type from any agent. Returns an unsubscribe function.
+ */
+export function onAgentEvent<E extends keyof AgentStreamEvents>(
+  event: E,
+  listener: (agentId: string, data: AgentStreamEvents[E]) => void
+): () => void {
+  agentEvents.on(event, listener);
+  return () => {
+    agentEvents.off(event, listener);
+  };
+}
+
+function settleRequest(requestId: string | undefined, error: Error | null, data?: any) {
+  if (!requestId) return;
+
+  const pending = pendingRequests.get(requestId);
+  if (!pending) return;
+
+  clearTimeout(pending.timer);
+  pendingRequests.delete(requestId);
+
+  if (error) {
+    pending.reject(error);
+  } else {
+    pending.resolve(data);
+  }
+}
+
+function rejectPendingForAgent(agentId: string) {
+  for (const [requestId, pending] of pendingRequests) {
+    if (pending.agentId === agentId) {
+      settleRequest(requestId, new AgentGatewayError('DISCONNECTED', `Agent ${agentId} disconnected before answering ${pending.type}`));
+    }
+  }
+}
+
+export function isValidAgentApiKey(apiKey: string | null): boolean {
+  if (!AGENT_API_KEY || !apiKey) return false;
+
+  const expected = Buffer.from(AGENT_API_KEY);
+  const received = Buffer.from(apiKey);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function handleAgentMessage(agent: ConnectedAgent, raw: RawData) {
+  let message: any;
+
+  try {
+    message = JSON.parse(raw.toString());
+  } catch (error) {
+    console.error(`Invalid message from agent ${agent.agentId}`);
+    return;
+  }
+
+  agent.lastSeen = new Date();
+
+  switch (message.type) {
+    case 'agent_info':
+      agent.info = message.data;
+      recordAgentInfo(agent.agentId, message.data || {});
+      console.log(`Agent ${agent.agentId} registered as ${message.data?.agentName}`);
+      break;
+    case 'response':
+      settleRequest(message.requestId, null, message.data);
+      break;
+    case 'error':
+      settleRequest(message.requestId, new AgentGatewayError('AGENT_ERROR', message.error || 'Agent reported an error'));
+      break;
+    case 'operation_update': {
+      // Long-running VM operations report completion through operation updates
+      const operation: AgentOperation = message.data;
+      if (operation?.status === 'completed') {
+        settleRequest(operation.requestId, null, operation.result);
+      } else if (operation?.status === 'failed') {
+        settleRequest(operation.requestId, new AgentGatewayError('AGENT_ERROR', operation.error || `${operation.type} failed`));
+      }
+      break;
+    }
+    case 'terminal_output':
+    case 'terminal_exit':
+      agentEvents.emit(message.type, agent.agentId, message.data);
+      break;
+    default:
+      console.warn(`Unknown message type from agent ${agent.agentId}: ${message.type}`);
+  }
+}
+
+function handleAgentConnection(socket: WebSocket, request: IncomingMessage, agentId: string) {
+  const existing = agents.get(agentId);
+  if (existing) {
+    // A reconnecting agent replaces its stale connection
+    existing.socket.close(4000, 'Replaced by a new connection');
+  }
+
+  const agent: ConnectedAgent = {
+    agentId,
+    socket,
+    info: null,
+    remoteAddress: (request.headers['x-forwarded-for'] as string) || request.socket.remoteAddress,
+    connectedAt: new Date(),
+    lastSeen: new Date(),
+    isAlive: true,
+  };
+
+  agents.set(agentId, agent);
+  console.log(`Agent connected: ${agentId}`);
+
+  socket.on('message', (data) => handleAgentMessage(agent, data));
+
+  socket.on('pong', () => {
+    agent.isAlive = true;
+    agent.lastSeen = new Date();
+  });
+
+  socket.on('close', () => {
+    if (agents.get(agentId) === agent) {
+      agents.delete(agentId);
+      rejectPendingForAgent(agentId);
+      agentEvents.emit('disconnected', agentId, {});
+      markAgentOffline(agentId);
+    }
+    console.log(`Agent disconnected: ${agentId}`);
+  });
+
+  socket.on('error', (error) => {
+    console.error(`Agent ${agentId} socket error:`, error.message);
+  });
+}
+
+export const setupAgentGateway = (server: HttpServer) => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  if (!AGENT_API_KEY) {
+    console.warn('AGENT_API_KEY is not set, agent connections will be rejected');
+  }
+
+  server.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    if (pathname !== AGENT_GATEWAY_PATH) {
+      return;
+    }
+
+    const apiKey = extractTokenFromHeader(request.headers.authorization);
+    const agentId = request.headers['x-agent-id'];
+
+    if (!isValidAgentApiKey(apiKey)) {
+      return rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    if (typeof agentId !== 'string' || !agentId) {
+      return rejectUpgrade(socket, 400, 'Bad Request');
+    }
+
+    // Only agents registered through POST /api/agents may connect
+    try {
+      const registered = await db.agent.findUnique({ where: { id: agentId }, select: { id: true } });
+      if (!registered) {
+        return rejectUpgrade(socket, 403, 'Forbidden');
+      }
+    } catch (error) {
+      console.error('Failed to look up agent:', error);
+      return rejectUpgrade(socket, 500, 'Internal Server Error');
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      handleAgentConnection(ws, request, agentId);
+    });
+  });
+
+  // Drop agents that stop answering pings
+  const pingInterval = setInterval(() => {
+    for (const agent of agents.values()) {
+      if (!agent.isAlive) {
+        agent.socket.terminate();
+        continue;
+      }
+      agent.isAlive = false;
+      agent.socket.ping();
+    }
+  }, PING_INTERVAL);
+
+  wss.on('close', () => clearInterval(pingInterval));
+
+  return wss;
+};
@@ -0,0 +1,223 @@
+import { db } from './db';
+import { Agent, AgentStatus, CommandExecution, CommandStatus, UserRole } from '@prisma/client';
+import { AuditLogData } from './audit';
+import { sendAgentRequest, AgentGatewayError } from './agent-gateway';
+import {
+  evaluateCommandPolicy,
+  logCommandPolicyDecision,
+  CommandRequest,
+  CommandDecision,
+  AGENT_POLICY_VIOLATION,
+} from './command-policy';
+
+// An agent that misses three default heartbeats (30s each) is considered unhealthy
+export const HEARTBEAT_TIMEOUT = 90 * 1000;
+
+export interface AgentHeartbeat {
+  agentId: string;
+  timestamp?: string;
+  status?: string;
+  metrics?: {
+    cpu?: number;
+    memory?: number;
+    disk?: number;
+    vms?: { total?: number; running?: number; stopped?: number };
+  };
+}
+
+export function serializeAgent(agent: Agent, connected = false) {
+  return {
+    id: agent.id,
+    name: agent.name,
+    host: agent.host,
+    ipAddress: agent.ipAddress,
+    status: agent.status,
+    connected,
+    version: agent.version,
+    lastHeartbeat: agent.lastHeartbeat?.toISOString() ?? null,
+    totalVms: agent.totalVms,
+    runningVms: agent.runningVms,
+    cpuUsage: agent.cpuUsage,
+    memoryUsage: agent.memoryUsage,
+    diskUsage: agent.diskUsage,
+    capabilities: JSON.parse(agent.capabilities) as string[],
+    location: agent.location,
+    createdAt: agent.createdAt.toISOString().split('T')[0],
+  };
+}
+
+export function serializeCommandExecution(execution: CommandExecution & { agent?: Agent }) {
+  return {
+    id: execution.id,
+    agentId: execution.agentId,
+    agentName: execution.agent?.name,
+    vmName: execution.vmName,
+    command: execution.command,
+    workingDirectory: execution.workingDirectory,
+    environment: execution.environment ? JSON.parse(execution.environment) : {},
+    timeout: execution.timeout,
+    status: execution.status,
+    startTime: execution.startedAt.toISOString(),
+    endTime: execution.completedAt?.toISOString() ?? null,
+    exitCode: execution.exitCode,
+    stdout: execution.stdout ?? '',
+    stderr: execution.stderr ?? '',
+    error: execution.error,
+    user: execution.runAs,
+  };
+}
+
+/**
+ * Mark agents whose last heartbeat is older than HEARTBEAT_TIMEOUT as unhealthy,
+ * so every route reading the fleet sees the same state.
+ */
+export async function markStaleAgents() {
+  const cutoff = new Date(Date.now() - HEARTBEAT_TIMEOUT);
+
+  await db.agent.updateMany({
+    where: {
+      status: AgentStatus.HEALTHY,
+      OR: [
+        { lastHeartbeat: null },
+        { lastHeartbeat: { lt: cutoff } },
+      ],
+    },
+    data: { status: AgentStatus.UNHEALTHY },
+  });
+}
+
+export async function recordHeartbeat(heartbeat: AgentHeartbeat) {
+  const { metrics } = heartbeat;
+
+  return db.agent.update({
+    where: { id: heartbeat.agentId },
+    data: {
+      status: heartbeat.status === 'healthy' || !heartbeat.status ? AgentStatus.HEALTHY : AgentStatus.UNHEALTHY,
+      lastHeartbeat: heartbeat.timestamp ? new Date(heartbeat.timestamp) : new Date(),
+      cpuUsage: metrics?.cpu ?? undefined,
+      memoryUsage: metrics?.memory ?? undefined,
+      diskUsage: metrics?.disk ?? undefined,
+      totalVms: metrics?.vms?.total ?? undefined,
+      runningVms: metrics?.vms?.running ?? undefined,
+    },
+  });
+}
+
+export async function recordAgentInfo(agentId: string, info: { version?: string; capabilities?: string[] }) {
+  try {
+    await db.agent.updateMany({
+      where: { id: agentId },
+      data: {
+        version: info.version,
+        capabilities: info.capabilities ? JSON.stringify(info.capabilities) : undefined,
+        status: AgentStatus.HEALTHY,
+        lastHeartbeat: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to record agent info:', error);
+  }
+}
+
+export async function markAgentOffline(agentId: string) {
+  try {
+    await db.agent.updateMany({
+      where: { id: agentId },
+      data: { status: AgentStatus.OFFLINE },
+    });
+  } catch (error) {
+    console.error('Failed to mark agent offline:', error);
+  }
+}
+
+export interface CommandExecutionContext {
+  agentId: string;
+  vmName: string;
+  appId?: string;
+  user: { id: string; role: UserRole };
+  metadata?: Pick<AuditLogData, 'ipAddress' | 'userAgent'>;
+}
+
+/**
+ * Check a command against the caller's policy and, when allowed, record it and
+ * dispatch it to the agent. The agent answers asynchronously; its result is
+ * stored on the execution record.
+ */
+export async function startCommandExecution(
+  context: CommandExecutionContext,
+  request: CommandRequest
+): Promise<{ decision: CommandDecision; execution: CommandExecution | null }> {
+  const decision = evaluateCommandPolicy(context.user.role, request);
+  const auditContext = {
+    userId: context.user.id,
+    appId: context.appId,
+    agentId: context.agentId,
+    vmName: context.vmName,
+    command: typeof request.command === 'string' ? request.command : '',
+    ...context.metadata,
+  };
+
+  if (!decision.allowed) {
+    await logCommandPolicyDecision(decision, auditContext);
+    return { decision, execution: null };
+  }
+
+  const execution = await db.commandExecution.create({
+    data: {
+      agentId: context.agentId,
+      userId: context.user.id,
+      vmName: context.vmName,
+      command: decision.argv.join(' '),
+      workingDirectory: decision.workingDirectory || '/tmp',
+      environment: Object.keys(decision.environment).length ? JSON.stringify(decision.environment) : null,
+      timeout: decision.timeout,
+      runAs: decision.runAs,
+      status: CommandStatus.RUNNING,
+    },
+  });
+
+  await logCommandPolicyDecision(decision, { ...auditContext, executionId: execution.id });
+
+  // A nonzero exit still completes the execution, with its exit code and output; only failures to run it fail
+  sendAgentRequest<{ stdout: string; stderr: string; exitCode: number }>(context.agentId, 'execute_command', {
+    vmName: execution.vmName,
+    argv: decision.argv,
+    runAs: decision.runAs,
+    role: context.user.role,
+    environment: decision.environment,
+    workingDirectory: execution.workingDirectory,
+    timeout: execution.timeout,
+  }, { timeout: execution.timeout + 5000 })
+    .then((result) => db.commandExecution.update({
+      where: { id: execution.id },
+      data: {
+        status: CommandStatus.COMPLETED,
+        exitCode: result?.exitCode ?? 0,
+        stdout: result?.stdout ?? '',
+        stderr: result?.stderr ?? '',
+        completedAt: new Date(),
+      },
+    }))
+    .catch(async (error) => {
+      if (error instanceof AgentGatewayError && error.message.startsWith(AGENT_POLICY_VIOLATION)) {
+        await logCommandPolicyDecision(
+          { allowed: false, reason: error.message.slice(AGENT_POLICY_VIOLATION.length).trim() },
+          { ...auditContext, executionId: execution.id, source: 'agent' }
+        );
+      }
+
+      await db.commandExecution.update({
+        where: { id: execution.id },
+        data: {
+          status: error instanceof AgentGatewayError && error.code === 'TIMEOUT'
+            ? CommandStatus.TIMED_OUT
+            : CommandStatus.FAILED,
+          error: error.message,
+          completedAt: new Date(),
+        },
+      });
+    })
+    .catch((error) => console.error('Failed to update command execution:', error));
+
+  return { decision, execution };
+}
@@ -0,0 +1,144 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from './db';
+import { ApiToken } from '@prisma/client';
+import { createAuditLog, AuditActions } from './audit';
+import { PERMISSIONS, Permission } from './permissions';
+
+// Tells API tokens apart from JWTs in the Authorization header
+export const API_TOKEN_PREFIX = 'lh_';
+
+export const MAX_API_TOKENS_PER_USER = 50;
+
+// How stale a token's lastUsedAt may get before a request updates it
+const LAST_USED_RESOLUTION = 60 * 1000;
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Enough of the secret to recognise a token in lists and audit logs
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+function hashApiToken(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function parseApiTokenScopes(token: Pick<ApiToken, 'scopes'>): Permission[] {
+  const scopes = JSON.parse(token.scopes) as string[];
+  return scopes.filter((scope): scope is Permission => (PERMISSIONS as readonly string[]).includes(scope));
+}
+
+export function serializeApiToken(token: ApiToken) {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: parseApiTokenScopes(token),
+    expiresAt: token.expiresAt?.toISOString() ?? null,
+    rateLimit: token.rateLimit,
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: token.lastUsedIp,
+    revokedAt: token.revokedAt?.toISOString() ?? null,
+    createdAt: token.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Create a token for the user. The returned secret is the only copy; it is
+ * stored hashed. Scopes limit the token to a subset of the user's permissions.
+ */
+export async function createApiToken(
+  userId: string,
+  data: { name: string; scopes: Permission[]; expiresAt: Date | null; rateLimit?: number | null },
+  metadata: { ipAddress?: string; userAgent?: string } = {}
+) {
+  const secret = `${API_TOKEN_PREFIX}${randomBytes(30).toString('base64url')}`;
+
+  const token = await db.apiToken.create({
+    data: {
+      userId,
+      name: data.name,
+      tokenHash: hashApiToken(secret),
+      prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: JSON.stringify([...new Set(data.scopes)]),
+      expiresAt: data.expiresAt,
+      rateLimit: data.rateLimit ?? null,
+    },
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.API_TOKEN_CREATE,
+    resource: 'api_token',
+    resourceId: token.id,
+    details: `Created API token "${token.name}" with ${data.scopes.join(', ')}${data.expiresAt ? `, expiring ${data.expiresAt.toISOString()}` : ''}`,
+    ...metadata,
+  });
+
+  return { token, secret };
+}
+
+export async function revokeApiToken(token: ApiToken, metadata: { ipAddress?: string; userAgent?: string } = {}) {
+  const revoked = await db.apiToken.update({
+    where: { id: token.id },
+    data: { revokedAt: new Date() },
+  });
+
+  await createAuditLog({
+    userId: token.userId,
+    action: AuditActions.API_TOKEN_REVOKE,
+    resource: 'api_token',
+    resourceId: token.id,
+    details: `Revoked API token "${token.name}"`,
+    ...metadata,
+  });
+
+  return revoked;
+}
+
+// Null for unknown, revoked and expired tokens
+export async function findActiveApiToken(secret: string): Promise<ApiToken | null> {
+  const token = await db.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(secret) },
+  });
+
+  if (!token || token.revokedAt || (token.expiresAt && token.expiresAt <= new Date())) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Record a request made with a token: its last use on the token itself, at
+ * most once per LAST_USED_RESOLUTION unless the address changed, and an audit
+ * entry for requests that can change something. Reads are too many to audit.
+ */
+export async function recordApiTokenUse(token: ApiToken, request: Request, ipAddress?: string) {
+  const url = new URL(request.url);
+
+  const stale = !token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() >= LAST_USED_RESOLUTION;
+  if (stale || token.lastUsedIp !== (ipAddress ?? null)) {
+    await db.apiToken.update({
+      where: { id: token.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress ?? null },
+    });
+  }
+
+  if (SAFE_METHODS.includes(request.method)) {
+    return;
+  }
+
+  await createAuditLog({
+    userId: token.userId,
+    action: AuditActions.API_TOKEN_USE,
+    resource: 'api_token',
+    resourceId: token.id,
+    details: `${request.method} ${url.pathname}`,
+    ipAddress,
+    userAgent: request.headers.get('user-agent') || undefined,
+    apiTokenId: token.id,
+  });
+}
@@ -0,0 +1,115 @@
+import { db } from './db';
+import { App, AppStatus, UserRole } from '@prisma/client';
+import { hasAppPermission, Permission } from './permissions';
+import { publishToApp } from './socket';
+import { isAgentConnected, sendAgentRequest } from './agent-gateway';
+import { ENV_NAME_PATTERN, PROTECTED_ENV_VARS } from './command-policy';
+import { z } from 'zod';
+
+const VM_POWER_TIMEOUT = 5 * 60 * 1000;
+const REDACTED_ENV_VALUE = '********';
+
+export interface AppPort {
+  guest: number;
+  host: number;
+  protocol: string;
+}
+
+export interface AppProvisionScript {
+  mode: 'system' | 'user';
+  script: string;
+}
+
+export interface AppConfig {
+  cpu: number;
+  memory: number; // in GB
+  disk: number; // in GB
+  dockerImage: string;
+  envVars?: Record<string, string>;
+  ports?: AppPort[];
+  provision?: AppProvisionScript[]; // appended to the template's provisioning
+}
+
+// Container environment as deploys and app updates accept it, with the same protected names commands refuse
+export const appEnvVarsSchema = z.record(
+  z.string()
+    .regex(ENV_NAME_PATTERN, 'Invalid environment variable name')
+    .refine(name => !PROTECTED_ENV_VARS.includes(name), { error: issue => `Environment variable ${issue.input} may not be overridden` }),
+  z.string()
+);
+
+export function parseAppConfig(app: Pick<App, 'config'>): AppConfig {
+  return JSON.parse(app.config) as AppConfig;
+}
+
+// Env var values can hold credentials, so users who cannot configure an app only see the names
+export function redactAppConfig(config: AppConfig): AppConfig {
+  if (!config.envVars) {
+    return config;
+  }
+
+  return {
+    ...config,
+    envVars: Object.fromEntries(Object.keys(config.envVars).map(name => [name, REDACTED_ENV_VALUE])),
+  };
+}
+
+// Lima instance names only allow [a-zA-Z0-9_.-], which cuid ids satisfy
+export function getAppVmName(app: Pick<App, 'id'>): string {
+  return `app-${app.id}`;
+}
+
+export function getAppContainerName(app: Pick<App, 'id'>): string {
+  return `app-${app.id}`;
+}
+
+// See getAppPermissions() for where a user's permissions on an app come from
+export async function canAccessApp(
+  app: Pick<App, 'id' | 'userId' | 'organizationId'>,
+  user: { id: string; role: UserRole },
+  permission: Permission = 'app:read'
+): Promise<boolean> {
+  return hasAppPermission(app, user, permission);
+}
+
+export async function getAccessibleApp(appId: string, user: { id: string; role: UserRole }, permission: Permission = 'app:read') {
+  const app = await db.app.findUnique({
+    where: { id: appId },
+  });
+
+  return app && await canAccessApp(app, user, permission) ? app : null;
+}
+
+export async function setAppStatus(appId: string, status: AppStatus) {
+  const app = await db.app.update({
+    where: { id: appId },
+    data: { status },
+  });
+
+  publishToApp(appId, 'app:status', { appId, status, timestamp: new Date().toISOString() });
+  return app;
+}
+
+// Best effort: an app whose agent is offline only has its status changed by the caller
+export async function setAppVmPower(app: Pick<App, 'id' | 'agentId'>, type: 'start_vm' | 'stop_vm') {
+  if (!app.agentId || !isAgentConnected(app.agentId)) {
+    console.warn(`Cannot ${type === 'stop_vm' ? 'stop' : 'start'} VM of app ${app.id}: agent not connected`);
+    return;
+  }
+
+  try {
+    await sendAgentRequest(app.agentId, type, { vmName: getAppVmName(app) }, { timeout: VM_POWER_TIMEOUT });
+  } catch (error) {
+    console.error(`Failed to ${type === 'stop_vm' ? 'stop' : 'start'} VM of app ${app.id}:`, error);
+  }
+}
+
+// Stops the VM first, as limactl refuses to delete a running one; the caller checks the agent is connected
+export async function deleteAppVm(app: Pick<App, 'id' | 'agentId'>) {
+  if (!app.agentId) {
+    return;
+  }
+
+  await setAppVmPower(app, 'stop_vm');
+  await sendAgentRequest(app.agentId, 'delete_vm', { vmName: getAppVmName(app) }, { timeout: VM_POWER_TIMEOUT });
+}
@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { AuditLogArchive } from '@prisma/client';
+import { db } from './db';
+import { createAuditLog, AuditActions } from './audit';
+import { toNdjsonLine } from './audit-export';
+
+// AUDIT_LOG_RETENTION_DAYS=0 keeps every entry in the database
+const DEFAULT_RETENTION_DAYS = 365;
+
+// Entries per archive file
+const ARCHIVE_BATCH_SIZE = 10000;
+
+const ARCHIVE_INTERVAL = 24 * 60 * 60 * 1000; // daily
+
+export function getAuditLogRetentionDays(): number {
+  const days = Number(process.env.AUDIT_LOG_RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : 0;
+}
+
+export function getAuditArchiveDirectory(): string {
+  return process.env.AUDIT_ARCHIVE_DIR || 'audit-archives';
+}
+
+export function getAuditArchivePath(archive: Pick<AuditLogArchive, 'fileName'>): string {
+  return path.join(getAuditArchiveDirectory(), archive.fileName);
+}
+
+export function serializeAuditLogArchive(archive: AuditLogArchive) {
+  return {
+    id: archive.id,
+    fileName: archive.fileName,
+    fromSequence: archive.fromSequence,
+    toSequence: archive.toSequence,
+    previousHash: archive.previousHash,
+    lastHash: archive.lastHash,
+    entryCount: archive.entryCount,
+    startDate: archive.startDate.toISOString(),
+    endDate: archive.endDate.toISOString(),
+    checksum: archive.checksum,
+    size: archive.size,
+    createdAt: archive.createdAt.toISOString(),
+  };
+}
+
+async function sha256File(file: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(file)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Move the oldest run of chained entries past retention into one gzipped
+ * NDJSON file, and delete them once the file is recorded. Runs are taken from
+ * the start of the chain only, so what stays in the database still links to
+ * the last archive. Returns null when nothing is due.
+ */
+async function archiveNextBatch(cutoff: Date): Promise<AuditLogArchive | null> {
+  const oldest = await db.auditLog.findMany({
+    where: { sequence: { not: null } },
+    orderBy: { sequence: 'asc' },
+    take: ARCHIVE_BATCH_SIZE,
+  });
+
+  const firstKept = oldest.findIndex((entry) => entry.createdAt >= cutoff);
+  const due = firstKept === -1 ? oldest : oldest.slice(0, firstKept);
+  if (due.length === 0) {
+    return null;
+  }
+
+  const first = due[0];
+  const last = due[due.length - 1];
+  const fileName = `audit-${String(first.sequence).padStart(10, '0')}-${String(last.sequence).padStart(10, '0')}.ndjson.gz`;
+  const file = getAuditArchivePath({ fileName });
+
+  await mkdir(getAuditArchiveDirectory(), { recursive: true });
+  await pipeline(Readable.from(due.map(toNdjsonLine)), createGzip(), createWriteStream(file));
+
+  try {
+    const [checksum, { size }] = await Promise.all([sha256File(file), stat(file)]);
+
+    const [archive] = await db.$transaction([
+      db.auditLogArchive.create({
+        data: {
+          fileName,
+          fromSequence: first.sequence!,
+          toSequence: last.sequence!,
+          previousHash: first.previousHash,
+          lastHash: last.hash!,
+          entryCount: due.length,
+          startDate: first.createdAt,
+          endDate: last.createdAt,
+          checksum,
+          size,
+        },
+      }),
+      db.auditLog.deleteMany({ where: { sequence: { gte: first.sequence!, lte: last.sequence! } } }),
+    ]);
+
+    return archive;
+  } catch (error) {
+    // Nothing was deleted, so the next run writes the file again
+    await rm(file, { force: true });
+    throw error;
+  }
+}
+
+// Archive every entry older than the retention period, returning the archives written
+export async function archiveAuditLogs(now = new Date()): Promise<AuditLogArchive[]> {
+  const retentionDays = getAuditLogRetentionDays();
+  if (retentionDays === 0) {
+    return [];
+  }
+
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  const archives: AuditLogArchive[] = [];
+
+  for (let archive = await archiveNextBatch(cutoff); archive; archive = await archiveNextBatch(cutoff)) {
+    archives.push(archive);
+
+    await createAuditLog({
+      action: AuditActions.AUDIT_LOG_ARCHIVE,
+      resource: 'audit_log_archive',
+      resourceId: archive.id,
+      details: `Archived entries ${archive.fromSequence} to ${archive.toSequence} into ${archive.fileName}`,
+    });
+  }
+
+  return archives;
+}
+
+// Whether an archive file is still there and unchanged since it was written
+export async function checkAuditLogArchive(archive: AuditLogArchive): Promise<'ok' | 'missing' | 'modified'> {
+  try {
+    return await sha256File(getAuditArchivePath(archive)) === archive.checksum ? 'ok' : 'modified';
+  } catch {
+    return 'missing';
+  }
+}
+
+let archiveTimer: NodeJS.Timeout | null = null;
+
+export function startAuditLogArchiving() {
+  if (archiveTimer) {
+    return;
+  }
+
+  const run = () => {
+    archiveAuditLogs().catch((error) => {
+      console.error('Audit log archiving failed:', error);
+    });
+  };
+
+  run();
+  archiveTimer = setInterval(run, ARCHIVE_INTERVAL);
+}
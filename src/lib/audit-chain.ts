@@ -0,0 +1,268 @@
+import { createHash, createHmac } from 'crypto';
+import { AuditLog, Prisma } from '@prisma/client';
+import { db } from './db';
+
+// Keys the chain hashes, so someone who can edit the database cannot recompute them after an edit
+const AUDIT_LOG_SECRET = process.env.AUDIT_LOG_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+// Concurrent writers, like another server, can claim the same sequence number; the loser retries
+const MAX_APPEND_ATTEMPTS = 5;
+
+const BATCH_SIZE = 1000;
+
+// Verification stops collecting issues after this many, as one gap or edit tends to bring more
+const MAX_REPORTED_ISSUES = 100;
+
+export type ChainedFields = Pick<
+  AuditLog,
+  'userId' | 'appId' | 'action' | 'resource' | 'resourceId' | 'details' | 'ipAddress' | 'userAgent' | 'apiTokenId' | 'impersonatorId'
+>;
+
+type ChainedEntry = ChainedFields & Pick<AuditLog, 'createdAt'> & { sequence: number };
+
+// The end of the chain that the next entry links to
+interface ChainHead {
+  sequence: number;
+  hash: string | null;
+}
+
+/**
+ * SHA-256 of what an entry records, in a fixed field order. Unkeyed, so an
+ * export can be checked against its contentHash column without the secret.
+ * The user, app and token ids are not foreign keys, so they stay as written
+ * when what they name is deleted.
+ */
+export function hashAuditContent(entry: ChainedEntry): string {
+  const content = [
+    entry.sequence,
+    entry.createdAt.toISOString(),
+    entry.userId,
+    entry.appId,
+    entry.action,
+    entry.resource,
+    entry.resourceId,
+    entry.details,
+    entry.ipAddress,
+    entry.userAgent,
+    entry.apiTokenId,
+    entry.impersonatorId,
+  ].map((value) => value ?? null);
+
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+// Links an entry to the one before it; null previousHash starts the chain
+export function hashAuditLink(previousHash: string | null, contentHash: string): string {
+  return createHmac('sha256', AUDIT_LOG_SECRET).update(`${previousHash ?? ''}:${contentHash}`).digest('hex');
+}
+
+// The newest chained entry, or the end of the newest archive once every entry has been archived
+async function getChainHead(tx: Prisma.TransactionClient): Promise<ChainHead> {
+  const last = await tx.auditLog.findFirst({
+    where: { sequence: { not: null } },
+    orderBy: { sequence: 'desc' },
+    select: { sequence: true, hash: true },
+  });
+  if (last) {
+    return { sequence: last.sequence!, hash: last.hash };
+  }
+
+  const archive = await tx.auditLogArchive.findFirst({
+    orderBy: { toSequence: 'desc' },
+    select: { toSequence: true, lastHash: true },
+  });
+  return archive ? { sequence: archive.toSequence, hash: archive.lastHash } : { sequence: 0, hash: null };
+}
+
+function chainFields(head: ChainHead, entry: ChainedFields & Pick<AuditLog, 'createdAt'>) {
+  const sequence = head.sequence + 1;
+  const contentHash = hashAuditContent({ ...entry, sequence });
+  return { sequence, previousHash: head.hash, contentHash, hash: hashAuditLink(head.hash, contentHash) };
+}
+
+function isSequenceConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+// Writes in this process take turns, so they rarely have to retry. The custom
+// server and the route bundles load this module separately, so the queue
+// lives on globalThis to be shared between them (see agent-gateway.ts).
+const globalForAuditChain = globalThis as unknown as {
+  auditChainTail: Promise<unknown> | undefined;
+};
+
+function inTurn<T>(write: () => Promise<T>): Promise<T> {
+  const result = (globalForAuditChain.auditChainTail ?? Promise.resolve()).then(write);
+  globalForAuditChain.auditChainTail = result.catch(() => undefined);
+  return result;
+}
+
+async function withRetry<T>(write: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (error) {
+      if (!isSequenceConflict(error) || attempt >= MAX_APPEND_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+// Adds an entry to the end of the chain
+export function appendAuditLog(fields: ChainedFields) {
+  return inTurn(() => withRetry(() => db.$transaction(async (tx) => {
+    const createdAt = new Date();
+    const head = await getChainHead(tx);
+
+    return tx.auditLog.create({
+      data: { ...fields, createdAt, ...chainFields(head, { ...fields, createdAt }) },
+    });
+  })));
+}
+
+/**
+ * Chain entries written before the hash chain existed, oldest first, and
+ * return how many. Runs at startup, so they come before anything new.
+ */
+export async function sealAuditLogs(): Promise<number> {
+  let sealed = 0;
+
+  for (;;) {
+    const batch = await db.auditLog.findMany({
+      where: { sequence: null },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: BATCH_SIZE,
+    });
+    if (batch.length === 0) {
+      return sealed;
+    }
+
+    for (const entry of batch) {
+      await inTurn(() => withRetry(() => db.$transaction(async (tx) => {
+        const head = await getChainHead(tx);
+        await tx.auditLog.update({ where: { id: entry.id }, data: chainFields(head, entry) });
+      })));
+      sealed++;
+    }
+  }
+}
+
+export type AuditChainIssueType = 'UNSEALED' | 'GAP' | 'EDITED' | 'BROKEN_LINK' | 'BAD_HASH';
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  sequence: number | null;
+  id?: string;
+  message: string;
+}
+
+export interface AuditChainReport {
+  valid: boolean;
+  checked: number;
+  archives: number;
+  firstSequence: number | null;
+  // Compare with a previous report: entries removed from the end leave no gap, only a shorter chain
+  lastSequence: number | null;
+  lastHash: string | null;
+  issues: AuditChainIssue[];
+  truncated: boolean; // more issues were found than are listed
+  verifiedAt: string;
+}
+
+/**
+ * Walk the whole chain, archives first, and report every place where it does
+ * not hold: missing sequence numbers, entries whose content no longer matches
+ * their contentHash, links that do not point at the entry before, and hashes
+ * that were not made with the secret.
+ */
+export async function verifyAuditChain(): Promise<AuditChainReport> {
+  const issues: AuditChainIssue[] = [];
+  let issueCount = 0;
+  const report = (issue: AuditChainIssue) => {
+    issueCount++;
+    if (issues.length < MAX_REPORTED_ISSUES) {
+      issues.push(issue);
+    }
+  };
+
+  let expected: ChainHead = { sequence: 0, hash: null };
+
+  const archives = await db.auditLogArchive.findMany({ orderBy: { fromSequence: 'asc' } });
+  for (const archive of archives) {
+    if (archive.fromSequence !== expected.sequence + 1) {
+      report({
+        type: 'GAP',
+        sequence: expected.sequence + 1,
+        message: `Entries ${expected.sequence + 1} to ${archive.fromSequence - 1} are neither archived nor in the database`,
+      });
+    } else if (archive.previousHash !== expected.hash) {
+      report({
+        type: 'BROKEN_LINK',
+        sequence: archive.fromSequence,
+        message: `Archive ${archive.fileName} does not link to the entry before it`,
+      });
+    }
+    expected = { sequence: archive.toSequence, hash: archive.lastHash };
+  }
+
+  const unsealed = await db.auditLog.count({ where: { sequence: null } });
+  if (unsealed > 0) {
+    report({ type: 'UNSEALED', sequence: null, message: `${unsealed} entries are not part of the chain` });
+  }
+
+  let checked = 0;
+  let firstSequence: number | null = null;
+  let cursor = 0;
+
+  for (;;) {
+    const batch = await db.auditLog.findMany({
+      where: { sequence: { gt: cursor } },
+      orderBy: { sequence: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const entry of batch) {
+      const sequence = entry.sequence!;
+      firstSequence ??= sequence;
+      checked++;
+
+      if (sequence !== expected.sequence + 1) {
+        report({
+          type: 'GAP',
+          sequence: expected.sequence + 1,
+          message: sequence - 1 === expected.sequence + 1
+            ? `Entry ${expected.sequence + 1} is missing`
+            : `Entries ${expected.sequence + 1} to ${sequence - 1} are missing`,
+        });
+      } else if (entry.previousHash !== expected.hash) {
+        report({ type: 'BROKEN_LINK', sequence, id: entry.id, message: 'Does not link to the entry before it' });
+      }
+
+      if (hashAuditContent({ ...entry, sequence }) !== entry.contentHash) {
+        report({ type: 'EDITED', sequence, id: entry.id, message: 'Content does not match its contentHash' });
+      } else if (hashAuditLink(entry.previousHash, entry.contentHash) !== entry.hash) {
+        report({ type: 'BAD_HASH', sequence, id: entry.id, message: 'Hash was not made by this platform' });
+      }
+
+      expected = { sequence, hash: entry.hash };
+    }
+
+    cursor = batch[batch.length - 1].sequence!;
+  }
+
+  return {
+    valid: issueCount === 0,
+    checked,
+    archives: archives.length,
+    firstSequence,
+    lastSequence: expected.sequence || null,
+    lastHash: expected.hash,
+    issues,
+    truncated: issueCount > issues.length,
+    verifiedAt: new Date().toISOString(),
+  };
+}
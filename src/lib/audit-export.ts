@@ -0,0 +1,105 @@
+import { AuditLog, Prisma } from '@prisma/client';
+import { db } from './db';
+
+export const AUDIT_EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+export type AuditExportFormat = typeof AUDIT_EXPORT_FORMATS[number];
+
+export const AUDIT_EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Every column, hashes included, so an export can be checked against the chain
+const EXPORT_COLUMNS = [
+  'sequence',
+  'id',
+  'createdAt',
+  'userId',
+  'appId',
+  'action',
+  'resource',
+  'resourceId',
+  'details',
+  'ipAddress',
+  'userAgent',
+  'apiTokenId',
+  'impersonatorId',
+  'previousHash',
+  'contentHash',
+  'hash',
+] as const satisfies readonly (keyof AuditLog)[];
+
+type ExportedEntry = Record<typeof EXPORT_COLUMNS[number], string | number | null>;
+
+export function serializeAuditEntry(entry: AuditLog): ExportedEntry {
+  return Object.fromEntries(EXPORT_COLUMNS.map((column) => {
+    const value = entry[column];
+    return [column, value instanceof Date ? value.toISOString() : value];
+  })) as ExportedEntry;
+}
+
+export function toNdjsonLine(entry: AuditLog): string {
+  return `${JSON.stringify(serializeAuditEntry(entry))}\n`;
+}
+
+// RFC 4180: quote fields holding a separator, quote or line break, doubling the quotes
+function csvField(value: string | number | null): string {
+  if (value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(values: (string | number | null)[]): string {
+  return `${values.map(csvField).join(',')}\r\n`;
+}
+
+/**
+ * Every entry created in [startDate, endDate) in chain order, encoded as CSV
+ * or NDJSON. Entries are read in batches as the response is consumed, so a
+ * long range never sits in memory whole.
+ */
+export function streamAuditLogs(options: { format: AuditExportFormat; startDate?: Date; endDate?: Date }): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const where: Prisma.AuditLogWhereInput = {
+    createdAt: { gte: options.startDate, lt: options.endDate },
+  };
+  let cursor: string | undefined;
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (options.format === 'csv' && !headerSent) {
+          headerSent = true;
+          controller.enqueue(encoder.encode(toCsvLine([...EXPORT_COLUMNS])));
+          return;
+        }
+
+        const batch = await db.auditLog.findMany({
+          where,
+          orderBy: [{ sequence: 'asc' }, { id: 'asc' }],
+          take: EXPORT_BATCH_SIZE,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+
+        if (batch.length === 0) {
+          controller.close();
+          return;
+        }
+        cursor = batch[batch.length - 1].id;
+
+        const lines = batch.map((entry) => options.format === 'csv'
+          ? toCsvLine(Object.values(serializeAuditEntry(entry)))
+          : toNdjsonLine(entry));
+        controller.enqueue(encoder.encode(lines.join('')));
+      } catch (error) {
+        console.error('Audit log export failed:', error);
+        controller.error(error);
+      }
+    },
+  });
+}
@@ -1,5 +1,7 @@
 import { db } from './db';
-import { UserRole } from '@prisma/client';
+import { AuditLog, UserRole } from '@prisma/client';
+import type { AuthenticatedRequest } from './middleware';
+import { appendAuditLog } from './audit-chain';
 
 export interface AuditLogData {
   userId?: string;
@@ -10,21 +12,24 @@ export interface AuditLogData {
   details?: string;
   ipAddress?: string;
   userAgent?: string;
+  apiTokenId?: string;
+  impersonatorId?: string;
 }
 
+// Entries are appended to a hash chain, see src/lib/audit-chain.ts
 export async function createAuditLog(data: AuditLogData) {
   try {
-    await db.auditLog.create({
-      data: {
-        userId: data.userId,
-        appId: data.appId,
-        action: data.action,
-        resource: data.resource,
-        resourceId: data.resourceId,
-        details: data.details,
-        ipAddress: data.ipAddress,
-        userAgent: data.userAgent,
-      },
+    await appendAuditLog({
+      userId: data.userId ?? null,
+      appId: data.appId ?? null,
+      action: data.action,
+      resource: data.resource,
+      resourceId: data.resourceId ?? null,
+      details: data.details ?? null,
+      ipAddress: data.ipAddress ?? null,
+      userAgent: data.userAgent ?? null,
+      apiTokenId: data.apiTokenId ?? null,
+      impersonatorId: data.impersonatorId ?? null,
     });
   } catch (error) {
     console.error('Failed to create audit log:', error);
@@ -32,11 +37,25 @@ export async function createAuditLog(data: AuditLogData) {
   }
 }
 
+// Client details recorded alongside an audit entry, including the API token or impersonating admin behind the request
+export function getRequestMetadata(request: Request): Pick<AuditLogData, 'ipAddress' | 'userAgent' | 'apiTokenId' | 'impersonatorId'> {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+
+  return {
+    ipAddress: forwardedFor?.split(',')[0].trim() || undefined,
+    userAgent: request.headers.get('user-agent') || undefined,
+    apiTokenId: (request as AuthenticatedRequest).apiToken?.id,
+    impersonatorId: (request as AuthenticatedRequest).impersonator?.id,
+  };
+}
+
 export async function getAuditLogs(filters?: {
   userId?: string;
   appId?: string;
   action?: string;
   resource?: string;
+  apiTokenId?: string;
+  impersonatorId?: string;
   startDate?: Date;
   endDate?: Date;
   limit?: number;
@@ -48,6 +67,8 @@ export async function getAuditLogs(filters?: {
   if (filters?.appId) where.appId = filters.appId;
   if (filters?.action) where.action = filters.action;
   if (filters?.resource) where.resource = filters.resource;
+  if (filters?.apiTokenId) where.apiTokenId = filters.apiTokenId;
+  if (filters?.impersonatorId) where.impersonatorId = filters.impersonatorId;
   if (filters?.startDate || filters?.endDate) {
     where.createdAt = {};
     if (filters.startDate) where.createdAt.gte = filters.startDate;
@@ -57,14 +78,6 @@ export async function getAuditLogs(filters?: {
   const [logs, total] = await Promise.all([
     db.auditLog.findMany({
       where,
-      include: {
-        user: {
-          select: { id: true, email: true, name: true }
-        },
-        app: {
-          select: { id: true, name: true }
-        }
-      },
       orderBy: { createdAt: 'desc' },
       take: filters?.limit || 50,
       skip: filters?.offset || 0,
@@ -72,7 +85,41 @@ export async function getAuditLogs(filters?: {
     db.auditLog.count({ where })
   ]);
 
-  return { logs, total };
+  return { logs: await withAuditSubjects(logs), total };
+}
+
+// Entries keep the ids of what they name, which may since have been deleted; those come back as null
+async function withAuditSubjects(logs: AuditLog[]) {
+  const ids = (pick: (log: AuditLog) => string | null) =>
+    [...new Set(logs.map(pick).filter((id): id is string => !!id))];
+
+  const [users, apps, apiTokens] = await Promise.all([
+    db.user.findMany({
+      where: { id: { in: ids((log) => log.userId).concat(ids((log) => log.impersonatorId)) } },
+      select: { id: true, email: true, name: true },
+    }),
+    db.app.findMany({
+      where: { id: { in: ids((log) => log.appId) } },
+      select: { id: true, name: true },
+    }),
+    db.apiToken.findMany({
+      where: { id: { in: ids((log) => log.apiTokenId) } },
+      select: { id: true, name: true, prefix: true },
+    }),
+  ]);
+
+  const byId = <T extends { id: string }>(rows: T[]) => new Map(rows.map((row) => [row.id, row]));
+  const usersById = byId(users);
+  const appsById = byId(apps);
+  const apiTokensById = byId(apiTokens);
+
+  return logs.map((log) => ({
+    ...log,
+    user: log.userId ? usersById.get(log.userId) ?? null : null,
+    app: log.appId ? appsById.get(log.appId) ?? null : null,
+    apiToken: log.apiTokenId ? apiTokensById.get(log.apiTokenId) ?? null : null,
+    impersonator: log.impersonatorId ? usersById.get(log.impersonatorId) ?? null : null,
+  }));
 }
 
 export async function getUserActivity(userId: string, limit: number = 20) {
@@ -91,6 +138,10 @@ export const AuditActions = {
   USER_REGISTER: 'user.register',
   USER_UPDATE: 'user.update',
   USER_DELETE: 'user.delete',
+  USER_EMAIL_VERIFY: 'user.email_verify',
+  USER_EMAIL_CHANGE: 'user.email_change',
+  USER_PASSWORD_RESET: 'user.password_reset',
+  USER_LOCK: 'user.lock',
   
   // App actions
   APP_CREATE: 'app.create',
@@ -100,12 +151,26 @@ export const AuditActions = {
   APP_START: 'app.start',
   APP_STOP: 'app.stop',
   APP_RESTART: 'app.restart',
+  APP_SCALE: 'app.scale',
+  APP_ROLLBACK: 'app.rollback',
   
   // Backup actions
   BACKUP_CREATE: 'backup.create',
   BACKUP_RESTORE: 'backup.restore',
   BACKUP_DELETE: 'backup.delete',
   
+  // Terminal actions
+  TERMINAL_OPEN: 'terminal.open',
+  TERMINAL_CLOSE: 'terminal.close',
+  
+  // Command actions
+  COMMAND_POLICY_DECISION: 'command.policy_decision',
+  
+  // Template actions
+  TEMPLATE_CREATE: 'template.create',
+  TEMPLATE_UPDATE: 'template.update',
+  TEMPLATE_DELETE: 'template.delete',
+  
   // Snapshot actions
   SNAPSHOT_CREATE: 'snapshot.create',
   SNAPSHOT_RESTORE: 'snapshot.restore',
@@ -115,10 +180,72 @@ export const AuditActions = {
   BILLING_UPDATE: 'billing.update',
   BILLING_CANCEL: 'billing.cancel',
   BILLING_REACTIVATE: 'billing.reactivate',
+  BILLING_PAST_DUE: 'billing.past_due',
+  BILLING_SUSPEND: 'billing.suspend',
+  
+  // Invoice actions
+  INVOICE_CREATE: 'invoice.create',
+  INVOICE_PAYMENT: 'invoice.payment',
+  
+  // Budget actions
+  BUDGET_CREATE: 'budget.create',
+  BUDGET_UPDATE: 'budget.update',
+  BUDGET_DELETE: 'budget.delete',
+  BUDGET_ALERT: 'budget.alert',
+  BUDGET_CAP: 'budget.cap',
+  BUDGET_RELEASE: 'budget.release',
+  
+  // Organization actions
+  ORG_CREATE: 'organization.create',
+  ORG_UPDATE: 'organization.update',
+  ORG_DELETE: 'organization.delete',
+  ORG_INVITE: 'organization.invite',
+  ORG_INVITE_REVOKE: 'organization.invite.revoke',
+  ORG_JOIN: 'organization.join',
+  ORG_MEMBER_UPDATE: 'organization.member.update',
+  ORG_MEMBER_REMOVE: 'organization.member.remove',
+  ORG_BILLING_TRANSFER: 'organization.billing.transfer',
+
+  // API tokens
+  API_TOKEN_CREATE: 'api_token.create',
+  API_TOKEN_REVOKE: 'api_token.revoke',
+  API_TOKEN_USE: 'api_token.use',
+
+  // Login sessions
+  SESSION_REVOKE: 'session.revoke',
+  SESSION_REVOKE_ALL: 'session.revoke_all',
+  SESSION_REFRESH_REUSE: 'session.refresh_reuse',
+
+  // Two-factor authentication
+  TWO_FACTOR_ENABLE: 'two_factor.enable',
+  TWO_FACTOR_DISABLE: 'two_factor.disable',
+  TWO_FACTOR_FAILED: 'two_factor.failed',
+  TWO_FACTOR_RECOVERY_CODES: 'two_factor.recovery_codes',
+
+  // Single sign-on providers
+  SSO_PROVIDER_CREATE: 'sso_provider.create',
+  SSO_PROVIDER_UPDATE: 'sso_provider.update',
+  SSO_PROVIDER_DELETE: 'sso_provider.delete',
+
+  // Roles and permissions
+  ROLE_CREATE: 'role.create',
+  ROLE_UPDATE: 'role.update',
+  ROLE_DELETE: 'role.delete',
+  ROLE_BIND: 'role.bind',
+  ROLE_UNBIND: 'role.unbind',
   
   // Admin actions
   ADMIN_USER_UPDATE: 'admin.user.update',
   ADMIN_USER_DELETE: 'admin.user.delete',
   ADMIN_APP_UPDATE: 'admin.app.update',
   ADMIN_APP_DELETE: 'admin.app.delete',
+  ADMIN_APP_STOP: 'admin.app.stop',
+  ADMIN_APP_TRANSFER: 'admin.app.transfer',
+  ADMIN_IMPERSONATE_START: 'admin.impersonate.start',
+  ADMIN_IMPERSONATE_END: 'admin.impersonate.end',
+
+  // The audit log itself
+  AUDIT_LOG_EXPORT: 'audit_log.export',
+  AUDIT_LOG_VERIFY: 'audit_log.verify',
+  AUDIT_LOG_ARCHIVE: 'audit_log.archive',
 } as const;
\ No newline at end of file
@@ -0,0 +1,119 @@
+// Used by the dashboard only, so nothing server-only may be imported here
+
+const TOKEN_KEY = 'limahost_token';
+const REFRESH_TOKEN_KEY = 'limahost_refresh_token';
+const EXPIRES_AT_KEY = 'limahost_token_expires_at';
+const USER_KEY = 'limahost_user';
+// The admin's own session, kept aside while they act as another user
+const IMPERSONATOR_KEY = 'limahost_impersonator';
+
+const SESSION_KEYS = [TOKEN_KEY, REFRESH_TOKEN_KEY, EXPIRES_AT_KEY, USER_KEY];
+
+// Renew the access token this long before it expires
+export const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // seconds
+}
+
+export function storeSession(tokens: SessionTokens, user?: unknown) {
+  localStorage.setItem(TOKEN_KEY, tokens.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  localStorage.setItem(EXPIRES_AT_KEY, String(Date.now() + tokens.expiresIn * 1000));
+  if (user !== undefined) {
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+  }
+}
+
+export function clearSession() {
+  [...SESSION_KEYS, IMPERSONATOR_KEY].forEach((key) => localStorage.removeItem(key));
+}
+
+export interface Impersonation {
+  email: string; // the admin's
+}
+
+// Switch to an impersonation session, keeping the admin's to switch back to
+export function startImpersonating(tokens: SessionTokens, user: unknown, impersonator: Impersonation) {
+  const stashed = Object.fromEntries(SESSION_KEYS.map((key) => [key, localStorage.getItem(key)]));
+  localStorage.setItem(IMPERSONATOR_KEY, JSON.stringify({ ...impersonator, session: stashed }));
+  storeSession(tokens, user);
+}
+
+export function getImpersonation(): Impersonation | null {
+  const value = localStorage.getItem(IMPERSONATOR_KEY);
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return { email: JSON.parse(value).email };
+  } catch {
+    return null;
+  }
+}
+
+// Back to the admin's own session; its access token is renewed as usual if it expired meanwhile
+export function stopImpersonating() {
+  const value = localStorage.getItem(IMPERSONATOR_KEY);
+  SESSION_KEYS.forEach((key) => localStorage.removeItem(key));
+  localStorage.removeItem(IMPERSONATOR_KEY);
+  if (!value) {
+    return;
+  }
+
+  const { session } = JSON.parse(value) as { session: Record<string, string | null> };
+  for (const [key, item] of Object.entries(session)) {
+    if (item !== null) {
+      localStorage.setItem(key, item);
+    }
+  }
+}
+
+// Milliseconds since the epoch; 0 when unknown, so the token is renewed straight away
+export function accessTokenExpiresAt(): number {
+  return Number(localStorage.getItem(EXPIRES_AT_KEY)) || 0;
+}
+
+async function exchangeRefreshToken(refreshToken: string): Promise<boolean> {
+  // Another tab may have renewed the session while this one waited for the lock
+  const current = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (current && current !== refreshToken) {
+    return true;
+  }
+
+  const response = await fetch('/api/auth/refresh', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (!response.ok) {
+    return false;
+  }
+
+  storeSession(await response.json());
+  return true;
+}
+
+/**
+ * Swap the stored refresh token for a new access and refresh token. Tabs
+ * take turns, because presenting a refresh token twice ends the session.
+ */
+export async function refreshAccessToken(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) {
+    return false;
+  }
+
+  try {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return await navigator.locks.request(REFRESH_TOKEN_KEY, () => exchangeRefreshToken(refreshToken));
+    }
+    return await exchangeRefreshToken(refreshToken);
+  } catch {
+    return false;
+  }
+}
@@ -5,10 +5,14 @@ import { UserRole } from '@prisma/client';
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 const SALT_ROUNDS = 12;
 
+// Access tokens are short-lived; clients renew them with the session's refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
 export interface JWTPayload {
   userId: string;
   email: string;
   role: UserRole;
+  sessionId: string;
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -20,12 +24,34 @@ export async function verifyPassword(password: string, hashedPassword: string):
 }
 
 export function generateToken(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '7d' });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
 }
 
+// Only access tokens carry a session; two-factor challenges and pre-session tokens are refused
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const payload = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    return payload.sessionId ? payload : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+const TWO_FACTOR_AUDIENCE = 'two-factor';
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// Proves the password was checked; exchanged with a code at /api/auth/login/verify for a session
+export function generateTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ userId }, JWT_SECRET, {
+    audience: TWO_FACTOR_AUDIENCE,
+    expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  });
+}
+
+export function verifyTwoFactorChallenge(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET, { audience: TWO_FACTOR_AUDIENCE }) as { userId: string };
+    return payload.userId;
   } catch (error) {
     return null;
   }
@@ -37,13 +63,3 @@ export function extractTokenFromHeader(authHeader: string | undefined): string |
   }
   return authHeader.substring(7);
 }
-
-export function hasPermission(userRole: UserRole, requiredRole: UserRole): boolean {
-  const roleHierarchy = {
-    [UserRole.USER]: 0,
-    [UserRole.ADMIN]: 1,
-    [UserRole.SUPER_ADMIN]: 2,
-  };
-
-  return roleHierarchy[userRole] >= roleHierarchy[requiredRole];
-}
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { db } from './db';
+import { BillingCycle, BillingEventStatus, BillingPlan, InvoiceStatus, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { WebhookEvent } from './payments';
+import { markInvoicePaid } from './invoices';
+import {
+  applySubscriptionChange,
+  cancelSubscription,
+  reactivateSubscription,
+  markPastDue,
+  settleAccount,
+} from './subscriptions';
+
+const subscriptionSchema = z.looseObject({
+  id: z.string(),
+  customer: z.string(),
+  status: z.string(),
+  plan: z.enum(BillingPlan).optional(),
+  interval: z.enum(['month', 'year']).optional(),
+});
+
+const invoiceSchema = z.looseObject({
+  id: z.string(),
+  customer: z.string(),
+  failure_reason: z.string().optional(),
+  metadata: z.looseObject({ invoiceId: z.string().optional() }).optional(),
+});
+
+// A delivery that claimed an event but never finished, e.g. a crashed server, gives it up after this long
+const CLAIM_TIMEOUT = 5 * 60 * 1000;
+
+// Provider subscription statuses, mapped onto what LimaHost does with them
+const CANCELED_STATUSES = ['canceled', 'incomplete_expired'];
+const PAST_DUE_STATUSES = ['past_due', 'unpaid'];
+
+type EventOutcome = { status: BillingEventStatus; userId?: string };
+
+async function findCustomer(customerId: string) {
+  return db.billingInfo.findFirst({ where: { stripeCustomerId: customerId } });
+}
+
+async function handleSubscriptionEvent(event: WebhookEvent, occurredAt: Date): Promise<EventOutcome> {
+  const subscription = subscriptionSchema.parse(event.data.object);
+  const billing = await findCustomer(subscription.customer);
+  if (!billing) {
+    return { status: BillingEventStatus.IGNORED };
+  }
+
+  const { userId } = billing;
+
+  // Providers do not deliver in order, and applying an older state over a newer one would undo it
+  const happenedAt = new Date((event.created || Date.now() / 1000) * 1000);
+  const { count } = await db.billingInfo.updateMany({
+    where: { id: billing.id, OR: [{ subscriptionEventAt: null }, { subscriptionEventAt: { lte: happenedAt } }] },
+    data: { subscriptionEventAt: happenedAt },
+  });
+  if (count === 0) {
+    return { status: BillingEventStatus.IGNORED, userId };
+  }
+
+  if (event.type === 'customer.subscription.deleted' || CANCELED_STATUSES.includes(subscription.status)) {
+    await cancelSubscription(userId, `Subscription ${subscription.id} cancelled by the payment provider`, occurredAt);
+    return { status: BillingEventStatus.PROCESSED, userId };
+  }
+
+  await applySubscriptionChange(userId, {
+    plan: subscription.plan,
+    billingCycle: subscription.interval === 'year' ? BillingCycle.YEARLY
+      : subscription.interval === 'month' ? BillingCycle.MONTHLY
+        : undefined,
+    subscriptionId: subscription.id,
+  }, occurredAt);
+
+  await reactivateSubscription(userId, `Subscription ${subscription.id} started`);
+
+  if (PAST_DUE_STATUSES.includes(subscription.status)) {
+    await markPastDue(userId, `Subscription ${subscription.id} is ${subscription.status}`);
+  }
+
+  return { status: BillingEventStatus.PROCESSED, userId };
+}
+
+async function handleInvoiceEvent(event: WebhookEvent): Promise<EventOutcome> {
+  const providerInvoice = invoiceSchema.parse(event.data.object);
+  const billing = await findCustomer(providerInvoice.customer);
+  if (!billing) {
+    return { status: BillingEventStatus.IGNORED };
+  }
+
+  const { userId } = billing;
+  const invoiceId = providerInvoice.metadata?.invoiceId;
+  const invoice = invoiceId
+    ? await db.invoice.findFirst({ where: { id: invoiceId, userId } })
+    : null;
+
+  if (event.type === 'invoice.payment_failed') {
+    const reason = providerInvoice.failure_reason || 'Payment failed';
+
+    if (invoice?.status === InvoiceStatus.OPEN) {
+      await db.invoice.update({ where: { id: invoice.id }, data: { paymentError: reason } });
+    }
+
+    await markPastDue(userId, invoice ? `Payment of invoice ${invoice.number} failed: ${reason}` : `Payment failed: ${reason}`);
+    return { status: BillingEventStatus.PROCESSED, userId };
+  }
+
+  if (invoice) {
+    await markInvoicePaid(invoice.id, providerInvoice.id);
+  }
+
+  await settleAccount(userId, invoice ? `Invoice ${invoice.number} paid` : 'Payment received');
+  return { status: BillingEventStatus.PROCESSED, userId };
+}
+
+function dispatchEvent(event: WebhookEvent): Promise<EventOutcome> {
+  // Events older than now are applied at the time they happened, e.g. for proration
+  const occurredAt = new Date(Math.min(Date.now(), (event.created || Date.now() / 1000) * 1000));
+
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      return handleSubscriptionEvent(event, occurredAt);
+    case 'invoice.payment_failed':
+    case 'invoice.payment_succeeded':
+    case 'invoice.paid':
+      return handleInvoiceEvent(event);
+    default:
+      return Promise.resolve({ status: BillingEventStatus.IGNORED });
+  }
+}
+
+/**
+ * Store and apply a verified provider event. Each event id is applied once:
+ * a delivery claims the event before applying it, so concurrent deliveries
+ * cannot both apply it. Deliveries of an event that already succeeded, or
+ * that another delivery is applying, are reported as duplicates, while
+ * failed ones are retried.
+ */
+export async function handleBillingWebhook(provider: string, event: WebhookEvent, payload: string) {
+  const key = { provider_eventId: { provider, eventId: event.id } };
+  let record = await db.billingEvent.findUnique({ where: key });
+
+  if (!record) {
+    try {
+      record = await db.billingEvent.create({
+        data: { provider, eventId: event.id, type: event.type, payload },
+      });
+    } catch (error) {
+      // A concurrent delivery of the same event stored it first
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+      record = await db.billingEvent.findUniqueOrThrow({ where: key });
+    }
+  }
+
+  const claimedAt = new Date();
+  const { count } = await db.billingEvent.updateMany({
+    where: {
+      id: record.id,
+      OR: [
+        { status: { in: [BillingEventStatus.RECEIVED, BillingEventStatus.FAILED] } },
+        { status: BillingEventStatus.PROCESSING, claimedAt: { lt: new Date(claimedAt.getTime() - CLAIM_TIMEOUT) } },
+      ],
+    },
+    data: { status: BillingEventStatus.PROCESSING, claimedAt },
+  });
+
+  if (count === 0) {
+    const { status } = await db.billingEvent.findUniqueOrThrow({ where: { id: record.id }, select: { status: true } });
+    return { status, duplicate: true };
+  }
+
+  try {
+    const outcome = await dispatchEvent(event);
+    await db.billingEvent.update({
+      where: { id: record.id },
+      data: { status: outcome.status, userId: outcome.userId, error: null, processedAt: new Date() },
+    });
+    return { status: outcome.status, duplicate: false };
+  } catch (error) {
+    await db.billingEvent.update({
+      where: { id: record.id },
+      data: { status: BillingEventStatus.FAILED, error: error instanceof Error ? error.message : String(error) },
+    });
+    throw error;
+  }
+}
@@ -1,5 +1,6 @@
 import { db } from './db';
-import { BillingPlan, BillingCycle } from '@prisma/client';
+import { BillingPlan, BillingCycle, UsageGranularity } from '@prisma/client';
+import { getBillingPeriod, getCurrentUsage, getUsageAggregates, getUsageRollups } from './metering';
 
 export interface UsageData {
   userId: string;
@@ -24,6 +25,7 @@ export interface UsageLimits {
   maxBandwidth: number; // in GB
   maxCpu: number; // in cores
   maxMemory: number; // in GB
+  apiRateLimit: number; // API requests per minute
   customDomains: boolean;
   ssl: boolean;
   backups: boolean;
@@ -37,6 +39,7 @@ export const PLAN_LIMITS: Record<BillingPlan, UsageLimits> = {
     maxBandwidth: 10,
     maxCpu: 1,
     maxMemory: 1,
+    apiRateLimit: 60,
     customDomains: false,
     ssl: false,
     backups: false,
@@ -48,6 +51,7 @@ export const PLAN_LIMITS: Record<BillingPlan, UsageLimits> = {
     maxBandwidth: 50,
     maxCpu: 2,
     maxMemory: 2,
+    apiRateLimit: 300,
     customDomains: true,
     ssl: true,
     backups: true,
@@ -59,6 +63,7 @@ export const PLAN_LIMITS: Record<BillingPlan, UsageLimits> = {
     maxBandwidth: 200,
     maxCpu: 4,
     maxMemory: 4,
+    apiRateLimit: 1200,
     customDomains: true,
     ssl: true,
     backups: true,
@@ -70,6 +75,7 @@ export const PLAN_LIMITS: Record<BillingPlan, UsageLimits> = {
     maxBandwidth: -1,
     maxCpu: -1,
     maxMemory: -1,
+    apiRateLimit: 6000, // not unlimited, to protect the platform
     customDomains: true,
     ssl: true,
     backups: true,
@@ -77,6 +83,49 @@ export const PLAN_LIMITS: Record<BillingPlan, UsageLimits> = {
   },
 };
 
+export interface PlanPrice {
+  monthly: number; // in cents
+  yearly: number; // in cents, billed monthly as yearly / 12
+}
+
+export const PLAN_PRICES: Record<BillingPlan, PlanPrice> = {
+  [BillingPlan.FREE]: { monthly: 0, yearly: 0 },
+  [BillingPlan.BASIC]: { monthly: 1900, yearly: 19000 },
+  [BillingPlan.PRO]: { monthly: 4900, yearly: 49000 },
+  // Enterprise pricing is negotiated per contract and invoiced outside LimaHost
+  [BillingPlan.ENTERPRISE]: { monthly: 0, yearly: 0 },
+};
+
+// Usage beyond what a plan includes, in cents per unit
+export const USAGE_PRICES = {
+  bandwidth_gb: 10, // per GB transferred
+  storage_gb: 10, // per GB-month stored
+};
+
+export type ComputeResource = 'cpu_cores' | 'memory_gb' | 'disk_gb';
+
+// Compute sized for running apps beyond what a plan includes, in cents per unit-month
+export const RESOURCE_PRICES: Record<ComputeResource, number> = {
+  cpu_cores: 1000, // per vCPU-month
+  memory_gb: 500, // per GB-month of memory
+  disk_gb: 10, // per GB-month of VM disk
+};
+
+// Compute each plan includes, pooled across all of a user's running apps
+export const PLAN_INCLUDED_RESOURCES: Record<BillingPlan, Record<ComputeResource, number>> = {
+  [BillingPlan.FREE]: { cpu_cores: 1, memory_gb: 1, disk_gb: 20 },
+  [BillingPlan.BASIC]: { cpu_cores: 4, memory_gb: 4, disk_gb: 60 },
+  [BillingPlan.PRO]: { cpu_cores: 16, memory_gb: 16, disk_gb: 250 },
+  [BillingPlan.ENTERPRISE]: { cpu_cores: -1, memory_gb: -1, disk_gb: -1 }, // unlimited
+};
+
+export const INVOICE_CURRENCY = 'usd';
+
+export function getPlanMonthlyFee(plan: BillingPlan, billingCycle: BillingCycle): number {
+  const price = PLAN_PRICES[plan];
+  return billingCycle === BillingCycle.YEARLY ? Math.round(price.yearly / 12) : price.monthly;
+}
+
 export async function recordUsage(data: UsageData) {
   try {
     await db.usageRecord.create({
@@ -124,38 +173,28 @@ export async function getAppUsage(appId: string, startDate?: Date, endDate?: Dat
   });
 }
 
-export async function getUsageSummary(userId: string, startDate?: Date, endDate?: Date) {
-  const usage = await getUserUsage(userId, startDate, endDate);
-  
-  const summary = {
-    totalApps: 0,
-    totalStorage: 0,
-    totalBandwidth: 0,
-    totalCpu: 0,
-    totalMemory: 0,
-  };
+export interface UsageSummary {
+  totalApps: number;
+  totalStorage: number;
+  totalBandwidth: number;
+  totalCpu: number;
+  totalMemory: number;
+  totalDisk: number;
+}
 
-  usage.forEach(record => {
-    switch (record.metric) {
-      case 'app_count':
-        summary.totalApps += record.value;
-        break;
-      case 'storage_gb':
-        summary.totalStorage += record.value;
-        break;
-      case 'bandwidth_gb':
-        summary.totalBandwidth += record.value;
-        break;
-      case 'cpu_cores':
-        summary.totalCpu += record.value;
-        break;
-      case 'memory_gb':
-        summary.totalMemory += record.value;
-        break;
-    }
-  });
+// Gauges are averaged over the window and bandwidth is summed; the window defaults to the current billing period
+export async function getUsageSummary(userId: string, startDate?: Date, endDate?: Date): Promise<UsageSummary> {
+  const period = getBillingPeriod();
+  const usage = await getUsageAggregates(userId, startDate ?? period.start, endDate ?? period.end);
 
-  return summary;
+  return {
+    totalApps: usage.app_count.average,
+    totalStorage: usage.storage_gb.average,
+    totalBandwidth: usage.bandwidth_gb.total,
+    totalCpu: usage.cpu_cores.average,
+    totalMemory: usage.memory_gb.average,
+    totalDisk: usage.disk_gb.average,
+  };
 }
 
 export async function getUserBillingInfo(userId: string): Promise<BillingInfo | null> {
@@ -205,7 +244,26 @@ export async function checkUsageLimits(userId: string): Promise<{
   }
 
   const limits = PLAN_LIMITS[billingInfo.plan];
-  const currentUsage = await getUsageSummary(userId);
+  const period = getBillingPeriod();
+  const [current, periodUsage] = await Promise.all([
+    getCurrentUsage(userId),
+    getUsageAggregates(userId, period.start, period.end),
+  ]);
+
+  // Levels are the latest hourly values; bandwidth is what the billing period has used so far.
+  // CPU and memory limits apply per app, as in src/lib/plan-limits.ts
+  const currentUsage = {
+    totalApps: current.totals.app_count ?? 0,
+    totalStorage: current.totals.storage_gb ?? 0,
+    totalBandwidth: periodUsage.bandwidth_gb.total,
+    totalCpu: current.totals.cpu_cores ?? 0,
+    totalMemory: current.totals.memory_gb ?? 0,
+    largestApp: {
+      cpu: current.largestApp.cpu_cores ?? 0,
+      memory: current.largestApp.memory_gb ?? 0,
+    },
+    measuredAt: current.periodStart,
+  };
   const violations: string[] = [];
 
   if (limits.maxApps !== -1 && currentUsage.totalApps > limits.maxApps) {
@@ -217,11 +275,11 @@ export async function checkUsageLimits(userId: string): Promise<{
   if (limits.maxBandwidth !== -1 && currentUsage.totalBandwidth > limits.maxBandwidth) {
     violations.push(`Bandwidth limit exceeded: ${currentUsage.totalBandwidth}GB/${limits.maxBandwidth}GB`);
   }
-  if (limits.maxCpu !== -1 && currentUsage.totalCpu > limits.maxCpu) {
-    violations.push(`CPU limit exceeded: ${currentUsage.totalCpu}/${limits.maxCpu} cores`);
+  if (limits.maxCpu !== -1 && currentUsage.largestApp.cpu > limits.maxCpu) {
+    violations.push(`CPU limit exceeded: ${currentUsage.largestApp.cpu}/${limits.maxCpu} cores`);
   }
-  if (limits.maxMemory !== -1 && currentUsage.totalMemory > limits.maxMemory) {
-    violations.push(`Memory limit exceeded: ${currentUsage.totalMemory}GB/${limits.maxMemory}GB`);
+  if (limits.maxMemory !== -1 && currentUsage.largestApp.memory > limits.maxMemory) {
+    violations.push(`Memory limit exceeded: ${currentUsage.largestApp.memory}GB/${limits.maxMemory}GB`);
   }
 
   return {
@@ -232,16 +290,19 @@ export async function checkUsageLimits(userId: string): Promise<{
   };
 }
 
+// month is 0-based, as in Date; periods are UTC calendar months
 export async function getMonthlyUsageReport(userId: string, year?: number, month?: number) {
   const now = new Date();
-  const reportYear = year || now.getFullYear();
-  const reportMonth = month || now.getMonth();
-  
-  const startDate = new Date(reportYear, reportMonth, 1);
-  const endDate = new Date(reportYear, reportMonth + 1, 0);
+  const reportYear = year ?? now.getUTCFullYear();
+  const reportMonth = month ?? now.getUTCMonth();
+
+  const { start: startDate, end: endDate } = getBillingPeriod(new Date(Date.UTC(reportYear, reportMonth, 1)));
 
-  const usage = await getUserUsage(userId, startDate, endDate);
-  const summary = await getUsageSummary(userId, startDate, endDate);
+  const [summary, aggregates, detailedUsage] = await Promise.all([
+    getUsageSummary(userId, startDate, endDate),
+    getUsageAggregates(userId, startDate, endDate),
+    getUsageRollups(userId, startDate, endDate, { granularity: UsageGranularity.DAILY }),
+  ]);
 
   return {
     period: {
@@ -251,6 +312,7 @@ export async function getMonthlyUsageReport(userId: string, year?: number, month
       endDate,
     },
     summary,
-    detailedUsage: usage,
+    aggregates,
+    detailedUsage,
   };
-}
\ No newline at end of file
+}
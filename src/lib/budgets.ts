@@ -0,0 +1,274 @@
+import { db } from './db';
+import { AppEnvironment, AppStatus, Budget, BudgetAlert, BudgetKind, Prisma, SubscriptionStatus } from '@prisma/client';
+import { RESOURCE_PRICES, USAGE_PRICES } from './billing';
+import { getBillingPeriod, getUsageAggregates, UsageMetric } from './metering';
+import { getPeriodSpend } from './invoices';
+import { setAppStatus, setAppVmPower } from './apps';
+import { createAuditLog, AuditActions } from './audit';
+import { appUrl, sendMail } from './mail';
+import { budgetAlertTemplate } from './mail-templates';
+
+// Percentages of a budget at which an alert is raised, once per billing period
+export const BUDGET_THRESHOLDS = [50, 80, 100];
+
+export const BUDGET_EVALUATION_INTERVAL = 15 * 60 * 1000;
+
+export const MAX_BUDGETS_PER_USER = 20;
+
+// Metrics a USAGE budget can cap: GB for bandwidth, unit-hours for the gauges
+export const BUDGET_USAGE_METRICS = ['bandwidth_gb', 'storage_gb', 'cpu_cores', 'memory_gb', 'disk_gb'] as const;
+
+const HOUR = 60 * 60 * 1000;
+
+type BillingPeriod = { start: Date; end: Date };
+
+export interface BudgetStatus {
+  periodStart: Date;
+  value: number; // cents for SPEND budgets, metric units for USAGE budgets
+  percent: number;
+  exceeded: boolean;
+}
+
+/**
+ * An app's spend is its own usage at list price: the plan's included
+ * allowance is pooled across all of a user's apps, so it is left out.
+ */
+async function getAppSpend(userId: string, appId: string, period: BillingPeriod): Promise<number> {
+  const usage = await getUsageAggregates(userId, period.start, period.end, { appId });
+  const periodHours = (period.end.getTime() - period.start.getTime()) / HOUR;
+
+  const amount = usage.bandwidth_gb.total * USAGE_PRICES.bandwidth_gb
+    + (usage.storage_gb.total / periodHours) * USAGE_PRICES.storage_gb
+    + (usage.cpu_cores.total / periodHours) * RESOURCE_PRICES.cpu_cores
+    + (usage.memory_gb.total / periodHours) * RESOURCE_PRICES.memory_gb
+    + (usage.disk_gb.total / periodHours) * RESOURCE_PRICES.disk_gb;
+
+  return Math.round(amount);
+}
+
+async function getBudgetValue(budget: Budget, period: BillingPeriod): Promise<number> {
+  if (budget.kind === BudgetKind.SPEND) {
+    return budget.appId
+      ? getAppSpend(budget.userId, budget.appId, period)
+      : getPeriodSpend(budget.userId, period);
+  }
+
+  const usage = await getUsageAggregates(budget.userId, period.start, period.end, {
+    appId: budget.appId ?? undefined,
+  });
+  return usage[budget.metric as UsageMetric]?.total ?? 0;
+}
+
+export async function getBudgetStatus(budget: Budget, now = new Date()): Promise<BudgetStatus> {
+  const period = getBillingPeriod(now);
+  const value = await getBudgetValue(budget, period);
+  const percent = budget.amount > 0 ? (value / budget.amount) * 100 : 100;
+
+  return {
+    periodStart: period.start,
+    value: Math.round(value * 100) / 100,
+    percent: Math.round(percent * 10) / 10,
+    exceeded: percent >= 100,
+  };
+}
+
+export function serializeBudget(budget: Budget & { alerts?: BudgetAlert[] }, status?: BudgetStatus) {
+  return {
+    id: budget.id,
+    name: budget.name,
+    kind: budget.kind,
+    metric: budget.metric,
+    appId: budget.appId,
+    amount: budget.amount,
+    hardCap: budget.hardCap,
+    status: status
+      ? { ...status, periodStart: status.periodStart.toISOString() }
+      : null,
+    alerts: budget.alerts?.map(alert => ({
+      threshold: alert.threshold,
+      value: alert.value,
+      amount: alert.amount,
+      periodStart: alert.periodStart.toISOString(),
+      createdAt: alert.createdAt.toISOString(),
+    })) ?? [],
+    createdAt: budget.createdAt.toISOString(),
+    updatedAt: budget.updatedAt.toISOString(),
+  };
+}
+
+function describeValue(budget: Budget, value: number): string {
+  return budget.kind === BudgetKind.SPEND
+    ? `$${(value / 100).toFixed(2)}`
+    : `${value.toFixed(2)} ${budget.metric === 'bandwidth_gb' ? 'GB' : 'unit-hours'} of ${budget.metric}`;
+}
+
+// Returns the thresholds crossed for the first time this period
+async function recordAlerts(budget: Budget, status: BudgetStatus): Promise<number[]> {
+  const crossed: number[] = [];
+
+  for (const threshold of BUDGET_THRESHOLDS.filter(threshold => status.percent >= threshold)) {
+    try {
+      await db.budgetAlert.create({
+        data: {
+          budgetId: budget.id,
+          periodStart: status.periodStart,
+          threshold,
+          value: status.value,
+          amount: budget.amount,
+        },
+      });
+      crossed.push(threshold);
+    } catch (error) {
+      // Already alerted for this threshold this period
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+  }
+
+  if (crossed.length > 0) {
+    await createAuditLog({
+      userId: budget.userId,
+      appId: budget.appId ?? undefined,
+      action: AuditActions.BUDGET_ALERT,
+      resource: 'budget',
+      resourceId: budget.id,
+      details: `Budget "${budget.name}" reached ${Math.max(...crossed)}%: ${describeValue(budget, status.value)} of ${describeValue(budget, budget.amount)}`,
+    });
+
+    const owner = await db.user.findUniqueOrThrow({ where: { id: budget.userId }, select: { email: true } });
+    await sendMail({
+      to: owner.email,
+      ...budgetAlertTemplate({
+        budget: budget.name,
+        threshold: Math.max(...crossed),
+        usage: describeValue(budget, status.value),
+        limit: describeValue(budget, budget.amount),
+        hardCap: budget.hardCap,
+        url: appUrl('/dashboard/billing'),
+      }),
+    });
+  }
+
+  return crossed;
+}
+
+// Running non-production apps a hard-capped budget covers
+async function findCappableApps(budget: Budget) {
+  return db.app.findMany({
+    where: {
+      userId: budget.userId,
+      ...(budget.appId ? { id: budget.appId } : {}),
+      environment: { not: AppEnvironment.PRODUCTION },
+      status: AppStatus.RUNNING,
+    },
+    select: { id: true, agentId: true },
+  });
+}
+
+async function capApps(budget: Budget, at: Date) {
+  const apps = await findCappableApps(budget);
+
+  for (const app of apps) {
+    await db.app.update({ where: { id: app.id }, data: { budgetCappedAt: at } });
+    await setAppVmPower(app, 'stop_vm');
+    await setAppStatus(app.id, AppStatus.STOPPED);
+  }
+
+  if (apps.length > 0) {
+    await createAuditLog({
+      userId: budget.userId,
+      appId: budget.appId ?? undefined,
+      action: AuditActions.BUDGET_CAP,
+      resource: 'budget',
+      resourceId: budget.id,
+      details: `Budget "${budget.name}" used up; stopped ${apps.length} non-production app(s)`,
+    });
+  }
+}
+
+// Restart capped apps that no exceeded hard cap covers any more, e.g. in a new period
+async function releaseApps(cappedAppIds: Set<string>, cappedUserIds: Set<string>) {
+  const apps = await db.app.findMany({
+    where: { budgetCappedAt: { not: null } },
+    select: { id: true, userId: true, agentId: true, status: true, suspendedAt: true },
+  });
+
+  for (const app of apps) {
+    if (cappedAppIds.has(app.id) || cappedUserIds.has(app.userId)) {
+      continue;
+    }
+
+    // Dunning keeps a suspended account's apps stopped
+    const billing = await db.billingInfo.findUnique({ where: { userId: app.userId }, select: { subscriptionStatus: true } });
+    if (billing?.subscriptionStatus === SubscriptionStatus.SUSPENDED) {
+      continue;
+    }
+
+    await db.app.update({ where: { id: app.id }, data: { budgetCappedAt: null } });
+    if (app.status === AppStatus.STOPPED && !app.suspendedAt) {
+      await setAppVmPower(app, 'start_vm');
+      await setAppStatus(app.id, AppStatus.RUNNING);
+    }
+
+    await createAuditLog({
+      userId: app.userId,
+      appId: app.id,
+      action: AuditActions.BUDGET_RELEASE,
+      resource: 'app',
+      resourceId: app.id,
+      details: 'No budget caps this app any more; restarted it',
+    });
+  }
+}
+
+/**
+ * One evaluation pass over every budget: raise threshold alerts, stop the
+ * non-production apps of exceeded hard caps and restart apps no longer capped.
+ */
+export async function evaluateBudgets(now = new Date()) {
+  const budgets = await db.budget.findMany();
+  const cappedAppIds = new Set<string>();
+  const cappedUserIds = new Set<string>();
+
+  for (const budget of budgets) {
+    try {
+      const status = await getBudgetStatus(budget, now);
+      await recordAlerts(budget, status);
+
+      if (budget.hardCap && status.exceeded) {
+        if (budget.appId) {
+          cappedAppIds.add(budget.appId);
+        } else {
+          cappedUserIds.add(budget.userId);
+        }
+        await capApps(budget, now);
+      }
+    } catch (error) {
+      console.error(`Failed to evaluate budget ${budget.id}:`, error);
+      // Keep what this budget already capped rather than releasing it on an error
+      if (budget.hardCap) {
+        (budget.appId ? cappedAppIds : cappedUserIds).add(budget.appId ?? budget.userId);
+      }
+    }
+  }
+
+  await releaseApps(cappedAppIds, cappedUserIds);
+}
+
+let budgetTimer: NodeJS.Timeout | null = null;
+
+export function startBudgetEvaluator() {
+  if (budgetTimer) {
+    return;
+  }
+
+  const run = () => {
+    evaluateBudgets().catch((error) => {
+      console.error('Budget evaluation failed:', error);
+    });
+  };
+
+  run();
+  budgetTimer = setInterval(run, BUDGET_EVALUATION_INTERVAL);
+}
@@ -0,0 +1,250 @@
+import { UserRole } from '@prisma/client';
+import { createAuditLog, AuditActions, AuditLogData } from './audit';
+
+// Commands run through `limactl shell` without a host shell, so anything a shell
+// would interpret is refused outright rather than escaped
+export const SHELL_METACHARACTERS = /[;&|`$<>(){}[\]\\'"*?~!#\n\r\0]/;
+
+// Run as the VM's default login user unless `user` names someone else
+export const DEFAULT_RUN_AS = 'default';
+export const DEFAULT_COMMAND_TIMEOUT = 30000;
+
+// An account the agent creates in the VM without sudo, for terminals of users who may not run as root
+export const RESTRICTED_TERMINAL_USER = 'limahost';
+
+// Agents prefix their own rejections with this, see checkCommandPolicy() in src/agent/agent.js
+export const AGENT_POLICY_VIOLATION = 'Policy violation:';
+
+const USERNAME_PATTERN = /^[a-z_][a-z0-9_-]{0,31}$/;
+export const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const WORKING_DIRECTORY_PATTERN = /^\/[A-Za-z0-9._/-]*$/;
+
+// Variables that change which binary or library actually runs
+export const PROTECTED_ENV_VARS = ['PATH', 'LD_PRELOAD', 'LD_LIBRARY_PATH', 'LD_AUDIT', 'BASH_ENV', 'ENV', 'IFS'];
+
+export interface CommandRule {
+  effect: 'allow' | 'deny';
+  command: string; // binary name, or '*' for any
+  args?: RegExp; // matched against the arguments joined by single spaces
+}
+
+export interface RoleCommandPolicy {
+  allowRoot: boolean;
+  // Who terminals log in as; the VM's default user has passwordless sudo, so only roles allowed root get it
+  terminalUser: string;
+  maxTimeout: number; // in ms; longer requests are capped
+  allowProtectedEnv: boolean;
+  rules: CommandRule[]; // first match wins, no match is a deny
+}
+
+// Privilege changes go through `user`, never through the command itself
+const PRIVILEGE_RULES: CommandRule[] = [
+  { effect: 'deny', command: 'sudo' },
+  { effect: 'deny', command: 'su' },
+  { effect: 'deny', command: 'doas' },
+];
+
+const DESTRUCTIVE_RULES: CommandRule[] = [
+  { effect: 'deny', command: 'rm', args: /(^|\s)-[A-Za-z]*[rR][A-Za-z]*\s+(.*\s)?\/(\s|$)/ },
+  { effect: 'deny', command: 'dd' },
+  { effect: 'deny', command: 'mkfs' },
+  { effect: 'deny', command: 'shutdown' },
+  { effect: 'deny', command: 'reboot' },
+  { effect: 'deny', command: 'poweroff' },
+  { effect: 'deny', command: 'halt' },
+];
+
+const READ_ONLY_COMMANDS = [
+  'ls', 'cat', 'head', 'tail', 'grep', 'wc', 'pwd', 'echo', 'date', 'whoami', 'id',
+  'hostname', 'uname', 'uptime', 'df', 'du', 'free', 'ps', 'stat', 'file', 'which',
+];
+
+const CURL_LOCALHOST_ARGS = /^((-[sSIifv]+|--(silent|show-error|head|include|fail|verbose))\s+)*https?:\/\/(127\.0\.0\.1|localhost)(:\d{1,5})?(\/\S*)?$/;
+
+export const COMMAND_POLICIES: Record<UserRole, RoleCommandPolicy> = {
+  [UserRole.USER]: {
+    allowRoot: false,
+    terminalUser: RESTRICTED_TERMINAL_USER,
+    maxTimeout: 60000, // 1 minute
+    allowProtectedEnv: false,
+    rules: [
+      ...PRIVILEGE_RULES,
+      ...READ_ONLY_COMMANDS.map(command => ({ effect: 'allow' as const, command })),
+      // One URL on the VM itself; no flags that write files, send data or follow redirects elsewhere
+      { effect: 'allow', command: 'curl', args: CURL_LOCALHOST_ARGS },
+      { effect: 'allow', command: 'nerdctl', args: /^(ps|logs|inspect|images|stats|top|version)(\s|$)/ },
+      { effect: 'allow', command: 'systemctl', args: /^(status|is-active|list-units)(\s|$)/ },
+      { effect: 'allow', command: 'journalctl' },
+    ],
+  },
+  [UserRole.ADMIN]: {
+    allowRoot: true,
+    terminalUser: DEFAULT_RUN_AS,
+    maxTimeout: 5 * 60 * 1000, // 5 minutes
+    allowProtectedEnv: false,
+    rules: [
+      ...PRIVILEGE_RULES,
+      ...DESTRUCTIVE_RULES,
+      { effect: 'allow', command: '*' },
+    ],
+  },
+  [UserRole.SUPER_ADMIN]: {
+    allowRoot: true,
+    terminalUser: DEFAULT_RUN_AS,
+    maxTimeout: 10 * 60 * 1000, // 10 minutes
+    allowProtectedEnv: true,
+    rules: [
+      ...PRIVILEGE_RULES,
+      ...DESTRUCTIVE_RULES,
+      { effect: 'allow', command: '*' },
+    ],
+  },
+};
+
+export interface CommandRequest {
+  command: string;
+  user?: string;
+  timeout?: number;
+  environment?: Record<string, string>;
+  workingDirectory?: string;
+}
+
+export interface CommandDecision {
+  allowed: boolean;
+  reason: string;
+  argv: string[];
+  runAs: string;
+  timeout: number;
+  environment: Record<string, string>;
+  workingDirectory?: string;
+}
+
+function matchesRule(rule: CommandRule, binary: string, args: string): boolean {
+  // Deny rules also cover variants such as mkfs.ext4
+  const variant = rule.effect === 'deny' && binary.startsWith(`${rule.command}.`);
+  if (rule.command !== '*' && rule.command !== binary && !variant) {
+    return false;
+  }
+
+  return !rule.args || rule.args.test(args);
+}
+
+function deny(reason: string, partial: Partial<CommandDecision> = {}): CommandDecision {
+  return {
+    allowed: false,
+    reason,
+    argv: [],
+    runAs: DEFAULT_RUN_AS,
+    timeout: DEFAULT_COMMAND_TIMEOUT,
+    environment: {},
+    ...partial,
+  };
+}
+
+/**
+ * Decide whether a role may run a command in a VM. Allowed decisions carry the
+ * tokenized argv and the capped timeout to hand to the agent, which re-checks
+ * them against its own host-local policy.
+ */
+export function evaluateCommandPolicy(role: UserRole, request: CommandRequest): CommandDecision {
+  const policy = COMMAND_POLICIES[role];
+  const command = typeof request.command === 'string' ? request.command.trim() : '';
+
+  if (!command) {
+    return deny('Command is empty');
+  }
+
+  if (SHELL_METACHARACTERS.test(command)) {
+    return deny('Shell metacharacters are not allowed');
+  }
+
+  const argv = command.split(/\s+/);
+  const binary = argv[0];
+  const args = argv.slice(1).join(' ');
+
+  if (binary.includes('/')) {
+    return deny('Commands must be given by name, not by path', { argv });
+  }
+
+  const runAs = request.user || DEFAULT_RUN_AS;
+  if (runAs !== DEFAULT_RUN_AS && !USERNAME_PATTERN.test(runAs)) {
+    return deny(`Invalid user: ${runAs}`, { argv });
+  }
+
+  // Any other account in the VM could be one with sudo, so only administrators pick one
+  if (runAs !== DEFAULT_RUN_AS && !policy.allowRoot) {
+    return deny(`Only administrators may run commands as ${runAs === 'root' ? 'root' : 'another user'}`, { argv, runAs });
+  }
+
+  const environment = request.environment || {};
+  for (const [name, value] of Object.entries(environment)) {
+    if (!ENV_NAME_PATTERN.test(name) || typeof value !== 'string' || /[\n\r\0]/.test(value)) {
+      return deny(`Invalid environment variable: ${name}`, { argv, runAs });
+    }
+
+    if (PROTECTED_ENV_VARS.includes(name) && !policy.allowProtectedEnv) {
+      return deny(`Environment variable ${name} may not be overridden`, { argv, runAs });
+    }
+  }
+
+  if (request.workingDirectory && !WORKING_DIRECTORY_PATTERN.test(request.workingDirectory)) {
+    return deny('Working directory must be an absolute path', { argv, runAs });
+  }
+
+  const requestedTimeout = Math.floor(Number(request.timeout)) || DEFAULT_COMMAND_TIMEOUT;
+  const timeout = Math.min(Math.max(requestedTimeout, 1000), policy.maxTimeout);
+
+  const rule = policy.rules.find(candidate => matchesRule(candidate, binary, args));
+  if (!rule || rule.effect === 'deny') {
+    return deny(`Command ${binary}${rule?.args ? ' with these arguments' : ''} is not permitted for ${role}`, {
+      argv,
+      runAs,
+      timeout,
+    });
+  }
+
+  return {
+    allowed: true,
+    reason: timeout < requestedTimeout
+      ? `Allowed by ${rule.command} rule, timeout capped at ${policy.maxTimeout}ms`
+      : `Allowed by ${rule.command} rule`,
+    argv,
+    runAs,
+    timeout,
+    environment,
+    workingDirectory: request.workingDirectory,
+  };
+}
+
+// Every decision is audited, including the ones the agent makes on its side
+export async function logCommandPolicyDecision(
+  decision: Pick<CommandDecision, 'allowed' | 'reason'>,
+  context: {
+    userId: string;
+    appId?: string;
+    agentId: string;
+    vmName: string;
+    command: string;
+    executionId?: string;
+    source?: 'control_plane' | 'agent';
+  } & Pick<AuditLogData, 'ipAddress' | 'userAgent'>
+) {
+  const { userId, appId, agentId, vmName, command, executionId, source = 'control_plane', ...metadata } = context;
+
+  await createAuditLog({
+    userId,
+    appId,
+    action: AuditActions.COMMAND_POLICY_DECISION,
+    resource: 'command_execution',
+    resourceId: executionId,
+    details: JSON.stringify({
+      decision: decision.allowed ? 'allow' : 'deny',
+      reason: decision.reason,
+      source,
+      agentId,
+      vmName,
+      command,
+    }),
+    ...metadata,
+  });
+}
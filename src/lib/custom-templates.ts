@@ -0,0 +1,189 @@
+import { db } from './db';
+import { App, CustomTemplate, TemplateRevision, TemplateVisibility, UserRole } from '@prisma/client';
+import { hasGlobalPermission } from './permissions';
+import {
+  parseTemplate,
+  getTemplate,
+  listTemplates,
+  findDangerousSettings,
+  LimaTemplate,
+  TemplateError,
+  TemplateFinding,
+  ResourceRange,
+  DEFAULT_RESOURCE_RANGES,
+} from './templates';
+
+export const CUSTOM_TEMPLATE_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,47}$/;
+export const MAX_TEMPLATE_SIZE = 256 * 1024;
+
+// Static routes under /api/templates that a slug would be shadowed by
+const RESERVED_SLUGS = ['validate'];
+
+type TemplateUser = { id: string; role: UserRole };
+
+export interface CustomTemplateValidation {
+  template: LimaTemplate;
+  findings: TemplateFinding[];
+}
+
+export async function canViewCustomTemplate(template: CustomTemplate, user: TemplateUser): Promise<boolean> {
+  return template.ownerId === user.id
+    || template.visibility === TemplateVisibility.SHARED
+    || hasGlobalPermission(user, 'template:manage');
+}
+
+export async function canManageCustomTemplate(template: CustomTemplate, user: TemplateUser): Promise<boolean> {
+  return template.ownerId === user.id || hasGlobalPermission(user, 'template:manage');
+}
+
+export async function isTemplateSlugAvailable(slug: string): Promise<boolean> {
+  if (RESERVED_SLUGS.includes(slug)) {
+    return false;
+  }
+
+  const [builtin, existing] = await Promise.all([
+    getTemplate(slug).then(() => true, () => false),
+    db.customTemplate.findUnique({ where: { slug }, select: { id: true } }),
+  ]);
+
+  return !builtin && !existing;
+}
+
+function checkResourceRange(label: keyof typeof DEFAULT_RESOURCE_RANGES, range: ResourceRange) {
+  const bounds = DEFAULT_RESOURCE_RANGES[label];
+  if (range.min < bounds.min || range.max > bounds.max) {
+    throw new TemplateError(
+      'INVALID_TEMPLATE',
+      `limahost.resources.${label} must stay within ${bounds.min}-${bounds.max}`
+    );
+  }
+}
+
+/**
+ * Validate an uploaded Lima template. Schema errors throw a TemplateError;
+ * dangerous settings are returned as findings for the caller to act on.
+ */
+export function validateCustomTemplate(
+  slug: string,
+  content: string,
+  metadata: { name: string; description?: string | null }
+): CustomTemplateValidation {
+  const template = parseTemplate(slug, content, {
+    displayName: metadata.name,
+    description: metadata.description ?? '',
+    category: 'Custom',
+    resources: DEFAULT_RESOURCE_RANGES,
+  });
+
+  checkResourceRange('cpus', template.ranges.cpu);
+  checkResourceRange('memory', template.ranges.memory);
+  checkResourceRange('disk', template.ranges.disk);
+
+  return {
+    // The stored name and description win over a `limahost` block in the upload
+    template: { ...template, name: metadata.name, description: metadata.description ?? '' },
+    findings: findDangerousSettings(slug, template.config),
+  };
+}
+
+function toLimaTemplate(custom: CustomTemplate, revision: TemplateRevision): LimaTemplate {
+  const { template } = validateCustomTemplate(custom.slug, revision.content, custom);
+
+  return {
+    ...template,
+    revisionId: revision.id,
+    version: revision.version,
+    ownerId: custom.ownerId,
+    visibility: custom.visibility,
+  };
+}
+
+const latestRevision = {
+  revisions: {
+    orderBy: { version: 'desc' as const },
+    take: 1,
+  },
+};
+
+export async function getCustomTemplateForUser(slug: string, user: TemplateUser) {
+  const custom = await db.customTemplate.findUnique({
+    where: { slug },
+    include: latestRevision,
+  });
+
+  if (!custom || !custom.revisions[0] || !await canViewCustomTemplate(custom, user)) {
+    return null;
+  }
+
+  return custom;
+}
+
+// Built-in templates are looked up first; custom slugs never shadow them
+export async function getTemplateForUser(id: string, user: TemplateUser): Promise<LimaTemplate> {
+  try {
+    return await getTemplate(id);
+  } catch (error) {
+    if (!(error instanceof TemplateError && error.code === 'NOT_FOUND')) {
+      throw error;
+    }
+  }
+
+  const custom = await getCustomTemplateForUser(id, user);
+  if (!custom) {
+    throw new TemplateError('NOT_FOUND', `Unknown template: ${id}`);
+  }
+
+  return toLimaTemplate(custom, custom.revisions[0]);
+}
+
+export async function listTemplatesForUser(user: TemplateUser): Promise<LimaTemplate[]> {
+  const customs = await db.customTemplate.findMany({
+    where: await hasGlobalPermission(user, 'template:manage')
+      ? {}
+      : { OR: [{ ownerId: user.id }, { visibility: TemplateVisibility.SHARED }] },
+    include: latestRevision,
+    orderBy: { slug: 'asc' },
+  });
+
+  const custom = customs.flatMap((template) => {
+    if (!template.revisions[0]) return [];
+
+    try {
+      return [toLimaTemplate(template, template.revisions[0])];
+    } catch (error) {
+      console.error(`Failed to load custom template ${template.slug}:`, error);
+      return [];
+    }
+  });
+
+  return [...await listTemplates(), ...custom];
+}
+
+// The template an app's VM is built from: the custom revision it pinned at creation, or a built-in
+export async function resolveAppTemplate(app: Pick<App, 'template' | 'templateRevisionId'>): Promise<LimaTemplate> {
+  if (!app.templateRevisionId) {
+    return getTemplate(app.template);
+  }
+
+  const revision = await db.templateRevision.findUnique({
+    where: { id: app.templateRevisionId },
+    include: { template: true },
+  });
+
+  if (!revision) {
+    throw new TemplateError('NOT_FOUND', `Template revision ${app.templateRevisionId} no longer exists`);
+  }
+
+  return toLimaTemplate(revision.template, revision);
+}
+
+export function serializeTemplateRevision(revision: TemplateRevision, includeContent = false) {
+  return {
+    id: revision.id,
+    version: revision.version,
+    findings: revision.findings ? JSON.parse(revision.findings) as TemplateFinding[] : [],
+    createdById: revision.createdById,
+    createdAt: revision.createdAt.toISOString(),
+    ...(includeContent ? { content: revision.content } : {}),
+  };
+}
@@ -0,0 +1,458 @@
+import { db } from './db';
+import {
+  App,
+  Deployment,
+  DeploymentStep,
+  AgentStatus,
+  AppStatus,
+  DeploymentStatus,
+  DeploymentStepStatus,
+  DeploymentStepType,
+} from '@prisma/client';
+import { isAgentConnected, sendAgentRequest } from './agent-gateway';
+import { AppConfig, parseAppConfig, getAppVmName, getAppContainerName, setAppStatus } from './apps';
+import { publishToDeployment } from './socket';
+import { renderTemplate, getAppTemplateOverrides } from './templates';
+import { resolveAppTemplate } from './custom-templates';
+
+const VM_CREATE_TIMEOUT = 15 * 60 * 1000;
+const VM_SCALE_TIMEOUT = 10 * 60 * 1000;
+const IMAGE_PULL_TIMEOUT = 10 * 60 * 1000;
+const CONTAINER_TIMEOUT = 2 * 60 * 1000;
+const HEALTH_CHECK_TIMEOUT = 15 * 1000;
+const HEALTH_CHECK_ATTEMPTS = 5;
+const HEALTH_CHECK_INTERVAL = 5000;
+
+// Steps every deployment runs through, in order
+export const DEPLOYMENT_STEPS: DeploymentStepType[] = [
+  DeploymentStepType.PROVISION_VM,
+  DeploymentStepType.PULL_IMAGE,
+  DeploymentStepType.STOP_CONTAINER,
+  DeploymentStepType.START_CONTAINER,
+  DeploymentStepType.HEALTH_CHECK,
+  DeploymentStepType.SWITCH_TRAFFIC,
+];
+
+export interface DeploymentOptions {
+  version?: string;
+  resize?: boolean; // apply cpu/memory/disk from App.config to the VM first
+  rollbackOf?: Deployment; // redeploy the config of an earlier deployment
+}
+
+type DeploymentRef = Pick<Deployment, 'id' | 'appId' | 'version'>;
+type StepLogger = (message: string) => Promise<void>;
+type StepResult = 'skipped' | void;
+
+function parseVersion(version: string): number[] | null {
+  const match = version.match(/^v?(\d+)\.(\d+)\.(\d+)$/);
+  return match ? match.slice(1).map(part => parseInt(part)) : null;
+}
+
+export async function getNextVersion(appId: string): Promise<string> {
+  const deployments = await db.deployment.findMany({
+    where: { appId },
+    select: { version: true },
+  });
+
+  // Rollbacks reuse old version numbers, so bump the highest one rather than the latest
+  const versions = deployments
+    .map(deployment => parseVersion(deployment.version))
+    .filter((version): version is number[] => version !== null)
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2]);
+
+  const highest = versions[versions.length - 1];
+  if (!highest) {
+    return 'v1.0.0';
+  }
+
+  return `v${highest[0]}.${highest[1]}.${highest[2] + 1}`;
+}
+
+function resourcesDiffer(a: AppConfig, b: AppConfig): boolean {
+  return a.cpu !== b.cpu || a.memory !== b.memory || a.disk !== b.disk;
+}
+
+function appendLine(logs: string | null, message: string): string {
+  const line = `[${new Date().toISOString()}] ${message}`;
+  return logs ? `${logs}\n${line}` : line;
+}
+
+export async function appendDeploymentLog(deployment: DeploymentRef, message: string) {
+  const current = await db.deployment.findUnique({
+    where: { id: deployment.id },
+    select: { logs: true },
+  });
+
+  await db.deployment.update({
+    where: { id: deployment.id },
+    data: { logs: appendLine(current?.logs ?? null, message) },
+  });
+
+  publishToDeployment(deployment.id, deployment.appId, 'deployment:log', {
+    appId: deployment.appId,
+    deploymentId: deployment.id,
+    stepId: null,
+    type: null,
+    message,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+async function appendStepLog(deployment: DeploymentRef, step: DeploymentStep, message: string) {
+  const current = await db.deploymentStep.findUnique({
+    where: { id: step.id },
+    select: { logs: true },
+  });
+
+  await db.deploymentStep.update({
+    where: { id: step.id },
+    data: { logs: appendLine(current?.logs ?? null, message) },
+  });
+
+  publishToDeployment(deployment.id, deployment.appId, 'deployment:log', {
+    appId: deployment.appId,
+    deploymentId: deployment.id,
+    stepId: step.id,
+    type: step.type,
+    message,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+async function setDeploymentStatus(
+  deployment: DeploymentRef,
+  status: DeploymentStatus,
+  dates: { startedAt?: Date; completedAt?: Date } = {}
+) {
+  await db.deployment.update({
+    where: { id: deployment.id },
+    data: { status, ...dates },
+  });
+
+  publishToDeployment(deployment.id, deployment.appId, 'deployment:status', {
+    appId: deployment.appId,
+    deploymentId: deployment.id,
+    version: deployment.version,
+    status,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+async function setStepStatus(
+  deployment: DeploymentRef,
+  step: DeploymentStep,
+  status: DeploymentStepStatus,
+  dates: { startedAt?: Date; completedAt?: Date } = {}
+) {
+  await db.deploymentStep.update({
+    where: { id: step.id },
+    data: { status, ...dates },
+  });
+
+  publishToDeployment(deployment.id, deployment.appId, 'deployment:step', {
+    appId: deployment.appId,
+    deploymentId: deployment.id,
+    stepId: step.id,
+    type: step.type,
+    position: step.position,
+    status,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Latest successful deployment of an app that can be redeployed, optionally
+ * only considering deployments created before the given one.
+ */
+export async function getPreviousSuccessfulDeployment(appId: string, before?: Deployment) {
+  return db.deployment.findFirst({
+    where: {
+      appId,
+      status: DeploymentStatus.SUCCESS,
+      config: { not: null },
+      ...(before && { id: { not: before.id }, createdAt: { lt: before.createdAt } }),
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Queue a deployment of the app's current config (or of an earlier deployment's
+ * config when rolling back) and run its steps in the background.
+ * Returns the PENDING deployment record right away.
+ */
+export async function startDeployment(app: App, options: DeploymentOptions = {}) {
+  const { rollbackOf } = options;
+  const config = rollbackOf?.config ?? app.config;
+  const version = options.version || rollbackOf?.version || await getNextVersion(app.id);
+
+  const deployment = await db.deployment.create({
+    data: {
+      appId: app.id,
+      status: DeploymentStatus.PENDING,
+      version,
+      config,
+      rollbackOfId: rollbackOf?.id,
+      logs: appendLine(null, rollbackOf
+        ? `Rollback to ${rollbackOf.version} queued...`
+        : 'Deployment queued...'),
+      steps: {
+        create: DEPLOYMENT_STEPS.map((type, position) => ({ type, position })),
+      },
+    },
+  });
+
+  await db.app.update({
+    where: { id: app.id },
+    data: { config },
+  });
+  await setAppStatus(app.id, AppStatus.DEPLOYING);
+
+  // A rollback across a scale has to put the VM back to the old size too
+  const resize = options.resize ||
+    (!!rollbackOf && resourcesDiffer(parseAppConfig(app), JSON.parse(config) as AppConfig));
+
+  runDeployment(deployment.id, { ...options, resize }).catch((error) => {
+    console.error('Deployment runner crashed:', error);
+  });
+
+  return deployment;
+}
+
+async function runStep(
+  deployment: DeploymentRef,
+  type: DeploymentStepType,
+  fn: (log: StepLogger) => Promise<StepResult>
+) {
+  const step = await db.deploymentStep.findFirstOrThrow({
+    where: { deploymentId: deployment.id, type },
+  });
+
+  await setStepStatus(deployment, step, DeploymentStepStatus.RUNNING, { startedAt: new Date() });
+
+  try {
+    const result = await fn(message => appendStepLog(deployment, step, message));
+
+    await setStepStatus(
+      deployment,
+      step,
+      result === 'skipped' ? DeploymentStepStatus.SKIPPED : DeploymentStepStatus.SUCCESS,
+      { completedAt: new Date() }
+    );
+  } catch (error) {
+    await appendStepLog(deployment, step, `Error: ${error instanceof Error ? error.message : String(error)}`);
+    await setStepStatus(deployment, step, DeploymentStepStatus.FAILED, { completedAt: new Date() });
+    throw error;
+  }
+}
+
+async function selectAgent(): Promise<string | null> {
+  const agents = await db.agent.findMany({
+    where: { status: AgentStatus.HEALTHY },
+    orderBy: { runningVms: 'asc' },
+  });
+
+  return agents.find(agent => isAgentConnected(agent.id))?.id ?? null;
+}
+
+// Pipeline commands come from the control plane itself and run as root inside the VM; a nonzero exit fails the step
+async function runInVm(agentId: string, vmName: string, argv: string[], timeout: number) {
+  const result = await sendAgentRequest<{ stdout: string; stderr: string; exitCode: number }>(
+    agentId,
+    'execute_command',
+    { vmName, argv, runAs: 'root', role: 'SYSTEM', timeout },
+    { timeout: timeout + 5000 }
+  );
+
+  if (result?.exitCode) {
+    throw new Error(result.stderr?.trim() || `${argv[0]} exited with code ${result.exitCode}`);
+  }
+  return result;
+}
+
+async function logOutput(log: StepLogger, output?: string) {
+  const trimmed = output?.trim();
+  if (trimmed) {
+    await log(trimmed);
+  }
+}
+
+// Make sure the app has a VM on a connected agent, creating it on first deploy
+async function provisionVm(app: App, config: AppConfig, resize: boolean, log: StepLogger) {
+  const vmName = getAppVmName(app);
+
+  if (app.agentId) {
+    if (!isAgentConnected(app.agentId)) {
+      throw new Error(`Agent ${app.agentId} hosting this app is not connected`);
+    }
+
+    if (!resize) {
+      await log(`Using existing VM ${vmName} on agent ${app.agentId}`);
+      return { agentId: app.agentId, result: 'skipped' as StepResult };
+    }
+
+    await log(`Resizing VM to ${config.cpu} vCPU, ${config.memory}GB RAM, ${config.disk}GB disk`);
+    await sendAgentRequest(app.agentId, 'scale_vm', {
+      vmName,
+      cpus: config.cpu,
+      memory: config.memory,
+      disk: config.disk,
+    }, { timeout: VM_SCALE_TIMEOUT });
+
+    return { agentId: app.agentId, result: undefined };
+  }
+
+  const agentId = await selectAgent();
+  if (!agentId) {
+    throw new Error('No healthy agent is available to host this app');
+  }
+
+  const template = await resolveAppTemplate(app);
+  const limaConfig = renderTemplate(template, vmName, getAppTemplateOverrides(config));
+
+  await log(`Creating VM ${vmName} on agent ${agentId} from template ${template.id}${template.version ? ` v${template.version}` : ''}`);
+  await sendAgentRequest(agentId, 'create_vm', {
+    vmName,
+    template: app.template,
+    config: { name: vmName, cpus: config.cpu, memory: config.memory, disk: config.disk },
+    limaConfig,
+  }, { timeout: VM_CREATE_TIMEOUT });
+
+  await db.app.update({
+    where: { id: app.id },
+    data: { agentId },
+  });
+
+  return { agentId, result: undefined };
+}
+
+async function checkHealth(agentId: string, vmName: string, containerName: string, config: AppConfig) {
+  const state = await runInVm(
+    agentId,
+    vmName,
+    ['nerdctl', 'inspect', '--format', '{{.State.Running}}', containerName],
+    HEALTH_CHECK_TIMEOUT
+  );
+
+  if (state?.stdout.trim() !== 'true') {
+    throw new Error(`Container ${containerName} is not running`);
+  }
+
+  // Any HTTP response counts as healthy; only connection failures do not
+  for (const port of (config.ports || []).filter(port => port.protocol === 'http')) {
+    await runInVm(
+      agentId,
+      vmName,
+      ['curl', '-sS', '-o', '/dev/null', '--max-time', '5', `http://127.0.0.1:${port.guest}/`],
+      HEALTH_CHECK_TIMEOUT
+    );
+  }
+}
+
+async function runDeployment(deploymentId: string, options: DeploymentOptions) {
+  const deployment = await db.deployment.findUniqueOrThrow({
+    where: { id: deploymentId },
+    include: { app: true },
+  });
+  const app = deployment.app;
+  const config = JSON.parse(deployment.config ?? app.config) as AppConfig;
+  const vmName = getAppVmName(app);
+  const containerName = getAppContainerName(app);
+  let oldContainerRemoved = false;
+
+  await setDeploymentStatus(deployment, DeploymentStatus.DEPLOYING, { startedAt: new Date() });
+
+  try {
+    let agentId = app.agentId ?? '';
+
+    await runStep(deployment, DeploymentStepType.PROVISION_VM, async (log) => {
+      const provisioned = await provisionVm(app, config, !!options.resize, log);
+      agentId = provisioned.agentId;
+      return provisioned.result;
+    });
+
+    await runStep(deployment, DeploymentStepType.PULL_IMAGE, async (log) => {
+      await log(`Pulling image ${config.dockerImage}`);
+      const pull = await runInVm(agentId, vmName, ['nerdctl', 'pull', config.dockerImage], IMAGE_PULL_TIMEOUT);
+      await logOutput(log, pull?.stdout);
+    });
+
+    await runStep(deployment, DeploymentStepType.STOP_CONTAINER, async (log) => {
+      await log(`Removing previous container ${containerName}`);
+      try {
+        await runInVm(agentId, vmName, ['nerdctl', 'rm', '-f', containerName], CONTAINER_TIMEOUT);
+      } catch (error) {
+        // Nothing to remove on the first deployment
+        await log(`No previous container removed: ${(error as Error).message}`);
+        return 'skipped';
+      } finally {
+        oldContainerRemoved = true;
+      }
+    });
+
+    await runStep(deployment, DeploymentStepType.START_CONTAINER, async (log) => {
+      const runArgs = [
+        'nerdctl', 'run', '-d',
+        '--name', containerName,
+        '--restart', 'unless-stopped',
+        ...(config.ports || []).flatMap(port => ['-p', `${port.guest}:${port.guest}`]),
+        ...Object.entries(config.envVars || {}).flatMap(([key, value]) => ['-e', `${key}=${value}`]),
+        config.dockerImage,
+      ];
+
+      await log(`Starting container ${containerName}`);
+      const run = await runInVm(agentId, vmName, runArgs, CONTAINER_TIMEOUT);
+      await logOutput(log, run?.stdout);
+    });
+
+    await runStep(deployment, DeploymentStepType.HEALTH_CHECK, async (log) => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await checkHealth(agentId, vmName, containerName, config);
+          await log(`Health check passed on attempt ${attempt}`);
+          return;
+        } catch (error) {
+          await log(`Health check attempt ${attempt}/${HEALTH_CHECK_ATTEMPTS} failed: ${(error as Error).message}`);
+          if (attempt >= HEALTH_CHECK_ATTEMPTS) {
+            throw new Error('Health check failed');
+          }
+          await new Promise(resolve => setTimeout(resolve, HEALTH_CHECK_INTERVAL));
+        }
+      }
+    });
+
+    await runStep(deployment, DeploymentStepType.SWITCH_TRAFFIC, async (log) => {
+      await log(`Routing ${app.domain || 'app'} traffic to ${deployment.version}`);
+      await setAppStatus(app.id, AppStatus.RUNNING);
+    });
+
+    await setDeploymentStatus(deployment, DeploymentStatus.SUCCESS, { completedAt: new Date() });
+    await appendDeploymentLog(deployment, `Deployment ${deployment.version} completed successfully`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    const remainingSteps = await db.deploymentStep.findMany({
+      where: { deploymentId, status: DeploymentStepStatus.PENDING },
+    });
+    for (const step of remainingSteps) {
+      await setStepStatus(deployment, step, DeploymentStepStatus.SKIPPED);
+    }
+    await appendDeploymentLog(deployment, `Deployment failed: ${message}`);
+
+    const previous = await getPreviousSuccessfulDeployment(app.id, deployment);
+
+    // Once the old container is gone the app is down, so bring the last good version back
+    if (oldContainerRemoved && previous && !options.rollbackOf) {
+      await setDeploymentStatus(deployment, DeploymentStatus.ROLLED_BACK, { completedAt: new Date() });
+      await appendDeploymentLog(deployment, `Rolling back to ${previous.version}`);
+
+      const currentApp = await db.app.findUniqueOrThrow({ where: { id: app.id } });
+      await startDeployment(currentApp, { rollbackOf: previous });
+      return;
+    }
+
+    await setDeploymentStatus(deployment, DeploymentStatus.FAILED, { completedAt: new Date() });
+    // The previous container keeps serving if the pipeline failed before stopping it
+    await setAppStatus(app.id, !oldContainerRemoved && previous ? AppStatus.RUNNING : AppStatus.ERROR);
+  }
+}
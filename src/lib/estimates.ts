@@ -0,0 +1,146 @@
+import { db } from './db';
+import { BillingCycle, BillingPlan } from '@prisma/client';
+import {
+  ComputeResource,
+  INVOICE_CURRENCY,
+  PLAN_INCLUDED_RESOURCES,
+  RESOURCE_PRICES,
+  getPlanMonthlyFee,
+} from './billing';
+import { PROVISIONED_STATUSES, getBillingPeriod } from './metering';
+import { parseAppConfig } from './apps';
+import { PlanLimitDetails, PlanLimitError, assertAppCountLimit, assertResourceLimits } from './plan-limits';
+
+export interface AppResources {
+  cpu: number;
+  memory: number;
+  disk: number;
+}
+
+export interface EstimateLine {
+  resource: ComputeResource;
+  unit: string;
+  current: number; // the app's amount before the change; 0 for a new app
+  proposed: number;
+  included: number; // the plan's allowance across all running apps, -1 if unlimited
+  usedByOtherApps: number;
+  billable: number; // change in unit-months billed beyond the allowance
+  unitAmount: number; // in cents per unit-month
+  amount: number; // change in the monthly bill, in cents
+}
+
+export interface CostEstimate {
+  plan: BillingPlan;
+  billingCycle: BillingCycle;
+  currency: string;
+  lines: EstimateLine[];
+  // Whole-account monthly bill in cents, plan fee included, assuming every running app keeps running
+  monthly: { planFee: number; before: number; after: number; delta: number };
+  // The delta prorated over what is left of the current billing period
+  remainingThisPeriod: number;
+  planLimit: { code: PlanLimitError['code']; message: string; details: PlanLimitDetails } | null;
+}
+
+const RESOURCES: { resource: ComputeResource; field: keyof AppResources; unit: string }[] = [
+  { resource: 'cpu_cores', field: 'cpu', unit: 'vCPU' },
+  { resource: 'memory_gb', field: 'memory', unit: 'GB' },
+  { resource: 'disk_gb', field: 'disk', unit: 'GB' },
+];
+
+function overage(used: number, included: number): number {
+  return included === -1 ? 0 : Math.max(0, used - included);
+}
+
+/**
+ * Price a proposed app configuration against the user's plan and billing cycle,
+ * the way invoices bill it. Given an app, the proposal replaces that app's
+ * current resources (a scale); without one it is priced as a new app.
+ */
+export async function estimateAppCost(
+  userId: string,
+  proposed: AppResources,
+  options: { app?: { id: string; config: string } } = {},
+  now = new Date()
+): Promise<CostEstimate> {
+  const [billing, otherApps] = await Promise.all([
+    db.billingInfo.findUnique({ where: { userId }, select: { plan: true, billingCycle: true } }),
+    db.app.findMany({
+      where: {
+        userId,
+        status: { in: PROVISIONED_STATUSES },
+        ...(options.app ? { id: { not: options.app.id } } : {}),
+      },
+      select: { id: true, config: true },
+    }),
+  ]);
+
+  const plan = billing?.plan ?? BillingPlan.FREE;
+  const billingCycle = billing?.billingCycle ?? BillingCycle.MONTHLY;
+  const included = PLAN_INCLUDED_RESOURCES[plan];
+  const current = options.app ? parseAppConfig(options.app) : null;
+
+  const otherConfigs = otherApps.flatMap((app) => {
+    try {
+      return [parseAppConfig(app)];
+    } catch {
+      return [];
+    }
+  });
+
+  // What the account already pays for compute beyond its allowance, before the change
+  let baseline = 0;
+
+  const lines = RESOURCES.map(({ resource, field, unit }): EstimateLine => {
+    const usedByOtherApps = otherConfigs.reduce((total, config) => total + config[field], 0);
+    const before = overage(usedByOtherApps + (current?.[field] ?? 0), included[resource]);
+    const after = overage(usedByOtherApps + proposed[field], included[resource]);
+    const billable = after - before;
+
+    baseline += Math.round(before * RESOURCE_PRICES[resource]);
+
+    return {
+      resource,
+      unit,
+      current: current?.[field] ?? 0,
+      proposed: proposed[field],
+      included: included[resource],
+      usedByOtherApps,
+      billable,
+      unitAmount: RESOURCE_PRICES[resource],
+      amount: Math.round(after * RESOURCE_PRICES[resource]) - Math.round(before * RESOURCE_PRICES[resource]),
+    };
+  });
+
+  const planFee = getPlanMonthlyFee(plan, billingCycle);
+  const delta = lines.reduce((total, line) => total + line.amount, 0);
+  const period = getBillingPeriod(now);
+  const remaining = (period.end.getTime() - now.getTime()) / (period.end.getTime() - period.start.getTime());
+
+  let planLimit: CostEstimate['planLimit'] = null;
+  try {
+    if (!options.app) {
+      await assertAppCountLimit(userId);
+    }
+    await assertResourceLimits(userId, proposed);
+  } catch (error) {
+    if (!(error instanceof PlanLimitError)) {
+      throw error;
+    }
+    planLimit = { code: error.code, message: error.message, details: error.details };
+  }
+
+  return {
+    plan,
+    billingCycle,
+    currency: INVOICE_CURRENCY,
+    lines,
+    monthly: {
+      planFee,
+      before: planFee + baseline,
+      after: planFee + baseline + delta,
+      delta,
+    },
+    remainingThisPeriod: Math.round(delta * remaining),
+    planLimit,
+  };
+}
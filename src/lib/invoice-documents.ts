@@ -0,0 +1,255 @@
+import type { SerializedInvoice } from './invoices';
+
+export interface InvoiceRecipient {
+  email: string;
+  name?: string | null;
+}
+
+const ISSUER = {
+  name: 'LimaHost',
+  address: process.env.INVOICE_ISSUER_ADDRESS || '',
+};
+
+export function formatAmount(cents: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(cents / 100);
+}
+
+function formatDate(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+// periodEnd is exclusive; documents show the last day covered
+function formatPeriod(startIso: string, endIso: string): string {
+  return `${formatDate(startIso)} to ${formatDate(new Date(new Date(endIso).getTime() - 1).toISOString())}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderInvoiceHtml(invoice: SerializedInvoice, recipient: InvoiceRecipient): string {
+  const money = (cents: number) => formatAmount(cents, invoice.currency);
+  const rows = invoice.lineItems.map(item => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${money(item.unitAmount)}</td>
+          <td class="num">${money(item.amount)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; max-width: 800px; margin: 40px auto; padding: 0 24px; }
+    h1 { font-size: 28px; margin-bottom: 4px; }
+    .meta, .parties { display: flex; justify-content: space-between; margin: 24px 0; }
+    .muted { color: #666; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e5e5e5; text-align: left; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals td { border-bottom: none; }
+    .status { display: inline-block; padding: 2px 8px; border-radius: 4px; background: #f1f1f1; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <h1>Invoice</h1>
+  <span class="status">${escapeHtml(invoice.status)}</span>
+  <div class="meta">
+    <div>
+      <div><strong>Invoice number:</strong> ${escapeHtml(invoice.number)}</div>
+      <div><strong>Billing period:</strong> ${formatPeriod(invoice.periodStart, invoice.periodEnd)}</div>
+    </div>
+    <div>
+      <div><strong>Issued:</strong> ${formatDate(invoice.createdAt)}</div>
+      <div><strong>Due:</strong> ${formatDate(invoice.dueAt)}</div>
+      ${invoice.paidAt ? `<div><strong>Paid:</strong> ${formatDate(invoice.paidAt)}</div>` : ''}
+    </div>
+  </div>
+  <div class="parties">
+    <div>
+      <div class="muted">From</div>
+      <div>${escapeHtml(ISSUER.name)}</div>
+      ${ISSUER.address ? `<div>${escapeHtml(ISSUER.address)}</div>` : ''}
+    </div>
+    <div>
+      <div class="muted">Bill to</div>
+      ${recipient.name ? `<div>${escapeHtml(recipient.name)}</div>` : ''}
+      <div>${escapeHtml(recipient.email)}</div>
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="num">Quantity</th>
+        <th class="num">Unit price</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot class="totals">
+      <tr><td colspan="3" class="num">Subtotal</td><td class="num">${money(invoice.subtotal)}</td></tr>
+      <tr><td colspan="3" class="num"><strong>Total</strong></td><td class="num"><strong>${money(invoice.total)}</strong></td></tr>
+      <tr><td colspan="3" class="num">Amount paid</td><td class="num">${money(invoice.amountPaid)}</td></tr>
+      <tr><td colspan="3" class="num"><strong>Amount due</strong></td><td class="num"><strong>${money(invoice.amountDue)}</strong></td></tr>
+    </tfoot>
+  </table>
+</body>
+</html>
+`;
+}
+
+// A4 in PDF points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+interface PdfText {
+  x: number;
+  y: number;
+  size: number;
+  bold?: boolean;
+  text: string;
+}
+
+// The standard Helvetica fonts are not embedded, so text is limited to WinAnsi (Latin-1) characters
+function escapePdfText(value: string): string {
+  return value
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+}
+
+// Helvetica averages about half an em per character; used to right-align amounts
+function approximateWidth(text: string, size: number): number {
+  return text.length * size * 0.52;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+function buildPdf(pages: PdfText[][]): Buffer {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+
+  // 1: catalog, 2: page tree, 3 and 4: fonts; each page then adds its page and content objects
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((texts, index) => {
+    const pageId = 5 + index * 2;
+    const contentId = pageId + 1;
+    const stream = texts
+      .map(t => `BT /${t.bold ? 'F2' : 'F1'} ${t.size} Tf ${t.x.toFixed(2)} ${t.y.toFixed(2)} Td (${escapePdfText(t.text)}) Tj ET`)
+      .join('\n');
+
+    pageIds.push(pageId);
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, 'latin1');
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}
+
+export function renderInvoicePdf(invoice: SerializedInvoice, recipient: InvoiceRecipient): Buffer {
+  const money = (cents: number) => formatAmount(cents, invoice.currency);
+  const pages: PdfText[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const line = (text: string, options: { x?: number; size?: number; bold?: boolean; right?: boolean } = {}) => {
+    const size = options.size ?? 10;
+    const x = options.right
+      ? PAGE_WIDTH - MARGIN - approximateWidth(text, size)
+      : options.x ?? MARGIN;
+    pages[pages.length - 1].push({ x, y, size, bold: options.bold, text });
+  };
+
+  const advance = (amount: number) => {
+    y -= amount;
+    if (y < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  line('Invoice', { size: 22, bold: true });
+  line(ISSUER.name, { size: 12, bold: true, right: true });
+  advance(28);
+
+  line(`Invoice number: ${invoice.number}`);
+  line(`Status: ${invoice.status}`, { right: true });
+  advance(14);
+  line(`Billing period: ${formatPeriod(invoice.periodStart, invoice.periodEnd)}`);
+  advance(14);
+  line(`Issued: ${formatDate(invoice.createdAt)}    Due: ${formatDate(invoice.dueAt)}${invoice.paidAt ? `    Paid: ${formatDate(invoice.paidAt)}` : ''}`);
+  advance(28);
+
+  line('Bill to', { bold: true });
+  if (ISSUER.address) {
+    line(ISSUER.address, { right: true });
+  }
+  advance(14);
+  if (recipient.name) {
+    line(recipient.name);
+    advance(14);
+  }
+  line(recipient.email);
+  advance(30);
+
+  const columns = { quantity: 330, unit: 400 };
+  line('Description', { bold: true });
+  line('Quantity', { x: columns.quantity, bold: true });
+  line('Unit price', { x: columns.unit, bold: true });
+  line('Amount', { bold: true, right: true });
+  advance(18);
+
+  for (const item of invoice.lineItems) {
+    line(truncate(item.description, 52));
+    line(String(item.quantity), { x: columns.quantity });
+    line(money(item.unitAmount), { x: columns.unit });
+    line(money(item.amount), { right: true });
+    advance(16);
+  }
+
+  advance(10);
+  const totals: [string, number, boolean][] = [
+    ['Subtotal', invoice.subtotal, false],
+    ['Total', invoice.total, true],
+    ['Amount paid', invoice.amountPaid, false],
+    ['Amount due', invoice.amountDue, true],
+  ];
+  for (const [label, amount, bold] of totals) {
+    line(label, { x: columns.unit, bold });
+    line(money(amount), { bold, right: true });
+    advance(16);
+  }
+
+  return buildPdf(pages);
+}
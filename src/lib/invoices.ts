@@ -0,0 +1,455 @@
+import { randomBytes } from 'crypto';
+import { db } from './db';
+import { BillingCycle, BillingPlan, Invoice, InvoiceLineItem, InvoiceLineItemType, InvoiceStatus, Prisma, UserRole } from '@prisma/client';
+import { hasGlobalPermission } from './permissions';
+import { PLAN_LIMITS, PLAN_INCLUDED_RESOURCES, RESOURCE_PRICES, USAGE_PRICES, INVOICE_CURRENCY, getPlanMonthlyFee } from './billing';
+import { getBillingPeriod, getUsageAggregates } from './metering';
+import { getPaymentProvider } from './payments';
+import { createAuditLog, AuditActions } from './audit';
+
+// Days between closing a period and the invoice falling due
+export const INVOICE_PAYMENT_TERMS = 14;
+
+export const INVOICING_INTERVAL = 60 * 60 * 1000;
+
+// Days to wait after each failed payment attempt before retrying; no retry after the last one
+export const PAYMENT_RETRY_DAYS = [1, 3, 5];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+type BillingPeriod = { start: Date; end: Date };
+
+type LineItemInput = Omit<Prisma.InvoiceLineItemCreateManyInput, 'userId' | 'invoiceId'>;
+
+export type InvoiceWithLineItems = Invoice & { lineItems: InvoiceLineItem[] };
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function generateInvoiceNumber(periodStart: Date): string {
+  const month = `${periodStart.getUTCFullYear()}${String(periodStart.getUTCMonth() + 1).padStart(2, '0')}`;
+  return `INV-${month}-${randomBytes(4).toString('hex').toUpperCase()}`;
+}
+
+function planLineItem(
+  plan: BillingPlan,
+  billingCycle: BillingCycle,
+  start: Date,
+  end: Date,
+  period: BillingPeriod
+): LineItemInput {
+  const fee = getPlanMonthlyFee(plan, billingCycle);
+  const fraction = (end.getTime() - start.getTime()) / (period.end.getTime() - period.start.getTime());
+  const prorated = start > period.start || end < period.end;
+
+  return {
+    type: InvoiceLineItemType.PLAN,
+    description: prorated
+      ? `${plan} plan, ${billingCycle.toLowerCase()} (prorated ${formatDay(start)} to ${formatDay(new Date(end.getTime() - 1))})`
+      : `${plan} plan, ${billingCycle.toLowerCase()}`,
+    quantity: Math.round(fraction * 10000) / 10000,
+    unitAmount: fee,
+    amount: Math.round(fee * fraction),
+    periodStart: start,
+    periodEnd: end,
+  };
+}
+
+// Plan time already covered by pending items (from plan changes) is not charged again
+async function getPlanSegmentStart(userId: string, period: BillingPeriod, billingCreatedAt: Date): Promise<Date> {
+  const latest = await db.invoiceLineItem.findFirst({
+    where: {
+      userId,
+      invoiceId: null,
+      type: InvoiceLineItemType.PLAN,
+      periodEnd: { gt: period.start, lte: period.end },
+    },
+    orderBy: { periodEnd: 'desc' },
+  });
+
+  const candidates = [period.start, billingCreatedAt, latest?.periodEnd].filter((date): date is Date => !!date);
+  return new Date(Math.max(...candidates.map(date => date.getTime())));
+}
+
+/**
+ * Record the plan time used before a plan or billing cycle change as a pending
+ * line item, so the period's invoice charges each plan for the part of the
+ * period it was active.
+ */
+export async function recordPlanChange(
+  userId: string,
+  previous: { plan: BillingPlan; billingCycle: BillingCycle; createdAt: Date },
+  changedAt = new Date()
+) {
+  const period = getBillingPeriod(changedAt);
+  const start = await getPlanSegmentStart(userId, period, previous.createdAt);
+
+  if (start >= changedAt) {
+    return null;
+  }
+
+  return db.invoiceLineItem.create({
+    data: { userId, ...planLineItem(previous.plan, previous.billingCycle, start, changedAt, period) },
+  });
+}
+
+/**
+ * Overage beyond the plan's allowance for bandwidth (summed), storage (average
+ * GB over the month) and the compute of running apps (unit-hours spread over
+ * the whole period, so an app that ran half the month counts half).
+ */
+async function usageLineItems(userId: string, plan: BillingPlan, period: BillingPeriod): Promise<LineItemInput[]> {
+  const usage = await getUsageAggregates(userId, period.start, period.end);
+  const limits = PLAN_LIMITS[plan];
+  const includedResources = PLAN_INCLUDED_RESOURCES[plan];
+  const periodHours = (period.end.getTime() - period.start.getTime()) / HOUR;
+
+  const metered = [
+    { metric: 'bandwidth_gb', label: 'Bandwidth', used: usage.bandwidth_gb.total, included: limits.maxBandwidth, unit: 'GB', unitAmount: USAGE_PRICES.bandwidth_gb },
+    { metric: 'storage_gb', label: 'Snapshot and backup storage', used: usage.storage_gb.average, included: limits.maxStorage, unit: 'GB-month', unitAmount: USAGE_PRICES.storage_gb },
+    { metric: 'cpu_cores', label: 'vCPU', used: usage.cpu_cores.total / periodHours, included: includedResources.cpu_cores, unit: 'vCPU-month', unitAmount: RESOURCE_PRICES.cpu_cores },
+    { metric: 'memory_gb', label: 'Memory', used: usage.memory_gb.total / periodHours, included: includedResources.memory_gb, unit: 'GB-month', unitAmount: RESOURCE_PRICES.memory_gb },
+    { metric: 'disk_gb', label: 'VM disk', used: usage.disk_gb.total / periodHours, included: includedResources.disk_gb, unit: 'GB-month', unitAmount: RESOURCE_PRICES.disk_gb },
+  ];
+
+  return metered.map(({ metric, label, used, included, unit, unitAmount }) => {
+    const overage = included === -1 ? 0 : Math.max(0, used - included);
+    const quantity = Math.round(overage * 100) / 100;
+
+    return {
+      type: InvoiceLineItemType.USAGE,
+      metric,
+      description: `${label}: ${used.toFixed(2)} ${unit} used, ${included === -1 ? 'unlimited' : `${included} ${unit}`} included`,
+      quantity,
+      unitAmount,
+      amount: Math.round(quantity * unitAmount),
+      periodStart: period.start,
+      periodEnd: period.end,
+    };
+  });
+}
+
+// What a period's invoice would hold if it were closed now
+async function getPeriodCharges(
+  userId: string,
+  billing: { plan: BillingPlan; billingCycle: BillingCycle; createdAt: Date },
+  period: BillingPeriod
+) {
+  const pending = await db.invoiceLineItem.findMany({
+    where: { userId, invoiceId: null, periodStart: { lt: period.end } },
+    select: { id: true, amount: true },
+  });
+
+  const segmentStart = await getPlanSegmentStart(userId, period, billing.createdAt);
+  const lineItems: LineItemInput[] = [];
+  if (segmentStart < period.end) {
+    lineItems.push(planLineItem(billing.plan, billing.billingCycle, segmentStart, period.end, period));
+  }
+  lineItems.push(...await usageLineItems(userId, billing.plan, period));
+
+  const subtotal = [...pending, ...lineItems].reduce((sum, item) => sum + item.amount, 0);
+  return { pending, lineItems, subtotal };
+}
+
+/**
+ * Spend so far in a period, in cents: the plan fee and plan changes already
+ * committed to plus usage overage up to now.
+ */
+export async function getPeriodSpend(userId: string, period: BillingPeriod): Promise<number> {
+  const billing = await db.billingInfo.findUnique({ where: { userId } });
+  if (!billing) {
+    return 0;
+  }
+
+  const { subtotal } = await getPeriodCharges(userId, billing, period);
+  return subtotal;
+}
+
+/**
+ * Close one billing period for a user: charge the current plan for the part of
+ * the period not covered by pending plan items, add usage overage, attach the
+ * pending items and try to collect payment. Returns the existing invoice if the
+ * period was already closed.
+ */
+export async function closeBillingPeriod(userId: string, period: BillingPeriod): Promise<InvoiceWithLineItems | null> {
+  const existing = await db.invoice.findUnique({
+    where: { userId_periodStart: { userId, periodStart: period.start } },
+    include: { lineItems: true },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const billing = await db.billingInfo.findUnique({ where: { userId } });
+  if (!billing || billing.createdAt >= period.end) {
+    return null;
+  }
+
+  const { pending, lineItems, subtotal } = await getPeriodCharges(userId, billing, period);
+
+  const invoice = await db.invoice.create({
+    data: {
+      number: generateInvoiceNumber(period.start),
+      userId,
+      plan: billing.plan,
+      billingCycle: billing.billingCycle,
+      currency: INVOICE_CURRENCY,
+      periodStart: period.start,
+      periodEnd: period.end,
+      subtotal,
+      total: subtotal,
+      dueAt: new Date(Date.now() + INVOICE_PAYMENT_TERMS * DAY),
+      ...(subtotal <= 0 ? { status: InvoiceStatus.PAID, paidAt: new Date() } : {}),
+      lineItems: {
+        create: lineItems.map(item => ({ ...item, userId })),
+        connect: pending.map(item => ({ id: item.id })),
+      },
+    },
+    include: { lineItems: true },
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.INVOICE_CREATE,
+    resource: 'invoice',
+    resourceId: invoice.id,
+    details: `Invoice ${invoice.number} for ${formatDay(period.start)} to ${formatDay(new Date(period.end.getTime() - 1))}: ${invoice.total} ${invoice.currency}`,
+  });
+
+  if (invoice.status === InvoiceStatus.OPEN) {
+    return collectInvoicePayment(invoice.id);
+  }
+
+  return invoice;
+}
+
+// Close every finished period since each active account's last invoice
+export async function closeBillingPeriods(now = new Date()): Promise<InvoiceWithLineItems[]> {
+  const current = getBillingPeriod(now);
+  const accounts = await db.billingInfo.findMany({
+    where: { isActive: true },
+    select: { userId: true, createdAt: true },
+  });
+
+  const invoices: InvoiceWithLineItems[] = [];
+  for (const account of accounts) {
+    const latest = await db.invoice.findFirst({
+      where: { userId: account.userId },
+      orderBy: { periodStart: 'desc' },
+      select: { periodEnd: true },
+    });
+
+    let period = getBillingPeriod(latest ? latest.periodEnd : account.createdAt);
+    while (period.end <= current.start) {
+      try {
+        const invoice = await closeBillingPeriod(account.userId, period);
+        if (invoice) {
+          invoices.push(invoice);
+        }
+      } catch (error) {
+        console.error(`Failed to close billing period ${formatDay(period.start)} for ${account.userId}:`, error);
+        break;
+      }
+      period = getBillingPeriod(period.end);
+    }
+  }
+
+  return invoices;
+}
+
+// Invoice owners and admins may read an invoice
+export async function getInvoiceForUser(invoiceId: string, user: { id: string; role: UserRole }) {
+  const invoice = await db.invoice.findUnique({
+    where: { id: invoiceId },
+    include: { lineItems: true, user: { select: { email: true, name: true } } },
+  });
+
+  if (!invoice || (invoice.userId !== user.id && !await hasGlobalPermission(user, 'billing:read'))) {
+    return null;
+  }
+
+  return invoice;
+}
+
+export async function ensurePaymentCustomer(userId: string): Promise<string> {
+  const billing = await db.billingInfo.findUnique({
+    where: { userId },
+    include: { user: { select: { email: true, name: true } } },
+  });
+
+  if (!billing) {
+    throw new Error(`No billing information for user ${userId}`);
+  }
+
+  // stripeCustomerId holds the customer id of whichever provider is configured
+  if (billing.stripeCustomerId) {
+    return billing.stripeCustomerId;
+  }
+
+  const customer = await getPaymentProvider().createCustomer({
+    userId,
+    email: billing.user.email,
+    name: billing.user.name,
+  });
+
+  await db.billingInfo.update({
+    where: { userId },
+    data: { stripeCustomerId: customer.id },
+  });
+
+  return customer.id;
+}
+
+function nextPaymentAttempt(attempt: number): Date | null {
+  const days = PAYMENT_RETRY_DAYS[attempt - 1];
+  return days === undefined ? null : new Date(Date.now() + days * DAY);
+}
+
+/**
+ * Charge the unpaid balance of an open invoice. Each attempt uses its own
+ * idempotency key, so a retried request never charges twice for one attempt.
+ */
+export async function collectInvoicePayment(invoiceId: string): Promise<InvoiceWithLineItems> {
+  const invoice = await db.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: { lineItems: true },
+  });
+
+  if (invoice.status !== InvoiceStatus.OPEN) {
+    return invoice;
+  }
+
+  const attempt = invoice.paymentAttempts + 1;
+  const provider = getPaymentProvider();
+  let update: Prisma.InvoiceUpdateInput;
+
+  try {
+    const customerId = await ensurePaymentCustomer(invoice.userId);
+    const result = await provider.charge({
+      customerId,
+      amount: invoice.total - invoice.amountPaid,
+      currency: invoice.currency,
+      description: `LimaHost invoice ${invoice.number}`,
+      idempotencyKey: `${invoice.id}:${attempt}`,
+      metadata: { invoiceId: invoice.id, userId: invoice.userId },
+    });
+
+    update = result.status === 'succeeded'
+      ? {
+        status: InvoiceStatus.PAID,
+        amountPaid: invoice.total,
+        paidAt: new Date(),
+        providerPaymentId: result.id,
+        paymentError: null,
+        nextPaymentAttemptAt: null,
+      }
+      : {
+        providerPaymentId: result.id,
+        paymentError: result.failureReason || 'Payment failed',
+        nextPaymentAttemptAt: nextPaymentAttempt(attempt),
+      };
+  } catch (error) {
+    update = {
+      paymentError: error instanceof Error ? error.message : 'Payment failed',
+      nextPaymentAttemptAt: nextPaymentAttempt(attempt),
+    };
+  }
+
+  const updated = await db.invoice.update({
+    where: { id: invoice.id },
+    data: { ...update, paymentAttempts: attempt },
+    include: { lineItems: true },
+  });
+
+  await createAuditLog({
+    userId: invoice.userId,
+    action: AuditActions.INVOICE_PAYMENT,
+    resource: 'invoice',
+    resourceId: invoice.id,
+    details: JSON.stringify({
+      provider: provider.name,
+      attempt,
+      status: updated.status === InvoiceStatus.PAID ? 'succeeded' : 'failed',
+      error: updated.paymentError,
+    }),
+  });
+
+  return updated;
+}
+
+// Payment collected outside collectInvoicePayment(), as reported by a provider webhook
+export async function markInvoicePaid(invoiceId: string, providerPaymentId?: string) {
+  const invoice = await db.invoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice || invoice.status !== InvoiceStatus.OPEN) {
+    return invoice;
+  }
+
+  return db.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      status: InvoiceStatus.PAID,
+      amountPaid: invoice.total,
+      paidAt: new Date(),
+      providerPaymentId: providerPaymentId ?? invoice.providerPaymentId,
+      paymentError: null,
+      nextPaymentAttemptAt: null,
+    },
+  });
+}
+
+let invoicingTimer: NodeJS.Timeout | null = null;
+
+export function startInvoicing() {
+  if (invoicingTimer) {
+    return;
+  }
+
+  const run = () => {
+    closeBillingPeriods().catch((error) => {
+      console.error('Invoicing run failed:', error);
+    });
+  };
+
+  run();
+  invoicingTimer = setInterval(run, INVOICING_INTERVAL);
+}
+
+export function serializeInvoice(invoice: InvoiceWithLineItems) {
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    status: invoice.status,
+    plan: invoice.plan,
+    billingCycle: invoice.billingCycle,
+    currency: invoice.currency,
+    periodStart: invoice.periodStart.toISOString(),
+    periodEnd: invoice.periodEnd.toISOString(),
+    subtotal: invoice.subtotal,
+    total: invoice.total,
+    amountPaid: invoice.amountPaid,
+    amountDue: invoice.total - invoice.amountPaid,
+    dueAt: invoice.dueAt.toISOString(),
+    paidAt: invoice.paidAt?.toISOString() ?? null,
+    paymentAttempts: invoice.paymentAttempts,
+    paymentError: invoice.paymentError,
+    nextPaymentAttemptAt: invoice.nextPaymentAttemptAt?.toISOString() ?? null,
+    createdAt: invoice.createdAt.toISOString(),
+    lineItems: [...invoice.lineItems]
+      .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime() || a.type.localeCompare(b.type))
+      .map(item => ({
+        id: item.id,
+        type: item.type,
+        description: item.description,
+        metric: item.metric,
+        quantity: item.quantity,
+        unitAmount: item.unitAmount,
+        amount: item.amount,
+        periodStart: item.periodStart.toISOString(),
+        periodEnd: item.periodEnd.toISOString(),
+      })),
+  };
+}
+
+export type SerializedInvoice = ReturnType<typeof serializeInvoice>;
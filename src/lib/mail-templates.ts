@@ -0,0 +1,159 @@
+// Each template renders the same content as plain text and as HTML
+import type { MailMessage } from './mail';
+
+type MailContent = Omit<MailMessage, 'to'>;
+
+interface Layout {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footer?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function render({ subject, heading, paragraphs, action, footer }: Layout): MailContent {
+  const text = [
+    heading,
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    ...(footer ? [`--\n${footer}`] : []),
+  ].join('\n\n');
+
+  const html = `<!doctype html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f6fb;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#111827">
+<div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+<p style="margin:0 0 24px;font-weight:700;color:#2563eb">LimaHost</p>
+<h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(heading)}</h1>
+${paragraphs.map((paragraph) => `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(paragraph)}</p>`).join('\n')}
+${action ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#2563eb;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none">${escapeHtml(action.label)}</a></p>
+<p style="margin:0 0 16px;font-size:12px;color:#6b7280;word-break:break-all">${escapeHtml(action.url)}</p>` : ''}
+${footer ? `<p style="margin:24px 0 0;font-size:12px;color:#6b7280">${escapeHtml(footer)}</p>` : ''}
+</div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+const NOT_YOU = 'If this was not you, reset your password and review your signed-in devices on the Security page.';
+
+function describeDevice(details: { device?: string; ipAddress?: string }): string {
+  return [details.device, details.ipAddress && `from ${details.ipAddress}`].filter(Boolean).join(' ') || 'an unknown device';
+}
+
+export function verifyEmailTemplate(params: { name?: string | null; url: string; expiresInHours: number }) {
+  return render({
+    subject: 'Verify your email address',
+    heading: `Welcome${params.name ? `, ${params.name}` : ''}`,
+    paragraphs: [
+      'Confirm this is your email address to finish setting up your LimaHost account. Until then your account is read-only.',
+      `The link works once and expires in ${params.expiresInHours} hours.`,
+    ],
+    action: { label: 'Verify email address', url: params.url },
+    footer: 'If you did not sign up, you can ignore this message.',
+  });
+}
+
+export function passwordResetTemplate(params: { url: string; expiresInMinutes: number }) {
+  return render({
+    subject: 'Reset your password',
+    heading: 'Reset your password',
+    paragraphs: [
+      'Someone asked to reset the password of your LimaHost account. Choose a new password with the link below.',
+      `The link works once and expires in ${params.expiresInMinutes} minutes. Resetting signs you out everywhere.`,
+    ],
+    action: { label: 'Choose a new password', url: params.url },
+    footer: 'If you did not ask for this, you can ignore this message; your password stays the same.',
+  });
+}
+
+export function emailChangeTemplate(params: { newEmail: string; url: string; expiresInHours: number }) {
+  return render({
+    subject: 'Confirm your new email address',
+    heading: 'Confirm your new email address',
+    paragraphs: [
+      `Confirm that ${params.newEmail} should become the email address of your LimaHost account.`,
+      `The link works once and expires in ${params.expiresInHours} hours.`,
+    ],
+    action: { label: 'Confirm email address', url: params.url },
+    footer: 'If you did not ask for this, you can ignore this message.',
+  });
+}
+
+export function emailChangeRequestedTemplate(params: { newEmail: string }) {
+  return render({
+    subject: 'Your email address is being changed',
+    heading: 'Your email address is being changed',
+    paragraphs: [
+      `Someone asked to change the email address of your LimaHost account to ${params.newEmail}. It changes once the new address is confirmed.`,
+    ],
+    footer: NOT_YOU,
+  });
+}
+
+export function emailChangedTemplate(params: { newEmail: string }) {
+  return render({
+    subject: 'Your email address was changed',
+    heading: 'Your email address was changed',
+    paragraphs: [
+      `Your LimaHost account now uses ${params.newEmail}. Mail about your account goes there from now on.`,
+    ],
+    footer: NOT_YOU,
+  });
+}
+
+export function newLoginTemplate(params: { device?: string; ipAddress?: string; at: Date; url: string }) {
+  return render({
+    subject: 'New sign-in to your account',
+    heading: 'New sign-in to your account',
+    paragraphs: [
+      `Your LimaHost account was signed in to on ${describeDevice(params)} at ${params.at.toUTCString()}.`,
+      'You get this message the first time a device signs in.',
+    ],
+    action: { label: 'Review signed-in devices', url: params.url },
+    footer: NOT_YOU,
+  });
+}
+
+export function securityChangeTemplate(params: { change: string; device?: string; ipAddress?: string; at: Date; url: string }) {
+  return render({
+    subject: `Security change: ${params.change}`,
+    heading: params.change,
+    paragraphs: [
+      `This change was made to your LimaHost account on ${describeDevice(params)} at ${params.at.toUTCString()}.`,
+    ],
+    action: { label: 'Review security settings', url: params.url },
+    footer: NOT_YOU,
+  });
+}
+
+export function organizationInvitationTemplate(params: { organization: string; inviter: string; role: string; url: string; expiresInDays: number }) {
+  return render({
+    subject: `Join ${params.organization} on LimaHost`,
+    heading: `Join ${params.organization}`,
+    paragraphs: [
+      `${params.inviter} invited you to the ${params.organization} organization on LimaHost as ${params.role.toLowerCase()}.`,
+      `Sign in or create an account with this email address, then accept. The invitation expires in ${params.expiresInDays} days.`,
+    ],
+    action: { label: 'Accept invitation', url: params.url },
+  });
+}
+
+export function budgetAlertTemplate(params: { budget: string; threshold: number; usage: string; limit: string; hardCap: boolean; url: string }) {
+  return render({
+    subject: `Budget "${params.budget}" reached ${params.threshold}%`,
+    heading: `Budget "${params.budget}" reached ${params.threshold}%`,
+    paragraphs: [
+      `Usage this period is ${params.usage} of ${params.limit}.`,
+      ...(params.hardCap && params.threshold >= 100
+        ? ['This budget has a hard cap, so the running non-production apps it covers are stopped until the next period, or until the budget is raised or deleted.']
+        : []),
+    ],
+    action: { label: 'View budgets', url: params.url },
+  });
+}
@@ -0,0 +1,133 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Where mail goes. Everything that sends mail goes through sendMail(), so the
+ * transport can change without touching the flows that use it.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export class MailTransportError extends Error {
+  constructor(public code: 'UNKNOWN_TRANSPORT' | 'MISCONFIGURED', message: string) {
+    super(message);
+    this.name = 'MailTransportError';
+  }
+}
+
+// Builds the raw message without sending it, for the transports that only keep mail locally
+const rawMessageBuilder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+async function buildRawMessage(message: MailMessage & { from: string }): Promise<Buffer> {
+  const info = await rawMessageBuilder.sendMail(message);
+  return info.message as Buffer;
+}
+
+/**
+ * Prints each message's text to the console. The default, so local setups
+ * show verification and reset links without any configuration.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+  readonly sent: (MailMessage & { from: string })[] = [];
+
+  async send(message: MailMessage & { from: string }) {
+    this.sent.push(message);
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}\n`);
+  }
+}
+
+// Writes each message as an .eml file, which mail clients open as they would have received it
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory = process.env.MAIL_DIR || 'mail') {}
+
+  async send(message: MailMessage & { from: string }) {
+    await mkdir(this.directory, { recursive: true });
+
+    const recipient = message.to.replace(/[^a-z0-9@.-]/gi, '_');
+    const file = path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`);
+    await writeFile(file, await buildRawMessage(message));
+  }
+}
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      throw new MailTransportError('MISCONFIGURED', 'SMTP_HOST is not set');
+    }
+
+    const port = Number(process.env.SMTP_PORT || 587);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465, // other ports upgrade with STARTTLS
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }) {
+    await this.transporter.sendMail(message);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// MAIL_TRANSPORT selects the implementation: `console` (default), `file` or `smtp`
+export function getMailTransport(): MailTransport {
+  if (transport) {
+    return transport;
+  }
+
+  const name = process.env.MAIL_TRANSPORT || 'console';
+  switch (name) {
+    case 'console':
+      transport = new ConsoleMailTransport();
+      return transport;
+    case 'file':
+      transport = new FileMailTransport();
+      return transport;
+    case 'smtp':
+      transport = new SmtpMailTransport();
+      return transport;
+    default:
+      throw new MailTransportError('UNKNOWN_TRANSPORT', `Unknown mail transport: ${name}`);
+  }
+}
+
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+// Links in mail point here; APP_URL must be the address users reach the dashboard on
+export function appUrl(pathname: string): string {
+  return `${(process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '')}${pathname}`;
+}
+
+/**
+ * Send a message, returning whether it went out. Failures are logged rather
+ * than thrown, so a mail outage never fails the action that sent the mail.
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await getMailTransport().send({ ...message, from: process.env.EMAIL_FROM || 'noreply@limahost.com' });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send mail to ${message.to}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,367 @@
+import { db } from './db';
+import { AppStatus, UsageGranularity } from '@prisma/client';
+import { parseAppConfig } from './apps';
+
+export type MetricKind = 'gauge' | 'counter';
+
+export interface MetricDefinition {
+  kind: MetricKind;
+  unit: string;
+}
+
+// Gauges are sampled levels and are averaged over a window; counters are amounts and are summed
+export const USAGE_METRICS = {
+  app_count: { kind: 'gauge', unit: 'apps' },
+  cpu_cores: { kind: 'gauge', unit: 'cores' },
+  memory_gb: { kind: 'gauge', unit: 'GB' },
+  disk_gb: { kind: 'gauge', unit: 'GB' },
+  storage_gb: { kind: 'gauge', unit: 'GB' },
+  bandwidth_gb: { kind: 'counter', unit: 'GB' },
+} satisfies Record<string, MetricDefinition>;
+
+export type UsageMetric = keyof typeof USAGE_METRICS;
+
+export const USAGE_METRIC_NAMES = Object.keys(USAGE_METRICS) as [UsageMetric, ...UsageMetric[]];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const GRANULARITY_MS: Record<UsageGranularity, number> = {
+  [UsageGranularity.HOURLY]: HOUR,
+  [UsageGranularity.DAILY]: DAY,
+};
+
+// How long each tier is kept; queries older than the hourly retention fall back to daily rollups
+export const USAGE_RETENTION = {
+  raw: 7 * DAY,
+  [UsageGranularity.HOURLY]: 90 * DAY,
+  [UsageGranularity.DAILY]: 2 * 365 * DAY,
+};
+
+export const METERING_INTERVAL = 5 * 60 * 1000;
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+// VMs of apps in these states hold their CPU and memory
+export const PROVISIONED_STATUSES: AppStatus[] = [AppStatus.DEPLOYING, AppStatus.RUNNING];
+
+export interface MetricAggregate {
+  metric: UsageMetric;
+  kind: MetricKind;
+  unit: string;
+  average: number; // gauges: mean over the periods that have samples, weighted by how much of each was covered
+  peak: number; // gauges: highest per-period total while sampled
+  total: number; // counters: sum over the window; gauges: unit-hours, e.g. core-hours
+}
+
+export type UsageAggregates = Record<UsageMetric, MetricAggregate>;
+
+export function isUsageMetric(metric: string): metric is UsageMetric {
+  return Object.prototype.hasOwnProperty.call(USAGE_METRICS, metric);
+}
+
+// Periods are aligned to UTC so hourly rollups add up to daily ones
+export function startOfPeriod(date: Date, granularity: UsageGranularity): Date {
+  const size = GRANULARITY_MS[granularity];
+  return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+// Bandwidth and invoices are metered per UTC calendar month
+export function getBillingPeriod(date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Record one gauge sample per user and app: app count, the CPU, memory and disk
+ * of provisioned VMs, and the storage held by snapshots and backups.
+ */
+export async function sampleUsageGauges(now = new Date()) {
+  const apps = await db.app.findMany({
+    where: { status: { not: AppStatus.DELETING } },
+    select: {
+      id: true,
+      userId: true,
+      status: true,
+      config: true,
+      snapshots: { select: { size: true } },
+      backups: { select: { size: true } },
+    },
+  });
+
+  const appCounts = new Map<string, number>();
+  const samples: { userId: string; appId?: string; metric: UsageMetric; value: number; unit: string; recordedAt: Date }[] = [];
+  const sample = (userId: string, appId: string | undefined, metric: UsageMetric, value: number) => {
+    samples.push({ userId, appId, metric, value, unit: USAGE_METRICS[metric].unit, recordedAt: now });
+  };
+
+  for (const app of apps) {
+    appCounts.set(app.userId, (appCounts.get(app.userId) ?? 0) + 1);
+
+    const storedBytes = [...app.snapshots, ...app.backups].reduce((total, item) => total + item.size, 0);
+    sample(app.userId, app.id, 'storage_gb', storedBytes / BYTES_PER_GB);
+
+    if (!PROVISIONED_STATUSES.includes(app.status)) {
+      continue;
+    }
+
+    try {
+      const config = parseAppConfig(app);
+      sample(app.userId, app.id, 'cpu_cores', config.cpu);
+      sample(app.userId, app.id, 'memory_gb', config.memory);
+      sample(app.userId, app.id, 'disk_gb', config.disk);
+    } catch (error) {
+      console.error(`Failed to meter app ${app.id}:`, error);
+    }
+  }
+
+  for (const [userId, count] of appCounts) {
+    sample(userId, undefined, 'app_count', count);
+  }
+
+  if (samples.length > 0) {
+    await db.usageRecord.createMany({ data: samples });
+  }
+
+  return samples.length;
+}
+
+/**
+ * (Re)compute the rollups of one period. Hourly rollups are built from raw
+ * records and daily ones from hourly rollups, so running this again for the
+ * same period replaces its rows rather than adding to them.
+ */
+export async function rollupUsage(granularity: UsageGranularity, periodStart: Date) {
+  const start = startOfPeriod(periodStart, granularity);
+  const end = new Date(start.getTime() + GRANULARITY_MS[granularity]);
+
+  let rows: { userId: string; appId: string | null; metric: string; samples: number; sum: number; min: number; max: number }[];
+
+  if (granularity === UsageGranularity.HOURLY) {
+    const groups = await db.usageRecord.groupBy({
+      by: ['userId', 'appId', 'metric'],
+      where: { recordedAt: { gte: start, lt: end } },
+      _count: { _all: true },
+      _sum: { value: true },
+      _min: { value: true },
+      _max: { value: true },
+    });
+
+    rows = groups.map(group => ({
+      userId: group.userId,
+      appId: group.appId,
+      metric: group.metric,
+      samples: group._count._all,
+      sum: group._sum.value ?? 0,
+      min: group._min.value ?? 0,
+      max: group._max.value ?? 0,
+    }));
+  } else {
+    const groups = await db.usageRollup.groupBy({
+      by: ['userId', 'appId', 'metric'],
+      where: { granularity: UsageGranularity.HOURLY, periodStart: { gte: start, lt: end } },
+      _sum: { samples: true, sum: true },
+      _min: { min: true },
+      _max: { max: true },
+    });
+
+    rows = groups.map(group => ({
+      userId: group.userId,
+      appId: group.appId,
+      metric: group.metric,
+      samples: group._sum.samples ?? 0,
+      sum: group._sum.sum ?? 0,
+      min: group._min.min ?? 0,
+      max: group._max.max ?? 0,
+    }));
+  }
+
+  await db.$transaction([
+    db.usageRollup.deleteMany({ where: { granularity, periodStart: start } }),
+    db.usageRollup.createMany({
+      data: rows.map(row => ({ ...row, granularity, periodStart: start })),
+    }),
+  ]);
+
+  return rows.length;
+}
+
+export async function pruneUsage(now = new Date()) {
+  const before = (retention: number) => new Date(now.getTime() - retention);
+
+  await db.$transaction([
+    db.usageRecord.deleteMany({ where: { recordedAt: { lt: before(USAGE_RETENTION.raw) } } }),
+    db.usageRollup.deleteMany({
+      where: { granularity: UsageGranularity.HOURLY, periodStart: { lt: before(USAGE_RETENTION.HOURLY) } },
+    }),
+    db.usageRollup.deleteMany({
+      where: { granularity: UsageGranularity.DAILY, periodStart: { lt: before(USAGE_RETENTION.DAILY) } },
+    }),
+  ]);
+}
+
+export async function runMeteringCycle(now = new Date()) {
+  await sampleUsageGauges(now);
+
+  // The previous periods are rolled up again so samples recorded late in them are included
+  const hour = startOfPeriod(now, UsageGranularity.HOURLY);
+  const day = startOfPeriod(now, UsageGranularity.DAILY);
+  await rollupUsage(UsageGranularity.HOURLY, new Date(hour.getTime() - HOUR));
+  await rollupUsage(UsageGranularity.HOURLY, hour);
+  await rollupUsage(UsageGranularity.DAILY, new Date(day.getTime() - DAY));
+  await rollupUsage(UsageGranularity.DAILY, day);
+
+  await pruneUsage(now);
+}
+
+let meteringTimer: NodeJS.Timeout | null = null;
+
+export function startUsageMetering() {
+  if (meteringTimer) {
+    return;
+  }
+
+  const run = () => {
+    runMeteringCycle().catch((error) => {
+      console.error('Usage metering cycle failed:', error);
+    });
+  };
+
+  run();
+  meteringTimer = setInterval(run, METERING_INTERVAL);
+}
+
+// Daily rollups are used once the window reaches past what hourly rollups still cover
+export function pickGranularity(start: Date, now = new Date()): UsageGranularity {
+  return start.getTime() >= now.getTime() - USAGE_RETENTION.HOURLY
+    ? UsageGranularity.HOURLY
+    : UsageGranularity.DAILY;
+}
+
+// A null userId covers every account, for platform-wide totals
+export async function getUsageRollups(
+  userId: string | null,
+  start: Date,
+  end: Date,
+  options: { appId?: string; granularity?: UsageGranularity } = {}
+) {
+  const granularity = options.granularity ?? pickGranularity(start);
+
+  return db.usageRollup.findMany({
+    where: {
+      ...(userId ? { userId } : {}),
+      granularity,
+      periodStart: { gte: startOfPeriod(start, granularity), lt: end },
+      ...(options.appId ? { appId: options.appId } : {}),
+    },
+    orderBy: { periodStart: 'asc' },
+  });
+}
+
+/**
+ * A gauge's level over a whole period, from its rollup: what was sampled
+ * spread over every sample the period should have had, so an app seen in one
+ * five-minute sample counts for five minutes, not the full hour or day. Extra
+ * samples, e.g. from a restart running a cycle early, do not push it higher.
+ */
+export function gaugePeriodLevel(rollup: { sum: number; samples: number }, granularity: UsageGranularity): number {
+  const expected = GRANULARITY_MS[granularity] / METERING_INTERVAL;
+  return rollup.sum / Math.max(rollup.samples, expected);
+}
+
+/**
+ * Aggregate a user's usage over [start, end) from rollups, or the whole
+ * platform's for a null userId. Each rollup row is one app's level for its
+ * period, so a period's total for a gauge is the sum of its rows.
+ */
+export async function getUsageAggregates(
+  userId: string | null,
+  start: Date,
+  end: Date,
+  options: { appId?: string; granularity?: UsageGranularity } = {}
+): Promise<UsageAggregates> {
+  const granularity = options.granularity ?? pickGranularity(start);
+  const rollups = await getUsageRollups(userId, start, end, { ...options, granularity });
+  const periodHours = GRANULARITY_MS[granularity] / HOUR;
+
+  const periodTotals = new Map<UsageMetric, Map<number, number>>();
+  const periodPeaks = new Map<UsageMetric, Map<number, number>>();
+  const counterTotals = new Map<UsageMetric, number>();
+  const add = (map: Map<UsageMetric, Map<number, number>>, metric: UsageMetric, period: number, value: number) => {
+    const totals = map.get(metric) ?? new Map<number, number>();
+    totals.set(period, (totals.get(period) ?? 0) + value);
+    map.set(metric, totals);
+  };
+
+  for (const rollup of rollups) {
+    if (!isUsageMetric(rollup.metric) || rollup.samples === 0) {
+      continue;
+    }
+
+    if (USAGE_METRICS[rollup.metric].kind === 'counter') {
+      counterTotals.set(rollup.metric, (counterTotals.get(rollup.metric) ?? 0) + rollup.sum);
+      continue;
+    }
+
+    const period = rollup.periodStart.getTime();
+    add(periodTotals, rollup.metric, period, gaugePeriodLevel(rollup, granularity));
+    add(periodPeaks, rollup.metric, period, rollup.sum / rollup.samples);
+  }
+
+  const aggregates = {} as UsageAggregates;
+  for (const metric of USAGE_METRIC_NAMES) {
+    const { kind, unit } = USAGE_METRICS[metric];
+
+    if (kind === 'counter') {
+      const total = counterTotals.get(metric) ?? 0;
+      aggregates[metric] = { metric, kind, unit, average: total, peak: total, total };
+      continue;
+    }
+
+    const values = [...(periodTotals.get(metric)?.values() ?? [])];
+    const peaks = [...(periodPeaks.get(metric)?.values() ?? [])];
+    const sum = values.reduce((total, value) => total + value, 0);
+    aggregates[metric] = {
+      metric,
+      kind,
+      unit,
+      average: values.length > 0 ? sum / values.length : 0,
+      peak: peaks.length > 0 ? Math.max(...peaks) : 0,
+      total: sum * periodHours,
+    };
+  }
+
+  return aggregates;
+}
+
+// Current levels come from the latest hourly rollup, which the metering cycle keeps up to date
+export async function getCurrentUsage(userId: string) {
+  const latest = await db.usageRollup.findFirst({
+    where: { userId, granularity: UsageGranularity.HOURLY },
+    orderBy: { periodStart: 'desc' },
+    select: { periodStart: true },
+  });
+
+  const rows = latest
+    ? await db.usageRollup.findMany({
+      where: { userId, granularity: UsageGranularity.HOURLY, periodStart: latest.periodStart },
+    })
+    : [];
+
+  const totals: Partial<Record<UsageMetric, number>> = {};
+  const largestApp: Partial<Record<UsageMetric, number>> = {};
+
+  for (const row of rows) {
+    if (!isUsageMetric(row.metric) || row.samples === 0 || USAGE_METRICS[row.metric].kind !== 'gauge') {
+      continue;
+    }
+
+    const average = row.sum / row.samples;
+    totals[row.metric] = (totals[row.metric] ?? 0) + average;
+    largestApp[row.metric] = Math.max(largestApp[row.metric] ?? 0, average);
+  }
+
+  return { periodStart: latest?.periodStart ?? null, totals, largestApp };
+}
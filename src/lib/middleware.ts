@@ -1,13 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken, extractTokenFromHeader } from './auth';
-import { UserRole } from '@prisma/client';
+import { ApiToken, OrgRole, Session, UserRole } from '@prisma/client';
 import { db } from './db';
+import { ORGANIZATION_HEADER } from './active-organization';
+import { hasGlobalPermission, Permission } from './permissions';
+import { findActiveApiToken, isApiToken, parseApiTokenScopes, recordApiTokenUse } from './api-tokens';
+import { getRequestMetadata } from './audit';
+import { findActiveSession, isAllowedWhileImpersonating, touchSession } from './sessions';
+import { isEnrollmentPath, isTwoFactorRequired } from './two-factor';
+import { isAllowedWhileUnverified } from './account-emails';
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: {
     id: string;
     email: string;
     role: UserRole;
+    emailVerified: boolean;
+    scopes?: Permission[]; // set for API tokens, which only get these of the user's permissions
+  };
+  apiToken?: {
+    id: string;
+    name: string;
+  };
+  // Set for access tokens, which belong to a login session
+  session?: {
+    id: string;
+  };
+  // Set when an admin is acting as the user; their actions are audited against both
+  impersonator?: {
+    id: string;
+    email: string;
+  };
+  // Set when the request names an organization the user belongs to
+  organization?: {
+    id: string;
+    name: string;
+    role: OrgRole;
+    billingUserId: string;
   };
 }
 
@@ -18,32 +47,123 @@ export async function authenticate(request: NextRequest): Promise<AuthenticatedR
     return NextResponse.json({ error: 'No token provided' }, { status: 401 });
   }
 
-  const payload = verifyToken(token);
-  if (!payload) {
-    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  // API tokens and JWTs are both accepted as bearer tokens
+  let userId: string;
+  let apiToken: ApiToken | null = null;
+  let session: Session | null = null;
+  if (isApiToken(token)) {
+    apiToken = await findActiveApiToken(token);
+    if (!apiToken) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    userId = apiToken.userId;
+  } else {
+    const payload = verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    // A token outlives a logout unless its session is checked on every request
+    session = await findActiveSession(payload.sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session has ended' }, { status: 401 });
+    }
+    userId = payload.userId;
   }
 
   // Verify user exists and is active
   const user = await db.user.findUnique({
-    where: { id: payload.userId },
-    select: { id: true, email: true, role: true, isActive: true }
+    where: { id: userId },
+    select: { id: true, email: true, role: true, isActive: true, emailVerified: true, twoFactorEnabled: true }
   });
 
   if (!user || !user.isActive) {
     return NextResponse.json({ error: 'User not found or inactive' }, { status: 401 });
   }
 
+  if (session?.impersonatorId && !isAllowedWhileImpersonating(request.method, new URL(request.url).pathname)) {
+    return NextResponse.json(
+      { error: 'Not available while impersonating a user', code: 'IMPERSONATING' },
+      { status: 403 }
+    );
+  }
+
+  // Sessions of users who must use 2FA but have not enrolled can only reach enrollment
+  if (
+    session &&
+    !session.impersonatorId &&
+    !user.twoFactorEnabled &&
+    !isEnrollmentPath(new URL(request.url).pathname) &&
+    await isTwoFactorRequired(user)
+  ) {
+    return NextResponse.json(
+      { error: 'Two-factor authentication must be set up first', code: 'TWO_FACTOR_REQUIRED' },
+      { status: 403 }
+    );
+  }
+
+  if (!user.emailVerified && !isAllowedWhileUnverified(request.method, new URL(request.url).pathname)) {
+    return NextResponse.json(
+      { error: 'Verify your email address to make changes', code: 'EMAIL_NOT_VERIFIED' },
+      { status: 403 }
+    );
+  }
+
   const authenticatedRequest = request as AuthenticatedRequest;
   authenticatedRequest.user = {
     id: user.id,
     email: user.email,
-    role: user.role
+    role: user.role,
+    emailVerified: user.emailVerified
   };
 
+  if (apiToken) {
+    authenticatedRequest.user.scopes = parseApiTokenScopes(apiToken);
+    authenticatedRequest.apiToken = { id: apiToken.id, name: apiToken.name };
+    await recordApiTokenUse(apiToken, request, getRequestMetadata(request).ipAddress);
+  }
+
+  if (session) {
+    authenticatedRequest.session = { id: session.id };
+    await touchSession(session, getRequestMetadata(request).ipAddress);
+  }
+
+  if (session?.impersonatorId) {
+    const impersonator = await db.user.findUnique({
+      where: { id: session.impersonatorId },
+      select: { id: true, email: true, isActive: true }
+    });
+
+    // Deactivating the admin ends their impersonations too
+    if (!impersonator?.isActive) {
+      return NextResponse.json({ error: 'Session has ended' }, { status: 401 });
+    }
+
+    authenticatedRequest.impersonator = { id: impersonator.id, email: impersonator.email };
+  }
+
+  const organizationId = request.headers.get(ORGANIZATION_HEADER);
+  if (organizationId) {
+    const membership = await db.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId: user.id } },
+      select: { role: true, organization: { select: { id: true, name: true, billingUserId: true } } }
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Not a member of this organization' }, { status: 403 });
+    }
+
+    authenticatedRequest.organization = {
+      ...membership.organization,
+      role: membership.role
+    };
+  }
+
   return authenticatedRequest;
 }
 
-export function authorize(requiredRole: UserRole) {
+// Global permissions only; app routes check theirs through getAccessibleApp()
+export function authorize(permission: Permission) {
   return async (request: NextRequest): Promise<NextResponse | null> => {
     const authResult = await authenticate(request);
     
@@ -53,20 +173,10 @@ export function authorize(requiredRole: UserRole) {
 
     const authenticatedRequest = authResult as AuthenticatedRequest;
     
-    if (!hasPermission(authenticatedRequest.user!.role, requiredRole)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    if (!await hasGlobalPermission(authenticatedRequest.user!, permission)) {
+      return NextResponse.json({ error: 'Insufficient permissions', permission }, { status: 403 });
     }
 
     return null;
   };
 }
-
-function hasPermission(userRole: UserRole, requiredRole: UserRole): boolean {
-  const roleHierarchy = {
-    [UserRole.USER]: 0,
-    [UserRole.ADMIN]: 1,
-    [UserRole.SUPER_ADMIN]: 2,
-  };
-
-  return roleHierarchy[userRole] >= roleHierarchy[requiredRole];
-}
\ No newline at end of file
@@ -0,0 +1,425 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import { db } from './db';
+import { Invitation, Membership, Organization, OrgRole } from '@prisma/client';
+import type { AuthenticatedRequest } from './middleware';
+import { createAuditLog, AuditActions } from './audit';
+import { ORG_ROLE_PERMISSIONS, Permission } from './permissions';
+import { appUrl, sendMail } from './mail';
+import { organizationInvitationTemplate } from './mail-templates';
+
+// Higher ranks include everything lower ranks may do
+export const ORG_ROLE_RANK: Record<OrgRole, number> = {
+  [OrgRole.VIEWER]: 0,
+  [OrgRole.DEVELOPER]: 1,
+  [OrgRole.ADMIN]: 2,
+  [OrgRole.OWNER]: 3,
+};
+
+export const INVITATION_TTL_DAYS = 7;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type OrganizationErrorCode = 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'INVALID';
+
+export class OrganizationError extends Error {
+  constructor(public code: OrganizationErrorCode, message: string) {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND': return 404;
+      case 'FORBIDDEN': return 403;
+      case 'CONFLICT': return 409;
+      default: return 400;
+    }
+  }
+}
+
+export function organizationErrorResponse(error: OrganizationError) {
+  return NextResponse.json(
+    { success: false, error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+export function hasOrgRole(role: OrgRole, required: OrgRole): boolean {
+  return ORG_ROLE_RANK[role] >= ORG_ROLE_RANK[required];
+}
+
+/**
+ * The account whose plan, invoices and budgets a request acts on: the user's
+ * own, or in an organization the billing user's. Null when the member's role
+ * does not grant `permission`.
+ */
+export function getBillingAccountId(request: AuthenticatedRequest, permission: Permission = 'billing:read'): string | null {
+  const scopes = request.user!.scopes;
+  if (scopes && !scopes.includes(permission)) {
+    return null;
+  }
+  if (!request.organization) {
+    return request.user!.id;
+  }
+  return ORG_ROLE_PERMISSIONS[request.organization.role].includes(permission) ? request.organization.billingUserId : null;
+}
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Non-members get NOT_FOUND so organization ids cannot be probed
+export async function requireOrgRole(organizationId: string, userId: string, required: OrgRole): Promise<OrgRole> {
+  const membership = await db.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    select: { role: true },
+  });
+
+  if (!membership) {
+    throw new OrganizationError('NOT_FOUND', 'Organization not found');
+  }
+  if (!hasOrgRole(membership.role, required)) {
+    throw new OrganizationError('FORBIDDEN', `This requires the ${required} role or higher`);
+  }
+
+  return membership.role;
+}
+
+/**
+ * Settings, members, invitations and billing are managed from a login
+ * session. API tokens carry app scopes, none of which covers who belongs to
+ * an organization or what it enforces.
+ */
+export function assertNotApiToken(user: { scopes?: Permission[] }) {
+  if (user.scopes) {
+    throw new OrganizationError('FORBIDDEN', 'API tokens cannot manage organizations');
+  }
+}
+
+export function serializeOrganization(
+  organization: Organization & { _count?: { memberships: number; apps: number } },
+  role: OrgRole
+) {
+  return {
+    id: organization.id,
+    name: organization.name,
+    role,
+    billingUserId: organization.billingUserId,
+    requireTwoFactor: organization.requireTwoFactor,
+    memberCount: organization._count?.memberships,
+    appCount: organization._count?.apps,
+    createdAt: organization.createdAt.toISOString(),
+  };
+}
+
+export function serializeMembership(membership: Membership & { user: { id: string; email: string; name: string | null } }) {
+  return {
+    userId: membership.userId,
+    email: membership.user.email,
+    name: membership.user.name,
+    role: membership.role,
+    joinedAt: membership.createdAt.toISOString(),
+  };
+}
+
+export function serializeInvitation(invitation: Invitation) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expiresAt.toISOString(),
+    acceptedAt: invitation.acceptedAt?.toISOString() ?? null,
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
+
+export async function listOrganizations(userId: string) {
+  const memberships = await db.membership.findMany({
+    where: { userId },
+    include: { organization: { include: { _count: { select: { memberships: true, apps: true } } } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return memberships.map(membership => serializeOrganization(membership.organization, membership.role));
+}
+
+// The creator becomes the first owner and the organization's billing user
+export async function createOrganization(userId: string, name: string) {
+  const organization = await db.organization.create({
+    data: {
+      name,
+      billingUserId: userId,
+      memberships: { create: { userId, role: OrgRole.OWNER } },
+    },
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.ORG_CREATE,
+    resource: 'organization',
+    resourceId: organization.id,
+    details: `Created organization ${name}`,
+  });
+
+  return organization;
+}
+
+export async function deleteOrganization(organizationId: string, actorId: string) {
+  await requireOrgRole(organizationId, actorId, OrgRole.OWNER);
+
+  const apps = await db.app.count({ where: { organizationId } });
+  if (apps > 0) {
+    throw new OrganizationError('CONFLICT', `Delete or move the organization's ${apps} app(s) first`);
+  }
+
+  const organization = await db.organization.delete({ where: { id: organizationId } });
+
+  await createAuditLog({
+    userId: actorId,
+    action: AuditActions.ORG_DELETE,
+    resource: 'organization',
+    resourceId: organizationId,
+    details: `Deleted organization ${organization.name}`,
+  });
+}
+
+async function countOwners(organizationId: string): Promise<number> {
+  return db.membership.count({ where: { organizationId, role: OrgRole.OWNER } });
+}
+
+export async function updateMemberRole(organizationId: string, actorId: string, userId: string, role: OrgRole) {
+  const actorRole = await requireOrgRole(organizationId, actorId, OrgRole.ADMIN);
+  const [membership, organization] = await Promise.all([
+    db.membership.findUnique({ where: { organizationId_userId: { organizationId, userId } } }),
+    db.organization.findUniqueOrThrow({ where: { id: organizationId } }),
+  ]);
+
+  if (!membership) {
+    throw new OrganizationError('NOT_FOUND', 'Member not found');
+  }
+  if ((membership.role === OrgRole.OWNER || role === OrgRole.OWNER) && actorRole !== OrgRole.OWNER) {
+    throw new OrganizationError('FORBIDDEN', 'Only owners can grant or change the owner role');
+  }
+  if (membership.role === OrgRole.OWNER && role !== OrgRole.OWNER) {
+    if (organization.billingUserId === userId) {
+      throw new OrganizationError('CONFLICT', 'Move billing to another owner before changing this role');
+    }
+    if (await countOwners(organizationId) === 1) {
+      throw new OrganizationError('CONFLICT', 'An organization needs at least one owner');
+    }
+  }
+
+  const updated = await db.membership.update({
+    where: { id: membership.id },
+    data: { role },
+  });
+
+  await createAuditLog({
+    userId: actorId,
+    action: AuditActions.ORG_MEMBER_UPDATE,
+    resource: 'organization',
+    resourceId: organizationId,
+    details: `Changed role of user ${userId} from ${membership.role} to ${role}`,
+  });
+
+  return updated;
+}
+
+// Members may always leave; removing someone else takes an admin, or an owner for owners
+export async function removeMember(organizationId: string, actorId: string, userId: string) {
+  const actorRole = await requireOrgRole(organizationId, actorId, actorId === userId ? OrgRole.VIEWER : OrgRole.ADMIN);
+  const [membership, organization] = await Promise.all([
+    db.membership.findUnique({ where: { organizationId_userId: { organizationId, userId } } }),
+    db.organization.findUniqueOrThrow({ where: { id: organizationId } }),
+  ]);
+
+  if (!membership) {
+    throw new OrganizationError('NOT_FOUND', 'Member not found');
+  }
+  if (membership.role === OrgRole.OWNER && actorId !== userId && actorRole !== OrgRole.OWNER) {
+    throw new OrganizationError('FORBIDDEN', 'Only owners can remove an owner');
+  }
+  if (organization.billingUserId === userId) {
+    throw new OrganizationError('CONFLICT', 'Move billing to another owner before removing this member');
+  }
+  if (membership.role === OrgRole.OWNER && await countOwners(organizationId) === 1) {
+    throw new OrganizationError('CONFLICT', 'An organization needs at least one owner');
+  }
+
+  await db.membership.delete({ where: { id: membership.id } });
+
+  await createAuditLog({
+    userId: actorId,
+    action: AuditActions.ORG_MEMBER_REMOVE,
+    resource: 'organization',
+    resourceId: organizationId,
+    details: actorId === userId ? 'Left the organization' : `Removed user ${userId}`,
+  });
+}
+
+/**
+ * Point the organization's billing at another owner. Its apps, and budgets on
+ * them, move to that owner's account; invoices already issued stay where they are.
+ */
+export async function transferBilling(organizationId: string, actorId: string, billingUserId: string) {
+  await requireOrgRole(organizationId, actorId, OrgRole.OWNER);
+
+  const membership = await db.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId: billingUserId } },
+  });
+  if (membership?.role !== OrgRole.OWNER) {
+    throw new OrganizationError('INVALID', 'Billing can only move to an owner of the organization');
+  }
+
+  const organization = await db.$transaction(async (tx) => {
+    const apps = await tx.app.findMany({ where: { organizationId }, select: { id: true } });
+    const appIds = apps.map(app => app.id);
+
+    await tx.app.updateMany({ where: { organizationId }, data: { userId: billingUserId } });
+    await tx.budget.updateMany({ where: { appId: { in: appIds } }, data: { userId: billingUserId } });
+
+    return tx.organization.update({
+      where: { id: organizationId },
+      data: { billingUserId },
+    });
+  });
+
+  await createAuditLog({
+    userId: actorId,
+    action: AuditActions.ORG_BILLING_TRANSFER,
+    resource: 'organization',
+    resourceId: organizationId,
+    details: `Moved billing to user ${billingUserId}`,
+  });
+
+  return organization;
+}
+
+/**
+ * Invite an email address to the organization and email them the link. The
+ * returned token is only available here; it is stored hashed.
+ */
+export async function createInvitation(organizationId: string, actorId: string, email: string, role: OrgRole) {
+  const actorRole = await requireOrgRole(organizationId, actorId, OrgRole.ADMIN);
+  if (role === OrgRole.OWNER && actorRole !== OrgRole.OWNER) {
+    throw new OrganizationError('FORBIDDEN', 'Only owners can invite owners');
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  const existingMember = await db.membership.findFirst({
+    where: { organizationId, user: { email: normalizedEmail } },
+  });
+  if (existingMember) {
+    throw new OrganizationError('CONFLICT', `${normalizedEmail} is already a member`);
+  }
+
+  const token = randomBytes(32).toString('hex');
+
+  // A new invitation replaces any pending one for the same address
+  const [, invitation] = await db.$transaction([
+    db.invitation.deleteMany({ where: { organizationId, email: normalizedEmail, acceptedAt: null } }),
+    db.invitation.create({
+      data: {
+        organizationId,
+        email: normalizedEmail,
+        role,
+        tokenHash: hashInvitationToken(token),
+        invitedById: actorId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * DAY),
+      },
+    }),
+  ]);
+
+  await createAuditLog({
+    userId: actorId,
+    action: AuditActions.ORG_INVITE,
+    resource: 'organization',
+    resourceId: organizationId,
+    details: `Invited ${normalizedEmail} as ${role}`,
+  });
+
+  const [organization, inviter] = await Promise.all([
+    db.organization.findUniqueOrThrow({ where: { id: organizationId }, select: { name: true } }),
+    db.user.findUniqueOrThrow({ where: { id: actorId }, select: { name: true, email: true } }),
+  ]);
+
+  const emailed = await sendMail({
+    to: normalizedEmail,
+    ...organizationInvitationTemplate({
+      organization: organization.name,
+      inviter: inviter.name || inviter.email,
+      role,
+      url: appUrl(`/dashboard?invitation=${token}`),
+      expiresInDays: INVITATION_TTL_DAYS,
+    }),
+  });
+
+  return { invitation, token, emailed };
+}
+
+export async function revokeInvitation(organizationId: string, actorId: string, invitationId: string) {
+  await requireOrgRole(organizationId, actorId, OrgRole.ADMIN);
+
+  const invitation = await db.invitation.findFirst({
+    where: { id: invitationId, organizationId, acceptedAt: null },
+  });
+  if (!invitation) {
+    throw new OrganizationError('NOT_FOUND', 'Invitation not found');
+  }
+
+  await db.invitation.delete({ where: { id: invitation.id } });
+
+  await createAuditLog({
+    userId: actorId,
+    action: AuditActions.ORG_INVITE_REVOKE,
+    resource: 'organization',
+    resourceId: organizationId,
+    details: `Revoked the invitation of ${invitation.email}`,
+  });
+}
+
+// The invitation is bound to the address it was sent to
+export async function acceptInvitation(token: string, user: { id: string; email: string }) {
+  const invitation = await db.invitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+    include: { organization: true },
+  });
+
+  if (!invitation || invitation.acceptedAt) {
+    throw new OrganizationError('NOT_FOUND', 'Invitation not found');
+  }
+  if (invitation.expiresAt < new Date()) {
+    throw new OrganizationError('INVALID', 'This invitation has expired; ask for a new one');
+  }
+  if (invitation.email !== user.email.toLowerCase()) {
+    throw new OrganizationError('FORBIDDEN', 'This invitation was sent to another email address');
+  }
+
+  const existing = await db.membership.findUnique({
+    where: { organizationId_userId: { organizationId: invitation.organizationId, userId: user.id } },
+  });
+  if (existing) {
+    throw new OrganizationError('CONFLICT', 'You are already a member of this organization');
+  }
+
+  const [membership] = await db.$transaction([
+    db.membership.create({
+      data: { organizationId: invitation.organizationId, userId: user.id, role: invitation.role },
+    }),
+    db.invitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date() },
+    }),
+  ]);
+
+  await createAuditLog({
+    userId: user.id,
+    action: AuditActions.ORG_JOIN,
+    resource: 'organization',
+    resourceId: invitation.organizationId,
+    details: `Joined ${invitation.organization.name} as ${invitation.role}`,
+  });
+
+  return { membership, organization: invitation.organization };
+}
@@ -0,0 +1,207 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface PaymentCustomer {
+  id: string;
+}
+
+export interface ChargeRequest {
+  customerId: string;
+  amount: number; // in cents
+  currency: string;
+  description: string;
+  idempotencyKey: string; // retries with the same key return the original charge
+  metadata?: Record<string, string>;
+}
+
+export interface ChargeResult {
+  id: string;
+  status: 'succeeded' | 'failed';
+  failureReason?: string;
+}
+
+// Provider events, in the shape of Stripe's: the affected object sits in data.object
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  created: number; // unix seconds
+  data: { object: Record<string, any> };
+}
+
+/**
+ * Where payments are collected. Invoicing only talks to this interface, so a
+ * real processor can replace the fake one without touching src/lib/invoices.ts.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCustomer(params: { userId: string; email: string; name?: string | null }): Promise<PaymentCustomer>;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  // Throws a PaymentProviderError unless the payload is signed by the provider
+  verifyWebhook(payload: string, headers: Headers): WebhookEvent;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(
+    public code: 'UNKNOWN_PROVIDER' | 'UNKNOWN_CUSTOMER' | 'INVALID_REQUEST' | 'INVALID_SIGNATURE',
+    message: string
+  ) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+interface FakeCharge extends ChargeResult {
+  request: ChargeRequest;
+  createdAt: Date;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'webhook-signature';
+
+// Signatures older than this are rejected to limit replays
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Stripe-style signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<payload>">`.
+ */
+export function signWebhookPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function verifyWebhookSignature(payload: string, header: string | null, secret: string, now = Date.now()) {
+  if (!header) {
+    throw new PaymentProviderError('INVALID_SIGNATURE', `Missing ${WEBHOOK_SIGNATURE_HEADER} header`);
+  }
+
+  const parts = new Map<string, string[]>();
+  for (const part of header.split(',')) {
+    const [key, value] = part.split('=', 2).map(item => item.trim());
+    if (key && value) {
+      parts.set(key, [...(parts.get(key) ?? []), value]);
+    }
+  }
+
+  const timestamp = Number(parts.get('t')?.[0]);
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new PaymentProviderError('INVALID_SIGNATURE', 'Webhook timestamp is missing or outside the tolerance');
+  }
+
+  const expected = Buffer.from(signWebhookPayload(payload, secret, timestamp).split('v1=')[1], 'hex');
+  const valid = (parts.get('v1') ?? []).some((candidate) => {
+    const signature = Buffer.from(candidate, 'hex');
+    return signature.length === expected.length && timingSafeEqual(signature, expected);
+  });
+
+  if (!valid) {
+    throw new PaymentProviderError('INVALID_SIGNATURE', 'Webhook signature does not match');
+  }
+}
+
+/**
+ * Offline stand-in for a payment processor. Charges succeed unless the customer
+ * has been set to decline, either with declineCustomer() or by listing its id
+ * (or `all`) in FAKE_PAYMENT_DECLINE.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  readonly customers = new Map<string, { userId: string; email: string }>();
+  readonly charges = new Map<string, FakeCharge>();
+  private declined = new Map<string, string>();
+
+  constructor(
+    declineList = process.env.FAKE_PAYMENT_DECLINE || '',
+    private webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET || ''
+  ) {
+    for (const customerId of declineList.split(',').map(id => id.trim()).filter(Boolean)) {
+      this.declined.set(customerId, 'card_declined');
+    }
+  }
+
+  declineCustomer(customerId: string, reason = 'card_declined') {
+    this.declined.set(customerId, reason);
+  }
+
+  allowCustomer(customerId: string) {
+    this.declined.delete(customerId);
+  }
+
+  async createCustomer(params: { userId: string; email: string }): Promise<PaymentCustomer> {
+    const id = `cus_fake_${randomBytes(8).toString('hex')}`;
+    this.customers.set(id, { userId: params.userId, email: params.email });
+    return { id };
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    if (!Number.isInteger(request.amount) || request.amount <= 0) {
+      throw new PaymentProviderError('INVALID_REQUEST', `Invalid charge amount: ${request.amount}`);
+    }
+
+    const existing = this.charges.get(request.idempotencyKey);
+    if (existing) {
+      return { id: existing.id, status: existing.status, failureReason: existing.failureReason };
+    }
+
+    // Customers created by an earlier process are accepted, since nothing is persisted here
+    const failureReason = this.declined.get(request.customerId) ?? this.declined.get('all');
+    const charge: FakeCharge = {
+      id: `ch_fake_${randomBytes(8).toString('hex')}`,
+      status: failureReason ? 'failed' : 'succeeded',
+      failureReason,
+      request,
+      createdAt: new Date(),
+    };
+
+    this.charges.set(request.idempotencyKey, charge);
+    return { id: charge.id, status: charge.status, failureReason: charge.failureReason };
+  }
+
+  // Signs an event the way the provider would, to drive POST /api/billing/webhooks offline
+  signWebhook(payload: string, timestamp?: number): string {
+    if (!this.webhookSecret) {
+      throw new PaymentProviderError('INVALID_REQUEST', 'PAYMENT_WEBHOOK_SECRET is not set');
+    }
+    return signWebhookPayload(payload, this.webhookSecret, timestamp);
+  }
+
+  verifyWebhook(payload: string, headers: Headers): WebhookEvent {
+    if (!this.webhookSecret) {
+      throw new PaymentProviderError('INVALID_SIGNATURE', 'PAYMENT_WEBHOOK_SECRET is not set');
+    }
+
+    verifyWebhookSignature(payload, headers.get(WEBHOOK_SIGNATURE_HEADER), this.webhookSecret);
+
+    let event: WebhookEvent;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      throw new PaymentProviderError('INVALID_REQUEST', 'Webhook payload is not valid JSON');
+    }
+
+    if (!event || typeof event.id !== 'string' || typeof event.type !== 'string' || typeof event.data?.object !== 'object') {
+      throw new PaymentProviderError('INVALID_REQUEST', 'Webhook payload is not an event');
+    }
+
+    return event;
+  }
+}
+
+let provider: PaymentProvider | null = null;
+
+// PAYMENT_PROVIDER selects the implementation; only `fake` ships today
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const name = process.env.PAYMENT_PROVIDER || 'fake';
+  switch (name) {
+    case 'fake':
+      provider = new FakePaymentProvider();
+      return provider;
+    default:
+      throw new PaymentProviderError('UNKNOWN_PROVIDER', `Unknown payment provider: ${name}`);
+  }
+}
+
+export function setPaymentProvider(next: PaymentProvider | null) {
+  provider = next;
+}
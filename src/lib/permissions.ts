@@ -0,0 +1,313 @@
+import { NextResponse } from 'next/server';
+import { db } from './db';
+import { App, OrgRole, Role, RoleBinding, UserRole } from '@prisma/client';
+import { createAuditLog, AuditActions } from './audit';
+
+export const PERMISSIONS = [
+  'app:read',
+  'app:create',
+  'app:configure', // domains, networking
+  'app:deploy', // deploy and roll back
+  'app:scale',
+  'app:exec', // commands, terminals and their recordings
+  'app:delete',
+  'app:transfer', // move apps between accounts; global only
+  'backup:create',
+  'backup:restore',
+  'billing:read',
+  'billing:manage',
+  'agent:read',
+  'agent:register',
+  'agent:exec',
+  'template:manage', // other users' templates, sharing and unsafe content
+  'audit:read', // every user's audit logs
+  'role:manage',
+  'sso:manage', // global SSO providers, whose group mappings grant account roles
+  'user:manage', // find, deactivate and unlock accounts; changing account roles also takes role:manage
+  'user:impersonate', // act as another user, for support
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Only these take effect when a role is bound to a single app
+export const APP_PERMISSIONS: Permission[] = [
+  'app:read',
+  'app:configure',
+  'app:deploy',
+  'app:scale',
+  'app:exec',
+  'app:delete',
+  'backup:create',
+  'backup:restore',
+  'role:manage',
+];
+
+export const BUILTIN_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  'app-viewer': {
+    description: 'Sees apps and their deployments',
+    permissions: ['app:read'],
+  },
+  'app-deployer': {
+    description: 'Deploys and rolls back apps, without shell or billing access',
+    permissions: ['app:read', 'app:deploy'],
+  },
+  'app-developer': {
+    description: 'Deploys, scales and configures apps and opens shells in them',
+    permissions: ['app:read', 'app:configure', 'app:deploy', 'app:scale', 'app:exec', 'backup:create'],
+  },
+  'app-admin': {
+    description: 'Everything on an app, including restores, deletion and granting access',
+    permissions: APP_PERMISSIONS,
+  },
+  'billing-manager': {
+    description: 'Sees and changes plans, invoices and budgets',
+    permissions: ['billing:read', 'billing:manage'],
+  },
+  'platform-admin': {
+    description: 'Operates the platform: every app, agent, template, account and audit log',
+    permissions: PERMISSIONS.filter(permission => !['role:manage', 'sso:manage', 'user:impersonate'].includes(permission)),
+  },
+  'super-admin': {
+    description: 'Every permission',
+    permissions: [...PERMISSIONS],
+  },
+};
+
+// What the account role itself grants everywhere; bindings add to it
+const USER_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.USER]: ['app:create'],
+  [UserRole.ADMIN]: BUILTIN_ROLES['platform-admin'].permissions,
+  [UserRole.SUPER_ADMIN]: BUILTIN_ROLES['super-admin'].permissions,
+};
+
+// What a membership grants on the organization's apps and account
+export const ORG_ROLE_PERMISSIONS: Record<OrgRole, Permission[]> = {
+  [OrgRole.VIEWER]: BUILTIN_ROLES['app-viewer'].permissions,
+  [OrgRole.DEVELOPER]: ['app:create', ...BUILTIN_ROLES['app-developer'].permissions],
+  [OrgRole.ADMIN]: ['app:create', ...APP_PERMISSIONS, 'billing:read', 'billing:manage'],
+  [OrgRole.OWNER]: ['app:create', ...APP_PERMISSIONS, 'billing:read', 'billing:manage'],
+};
+
+type PermissionUser = { id: string; role: UserRole; scopes?: Permission[] };
+
+// API tokens only get the permissions in their scopes
+function limitToScopes(permissions: Set<Permission>, user: PermissionUser): Set<Permission> {
+  return user.scopes
+    ? new Set([...permissions].filter(permission => user.scopes!.includes(permission)))
+    : permissions;
+}
+
+export type PermissionErrorCode = 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'INVALID';
+
+export class PermissionError extends Error {
+  constructor(public code: PermissionErrorCode, message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND': return 404;
+      case 'FORBIDDEN': return 403;
+      case 'CONFLICT': return 409;
+      default: return 400;
+    }
+  }
+}
+
+export function permissionErrorResponse(error: PermissionError) {
+  return NextResponse.json(
+    { success: false, error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+export function parseRolePermissions(role: Pick<Role, 'permissions'>): Permission[] {
+  const permissions = JSON.parse(role.permissions) as string[];
+  return permissions.filter((permission): permission is Permission => (PERMISSIONS as readonly string[]).includes(permission));
+}
+
+export function serializeRole(role: Role & { _count?: { bindings: number } }) {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    permissions: parseRolePermissions(role),
+    builtIn: role.builtIn,
+    bindingCount: role._count?.bindings,
+    createdAt: role.createdAt.toISOString(),
+    updatedAt: role.updatedAt.toISOString(),
+  };
+}
+
+// Built-in roles are defined here; the rows exist so bindings can reference them
+export async function syncBuiltinRoles() {
+  for (const [name, role] of Object.entries(BUILTIN_ROLES)) {
+    const data = { description: role.description, permissions: JSON.stringify(role.permissions), builtIn: true };
+    await db.role.upsert({
+      where: { name },
+      create: { name, ...data },
+      update: data,
+    });
+  }
+}
+
+async function getBoundPermissions(userId: string, appId: string | null): Promise<Permission[]> {
+  const bindings = await db.roleBinding.findMany({
+    where: { userId, appId },
+    include: { role: { select: { permissions: true } } },
+  });
+
+  return bindings.flatMap(binding => parseRolePermissions(binding.role));
+}
+
+export async function getGlobalPermissions(user: PermissionUser): Promise<Set<Permission>> {
+  return limitToScopes(new Set([
+    ...USER_ROLE_PERMISSIONS[user.role],
+    ...await getBoundPermissions(user.id, null),
+  ]), user);
+}
+
+/**
+ * Everything a user may do to one app: their global permissions, plus all app
+ * permissions on personal apps they own, their membership's on organization
+ * apps, and roles bound to them on the app.
+ */
+export async function getAppPermissions(
+  app: Pick<App, 'id' | 'userId' | 'organizationId'>,
+  user: PermissionUser
+): Promise<Set<Permission>> {
+  const permissions = await getGlobalPermissions(user);
+
+  if (!app.organizationId && app.userId === user.id) {
+    APP_PERMISSIONS.forEach(permission => permissions.add(permission));
+  }
+
+  if (app.organizationId) {
+    const membership = await db.membership.findUnique({
+      where: { organizationId_userId: { organizationId: app.organizationId, userId: user.id } },
+      select: { role: true },
+    });
+    if (membership) {
+      ORG_ROLE_PERMISSIONS[membership.role]
+        .filter(permission => APP_PERMISSIONS.includes(permission))
+        .forEach(permission => permissions.add(permission));
+    }
+  }
+
+  (await getBoundPermissions(user.id, app.id))
+    .filter(permission => APP_PERMISSIONS.includes(permission))
+    .forEach(permission => permissions.add(permission));
+
+  return limitToScopes(permissions, user);
+}
+
+export async function hasGlobalPermission(user: PermissionUser, permission: Permission): Promise<boolean> {
+  return (await getGlobalPermissions(user)).has(permission);
+}
+
+export async function hasAppPermission(
+  app: Pick<App, 'id' | 'userId' | 'organizationId'>,
+  user: PermissionUser,
+  permission: Permission
+): Promise<boolean> {
+  return (await getAppPermissions(app, user)).has(permission);
+}
+
+export function serializeRoleBinding(binding: RoleBinding & { role: Role; user: { email: string } }) {
+  return {
+    id: binding.id,
+    role: { id: binding.role.id, name: binding.role.name },
+    userId: binding.userId,
+    email: binding.user.email,
+    appId: binding.appId,
+    grantedById: binding.grantedById,
+    createdAt: binding.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Binding globally takes a global role:manage. Binding on an app takes
+ * role:manage on it, and the granter must hold every app permission the role
+ * carries, so access can be shared but not escalated.
+ */
+async function assertCanBind(actor: PermissionUser, role: Role, appId: string | null) {
+  if (!appId) {
+    if (!await hasGlobalPermission(actor, 'role:manage')) {
+      throw new PermissionError('FORBIDDEN', 'Binding roles globally requires the role:manage permission');
+    }
+    return;
+  }
+
+  const app = await db.app.findUnique({ where: { id: appId }, select: { id: true, userId: true, organizationId: true } });
+  const permissions = app ? await getAppPermissions(app, actor) : new Set<Permission>();
+  if (!app || !permissions.has('app:read')) {
+    throw new PermissionError('NOT_FOUND', 'App not found');
+  }
+  if (!permissions.has('role:manage')) {
+    throw new PermissionError('FORBIDDEN', 'Sharing this app requires the role:manage permission on it');
+  }
+
+  const missing = parseRolePermissions(role).filter(permission => APP_PERMISSIONS.includes(permission) && !permissions.has(permission));
+  if (missing.length > 0) {
+    throw new PermissionError('FORBIDDEN', `You cannot grant permissions you do not hold: ${missing.join(', ')}`);
+  }
+}
+
+export async function createRoleBinding(actor: PermissionUser, roleId: string, userId: string, appId: string | null) {
+  const [role, user] = await Promise.all([
+    db.role.findUnique({ where: { id: roleId } }),
+    db.user.findUnique({ where: { id: userId }, select: { id: true, email: true } }),
+  ]);
+  if (!role) {
+    throw new PermissionError('NOT_FOUND', 'Role not found');
+  }
+  if (!user) {
+    throw new PermissionError('NOT_FOUND', 'User not found');
+  }
+
+  await assertCanBind(actor, role, appId);
+
+  // SQLite treats NULL app ids as distinct, so global duplicates are caught here
+  if (await db.roleBinding.findFirst({ where: { roleId, userId, appId } })) {
+    throw new PermissionError('CONFLICT', `${user.email} already has the ${role.name} role${appId ? ' on this app' : ''}`);
+  }
+
+  const binding = await db.roleBinding.create({
+    data: { roleId, userId, appId, grantedById: actor.id },
+    include: { role: true, user: { select: { email: true } } },
+  });
+
+  await createAuditLog({
+    userId: actor.id,
+    appId: appId ?? undefined,
+    action: AuditActions.ROLE_BIND,
+    resource: 'role_binding',
+    resourceId: binding.id,
+    details: `Granted ${role.name} to ${user.email}${appId ? '' : ' globally'}`,
+  });
+
+  return binding;
+}
+
+export async function deleteRoleBinding(actor: PermissionUser, bindingId: string) {
+  const binding = await db.roleBinding.findUnique({
+    where: { id: bindingId },
+    include: { role: true, user: { select: { email: true } } },
+  });
+  if (!binding) {
+    throw new PermissionError('NOT_FOUND', 'Role binding not found');
+  }
+
+  await assertCanBind(actor, binding.role, binding.appId);
+  await db.roleBinding.delete({ where: { id: binding.id } });
+
+  await createAuditLog({
+    userId: actor.id,
+    appId: binding.appId ?? undefined,
+    action: AuditActions.ROLE_UNBIND,
+    resource: 'role_binding',
+    resourceId: binding.id,
+    details: `Revoked ${binding.role.name} from ${binding.user.email}${binding.appId ? '' : ' globally'}`,
+  });
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server';
+import { BillingPlan, SubscriptionStatus } from '@prisma/client';
+import { db } from './db';
+import { PLAN_LIMITS, UsageLimits } from './billing';
+
+// Plans in upgrade order; the first one after the current plan that allows a request is suggested
+const PLAN_ORDER: BillingPlan[] = [BillingPlan.FREE, BillingPlan.BASIC, BillingPlan.PRO, BillingPlan.ENTERPRISE];
+
+export const PLAN_UPGRADE_URL = '/landing#pricing';
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+export type PlanFeature = 'customDomains' | 'ssl' | 'backups';
+export type PlanQuota = 'maxApps' | 'maxCpu' | 'maxMemory' | 'maxStorage';
+
+export interface PlanLimitDetails {
+  limit: PlanFeature | PlanQuota | 'subscription';
+  plan: BillingPlan;
+  allowed: number | boolean;
+  requested?: number;
+  current?: number;
+  upgrade: { plan: BillingPlan; url: string } | null;
+}
+
+export class PlanLimitError extends Error {
+  constructor(
+    public code: 'PLAN_LIMIT_EXCEEDED' | 'PLAN_FEATURE_UNAVAILABLE' | 'ACCOUNT_SUSPENDED',
+    message: string,
+    public details: PlanLimitDetails
+  ) {
+    super(message);
+    this.name = 'PlanLimitError';
+  }
+
+  // 402 when paying (or a higher plan) would allow the request, 403 when nothing would
+  get status(): 402 | 403 {
+    return this.code === 'ACCOUNT_SUSPENDED' || this.details.upgrade ? 402 : 403;
+  }
+}
+
+export function planLimitResponse(error: PlanLimitError) {
+  return NextResponse.json(
+    { success: false, error: error.message, code: error.code, details: error.details },
+    { status: error.status }
+  );
+}
+
+export async function getUserPlan(userId: string): Promise<BillingPlan> {
+  const billing = await db.billingInfo.findUnique({
+    where: { userId },
+    select: { plan: true },
+  });
+
+  return billing?.plan ?? BillingPlan.FREE;
+}
+
+function withinQuota(limits: UsageLimits, quota: PlanQuota, value: number): boolean {
+  return limits[quota] === -1 || value <= limits[quota];
+}
+
+function findUpgrade(plan: BillingPlan, allows: (limits: UsageLimits) => boolean): PlanLimitDetails['upgrade'] {
+  const upgrade = PLAN_ORDER.slice(PLAN_ORDER.indexOf(plan) + 1).find(candidate => allows(PLAN_LIMITS[candidate]));
+  return upgrade ? { plan: upgrade, url: PLAN_UPGRADE_URL } : null;
+}
+
+function checkQuota(plan: BillingPlan, quota: PlanQuota, requested: number, label: string, current?: number) {
+  const limits = PLAN_LIMITS[plan];
+  if (withinQuota(limits, quota, requested)) {
+    return;
+  }
+
+  throw new PlanLimitError(
+    'PLAN_LIMIT_EXCEEDED',
+    `${label} exceeds your ${plan} plan limit of ${limits[quota]}`,
+    {
+      limit: quota,
+      plan,
+      allowed: limits[quota],
+      requested,
+      current,
+      upgrade: findUpgrade(plan, candidate => withinQuota(candidate, quota, requested)),
+    }
+  );
+}
+
+export async function assertPlanFeature(userId: string, feature: PlanFeature, label: string) {
+  const plan = await getUserPlan(userId);
+  if (PLAN_LIMITS[plan][feature]) {
+    return;
+  }
+
+  throw new PlanLimitError(
+    'PLAN_FEATURE_UNAVAILABLE',
+    `${label} ${label.endsWith('s') ? 'are' : 'is'} not available on your ${plan} plan`,
+    {
+      limit: feature,
+      plan,
+      allowed: false,
+      upgrade: findUpgrade(plan, candidate => candidate[feature]),
+    }
+  );
+}
+
+export async function assertAppCountLimit(userId: string) {
+  const [plan, current] = await Promise.all([
+    getUserPlan(userId),
+    db.app.count({ where: { userId } }),
+  ]);
+
+  checkQuota(plan, 'maxApps', current + 1, `App count of ${current + 1}`, current);
+}
+
+// maxCpu and maxMemory size a single app's VM, as advertised on the pricing page
+export async function assertResourceLimits(userId: string, resources: { cpu: number; memory: number }) {
+  const plan = await getUserPlan(userId);
+
+  checkQuota(plan, 'maxCpu', resources.cpu, `${resources.cpu} vCPU`);
+  checkQuota(plan, 'maxMemory', resources.memory, `${resources.memory} GB of memory`);
+}
+
+// maxStorage covers what the user keeps beyond running VMs: snapshots and backups
+export async function assertStorageLimit(userId: string) {
+  const plan = await getUserPlan(userId);
+  const where = { app: { userId } };
+
+  const [snapshots, backups] = await Promise.all([
+    db.snapshot.aggregate({ where, _sum: { size: true } }),
+    db.backup.aggregate({ where, _sum: { size: true } }),
+  ]);
+
+  const usedGb = ((snapshots._sum.size ?? 0) + (backups._sum.size ?? 0)) / BYTES_PER_GB;
+  const limit = PLAN_LIMITS[plan].maxStorage;
+
+  // The size of a new snapshot is only known once it completes, so only a full quota blocks it
+  if (limit !== -1 && usedGb >= limit) {
+    const current = Math.round(usedGb * 100) / 100;
+    throw new PlanLimitError(
+      'PLAN_LIMIT_EXCEEDED',
+      `Stored snapshots and backups (${current} GB) have reached your ${plan} plan limit of ${limit} GB`,
+      {
+        limit: 'maxStorage',
+        plan,
+        allowed: limit,
+        current,
+        upgrade: findUpgrade(plan, candidate => candidate.maxStorage === -1 || usedGb < candidate.maxStorage),
+      }
+    );
+  }
+}
+
+// Accounts suspended by dunning cannot start new work until their invoices are paid
+export async function assertAccountInGoodStanding(userId: string) {
+  const billing = await db.billingInfo.findUnique({
+    where: { userId },
+    select: { plan: true, subscriptionStatus: true },
+  });
+
+  if (billing?.subscriptionStatus === SubscriptionStatus.SUSPENDED) {
+    throw new PlanLimitError(
+      'ACCOUNT_SUSPENDED',
+      'Your account is suspended for non-payment; pay your open invoices to resume',
+      {
+        limit: 'subscription',
+        plan: billing.plan,
+        allowed: false,
+        upgrade: null,
+      }
+    );
+  }
+}
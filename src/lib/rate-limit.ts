@@ -0,0 +1,316 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { NextResponse } from 'next/server';
+import { db } from './db';
+import { extractTokenFromHeader, verifyToken } from './auth';
+import { findActiveApiToken, isApiToken } from './api-tokens';
+import { getUserPlan } from './plan-limits';
+import { PLAN_LIMITS } from './billing';
+
+const MINUTE = 60 * 1000;
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+// Per client address, counting every attempt whatever its outcome
+export const LOGIN_RATE_LIMIT: RateLimitRule = { limit: 20, windowMs: 15 * MINUTE };
+export const REGISTER_RATE_LIMIT: RateLimitRule = { limit: 5, windowMs: 60 * MINUTE };
+export const PASSWORD_RESET_RATE_LIMIT: RateLimitRule = { limit: 5, windowMs: 60 * MINUTE };
+
+// API requests without a valid token, per client address; with one, the plan's apiRateLimit applies
+const ANONYMOUS_API_RATE_LIMIT: RateLimitRule = { limit: 60, windowMs: MINUTE };
+
+// Called by agents and the payment provider rather than users, and authenticated their own way
+const UNLIMITED_API_PATHS = ['/api/agents/heartbeat', '/api/agents/vm-status', '/api/billing/webhooks', '/api/health'];
+
+const RATE_LIMIT_CLEANUP_INTERVAL = 10 * MINUTE;
+
+export interface RateLimitResult extends RateLimitRule {
+  allowed: boolean;
+  remaining: number;
+  resetAt: Date;
+}
+
+/**
+ * Where request counts are kept. Each key counts hits in a fixed window that
+ * starts with its first hit; the next hit after resetAt starts a new one.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }>;
+  reset(key: string): Promise<void>;
+  // Drops windows that have ended, returning how many
+  prune(): Promise<number>;
+}
+
+// Counts in this process only; the default, and right for a single server
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, { count: number; resetAt: number }>();
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket || bucket.resetAt <= now) {
+      bucket = { count: 0, resetAt: now + windowMs };
+      this.buckets.set(key, bucket);
+    }
+    bucket.count++;
+
+    return { count: bucket.count, resetAt: new Date(bucket.resetAt) };
+  }
+
+  async reset(key: string) {
+    this.buckets.delete(key);
+  }
+
+  async prune() {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetAt <= now) {
+        this.buckets.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+// Counts in rate_limit_buckets, so servers sharing the database share their limits
+export class DatabaseRateLimitStore implements RateLimitStore {
+  readonly name = 'database';
+
+  async increment(key: string, windowMs: number) {
+    return db.$transaction(async (tx) => {
+      const now = new Date();
+      const bucket = await tx.rateLimitBucket.findUnique({ where: { key } });
+
+      if (!bucket || bucket.resetAt <= now) {
+        const resetAt = new Date(now.getTime() + windowMs);
+        return tx.rateLimitBucket.upsert({
+          where: { key },
+          create: { key, count: 1, resetAt },
+          update: { count: 1, resetAt },
+        });
+      }
+
+      return tx.rateLimitBucket.update({
+        where: { key },
+        data: { count: { increment: 1 } },
+      });
+    });
+  }
+
+  async reset(key: string) {
+    await db.rateLimitBucket.deleteMany({ where: { key } });
+  }
+
+  async prune() {
+    const { count } = await db.rateLimitBucket.deleteMany({
+      where: { resetAt: { lte: new Date() } },
+    });
+    return count;
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE selects the implementation: `memory` (default) or `database`
+export function getRateLimitStore(): RateLimitStore {
+  if (store) {
+    return store;
+  }
+
+  const name = process.env.RATE_LIMIT_STORE || 'memory';
+  switch (name) {
+    case 'memory':
+      store = new MemoryRateLimitStore();
+      return store;
+    case 'database':
+      store = new DatabaseRateLimitStore();
+      return store;
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`);
+  }
+}
+
+export function setRateLimitStore(next: RateLimitStore | null) {
+  store = next;
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    public code: 'RATE_LIMITED' | 'ACCOUNT_LOCKED',
+    message: string,
+    public retryAfter: number, // seconds
+    public result?: RateLimitResult
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+
+  get status(): number {
+    return 429;
+  }
+}
+
+// The RateLimit-* fields of the IETF draft, with Reset in seconds from now
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(secondsUntil(result.resetAt)),
+    'RateLimit-Policy': `${result.limit};w=${Math.round(result.windowMs / 1000)}`,
+  };
+}
+
+export function rateLimitErrorResponse(error: RateLimitError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code, retryAfter: error.retryAfter },
+    {
+      status: error.status,
+      headers: {
+        'Retry-After': String(error.retryAfter),
+        ...(error.result ? rateLimitHeaders(error.result) : {}),
+      },
+    }
+  );
+}
+
+function secondsUntil(date: Date): number {
+  return Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+export async function consumeRateLimit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const { count, resetAt } = await getRateLimitStore().increment(key, rule.windowMs);
+
+  return {
+    ...rule,
+    allowed: count <= rule.limit,
+    remaining: Math.max(0, rule.limit - count),
+    resetAt,
+  };
+}
+
+// Counts a hit and throws a RateLimitError once the key is over its limit
+export async function enforceRateLimit(key: string, rule: RateLimitRule, message: string): Promise<RateLimitResult> {
+  const result = await consumeRateLimit(key, rule);
+  if (!result.allowed) {
+    throw new RateLimitError('RATE_LIMITED', message, secondsUntil(result.resetAt), result);
+  }
+  return result;
+}
+
+// Reverse proxies in front of the server; 0 (the default) means clients connect directly
+const TRUST_PROXY_HOPS = Math.max(0, parseInt(process.env.TRUST_PROXY || '0') || 0);
+
+/**
+ * The client's address: the socket's, or with TRUST_PROXY=n the address the
+ * n-th proxy saw, counting x-forwarded-for from the right. Entries further
+ * left were written by the client and prove nothing.
+ */
+export function resolveClientAddress(request: IncomingMessage): string | undefined {
+  const forwardedFor = request.headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  const chain = [...forwarded, request.socket.remoteAddress].filter((address): address is string => !!address);
+
+  return chain[Math.max(0, chain.length - 1 - TRUST_PROXY_HOPS)];
+}
+
+// Routes identify clients as audit logs do, by the x-forwarded-for address server.ts resolves
+export function clientAddressKey(ipAddress: string | undefined): string {
+  return ipAddress || 'unknown';
+}
+
+/**
+ * Which quota an API request counts against: its token's, its user's for
+ * login sessions, or its address's without valid credentials. Sessions are not
+ * checked here; authenticate() still turns away ended ones.
+ */
+async function resolveApiQuota(request: IncomingMessage): Promise<{ key: string; rule: RateLimitRule }> {
+  const token = extractTokenFromHeader(request.headers.authorization);
+
+  if (token && isApiToken(token)) {
+    const apiToken = await findActiveApiToken(token);
+    if (apiToken) {
+      const planLimit = PLAN_LIMITS[await getUserPlan(apiToken.userId)].apiRateLimit;
+      return {
+        key: `api:token:${apiToken.id}`,
+        rule: { limit: Math.min(apiToken.rateLimit ?? planLimit, planLimit), windowMs: MINUTE },
+      };
+    }
+  } else if (token) {
+    const payload = verifyToken(token);
+    if (payload) {
+      return {
+        key: `api:user:${payload.userId}`,
+        rule: { limit: PLAN_LIMITS[await getUserPlan(payload.userId)].apiRateLimit, windowMs: MINUTE },
+      };
+    }
+  }
+
+  const forwardedFor = request.headers['x-forwarded-for'];
+  const address = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0].trim();
+  return { key: `api:ip:${clientAddressKey(address)}`, rule: ANONYMOUS_API_RATE_LIMIT };
+}
+
+/**
+ * Count an API request against its quota and set the RateLimit-* headers on
+ * the response. Answers 429 and returns false once the quota is used up. The
+ * quota is not enforced if the store fails, so an outage there does not take
+ * the API down with it.
+ */
+export async function applyApiRateLimit(request: IncomingMessage, response: ServerResponse): Promise<boolean> {
+  const pathname = new URL(request.url || '/', 'http://localhost').pathname;
+  if (UNLIMITED_API_PATHS.includes(pathname)) {
+    return true;
+  }
+
+  let result: RateLimitResult;
+  try {
+    const { key, rule } = await resolveApiQuota(request);
+    result = await consumeRateLimit(key, rule);
+  } catch (error) {
+    console.error('API rate limit check failed:', error);
+    return true;
+  }
+
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.setHeader(name, value);
+  }
+
+  if (result.allowed) {
+    return true;
+  }
+
+  const retryAfter = secondsUntil(result.resetAt);
+  response.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) });
+  response.end(JSON.stringify({
+    error: `Rate limit of ${result.limit} requests per minute exceeded`,
+    code: 'RATE_LIMITED',
+    retryAfter,
+  }));
+  return false;
+}
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+export function startRateLimitCleanup() {
+  if (cleanupTimer) {
+    return;
+  }
+
+  const run = () => {
+    getRateLimitStore().prune().catch((error) => {
+      console.error('Rate limit cleanup failed:', error);
+    });
+  };
+
+  run();
+  cleanupTimer = setInterval(run, RATE_LIMIT_CLEANUP_INTERVAL);
+}
@@ -0,0 +1,250 @@
+import { createHash, randomBytes } from 'crypto';
+import { Session, UserRole } from '@prisma/client';
+import { db } from './db';
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken } from './auth';
+import { createAuditLog, AuditActions } from './audit';
+
+// A session ends this long after its last refresh
+export const SESSION_TTL_DAYS = 30;
+
+// Impersonation sessions end this long after they start, however often they are refreshed
+export const IMPERSONATION_TTL_MINUTES = 60;
+
+// lastSeenAt is only written when it is older than this, not on every request
+const LAST_SEEN_RESOLUTION = 60 * 1000;
+
+const SESSION_CLEANUP_INTERVAL = 60 * 60 * 1000; // hourly
+
+type SessionUser = { id: string; email: string; role: UserRole };
+type SessionMetadata = { ipAddress?: string; userAgent?: string };
+
+function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function sessionExpiry(): Date {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + SESSION_TTL_DAYS);
+  return expiresAt;
+}
+
+// What the login, register and refresh routes hand back to the client
+async function issueTokens(user: SessionUser, sessionId: string) {
+  const refreshToken = randomBytes(32).toString('base64url');
+
+  await db.refreshToken.create({
+    data: { sessionId, tokenHash: hashRefreshToken(refreshToken) },
+  });
+
+  return {
+    token: generateToken({ userId: user.id, email: user.email, role: user.role, sessionId }),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+export async function createSession(user: SessionUser, metadata: SessionMetadata = {}, options: { impersonatorId?: string } = {}) {
+  const session = await db.session.create({
+    data: {
+      userId: user.id,
+      userAgent: metadata.userAgent ?? null,
+      ipAddress: metadata.ipAddress ?? null,
+      impersonatorId: options.impersonatorId ?? null,
+      expiresAt: options.impersonatorId
+        ? new Date(Date.now() + IMPERSONATION_TTL_MINUTES * 60 * 1000)
+        : sessionExpiry(),
+    },
+  });
+
+  return issueTokens(user, session.id);
+}
+
+/**
+ * Exchange a refresh token for a new access and refresh token. Null when the
+ * token is unknown or its session has ended. A token that was already used
+ * means it has been copied, so the whole session is revoked.
+ */
+export async function refreshSession(refreshToken: string, metadata: SessionMetadata = {}) {
+  const stored = await db.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshToken) },
+    include: { session: { include: { user: { select: { id: true, email: true, role: true, isActive: true } } } } },
+  });
+
+  if (!stored || !isSessionActive(stored.session) || !stored.session.user.isActive) {
+    return null;
+  }
+
+  // Conditional so two concurrent refreshes with the same token cannot both succeed
+  const { count } = await db.refreshToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await db.session.update({
+      where: { id: stored.sessionId },
+      data: { revokedAt: new Date(), revokedReason: 'refresh_token_reuse' },
+    });
+
+    await createAuditLog({
+      userId: stored.session.userId,
+      action: AuditActions.SESSION_REFRESH_REUSE,
+      resource: 'session',
+      resourceId: stored.sessionId,
+      details: 'A used refresh token was presented again; the session was revoked',
+      ...metadata,
+    });
+
+    return null;
+  }
+
+  await db.session.update({
+    where: { id: stored.sessionId },
+    data: {
+      lastSeenAt: new Date(),
+      expiresAt: stored.session.impersonatorId ? stored.session.expiresAt : sessionExpiry(),
+      ipAddress: metadata.ipAddress ?? stored.session.ipAddress,
+      userAgent: metadata.userAgent ?? stored.session.userAgent,
+    },
+  });
+
+  return issueTokens(stored.session.user, stored.sessionId);
+}
+
+/**
+ * An admin acting as a user may use the account but not change how it signs
+ * in: no passwords, 2FA, emails, API tokens or other sessions. Logging out
+ * ends the impersonation.
+ */
+export function isAllowedWhileImpersonating(method: string, pathname: string): boolean {
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method)
+    || !pathname.startsWith('/api/auth/')
+    || pathname === '/api/auth/logout';
+}
+
+export function isSessionActive(session: Pick<Session, 'revokedAt' | 'expiresAt'>): boolean {
+  return !session.revokedAt && session.expiresAt > new Date();
+}
+
+// Null for unknown, revoked and expired sessions
+export async function findActiveSession(sessionId: string): Promise<Session | null> {
+  const session = await db.session.findUnique({ where: { id: sessionId } });
+  return session && isSessionActive(session) ? session : null;
+}
+
+export async function touchSession(session: Session, ipAddress?: string) {
+  if (Date.now() - session.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION) {
+    return;
+  }
+
+  await db.session.update({
+    where: { id: session.id },
+    data: { lastSeenAt: new Date(), ipAddress: ipAddress ?? session.ipAddress },
+  });
+}
+
+export async function revokeSession(session: Session, metadata: SessionMetadata = {}) {
+  const revoked = await db.session.update({
+    where: { id: session.id },
+    data: { revokedAt: new Date(), revokedReason: 'revoked' },
+  });
+
+  await createAuditLog({
+    userId: session.userId,
+    action: AuditActions.SESSION_REVOKE,
+    resource: 'session',
+    resourceId: session.id,
+    details: `Revoked session on ${describeDevice(session.userAgent)}`,
+    ...metadata,
+  });
+
+  return revoked;
+}
+
+// Log out everywhere, the calling device included; the logout route ends just its own session
+export async function revokeAllSessions(userId: string, metadata: SessionMetadata = {}) {
+  const { count } = await db.session.updateMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    data: { revokedAt: new Date(), revokedReason: 'logout_all' },
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.SESSION_REVOKE_ALL,
+    resource: 'session',
+    details: `Revoked ${count} session${count === 1 ? '' : 's'}`,
+    ...metadata,
+  });
+
+  return count;
+}
+
+// A short label such as "Firefox on macOS"; the full user agent is returned alongside it
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : /curl\//.test(userAgent) ? 'curl'
+    : null;
+
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser || os || 'Unknown device';
+}
+
+export function serializeSession(session: Session, currentSessionId?: string) {
+  return {
+    id: session.id,
+    device: describeDevice(session.userAgent),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+    createdAt: session.createdAt.toISOString(),
+    current: session.id === currentSessionId,
+    impersonated: session.impersonatorId !== null, // opened by an admin acting as the user
+  };
+}
+
+// Expired sessions can no longer be refreshed, so neither they nor their refresh tokens are needed
+export async function cleanupExpiredSessions() {
+  const { count } = await db.session.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+
+  if (count > 0) {
+    console.log(`Removed ${count} expired session${count === 1 ? '' : 's'}`);
+  }
+}
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+export function startSessionCleanup() {
+  if (cleanupTimer) {
+    return;
+  }
+
+  const run = () => {
+    cleanupExpiredSessions().catch((error) => {
+      console.error('Session cleanup failed:', error);
+    });
+  };
+
+  run();
+  cleanupTimer = setInterval(run, SESSION_CLEANUP_INTERVAL);
+}
@@ -1,29 +1,121 @@
-import { Server } from 'socket.io';
+import type { Server, Socket } from 'socket.io';
+import { UserRole } from '@prisma/client';
+import { db } from './db';
+import { verifyToken } from './auth';
+import { findActiveSession } from './sessions';
+import { isTwoFactorRequired } from './two-factor';
+import { canAccessApp } from './apps';
+
+// Clients connect with io('/apps', { path: '/api/socketio', auth: { token } })
+export const APPS_NAMESPACE = '/apps';
+
+export interface SocketUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  emailVerified: boolean;
+}
+
+// Events pushed to `app:<id>` and `deployment:<id>` rooms
+export interface AppStreamEvents {
+  'app:status': { appId: string; status: string; timestamp: string };
+  'vm:status': { appId: string; vmName: string; status: string; timestamp: string };
+  'deployment:status': { appId: string; deploymentId: string; version: string; status: string; timestamp: string };
+  'deployment:step': { appId: string; deploymentId: string; stepId: string; type: string; position: number; status: string; timestamp: string };
+  'deployment:log': { appId: string; deploymentId: string; stepId: string | null; type: string | null; message: string; timestamp: string };
+}
+
+type RoomAck = (response: { success: boolean; error?: string }) => void;
+
+const globalForSocket = globalThis as unknown as {
+  io: Server | undefined
+};
+
+export function publishToApp<E extends keyof AppStreamEvents>(appId: string, event: E, payload: AppStreamEvents[E]) {
+  globalForSocket.io?.of(APPS_NAMESPACE).to(`app:${appId}`).emit(event, payload);
+}
+
+// Deployment events reach both the deployment room and the owning app's room
+export function publishToDeployment<E extends keyof AppStreamEvents>(
+  deploymentId: string,
+  appId: string,
+  event: E,
+  payload: AppStreamEvents[E]
+) {
+  globalForSocket.io?.of(APPS_NAMESPACE).to([`app:${appId}`, `deployment:${deploymentId}`]).emit(event, payload);
+}
+
+async function canJoinRoom(user: SocketUser, room: string): Promise<boolean> {
+  const match = typeof room === 'string' && room.match(/^(app|deployment):(.+)$/);
+  if (!match) {
+    return false;
+  }
+
+  const app = match[1] === 'app'
+    ? await db.app.findUnique({ where: { id: match[2] }, select: { id: true, userId: true, organizationId: true } })
+    : (await db.deployment.findUnique({ where: { id: match[2] }, select: { app: { select: { id: true, userId: true, organizationId: true } } } }))?.app;
+
+  return !!app && await canAccessApp(app, user);
+}
+
+export async function authenticateSocket(socket: Socket, next: (err?: Error) => void) {
+  const payload = verifyToken(socket.handshake.auth?.token || '');
+  if (!payload) {
+    return next(new Error('Invalid token'));
+  }
+
+  const session = await findActiveSession(payload.sessionId);
+  if (!session) {
+    return next(new Error('Session has ended'));
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: payload.userId },
+    select: { id: true, email: true, role: true, isActive: true, emailVerified: true, twoFactorEnabled: true }
+  });
+
+  if (!user || !user.isActive) {
+    return next(new Error('User not found or inactive'));
+  }
+
+  // As in authenticate(): users who must use 2FA but have not enrolled get nothing until they do
+  if (!session.impersonatorId && !user.twoFactorEnabled && await isTwoFactorRequired(user)) {
+    return next(new Error('Two-factor authentication must be set up first'));
+  }
+
+  socket.data.user = { id: user.id, email: user.email, role: user.role, emailVerified: user.emailVerified } as SocketUser;
+  next();
+}
 
 export const setupSocket = (io: Server) => {
-  io.on('connection', (socket) => {
-    console.log('Client connected:', socket.id);
-    
-    // Handle messages
-    socket.on('message', (msg: { text: string; senderId: string }) => {
-      // Echo: broadcast message only the client who send the message
-      socket.emit('message', {
-        text: `Echo: ${msg.text}`,
-        senderId: 'system',
-        timestamp: new Date().toISOString(),
-      });
-    });
+  globalForSocket.io = io;
+
+  const apps = io.of(APPS_NAMESPACE);
+
+  apps.use((socket, next) => {
+    authenticateSocket(socket, next).catch(() => next(new Error('Authentication failed')));
+  });
+
+  apps.on('connection', (socket) => {
+    const user = socket.data.user as SocketUser;
+
+    socket.on('subscribe', async (data: { room: string }, ack?: RoomAck) => {
+      try {
+        if (!(await canJoinRoom(user, data?.room))) {
+          return ack?.({ success: false, error: 'Room not found' });
+        }
 
-    // Handle disconnect
-    socket.on('disconnect', () => {
-      console.log('Client disconnected:', socket.id);
+        await socket.join(data.room);
+        ack?.({ success: true });
+      } catch (error) {
+        console.error('Failed to join room:', error);
+        ack?.({ success: false, error: 'Failed to join room' });
+      }
     });
 
-    // Send welcome message
-    socket.emit('message', {
-      text: 'Welcome to WebSocket Echo Server!',
-      senderId: 'system',
-      timestamp: new Date().toISOString(),
+    socket.on('unsubscribe', async (data: { room: string }, ack?: RoomAck) => {
+      await socket.leave(data?.room);
+      ack?.({ success: true });
     });
   });
-};
\ No newline at end of file
+};
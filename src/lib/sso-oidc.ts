@@ -0,0 +1,172 @@
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SsoProvider } from '@prisma/client';
+import type { SsoProfile } from './sso';
+
+// Discovery documents and signing keys change rarely; keys are refetched early when a kid is unknown
+const CACHE_TTL = 60 * 60 * 1000;
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+interface OidcConfiguration {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+type SigningKey = JsonWebKey & { kid?: string; use?: string };
+
+const configurations = new Map<string, { configuration: OidcConfiguration; fetchedAt: number }>();
+const keySets = new Map<string, { keys: SigningKey[]; fetchedAt: number }>();
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+async function getConfiguration(issuer: string): Promise<OidcConfiguration> {
+  const cached = configurations.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+    return cached.configuration;
+  }
+
+  const configuration = await fetchJson<OidcConfiguration>(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  configurations.set(issuer, { configuration, fetchedAt: Date.now() });
+  return configuration;
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<SigningKey> {
+  const find = (keys: SigningKey[]) => keys.find((key) => (!kid || key.kid === kid) && key.use !== 'enc');
+
+  const cached = keySets.get(jwksUri);
+  const key = cached && Date.now() - cached.fetchedAt < CACHE_TTL ? find(cached.keys) : undefined;
+  if (key) {
+    return key;
+  }
+
+  // Providers rotate keys; an unknown kid means fetching the set again
+  const { keys } = await fetchJson<{ keys: SigningKey[] }>(jwksUri);
+  keySets.set(jwksUri, { keys, fetchedAt: Date.now() });
+
+  const fresh = find(keys);
+  if (!fresh) {
+    throw new Error('The ID token was signed with an unknown key');
+  }
+  return fresh;
+}
+
+export function createPkcePair() {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  return {
+    codeVerifier,
+    codeChallenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+  };
+}
+
+export async function buildOidcAuthorizationUrl(
+  provider: SsoProvider,
+  params: { redirectUri: string; state: string; nonce: string; codeChallenge: string }
+): Promise<string> {
+  const configuration = await getConfiguration(provider.issuer!);
+  const url = new URL(configuration.authorization_endpoint);
+
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId!,
+    redirect_uri: params.redirectUri,
+    scope: ['openid', 'email', 'profile', ...(provider.scopes?.split(/\s+/).filter(Boolean) ?? [])].join(' '),
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return url.toString();
+}
+
+function toGroups(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return typeof value === 'string' ? [value] : [];
+}
+
+/**
+ * Redeem the authorization code and check the ID token: signature against the
+ * provider's keys, issuer, audience, expiry and the nonce sent with the login.
+ */
+export async function exchangeOidcCode(
+  provider: SsoProvider,
+  params: { redirectUri: string; code: string; codeVerifier: string; nonce: string }
+): Promise<SsoProfile> {
+  const configuration = await getConfiguration(provider.issuer!);
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (provider.clientSecret) {
+    const credentials = `${encodeURIComponent(provider.clientId!)}:${encodeURIComponent(provider.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(configuration.token_endpoint, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: provider.clientId!,
+      code_verifier: params.codeVerifier,
+    }),
+  });
+
+  if (!tokens.id_token) {
+    throw new Error('The provider returned no ID token');
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded) {
+    throw new Error('The ID token is malformed');
+  }
+
+  const key = createPublicKey({ key: await getSigningKey(configuration.jwks_uri, decoded.header.kid), format: 'jwk' });
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: configuration.issuer,
+    audience: provider.clientId!,
+  }) as Record<string, unknown>;
+
+  if (claims.nonce !== params.nonce) {
+    throw new Error('The ID token does not belong to this sign-in');
+  }
+
+  // Some providers leave email and groups out of the ID token and serve them from userinfo
+  let userInfo: Record<string, unknown> = {};
+  if ((!claims.email || claims[provider.groupsClaim] === undefined) && configuration.userinfo_endpoint && tokens.access_token) {
+    userInfo = await fetchJson<Record<string, unknown>>(configuration.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    if (userInfo.sub !== claims.sub) {
+      userInfo = {};
+    }
+  }
+
+  const email = (claims.email ?? userInfo.email) as string | undefined;
+  if (!email) {
+    throw new Error('The provider did not share an email address');
+  }
+  if ((claims.email_verified ?? userInfo.email_verified) === false) {
+    throw new Error('The email address is not verified at the provider');
+  }
+
+  return {
+    subject: String(claims.sub),
+    email,
+    name: (claims.name ?? userInfo.name) as string | undefined,
+    groups: toGroups(claims[provider.groupsClaim] ?? userInfo[provider.groupsClaim]),
+  };
+}
@@ -0,0 +1,542 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { resolveTxt } from 'dns/promises';
+import { NextResponse } from 'next/server';
+import { OrgRole, SsoProvider, SsoProtocol, User, UserRole } from '@prisma/client';
+import { db } from './db';
+import { generateTwoFactorChallenge } from './auth';
+import { createAuditLog, AuditActions } from './audit';
+import { hasGlobalPermission, Permission } from './permissions';
+import { assertNotApiToken, OrganizationError, requireOrgRole } from './organizations';
+import { createSession } from './sessions';
+import { isTwoFactorRequired } from './two-factor';
+import { sendNewLoginAlert } from './account-emails';
+import { buildOidcAuthorizationUrl, createPkcePair, exchangeOidcCode } from './sso-oidc';
+import { buildSamlAuthorizeUrl, validateSamlResponse } from './sso-saml';
+
+// How long a user has at the identity provider before the login must be started again
+const LOGIN_STATE_TTL = 10 * 60 * 1000;
+
+// An organization proves it owns a domain with a TXT record at _limahost-sso.<domain>
+const DOMAIN_RECORD_PREFIX = '_limahost-sso';
+
+// Holds the state of the login this browser started, so a callback URL from someone else's login is refused
+export const SSO_STATE_COOKIE = 'limahost_sso_state';
+
+const USER_ROLE_RANK: Record<UserRole, number> = {
+  [UserRole.USER]: 0,
+  [UserRole.ADMIN]: 1,
+  [UserRole.SUPER_ADMIN]: 2,
+};
+
+type Metadata = { ipAddress?: string; userAgent?: string };
+
+// What either protocol tells us about the user once the provider's response checks out
+export interface SsoProfile {
+  subject: string;
+  email: string;
+  name?: string;
+  groups: string[];
+}
+
+export type SsoErrorCode = 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'INVALID' | 'LOGIN_FAILED';
+
+export class SsoError extends Error {
+  constructor(public code: SsoErrorCode, message: string) {
+    super(message);
+    this.name = 'SsoError';
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND': return 404;
+      case 'FORBIDDEN': return 403;
+      case 'CONFLICT': return 409;
+      case 'LOGIN_FAILED': return 401;
+      default: return 400;
+    }
+  }
+}
+
+export function ssoErrorResponse(error: SsoError) {
+  return NextResponse.json(
+    { success: false, error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+export function parseEmailDomains(provider: Pick<SsoProvider, 'emailDomains'>): string[] {
+  return JSON.parse(provider.emailDomains) as string[];
+}
+
+export function parseVerifiedDomains(provider: Pick<SsoProvider, 'verifiedDomains'>): string[] {
+  return JSON.parse(provider.verifiedDomains) as string[];
+}
+
+/**
+ * The domains a provider may sign in: all of a global provider's, as only
+ * platform admins set those up, but only the ones an organization provider
+ * proved it owns. Otherwise any organization could claim gmail.com.
+ */
+export function trustedEmailDomains(provider: Pick<SsoProvider, 'organizationId' | 'emailDomains' | 'verifiedDomains'>): string[] {
+  const domains = parseEmailDomains(provider);
+  if (!provider.organizationId) {
+    return domains;
+  }
+
+  const verified = parseVerifiedDomains(provider);
+  return domains.filter((domain) => verified.includes(domain));
+}
+
+export function domainVerificationRecord(provider: Pick<SsoProvider, 'domainToken'>) {
+  return { type: 'TXT', name: `${DOMAIN_RECORD_PREFIX}.<domain>`, value: `limahost-domain-verification=${provider.domainToken}` };
+}
+
+export function parseRoleMappings(provider: Pick<SsoProvider, 'roleMappings'>): Record<string, UserRole> {
+  return JSON.parse(provider.roleMappings) as Record<string, UserRole>;
+}
+
+/**
+ * APP_URL when set, otherwise the host the request came in on; providers
+ * redirect back here. X-Forwarded-Host is not used, as any client can send it.
+ */
+export function getBaseUrl(request: Request): string {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL.replace(/\/$/, '');
+  }
+
+  const url = new URL(request.url);
+  const host = request.headers.get('host') || url.host;
+  const protocol = request.headers.get('x-forwarded-proto') || url.protocol.replace(':', '');
+  return `${protocol}://${host}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function ssoUrls(provider: Pick<SsoProvider, 'slug'>, baseUrl: string) {
+  const path = `${baseUrl}/api/auth/sso/${provider.slug}`;
+  return {
+    loginUrl: `${path}/start`,
+    callbackUrl: `${path}/callback`, // OIDC redirect URI and SAML assertion consumer service
+    entityId: `${path}/metadata`, // SAML service provider entity ID, which serves its metadata
+  };
+}
+
+// The client secret and certificate stay on the server; only whether they are set is shown
+export function serializeSsoProvider(provider: SsoProvider, baseUrl: string) {
+  return {
+    id: provider.id,
+    name: provider.name,
+    slug: provider.slug,
+    protocol: provider.protocol,
+    organizationId: provider.organizationId,
+    enabled: provider.enabled,
+    emailDomains: parseEmailDomains(provider),
+    verifiedDomains: provider.organizationId ? parseVerifiedDomains(provider) : null,
+    domainVerification: provider.organizationId ? domainVerificationRecord(provider) : null,
+    issuer: provider.issuer,
+    clientId: provider.clientId,
+    hasClientSecret: !!provider.clientSecret,
+    scopes: provider.scopes,
+    entryPoint: provider.entryPoint,
+    idpIssuer: provider.idpIssuer,
+    hasIdpCertificate: !!provider.idpCertificate,
+    groupsClaim: provider.groupsClaim,
+    roleMappings: parseRoleMappings(provider),
+    defaultRole: provider.defaultRole,
+    memberRole: provider.memberRole,
+    ...ssoUrls(provider, baseUrl),
+    createdAt: provider.createdAt.toISOString(),
+    updatedAt: provider.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Check a provider's settings as they will be saved: the fields its protocol
+ * needs, and no role mapping on organization providers, whose owners must not
+ * be able to hand out account roles.
+ */
+export function assertValidSsoProviderConfig(config: Pick<SsoProvider,
+  'protocol' | 'organizationId' | 'emailDomains' | 'issuer' | 'clientId' | 'entryPoint' | 'idpCertificate' | 'roleMappings' | 'defaultRole'>
+) {
+  const missing = config.protocol === SsoProtocol.OIDC
+    ? (['issuer', 'clientId'] as const).filter((field) => !config[field])
+    : (['entryPoint', 'idpCertificate'] as const).filter((field) => !config[field]);
+
+  if (missing.length > 0) {
+    throw new SsoError('INVALID', `${config.protocol} providers need ${missing.join(' and ')}`);
+  }
+
+  if (config.organizationId) {
+    if (parseEmailDomains(config).length === 0) {
+      throw new SsoError('INVALID', 'Organization providers must list the email domains they sign in');
+    }
+    if (Object.keys(parseRoleMappings(config)).length > 0 || config.defaultRole !== UserRole.USER) {
+      throw new SsoError('INVALID', 'Only global providers can map groups to account roles');
+    }
+  }
+}
+
+/**
+ * Global providers need `sso:manage`; an organization's providers need its
+ * OWNER role, as they decide who can join it.
+ */
+export async function assertCanManageSsoProviders(
+  user: { id: string; role: UserRole; scopes?: Permission[] },
+  organizationId: string | null
+) {
+  if (!organizationId) {
+    if (!await hasGlobalPermission(user, 'sso:manage')) {
+      throw new SsoError('FORBIDDEN', 'Managing global SSO providers requires the sso:manage permission');
+    }
+    return;
+  }
+
+  try {
+    assertNotApiToken(user);
+    await requireOrgRole(organizationId, user.id, OrgRole.OWNER);
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      throw new SsoError(error.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'FORBIDDEN', error.message);
+    }
+    throw error;
+  }
+}
+
+async function hasDomainRecord(domain: string, value: string): Promise<boolean> {
+  try {
+    const records = await resolveTxt(`${DOMAIN_RECORD_PREFIX}.${domain}`);
+    return records.some((chunks) => chunks.join('') === value);
+  } catch {
+    return false; // no such record, or the lookup failed
+  }
+}
+
+/**
+ * Look up the TXT record of each of an organization provider's domains not
+ * yet verified, and keep the ones that hold its token. Returns the provider
+ * as saved and the domains still unverified.
+ */
+export async function verifySsoProviderDomains(provider: SsoProvider): Promise<{ provider: SsoProvider; unverified: string[] }> {
+  if (!provider.organizationId) {
+    throw new SsoError('INVALID', 'Only organization providers verify their email domains');
+  }
+
+  const { value } = domainVerificationRecord(provider);
+  const verified = parseVerifiedDomains(provider);
+  const pending = parseEmailDomains(provider).filter((domain) => !verified.includes(domain));
+  const found = await Promise.all(pending.map((domain) => hasDomainRecord(domain, value)));
+
+  const newlyVerified = pending.filter((_, index) => found[index]);
+  if (newlyVerified.length > 0) {
+    provider = await db.ssoProvider.update({
+      where: { id: provider.id },
+      data: { verifiedDomains: JSON.stringify([...verified, ...newlyVerified]) },
+    });
+  }
+
+  return { provider, unverified: pending.filter((_, index) => !found[index]) };
+}
+
+export async function findManagedSsoProvider(id: string, user: Parameters<typeof assertCanManageSsoProviders>[0]): Promise<SsoProvider> {
+  const provider = await db.ssoProvider.findUnique({ where: { id } });
+  if (!provider) {
+    throw new SsoError('NOT_FOUND', 'SSO provider not found');
+  }
+
+  await assertCanManageSsoProviders(user, provider.organizationId);
+  return provider;
+}
+
+// Providers offered for an email address: its domain's, then the global ones without domains
+export async function discoverSsoProviders(email?: string) {
+  const domain = email?.split('@')[1]?.toLowerCase();
+  const providers = await db.ssoProvider.findMany({
+    where: { enabled: true },
+    include: { organization: { select: { name: true } } },
+    orderBy: { name: 'asc' },
+  });
+
+  return providers
+    .filter((provider) => {
+      const domains = trustedEmailDomains(provider);
+      return domain ? domains.includes(domain) || (!provider.organizationId && domains.length === 0)
+        : !provider.organizationId;
+    })
+    .map((provider) => ({
+      name: provider.name,
+      slug: provider.slug,
+      protocol: provider.protocol,
+      organization: provider.organization?.name ?? null,
+      loginUrl: `/api/auth/sso/${provider.slug}/start`,
+    }));
+}
+
+export async function findEnabledSsoProvider(slug: string): Promise<SsoProvider> {
+  const provider = await db.ssoProvider.findUnique({ where: { slug } });
+  if (!provider || !provider.enabled) {
+    throw new SsoError('NOT_FOUND', 'SSO provider not found');
+  }
+  return provider;
+}
+
+/**
+ * Options for the state cookie, sent only to the provider's callback. SAML
+ * answers with a cross-site POST, which carries SameSite=None cookies only,
+ * and those must be Secure.
+ */
+export function ssoStateCookieOptions(provider: Pick<SsoProvider, 'slug' | 'protocol'>, baseUrl: string) {
+  const saml = provider.protocol === SsoProtocol.SAML;
+  return {
+    httpOnly: true,
+    sameSite: saml ? 'none' : 'lax',
+    secure: saml || baseUrl.startsWith('https:'),
+    path: `/api/auth/sso/${provider.slug}/callback`,
+    maxAge: LOGIN_STATE_TTL / 1000,
+  } as const;
+}
+
+/**
+ * Remember the login and return the provider URL to send the browser to,
+ * with the state to set in its SSO_STATE_COOKIE. The state the URL carries is
+ * what ties the provider's answer to this login, and the cookie to this browser.
+ */
+export async function startSsoLogin(provider: SsoProvider, baseUrl: string): Promise<{ url: string; state: string }> {
+  const state = randomBytes(24).toString('base64url');
+  const urls = ssoUrls(provider, baseUrl);
+
+  // Abandoned logins are cleared as new ones start
+  await db.ssoLoginState.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+
+  if (provider.protocol === SsoProtocol.OIDC) {
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    const nonce = randomBytes(16).toString('base64url');
+
+    await db.ssoLoginState.create({
+      data: { state, providerId: provider.id, codeVerifier, nonce, expiresAt: new Date(Date.now() + LOGIN_STATE_TTL) },
+    });
+
+    return { url: await buildOidcAuthorizationUrl(provider, { redirectUri: urls.callbackUrl, state, nonce, codeChallenge }), state };
+  }
+
+  const requestId = `_${randomBytes(20).toString('hex')}`;
+
+  await db.ssoLoginState.create({
+    data: { state, providerId: provider.id, requestId, expiresAt: new Date(Date.now() + LOGIN_STATE_TTL) },
+  });
+
+  return { url: await buildSamlAuthorizeUrl(provider, { ...urls, relayState: state, requestId }), state };
+}
+
+/**
+ * Check the provider's answer to a login started by startSsoLogin() in this
+ * browser, whose state cookie is passed as browserState. Otherwise anyone
+ * could send a victim the callback URL of their own login and sign the
+ * victim in as themselves. The state is consumed, so the answer cannot be
+ * replayed.
+ */
+export async function completeSsoLogin(
+  provider: SsoProvider,
+  baseUrl: string,
+  response: { state: string | null; code?: string | null; samlResponse?: string | null },
+  browserState: string | undefined
+): Promise<SsoProfile> {
+  if (!response.state || !browserState || !safeEqual(response.state, browserState)) {
+    throw new SsoError('LOGIN_FAILED', 'Sign-in was not started in this browser, please try again');
+  }
+
+  const loginState = await db.ssoLoginState.findUnique({ where: { state: response.state } });
+
+  if (!loginState || loginState.providerId !== provider.id || loginState.expiresAt <= new Date()) {
+    throw new SsoError('LOGIN_FAILED', 'Sign-in expired or was not started here, please try again');
+  }
+
+  await db.ssoLoginState.delete({ where: { id: loginState.id } });
+
+  const urls = ssoUrls(provider, baseUrl);
+
+  try {
+    if (provider.protocol === SsoProtocol.OIDC) {
+      if (!response.code) {
+        throw new Error('The provider did not return an authorization code');
+      }
+      return await exchangeOidcCode(provider, {
+        redirectUri: urls.callbackUrl,
+        code: response.code,
+        codeVerifier: loginState.codeVerifier!,
+        nonce: loginState.nonce!,
+      });
+    }
+
+    if (!response.samlResponse) {
+      throw new Error('The provider did not return a SAML response');
+    }
+    return await validateSamlResponse(provider, {
+      ...urls,
+      samlResponse: response.samlResponse,
+      requestId: loginState.requestId!,
+    });
+  } catch (error) {
+    throw new SsoError('LOGIN_FAILED', `Sign-in with ${provider.name} failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+}
+
+/**
+ * The account role the user's groups map to: the highest mapped one, or the
+ * provider's default when none match. Null when the provider maps no groups,
+ * which leaves account roles alone. Only global providers map roles.
+ */
+function mapUserRole(provider: SsoProvider, groups: string[]): UserRole | null {
+  const mappings = parseRoleMappings(provider);
+  if (provider.organizationId || Object.keys(mappings).length === 0) {
+    return null;
+  }
+
+  return groups
+    .map((group) => mappings[group])
+    .filter((role): role is UserRole => !!role)
+    .reduce((highest, role) => USER_ROLE_RANK[role] > USER_ROLE_RANK[highest] ? role : highest, provider.defaultRole);
+}
+
+function hasEmailDomain(provider: SsoProvider, email: string): boolean {
+  return trustedEmailDomains(provider).includes(email.split('@')[1]?.toLowerCase());
+}
+
+/**
+ * Linking to an existing account hands it to whoever runs the provider, so
+ * only global providers may, for their domains or any when they list none.
+ */
+function canLinkExistingAccount(provider: SsoProvider, email: string): boolean {
+  if (provider.organizationId) {
+    return false;
+  }
+  return parseEmailDomains(provider).length === 0 || hasEmailDomain(provider, email);
+}
+
+/**
+ * Find or create the user behind an SSO profile. New users are created just
+ * in time; global providers keep account roles in step with the user's groups
+ * and organization providers make the user a member.
+ */
+export async function provisionSsoUser(provider: SsoProvider, profile: SsoProfile, metadata: Metadata = {}): Promise<User> {
+  const identity = await db.ssoIdentity.findUnique({
+    where: { providerId_subject: { providerId: provider.id, subject: profile.subject } },
+    include: { user: true },
+  });
+
+  // Organization providers only sign in addresses from the domains they proved they own
+  if (provider.organizationId && !hasEmailDomain(provider, profile.email)) {
+    throw new SsoError('FORBIDDEN', `${provider.name} cannot sign in ${profile.email}`);
+  }
+
+  let user = identity?.user ?? await db.user.findUnique({ where: { email: profile.email } });
+
+  if (!identity && user && !canLinkExistingAccount(provider, profile.email)) {
+    throw new SsoError('CONFLICT', `An account for ${profile.email} already exists; sign in to it another way`);
+  }
+
+  if (!user) {
+    user = await db.user.create({
+      data: {
+        email: profile.email,
+        name: profile.name,
+        password: null,
+        role: mapUserRole(provider, profile.groups) ?? provider.defaultRole,
+        emailVerified: true,
+      },
+    });
+
+    await db.billingInfo.create({
+      data: { userId: user.id, plan: 'FREE', billingCycle: 'MONTHLY' },
+    });
+
+    await createAuditLog({
+      userId: user.id,
+      action: AuditActions.USER_REGISTER,
+      resource: 'user',
+      resourceId: user.id,
+      details: `User created through SSO provider ${provider.name} with email: ${profile.email}`,
+      ...metadata,
+    });
+  } else {
+    const role = mapUserRole(provider, profile.groups);
+    if (role && role !== user.role) {
+      user = await db.user.update({ where: { id: user.id }, data: { role } });
+
+      await createAuditLog({
+        userId: user.id,
+        action: AuditActions.USER_UPDATE,
+        resource: 'user',
+        resourceId: user.id,
+        details: `Role set to ${role} from groups at SSO provider ${provider.name}`,
+        ...metadata,
+      });
+    }
+  }
+
+  if (!user.isActive) {
+    throw new SsoError('FORBIDDEN', 'This account is disabled');
+  }
+
+  await db.ssoIdentity.upsert({
+    where: { providerId_subject: { providerId: provider.id, subject: profile.subject } },
+    create: { providerId: provider.id, userId: user.id, subject: profile.subject, email: profile.email },
+    update: { email: profile.email, lastLoginAt: new Date() },
+  });
+
+  if (provider.organizationId) {
+    const membership = await db.membership.findUnique({
+      where: { organizationId_userId: { organizationId: provider.organizationId, userId: user.id } },
+    });
+
+    if (!membership) {
+      await db.membership.create({
+        data: { organizationId: provider.organizationId, userId: user.id, role: provider.memberRole },
+      });
+
+      await createAuditLog({
+        userId: user.id,
+        action: AuditActions.ORG_JOIN,
+        resource: 'organization',
+        resourceId: provider.organizationId,
+        details: `Joined as ${provider.memberRole} through SSO provider ${provider.name}`,
+        ...metadata,
+      });
+    }
+  }
+
+  return user;
+}
+
+/**
+ * What the login page picks up from the URL fragment after SSO: a session, or
+ * for accounts with 2FA a challenge to finish with a code.
+ */
+export async function finishSsoLogin(provider: SsoProvider, user: User, metadata: Metadata = {}): Promise<URLSearchParams> {
+  if (user.twoFactorEnabled) {
+    return new URLSearchParams({ challengeToken: generateTwoFactorChallenge(user.id) });
+  }
+
+  await sendNewLoginAlert(user, metadata);
+  const tokens = await createSession(user, metadata);
+
+  await createAuditLog({
+    userId: user.id,
+    action: AuditActions.USER_LOGIN,
+    resource: 'user',
+    resourceId: user.id,
+    details: `User logged in through SSO provider ${provider.name}`,
+    ...metadata,
+  });
+
+  return new URLSearchParams({
+    token: tokens.token,
+    refreshToken: tokens.refreshToken,
+    expiresIn: String(tokens.expiresIn),
+    user: JSON.stringify({ id: user.id, email: user.email, name: user.name, role: user.role, emailVerified: user.emailVerified }),
+    twoFactorSetupRequired: String(await isTwoFactorRequired(user)),
+  });
+}
@@ -0,0 +1,283 @@
+import { db } from './db';
+import { AppStatus, BillingCycle, BillingPlan, InvoiceStatus, SubscriptionStatus } from '@prisma/client';
+import { recordPlanChange, collectInvoicePayment } from './invoices';
+import { createAuditLog, AuditActions } from './audit';
+import { setAppStatus, setAppVmPower } from './apps';
+
+// Days an account may stay past due before its apps are suspended
+export const DUNNING_GRACE_DAYS = Number(process.env.DUNNING_GRACE_DAYS) || 7;
+
+export const DUNNING_INTERVAL = 60 * 60 * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface SubscriptionChange {
+  plan?: BillingPlan;
+  billingCycle?: BillingCycle;
+  subscriptionId?: string | null;
+}
+
+/**
+ * Change a user's plan or billing cycle. The plan time used so far is prorated
+ * onto this period's invoice before the change takes effect.
+ */
+export async function applySubscriptionChange(userId: string, change: SubscriptionChange, changedAt = new Date()) {
+  const previous = await db.billingInfo.findUnique({ where: { userId } });
+
+  if (!previous) {
+    const billing = await db.billingInfo.create({
+      data: {
+        userId,
+        plan: change.plan ?? BillingPlan.FREE,
+        billingCycle: change.billingCycle ?? BillingCycle.MONTHLY,
+        subscriptionId: change.subscriptionId,
+      },
+    });
+    return { billing, previous: null, planChanged: true, proration: null };
+  }
+
+  const planChanged = (!!change.plan && change.plan !== previous.plan)
+    || (!!change.billingCycle && change.billingCycle !== previous.billingCycle);
+  const proration = planChanged ? await recordPlanChange(userId, previous, changedAt) : null;
+
+  const billing = await db.billingInfo.update({
+    where: { userId },
+    data: {
+      plan: change.plan,
+      billingCycle: change.billingCycle,
+      subscriptionId: change.subscriptionId,
+    },
+  });
+
+  if (planChanged) {
+    await createAuditLog({
+      userId,
+      action: AuditActions.BILLING_UPDATE,
+      resource: 'billing',
+      resourceId: billing.id,
+      details: `Changed plan from ${previous.plan} (${previous.billingCycle}) to ${billing.plan} (${billing.billingCycle})`,
+    });
+  }
+
+  return { billing, previous, planChanged, proration };
+}
+
+// A cancelled subscription drops to the FREE plan; what is owed is still collected
+export async function cancelSubscription(userId: string, reason: string, canceledAt = new Date()) {
+  const { billing, previous } = await applySubscriptionChange(userId, { plan: BillingPlan.FREE, subscriptionId: null }, canceledAt);
+
+  if (previous?.canceledAt) {
+    return billing;
+  }
+
+  const updated = await db.billingInfo.update({
+    where: { userId },
+    data: {
+      canceledAt,
+      // Dunning keeps its own status until the account is settled
+      ...(billing.subscriptionStatus === SubscriptionStatus.ACTIVE ? { subscriptionStatus: SubscriptionStatus.CANCELED } : {}),
+    },
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.BILLING_CANCEL,
+    resource: 'billing',
+    resourceId: billing.id,
+    details: reason,
+  });
+
+  return updated;
+}
+
+// A new subscription after a cancellation
+export async function reactivateSubscription(userId: string, reason: string) {
+  const billing = await db.billingInfo.findUnique({ where: { userId } });
+  if (!billing?.canceledAt) {
+    return billing;
+  }
+
+  const updated = await db.billingInfo.update({
+    where: { userId },
+    data: {
+      canceledAt: null,
+      ...(billing.subscriptionStatus === SubscriptionStatus.CANCELED ? { subscriptionStatus: SubscriptionStatus.ACTIVE } : {}),
+    },
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.BILLING_REACTIVATE,
+    resource: 'billing',
+    resourceId: billing.id,
+    details: reason,
+  });
+
+  return updated;
+}
+
+export async function hasFailedInvoices(userId: string): Promise<boolean> {
+  const count = await db.invoice.count({
+    where: { userId, status: InvoiceStatus.OPEN, paymentError: { not: null } },
+  });
+  return count > 0;
+}
+
+export async function markPastDue(userId: string, reason: string, at = new Date()) {
+  const billing = await db.billingInfo.findUnique({ where: { userId } });
+  if (!billing || billing.subscriptionStatus === SubscriptionStatus.PAST_DUE || billing.subscriptionStatus === SubscriptionStatus.SUSPENDED) {
+    return billing;
+  }
+
+  const updated = await db.billingInfo.update({
+    where: { userId },
+    data: { subscriptionStatus: SubscriptionStatus.PAST_DUE, pastDueSince: at },
+  });
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.BILLING_PAST_DUE,
+    resource: 'billing',
+    resourceId: billing.id,
+    details: `${reason}; apps are suspended after ${DUNNING_GRACE_DAYS} days`,
+  });
+
+  return updated;
+}
+
+// Stops every running app of a past-due account
+export async function suspendAccount(userId: string, at = new Date()) {
+  const billing = await db.billingInfo.update({
+    where: { userId },
+    data: { subscriptionStatus: SubscriptionStatus.SUSPENDED, suspendedAt: at },
+  });
+
+  const apps = await db.app.findMany({
+    where: { userId, status: AppStatus.RUNNING },
+    select: { id: true, agentId: true },
+  });
+
+  for (const app of apps) {
+    await db.app.update({ where: { id: app.id }, data: { suspendedAt: at } });
+    await setAppVmPower(app, 'stop_vm');
+    await setAppStatus(app.id, AppStatus.STOPPED);
+  }
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.BILLING_SUSPEND,
+    resource: 'billing',
+    resourceId: billing.id,
+    details: `Suspended ${apps.length} app(s) after ${DUNNING_GRACE_DAYS} days past due`,
+  });
+
+  return billing;
+}
+
+/**
+ * Return a past-due or suspended account to good standing once nothing it owes
+ * has a failed payment, restarting the apps dunning stopped.
+ */
+export async function settleAccount(userId: string, reason: string) {
+  const billing = await db.billingInfo.findUnique({ where: { userId } });
+  if (!billing || (billing.subscriptionStatus !== SubscriptionStatus.PAST_DUE && billing.subscriptionStatus !== SubscriptionStatus.SUSPENDED)) {
+    return billing;
+  }
+
+  if (await hasFailedInvoices(userId)) {
+    return billing;
+  }
+
+  const updated = await db.billingInfo.update({
+    where: { userId },
+    data: {
+      subscriptionStatus: billing.canceledAt ? SubscriptionStatus.CANCELED : SubscriptionStatus.ACTIVE,
+      pastDueSince: null,
+      suspendedAt: null,
+    },
+  });
+
+  const apps = await db.app.findMany({
+    where: { userId, suspendedAt: { not: null } },
+    select: { id: true, agentId: true, status: true },
+  });
+
+  for (const app of apps) {
+    await db.app.update({ where: { id: app.id }, data: { suspendedAt: null } });
+    if (app.status === AppStatus.STOPPED) {
+      await setAppVmPower(app, 'start_vm');
+      await setAppStatus(app.id, AppStatus.RUNNING);
+    }
+  }
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.BILLING_REACTIVATE,
+    resource: 'billing',
+    resourceId: billing.id,
+    details: `${reason}; resumed ${apps.length} app(s)`,
+  });
+
+  return updated;
+}
+
+/**
+ * One dunning pass: retry payments that are due, mark accounts with failed
+ * payments past due, and suspend those past the grace period.
+ */
+export async function runDunning(now = new Date()) {
+  const due = await db.invoice.findMany({
+    where: { status: InvoiceStatus.OPEN, nextPaymentAttemptAt: { lte: now } },
+    select: { id: true },
+  });
+
+  for (const { id } of due) {
+    try {
+      const invoice = await collectInvoicePayment(id);
+      if (invoice.status === InvoiceStatus.PAID) {
+        await settleAccount(invoice.userId, `Invoice ${invoice.number} paid on retry`);
+      }
+    } catch (error) {
+      console.error(`Failed to retry payment of invoice ${id}:`, error);
+    }
+  }
+
+  const failing = await db.invoice.findMany({
+    where: { status: InvoiceStatus.OPEN, paymentError: { not: null } },
+    select: { userId: true, number: true },
+    distinct: ['userId'],
+  });
+
+  for (const invoice of failing) {
+    await markPastDue(invoice.userId, `Payment of invoice ${invoice.number} failed`, now);
+  }
+
+  const overdue = await db.billingInfo.findMany({
+    where: {
+      subscriptionStatus: SubscriptionStatus.PAST_DUE,
+      pastDueSince: { lte: new Date(now.getTime() - DUNNING_GRACE_DAYS * DAY) },
+    },
+    select: { userId: true },
+  });
+
+  for (const { userId } of overdue) {
+    await suspendAccount(userId, now);
+  }
+}
+
+let dunningTimer: NodeJS.Timeout | null = null;
+
+export function startDunning() {
+  if (dunningTimer) {
+    return;
+  }
+
+  const run = () => {
+    runDunning().catch((error) => {
+      console.error('Dunning run failed:', error);
+    });
+  };
+
+  run();
+  dunningTimer = setInterval(run, DUNNING_INTERVAL);
+}
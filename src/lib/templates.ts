@@ -0,0 +1,417 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import type { AppConfig, AppPort } from './apps';
+
+export const LIMA_TEMPLATES_DIR = process.env.LIMA_TEMPLATES_DIR || path.join(process.cwd(), 'lima-templates');
+
+// Lima instance names only allow [a-zA-Z0-9_.-]; template ids double as file names
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const INSTANCE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+const NAME_PLACEHOLDER = /\{\{\s*\.Name\s*\}\}/g;
+const SIZE_PATTERN = /^(\d+(?:\.\d+)?)\s*(MiB|GiB|TiB)$/;
+
+// Bounds no template range may exceed, matching what POST /api/apps accepts
+export const DEFAULT_RESOURCE_RANGES = {
+  cpus: { min: 1, max: 16 },
+  memory: { min: 1, max: 64 },
+  disk: { min: 1, max: 1000 },
+};
+
+export type TemplateErrorCode = 'NOT_FOUND' | 'INVALID_TEMPLATE' | 'INVALID_OVERRIDES';
+
+export class TemplateError extends Error {
+  constructor(public code: TemplateErrorCode, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const rangeSchema = z.object({
+  min: z.number().positive(),
+  max: z.number().positive(),
+}).refine(range => range.min <= range.max, { message: 'min must not exceed max' });
+
+const templateMetadataSchema = z.object({
+  displayName: z.string().min(1),
+  description: z.string().default(''),
+  category: z.string().default('Other'),
+  features: z.array(z.string()).default([]),
+  defaultDockerImage: z.string().default(''),
+  ports: z.array(z.object({
+    guest: z.number().int().min(1).max(65535),
+    host: z.number().int().min(1).max(65535),
+    protocol: z.string(),
+  })).default([]),
+  resources: z.object({
+    cpus: rangeSchema,
+    memory: rangeSchema,
+    disk: rangeSchema,
+  }),
+});
+
+const portForwardSchema = z.looseObject({
+  guestPort: z.number().int().min(1).max(65535).optional(),
+  hostPort: z.number().int().min(0).max(65535).optional(),
+  proto: z.enum(['tcp', 'udp', 'any']).optional(),
+});
+
+const provisionSchema = z.looseObject({
+  mode: z.enum(['system', 'user', 'boot', 'dependency']),
+  script: z.string().min(1),
+});
+
+const probeSchema = z.looseObject({
+  mode: z.enum(['readiness']).optional(),
+  description: z.string().optional(),
+  script: z.string().min(1),
+  hint: z.string().optional(),
+});
+
+// The parts of a Lima config the control plane relies on; anything else is passed through
+export const limaConfigSchema = z.looseObject({
+  arch: z.string().optional(),
+  images: z.array(z.looseObject({
+    location: z.string().min(1),
+    arch: z.string().optional(),
+  })).min(1),
+  cpus: z.number().int().positive(),
+  memory: z.string().regex(SIZE_PATTERN),
+  disk: z.string().regex(SIZE_PATTERN),
+  mounts: z.array(z.looseObject({
+    location: z.string().min(1),
+    writable: z.boolean().optional(),
+    mountPoint: z.string().optional(),
+  })).optional(),
+  ssh: z.looseObject({
+    forwardAgent: z.boolean().optional(),
+    forwardX11: z.boolean().optional(),
+  }).optional(),
+  portForwards: z.array(portForwardSchema).optional(),
+  provision: z.array(provisionSchema).optional(),
+  probes: z.array(probeSchema).optional(),
+});
+
+export type LimaConfig = z.infer<typeof limaConfigSchema>;
+
+export const templateOverridesSchema = z.object({
+  cpus: z.number().int().positive().optional(),
+  memory: z.number().int().positive().optional(), // in GB
+  disk: z.number().int().positive().optional(), // in GB
+  portForwards: z.array(z.object({
+    guestPort: z.number().int().min(1).max(65535),
+    hostPort: z.number().int().min(1).max(65535),
+    proto: z.enum(['tcp', 'udp']).default('tcp'),
+  })).max(20).optional(), // replaces the template's port forwards
+  provision: z.array(z.object({
+    mode: z.enum(['system', 'user']),
+    script: z.string().min(1).max(64 * 1024),
+  })).max(10).optional(), // runs after the template's own provisioning
+});
+
+export type TemplateOverrides = z.input<typeof templateOverridesSchema>;
+
+export interface ResourceRange {
+  min: number;
+  max: number;
+}
+
+export interface LimaTemplate {
+  id: string;
+  // Set for custom templates, see src/lib/custom-templates.ts
+  revisionId?: string;
+  version?: number;
+  ownerId?: string;
+  visibility?: 'PRIVATE' | 'SHARED';
+  name: string;
+  description: string;
+  category: string;
+  features: string[];
+  defaults: {
+    cpu: number;
+    memory: number; // in GB
+    disk: number; // in GB
+    dockerImage: string;
+    ports: AppPort[];
+  };
+  ranges: {
+    cpu: ResourceRange;
+    memory: ResourceRange;
+    disk: ResourceRange;
+  };
+  config: LimaConfig; // Lima config with the registry metadata removed
+}
+
+export interface TemplateFinding {
+  path: string;
+  message: string;
+}
+
+type TemplateMetadataInput = z.input<typeof templateMetadataSchema>;
+
+const cache = new Map<string, { mtimeMs: number; template: LimaTemplate }>();
+
+// Lima sizes such as "4GiB" or "512MiB", in GB
+export function parseSize(size: string): number {
+  const match = size.match(SIZE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid size: ${size}`);
+  }
+
+  const value = parseFloat(match[1]);
+  return match[2] === 'MiB' ? value / 1024 : match[2] === 'TiB' ? value * 1024 : value;
+}
+
+function replacePlaceholders(value: unknown, name: string): unknown {
+  if (typeof value === 'string') {
+    return value.replace(NAME_PLACEHOLDER, name);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => replacePlaceholders(item, name));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replacePlaceholders(item, name)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Parse a template document: a Lima config plus a `limahost` block with the
+ * registry metadata, which may be left out when `defaults` cover it. The
+ * document's own `name` is dropped; Lima names the instance after the file it
+ * is started from.
+ */
+export function parseTemplate(id: string, source: string, defaults?: TemplateMetadataInput): LimaTemplate {
+  let document: unknown;
+  try {
+    document = yaml.load(source);
+  } catch (error) {
+    throw new TemplateError('INVALID_TEMPLATE', `Template ${id} is not valid YAML: ${(error as Error).message}`);
+  }
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new TemplateError('INVALID_TEMPLATE', `Template ${id} must be a YAML mapping`);
+  }
+
+  const { limahost, name: _name, ...rest } = document as Record<string, unknown>;
+
+  const metadata = templateMetadataSchema.safeParse({
+    ...defaults,
+    ...(limahost && typeof limahost === 'object' ? limahost : {}),
+  });
+  if (!metadata.success) {
+    throw new TemplateError('INVALID_TEMPLATE', `Template ${id} has invalid limahost metadata`, metadata.error.issues);
+  }
+
+  const config = limaConfigSchema.safeParse(rest);
+  if (!config.success) {
+    throw new TemplateError('INVALID_TEMPLATE', `Template ${id} is not a valid Lima config`, config.error.issues);
+  }
+
+  const { resources } = metadata.data;
+
+  return {
+    id,
+    name: metadata.data.displayName,
+    description: metadata.data.description,
+    category: metadata.data.category,
+    features: metadata.data.features,
+    defaults: {
+      cpu: config.data.cpus,
+      memory: parseSize(config.data.memory),
+      disk: parseSize(config.data.disk),
+      dockerImage: metadata.data.defaultDockerImage,
+      ports: metadata.data.ports,
+    },
+    ranges: {
+      cpu: resources.cpus,
+      memory: resources.memory,
+      disk: resources.disk,
+    },
+    config: config.data,
+  };
+}
+
+async function loadTemplateFile(id: string, filePath: string): Promise<LimaTemplate> {
+  const { mtimeMs } = await stat(filePath);
+  const cached = cache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.template;
+  }
+
+  const template = parseTemplate(id, await readFile(filePath, 'utf8'));
+  cache.set(filePath, { mtimeMs, template });
+
+  return template;
+}
+
+function templateFiles(entries: string[]) {
+  return entries
+    .map(file => ({ file, id: file.replace(/\.ya?ml$/, '') }))
+    .filter(({ file, id }) => id !== file && TEMPLATE_ID_PATTERN.test(id));
+}
+
+// Templates that fail to parse are logged and left out rather than breaking the listing
+export async function listTemplates(): Promise<LimaTemplate[]> {
+  const entries = await readdir(LIMA_TEMPLATES_DIR);
+  const templates: LimaTemplate[] = [];
+
+  for (const { file, id } of templateFiles(entries).sort((a, b) => a.id.localeCompare(b.id))) {
+    try {
+      templates.push(await loadTemplateFile(id, path.join(LIMA_TEMPLATES_DIR, file)));
+    } catch (error) {
+      console.error(`Failed to load Lima template ${file}:`, error);
+    }
+  }
+
+  return templates;
+}
+
+export async function getTemplate(id: string): Promise<LimaTemplate> {
+  if (!TEMPLATE_ID_PATTERN.test(id)) {
+    throw new TemplateError('NOT_FOUND', `Unknown template: ${id}`);
+  }
+
+  const match = templateFiles(await readdir(LIMA_TEMPLATES_DIR)).find(entry => entry.id === id);
+  if (!match) {
+    throw new TemplateError('NOT_FOUND', `Unknown template: ${id}`);
+  }
+
+  return loadTemplateFile(id, path.join(LIMA_TEMPLATES_DIR, match.file));
+}
+
+function checkRange(label: string, value: number | undefined, range: ResourceRange) {
+  if (value !== undefined && (value < range.min || value > range.max)) {
+    throw new TemplateError(
+      'INVALID_OVERRIDES',
+      `${label} must be between ${range.min} and ${range.max}`,
+      { field: label, min: range.min, max: range.max, value }
+    );
+  }
+}
+
+// Throws a TemplateError unless the overrides are well-formed and within the template's ranges
+export function validateTemplateOverrides(template: LimaTemplate, overrides: TemplateOverrides = {}) {
+  const parsed = templateOverridesSchema.safeParse(overrides);
+  if (!parsed.success) {
+    throw new TemplateError('INVALID_OVERRIDES', 'Invalid template overrides', parsed.error.issues);
+  }
+
+  checkRange('cpus', parsed.data.cpus, template.ranges.cpu);
+  checkRange('memory', parsed.data.memory, template.ranges.memory);
+  checkRange('disk', parsed.data.disk, template.ranges.disk);
+
+  return parsed.data;
+}
+
+/**
+ * Render a template for the Lima instance `name`: apply the overrides within
+ * the template's resource ranges, fill in `{{.Name}}` and validate the result.
+ */
+export function renderTemplate(template: LimaTemplate, name: string, overrides: TemplateOverrides = {}): LimaConfig {
+  if (!INSTANCE_NAME_PATTERN.test(name)) {
+    throw new TemplateError('INVALID_OVERRIDES', `Invalid instance name: ${name}`);
+  }
+
+  const { cpus, memory, disk, portForwards, provision } = validateTemplateOverrides(template, overrides);
+  const config: Record<string, unknown> = structuredClone(template.config);
+
+  if (cpus !== undefined) config.cpus = cpus;
+  if (memory !== undefined) config.memory = `${memory}GiB`;
+  if (disk !== undefined) config.disk = `${disk}GiB`;
+  if (portForwards) config.portForwards = portForwards;
+  if (provision?.length) {
+    config.provision = [...(template.config.provision || []), ...provision];
+  }
+
+  const rendered = limaConfigSchema.safeParse(replacePlaceholders(config, name));
+  if (!rendered.success) {
+    throw new TemplateError('INVALID_OVERRIDES', 'Rendered Lima config is invalid', rendered.error.issues);
+  }
+
+  return rendered.data;
+}
+
+export function toLimaYaml(config: LimaConfig): string {
+  return yaml.dump(config, { lineWidth: -1, noRefs: true });
+}
+
+// App ports are published on the same guest port by the deployment pipeline, see START_CONTAINER
+export function getAppTemplateOverrides(config: AppConfig): TemplateOverrides {
+  return {
+    cpus: config.cpu,
+    memory: config.memory,
+    disk: config.disk,
+    portForwards: config.ports?.length
+      ? config.ports.map(port => ({ guestPort: port.guest, hostPort: port.host, proto: 'tcp' as const }))
+      : undefined,
+    provision: config.provision,
+  };
+}
+
+// Mount locations as Lima sees them, with `{{.Home}}` spelled as `~` and `..` resolved
+function normalizeMountLocation(location: string): string {
+  const normalized = path.posix.normalize(location.replace(/\{\{\s*\.Home\s*\}\}/g, '~'));
+  return normalized.endsWith('/') && normalized.length > 1 ? normalized.slice(0, -1) : normalized;
+}
+
+/**
+ * Flag settings that reach outside the VM: writable host mounts anywhere but
+ * the template's own `~/.lima/<template>/{{.Name}}` directory, read-only mounts
+ * of the whole home directory or filesystem, and SSH agent or X11 forwarding.
+ */
+export function findDangerousSettings(templateId: string, config: LimaConfig): TemplateFinding[] {
+  const findings: TemplateFinding[] = [];
+  const allowedRoot = `~/.lima/${templateId}/{{.Name}}`;
+
+  (config.mounts || []).forEach((mount, index) => {
+    const location = normalizeMountLocation(mount.location);
+
+    if (mount.writable && location !== allowedRoot && !location.startsWith(`${allowedRoot}/`)) {
+      findings.push({
+        path: `mounts[${index}].location`,
+        message: `Writable host mount ${mount.location} is outside ${allowedRoot}`,
+      });
+    } else if (['~', '/'].includes(location)) {
+      findings.push({
+        path: `mounts[${index}].location`,
+        message: `Mount ${mount.location} exposes the whole ${location === '~' ? 'home directory' : 'host filesystem'}`,
+      });
+    }
+  });
+
+  if (config.ssh?.forwardAgent === true) {
+    findings.push({ path: 'ssh.forwardAgent', message: 'forwardAgent exposes the host SSH agent to the VM' });
+  }
+
+  if (config.ssh?.forwardX11 === true) {
+    findings.push({ path: 'ssh.forwardX11', message: 'forwardX11 exposes the host X server to the VM' });
+  }
+
+  return findings;
+}
+
+export function serializeTemplate(template: LimaTemplate) {
+  return {
+    id: template.id,
+    source: template.revisionId ? 'custom' : 'builtin',
+    version: template.version ?? null,
+    ownerId: template.ownerId ?? null,
+    visibility: template.visibility ?? 'SHARED',
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    features: template.features,
+    defaults: template.defaults,
+    ranges: template.ranges,
+    portForwards: template.config.portForwards || [],
+    mounts: template.config.mounts || [],
+    findings: findDangerousSettings(template.id, template.config),
+  };
+}
@@ -0,0 +1,327 @@
+import type { Server, Socket } from 'socket.io';
+import { createWriteStream, WriteStream } from 'fs';
+import { mkdir } from 'fs/promises';
+import path from 'path';
+import { TerminalSessionStatus } from '@prisma/client';
+import { db } from './db';
+import { createAuditLog, AuditActions } from './audit';
+import { canAccessApp, getAppVmName } from './apps';
+import { isAgentConnected, sendAgentRequest, sendAgentMessage, onAgentEvent } from './agent-gateway';
+import { COMMAND_POLICIES } from './command-policy';
+import { resolveClientAddress } from './rate-limit';
+import { authenticateSocket, SocketUser } from './socket';
+
+// Clients connect with io('/terminal', { path: '/api/socketio', auth: { token } })
+export const TERMINAL_NAMESPACE = '/terminal';
+export const TERMINAL_IDLE_TIMEOUT = parseInt(process.env.TERMINAL_IDLE_TIMEOUT || '') || 15 * 60 * 1000; // 15 minutes
+export const TERMINAL_RECORDINGS_DIR = process.env.TERMINAL_RECORDINGS_DIR || path.join(process.cwd(), 'recordings', 'terminal');
+
+const RECORD_ALL_SESSIONS = process.env.TERMINAL_RECORD_ALL === 'true';
+const OPEN_TIMEOUT = 30000;
+const MAX_INPUT_LENGTH = 64 * 1024;
+const MAX_DIMENSION = 1000;
+
+export type TerminalCloseReason =
+  | 'client_closed'
+  | 'client_disconnected'
+  | 'idle_timeout'
+  | 'exited'
+  | 'agent_disconnected';
+
+interface TerminalOpenRequest {
+  appId: string;
+  cols?: number;
+  rows?: number;
+  record?: boolean;
+}
+
+interface ActiveTerminalSession {
+  id: string;
+  appId: string;
+  agentId: string;
+  user: SocketUser;
+  socket: Socket;
+  startedAt: number;
+  idleTimer: NodeJS.Timeout | null;
+  recording: WriteStream | null;
+  closed: boolean;
+}
+
+type TerminalAck = (response: { success: boolean; sessionId?: string; error?: string }) => void;
+
+const sessions = new Map<string, ActiveTerminalSession>();
+
+function clampDimension(value: unknown, fallback: number): number {
+  const parsed = Math.floor(Number(value));
+  return parsed > 0 ? Math.min(parsed, MAX_DIMENSION) : fallback;
+}
+
+// server.ts does not rewrite x-forwarded-for on /api/socketio, so resolve it here with the same TRUST_PROXY rule
+function getSocketMetadata(socket: Socket) {
+  return {
+    ipAddress: resolveClientAddress(socket.request) || socket.handshake.address,
+    userAgent: socket.handshake.headers['user-agent'],
+  };
+}
+
+// asciicast v2: a JSON header line followed by [elapsedSeconds, code, data] event lines
+async function startRecording(sessionId: string, cols: number, rows: number, title: string) {
+  await mkdir(TERMINAL_RECORDINGS_DIR, { recursive: true });
+
+  const recordingPath = path.join(TERMINAL_RECORDINGS_DIR, `${sessionId}.cast`);
+  const stream = createWriteStream(recordingPath, { flags: 'w' });
+
+  stream.write(JSON.stringify({
+    version: 2,
+    width: cols,
+    height: rows,
+    timestamp: Math.floor(Date.now() / 1000),
+    title,
+    env: { TERM: 'xterm-256color' },
+  }) + '\n');
+
+  return { stream, recordingPath };
+}
+
+// Only output and resizes are recorded; raw input could contain passwords typed at no-echo prompts
+function recordEvent(session: ActiveTerminalSession, code: 'o' | 'r', data: string) {
+  if (!session.recording) return;
+
+  const elapsed = (Date.now() - session.startedAt) / 1000;
+  session.recording.write(JSON.stringify([Number(elapsed.toFixed(6)), code, data]) + '\n');
+}
+
+function resetIdleTimer(session: ActiveTerminalSession) {
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+  }
+
+  session.idleTimer = setTimeout(() => {
+    closeTerminalSession(session, 'idle_timeout').catch((error) => {
+      console.error('Failed to close idle terminal session:', error);
+    });
+  }, TERMINAL_IDLE_TIMEOUT);
+}
+
+async function openTerminalSession(socket: Socket, user: SocketUser, request: TerminalOpenRequest) {
+  const app = request?.appId
+    ? await db.app.findUnique({ where: { id: request.appId } })
+    : null;
+
+  if (!app || !await canAccessApp(app, user, 'app:exec')) {
+    throw new Error('App not found');
+  }
+
+  if (!app.agentId) {
+    throw new Error('App has not been deployed yet');
+  }
+
+  if (!isAgentConnected(app.agentId)) {
+    throw new Error('Agent hosting this app is not connected');
+  }
+
+  const cols = clampDimension(request.cols, 80);
+  const rows = clampDimension(request.rows, 24);
+  const vmName = getAppVmName(app);
+
+  const record = await db.terminalSession.create({
+    data: {
+      appId: app.id,
+      userId: user.id,
+      agentId: app.agentId,
+      vmName,
+      cols,
+      rows,
+    },
+  });
+
+  const session: ActiveTerminalSession = {
+    id: record.id,
+    appId: app.id,
+    agentId: app.agentId,
+    user,
+    socket,
+    startedAt: Date.now(),
+    idleTimer: null,
+    recording: null,
+    closed: false,
+  };
+
+  if (request.record || RECORD_ALL_SESSIONS) {
+    const { stream, recordingPath } = await startRecording(record.id, cols, rows, `${app.name} (${vmName})`);
+    session.recording = stream;
+    await db.terminalSession.update({
+      where: { id: record.id },
+      data: { recordingPath },
+    });
+  }
+
+  // Register before the agent answers so no early output is dropped
+  sessions.set(session.id, session);
+
+  try {
+    await sendAgentRequest(app.agentId, 'terminal_open', {
+      sessionId: session.id,
+      vmName,
+      cols,
+      rows,
+      runAs: COMMAND_POLICIES[user.role].terminalUser,
+      role: user.role,
+    }, { timeout: OPEN_TIMEOUT });
+  } catch (error) {
+    session.closed = true;
+    sessions.delete(session.id);
+    session.recording?.end();
+    await db.terminalSession.update({
+      where: { id: session.id },
+      data: { status: TerminalSessionStatus.CLOSED, closeReason: 'open_failed', endedAt: new Date() },
+    });
+    throw error;
+  }
+
+  resetIdleTimer(session);
+
+  await createAuditLog({
+    userId: user.id,
+    appId: app.id,
+    action: AuditActions.TERMINAL_OPEN,
+    resource: 'terminal_session',
+    resourceId: session.id,
+    details: `Opened terminal on ${vmName}${session.recording ? ' (recorded)' : ''}`,
+    ...getSocketMetadata(socket),
+  });
+
+  return session;
+}
+
+async function closeTerminalSession(
+  session: ActiveTerminalSession,
+  reason: TerminalCloseReason,
+  exitCode: number | null = null
+) {
+  if (session.closed) return;
+  session.closed = true;
+
+  sessions.delete(session.id);
+
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+  }
+
+  // The PTY is already gone when it exited or its agent went away
+  if (reason !== 'exited' && reason !== 'agent_disconnected') {
+    sendAgentMessage(session.agentId, 'terminal_close', { sessionId: session.id });
+  }
+
+  session.recording?.end();
+  session.socket.emit('terminal:exit', { sessionId: session.id, reason, exitCode });
+
+  await db.terminalSession.update({
+    where: { id: session.id },
+    data: {
+      status: TerminalSessionStatus.CLOSED,
+      closeReason: reason,
+      endedAt: new Date(),
+    },
+  });
+
+  await createAuditLog({
+    userId: session.user.id,
+    appId: session.appId,
+    action: AuditActions.TERMINAL_CLOSE,
+    resource: 'terminal_session',
+    resourceId: session.id,
+    details: `Terminal closed (${reason}) after ${Math.round((Date.now() - session.startedAt) / 1000)}s`,
+    ...getSocketMetadata(session.socket),
+  });
+}
+
+export const setupTerminal = (io: Server) => {
+  onAgentEvent('terminal_output', (agentId, { sessionId, data }) => {
+    const session = sessions.get(sessionId);
+    if (!session || session.agentId !== agentId) return;
+
+    session.socket.emit('terminal:output', data);
+    recordEvent(session, 'o', data);
+  });
+
+  onAgentEvent('terminal_exit', (agentId, { sessionId, exitCode }) => {
+    const session = sessions.get(sessionId);
+    if (!session || session.agentId !== agentId) return;
+
+    closeTerminalSession(session, 'exited', exitCode).catch((error) => {
+      console.error('Failed to close terminal session:', error);
+    });
+  });
+
+  onAgentEvent('disconnected', (agentId) => {
+    for (const session of sessions.values()) {
+      if (session.agentId === agentId) {
+        closeTerminalSession(session, 'agent_disconnected').catch((error) => {
+          console.error('Failed to close terminal session:', error);
+        });
+      }
+    }
+  });
+
+  const terminal = io.of(TERMINAL_NAMESPACE);
+
+  terminal.use((socket, next) => {
+    authenticateSocket(socket, next).catch(() => next(new Error('Authentication failed')));
+  });
+
+  terminal.on('connection', (socket) => {
+    const user = socket.data.user as SocketUser;
+    let session: ActiveTerminalSession | null = null;
+
+    // One terminal session per socket connection
+    socket.on('terminal:open', async (request: TerminalOpenRequest, ack?: TerminalAck) => {
+      if (session && !session.closed) {
+        return ack?.({ success: false, error: 'A terminal session is already open on this connection' });
+      }
+      // A shell can change anything, so unverified accounts do not get one
+      if (!user.emailVerified) {
+        return ack?.({ success: false, error: 'Verify your email address to open a terminal' });
+      }
+
+      try {
+        session = await openTerminalSession(socket, user, request);
+        ack?.({ success: true, sessionId: session.id });
+      } catch (error) {
+        ack?.({ success: false, error: error instanceof Error ? error.message : 'Failed to open terminal' });
+      }
+    });
+
+    socket.on('terminal:input', (data: string) => {
+      if (!session || session.closed || typeof data !== 'string' || data.length > MAX_INPUT_LENGTH) return;
+
+      resetIdleTimer(session);
+      sendAgentMessage(session.agentId, 'terminal_input', { sessionId: session.id, data });
+    });
+
+    socket.on('terminal:resize', (size: { cols: number; rows: number }) => {
+      if (!session || session.closed) return;
+
+      const cols = clampDimension(size?.cols, 80);
+      const rows = clampDimension(size?.rows, 24);
+      sendAgentMessage(session.agentId, 'terminal_resize', { sessionId: session.id, cols, rows });
+      recordEvent(session, 'r', `${cols}x${rows}`);
+    });
+
+    socket.on('terminal:close', () => {
+      if (session) {
+        closeTerminalSession(session, 'client_closed').catch((error) => {
+          console.error('Failed to close terminal session:', error);
+        });
+      }
+    });
+
+    socket.on('disconnect', () => {
+      if (session) {
+        closeTerminalSession(session, 'client_disconnected').catch((error) => {
+          console.error('Failed to close terminal session:', error);
+        });
+      }
+    });
+  });
+};
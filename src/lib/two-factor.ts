@@ -0,0 +1,316 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import { User, UserRole } from '@prisma/client';
+import { db } from './db';
+import { createAuditLog, AuditActions } from './audit';
+import { sendSecurityAlert } from './account-emails';
+
+const TOTP_ISSUER = 'LimaHost';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step either side are accepted, to allow for clock drift
+const TOTP_DRIFT_STEPS = 1;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// After this many codes tried within the window without one succeeding, codes are refused until it passes
+export const MAX_FAILED_TWO_FACTOR_ATTEMPTS = 5;
+const FAILED_ATTEMPT_WINDOW = 15 * 60 * 1000;
+
+// ADMIN and SUPER_ADMIN accounts must enroll when this is set
+const REQUIRE_ADMIN_TWO_FACTOR = process.env.REQUIRE_ADMIN_TWO_FACTOR === 'true';
+
+// What a session without required 2FA may still reach: enough to enroll, look around and leave
+const ENROLLMENT_PATHS = ['/api/auth/2fa', '/api/auth/me', '/api/auth/logout', '/api/auth/sessions'];
+
+type Metadata = { ipAddress?: string; userAgent?: string };
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      continue;
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 6238 with the defaults every authenticator app supports: SHA-1, 6 digits, 30 seconds
+function totpCode(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// The time step the code belongs to, or null if it matches none near now
+function matchTotpCounter(secret: string, code: string): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null;
+  }
+
+  const current = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let counter = current - TOTP_DRIFT_STEPS; counter <= current + TOTP_DRIFT_STEPS; counter++) {
+    if (timingSafeEqual(Buffer.from(totpCode(secret, counter)), Buffer.from(code))) {
+      return counter;
+    }
+  }
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+// Recovery codes are longer, so the two cannot be confused
+export function isTotpCode(code: string): boolean {
+  return code.replace(/\s/g, '').length === TOTP_DIGITS;
+}
+
+/**
+ * Whether the user has to use 2FA: an admin account while REQUIRE_ADMIN_TWO_FACTOR
+ * is set, or a member of any organization that requires it.
+ */
+export async function isTwoFactorRequired(user: { id: string; role: UserRole }): Promise<boolean> {
+  if (REQUIRE_ADMIN_TWO_FACTOR && (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN)) {
+    return true;
+  }
+
+  const enforcing = await db.membership.count({
+    where: { userId: user.id, organization: { requireTwoFactor: true } },
+  });
+  return enforcing > 0;
+}
+
+export function isEnrollmentPath(pathname: string): boolean {
+  return ENROLLMENT_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+/**
+ * Start enrollment with a fresh secret. 2FA stays off until a code from it is
+ * confirmed with enableTwoFactor(), so an abandoned enrollment changes nothing.
+ */
+export async function beginTwoFactorSetup(user: Pick<User, 'id' | 'email'>) {
+  const secret = base32Encode(randomBytes(20));
+
+  await db.user.update({
+    where: { id: user.id },
+    data: { twoFactorSecret: secret, twoFactorLastCounter: null },
+  });
+
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Check a TOTP code and remember its time step, so the same code cannot be
+ * used twice, even by two requests at once. Does not count attempts; see
+ * claimTwoFactorAttempt().
+ */
+export async function verifyTotp(
+  user: Pick<User, 'id' | 'twoFactorSecret'>,
+  code: string
+): Promise<boolean> {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+
+  const counter = matchTotpCounter(user.twoFactorSecret, code.replace(/\s/g, ''));
+  if (counter === null) {
+    return false;
+  }
+
+  const { count } = await db.user.updateMany({
+    where: { id: user.id, OR: [{ twoFactorLastCounter: null }, { twoFactorLastCounter: { lt: counter } }] },
+    data: { twoFactorLastCounter: counter },
+  });
+  return count > 0;
+}
+
+// Marks the code used; each one works once
+export async function redeemRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const { count } = await db.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0;
+}
+
+// Accepts either a TOTP code or a recovery code
+export async function verifySecondFactor(
+  user: Pick<User, 'id' | 'twoFactorSecret'>,
+  code: string
+): Promise<boolean> {
+  return isTotpCode(code) ? verifyTotp(user, code) : redeemRecoveryCode(user.id, code);
+}
+
+/**
+ * Replace the user's recovery codes with a new set. The codes are returned
+ * once and stored hashed.
+ */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await db.$transaction([
+    db.recoveryCode.deleteMany({ where: { userId } }),
+    db.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+export async function enableTwoFactor(userId: string, metadata: Metadata = {}) {
+  const user = await db.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date() },
+  });
+
+  const recoveryCodes = await generateRecoveryCodes(userId);
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.TWO_FACTOR_ENABLE,
+    resource: 'user',
+    resourceId: userId,
+    details: 'Enabled two-factor authentication',
+    ...metadata,
+  });
+
+  await sendSecurityAlert(user, 'Two-factor authentication was turned on', metadata);
+
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(userId: string, metadata: Metadata = {}) {
+  const [user] = await db.$transaction([
+    db.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastCounter: null,
+        twoFactorEnabledAt: null,
+        twoFactorFailures: 0,
+        twoFactorFailuresAt: null,
+      },
+    }),
+    db.recoveryCode.deleteMany({ where: { userId } }),
+  ]);
+
+  await createAuditLog({
+    userId,
+    action: AuditActions.TWO_FACTOR_DISABLE,
+    resource: 'user',
+    resourceId: userId,
+    details: 'Disabled two-factor authentication',
+    ...metadata,
+  });
+
+  await sendSecurityAlert(user, 'Two-factor authentication was turned off', metadata);
+}
+
+export async function recordTwoFactorFailure(userId: string, context: string, metadata: Metadata = {}) {
+  await createAuditLog({
+    userId,
+    action: AuditActions.TWO_FACTOR_FAILED,
+    resource: 'user',
+    resourceId: userId,
+    details: `Wrong two-factor code (${context})`,
+    ...metadata,
+  });
+}
+
+/**
+ * Count an attempt before its code is checked, or return false when the user
+ * is locked out. Each count is a conditional update, so requests sent at once
+ * cannot together try more than the limit. A right code gives the attempts
+ * back through clearTwoFactorFailures().
+ */
+export async function claimTwoFactorAttempt(userId: string): Promise<boolean> {
+  const now = new Date();
+
+  // A window that has passed starts over
+  await db.user.updateMany({
+    where: { id: userId, twoFactorFailuresAt: { lt: new Date(now.getTime() - FAILED_ATTEMPT_WINDOW) } },
+    data: { twoFactorFailures: 0, twoFactorFailuresAt: null },
+  });
+
+  const first = await db.user.updateMany({
+    where: { id: userId, twoFactorFailures: 0 },
+    data: { twoFactorFailures: 1, twoFactorFailuresAt: now },
+  });
+  if (first.count > 0) {
+    return true;
+  }
+
+  const next = await db.user.updateMany({
+    where: { id: userId, twoFactorFailures: { gt: 0, lt: MAX_FAILED_TWO_FACTOR_ATTEMPTS } },
+    data: { twoFactorFailures: { increment: 1 } },
+  });
+  return next.count > 0;
+}
+
+export async function clearTwoFactorFailures(userId: string) {
+  await db.user.update({
+    where: { id: userId },
+    data: { twoFactorFailures: 0, twoFactorFailuresAt: null },
+  });
+}
+
+export async function getTwoFactorStatus(user: Pick<User, 'id' | 'role' | 'password' | 'twoFactorEnabled' | 'twoFactorEnabledAt'>) {
+  return {
+    enabled: user.twoFactorEnabled,
+    hasPassword: !!user.password, // accounts created through SSO have none to confirm with
+    enabledAt: user.twoFactorEnabledAt?.toISOString() ?? null,
+    required: await isTwoFactorRequired(user),
+    recoveryCodesRemaining: user.twoFactorEnabled
+      ? await db.recoveryCode.count({ where: { userId: user.id, usedAt: null } })
+      : 0,
+  };
+}